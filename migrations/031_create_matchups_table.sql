@@ -0,0 +1,33 @@
+-- Create matchups table for persisted weekly head-to-head pairings
+-- Pairings are materialized from a completed matchup draft or a generated round-robin schedule
+-- roster1_id / roster2_id reference rosters.id (database PK), same as matchup_draft_picks
+
+CREATE TABLE IF NOT EXISTS matchups (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    season VARCHAR(4) NOT NULL,
+    week INTEGER NOT NULL,
+    roster1_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    roster2_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    roster1_score NUMERIC(10,2) DEFAULT 0,
+    roster2_score NUMERIC(10,2) DEFAULT 0,
+    source VARCHAR(20) NOT NULL DEFAULT 'round_robin', -- 'matchup_draft' or 'round_robin'
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_matchup_roster1_week UNIQUE (league_id, season, week, roster1_id),
+    CONSTRAINT unique_matchup_roster2_week UNIQUE (league_id, season, week, roster2_id),
+    CONSTRAINT no_self_matchup CHECK (roster1_id != roster2_id)
+);
+
+-- Indexes for common query patterns
+CREATE INDEX IF NOT EXISTS idx_matchups_league_week ON matchups(league_id, week);
+CREATE INDEX IF NOT EXISTS idx_matchups_roster1 ON matchups(roster1_id);
+CREATE INDEX IF NOT EXISTS idx_matchups_roster2 ON matchups(roster2_id);
+
+-- Add trigger for updated_at
+DROP TRIGGER IF EXISTS update_matchups_updated_at ON matchups;
+
+CREATE TRIGGER update_matchups_updated_at
+    BEFORE UPDATE ON matchups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Track final results on matchups and maintain per-roster standings
+-- Scores are frozen once a matchup is final; winner_roster_id is NULL for ties
+
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS is_final BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS winner_roster_id INTEGER REFERENCES rosters(id) ON DELETE SET NULL;
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_matchups_league_final ON matchups(league_id, season, is_final);
+
+-- Standings are rebuilt from final regular season matchups each time a week is finalized
+CREATE TABLE IF NOT EXISTS standings (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    season VARCHAR(4) NOT NULL,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    wins INTEGER NOT NULL DEFAULT 0,
+    losses INTEGER NOT NULL DEFAULT 0,
+    ties INTEGER NOT NULL DEFAULT 0,
+    points_for NUMERIC(10,2) NOT NULL DEFAULT 0,
+    points_against NUMERIC(10,2) NOT NULL DEFAULT 0,
+    streak VARCHAR(10), -- e.g. 'W3', 'L1', 'T1'
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_standings_roster_season UNIQUE (league_id, season, roster_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_standings_league_season ON standings(league_id, season);
+
+DROP TRIGGER IF EXISTS update_standings_updated_at ON standings;
+
+CREATE TRIGGER update_standings_updated_at
+    BEFORE UPDATE ON standings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
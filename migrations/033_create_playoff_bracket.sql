@@ -0,0 +1,23 @@
+-- Playoff brackets
+-- Bracket games are stored as matchups tagged with the bracket, round and slot they belong to
+-- Seeds are frozen when the regular season ends so byes and tiebreaks stay stable
+
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS bracket VARCHAR(20); -- NULL for regular season, 'winners' or 'consolation'
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS bracket_round INTEGER;
+ALTER TABLE matchups ADD COLUMN IF NOT EXISTS bracket_slot INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_matchups_bracket ON matchups(league_id, season, bracket, bracket_round);
+
+CREATE TABLE IF NOT EXISTS playoff_seeds (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    season VARCHAR(4) NOT NULL,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    bracket VARCHAR(20) NOT NULL, -- 'winners' or 'consolation'
+    seed INTEGER NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_playoff_seed_roster UNIQUE (league_id, season, roster_id),
+    CONSTRAINT unique_playoff_seed UNIQUE (league_id, season, bracket, seed)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playoff_seeds_league_season ON playoff_seeds(league_id, season);
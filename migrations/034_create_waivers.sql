@@ -0,0 +1,52 @@
+-- Waiver wire
+-- Claims are resolved in a batch on the league's waiver day (settings.waiver_day, 0 = Sunday)
+-- Dropped players sit on waivers until the next run and cannot be added as free agents meanwhile
+
+-- Per-roster waiver state; NULL falls back to roster slot order / settings.waiver_budget
+ALTER TABLE rosters ADD COLUMN IF NOT EXISTS waiver_priority INTEGER;
+ALTER TABLE rosters ADD COLUMN IF NOT EXISTS faab_remaining INTEGER;
+
+-- Guards the hourly job against processing a league twice on the same waiver day
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS last_waiver_run_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS waiver_claims (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    drop_player_id INTEGER REFERENCES players(id) ON DELETE SET NULL,
+    bid_amount INTEGER NOT NULL DEFAULT 0,
+    claim_order INTEGER NOT NULL DEFAULT 1, -- Roster's own preference order, 1 = first
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'won', 'lost', 'failed', 'cancelled'
+    failure_reason VARCHAR(255),
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT non_negative_bid CHECK (bid_amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waiver_claims_league_status ON waiver_claims(league_id, status);
+CREATE INDEX IF NOT EXISTS idx_waiver_claims_roster ON waiver_claims(roster_id, status);
+
+-- Only one pending claim per roster for the same player
+CREATE UNIQUE INDEX IF NOT EXISTS unique_pending_waiver_claim
+    ON waiver_claims(roster_id, player_id)
+    WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_waiver_claims_updated_at ON waiver_claims;
+
+CREATE TRIGGER update_waiver_claims_updated_at
+    BEFORE UPDATE ON waiver_claims
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS waiver_players (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    dropped_by_roster_id INTEGER REFERENCES rosters(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_waiver_player UNIQUE (league_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waiver_players_league ON waiver_players(league_id);
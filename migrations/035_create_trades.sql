@@ -0,0 +1,50 @@
+-- Trades between two rosters
+-- An accepted trade waits out the league's veto window (settings.veto_period_hours) before players move;
+-- league members not involved can vote to veto, and settings.veto_threshold votes overturn it
+-- Roster IDs reference rosters.id (database PK)
+
+CREATE TABLE IF NOT EXISTS trades (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    proposer_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    receiver_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'completed', 'rejected', 'countered', 'cancelled', 'vetoed', 'failed'
+    parent_trade_id INTEGER REFERENCES trades(id) ON DELETE SET NULL, -- Trade this one counters
+    message VARCHAR(500),
+    failure_reason VARCHAR(255),
+    accepted_at TIMESTAMPTZ,
+    review_ends_at TIMESTAMPTZ, -- End of the veto window; NULL when the league has no veto
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT no_self_trade CHECK (proposer_roster_id != receiver_roster_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trades_league_status ON trades(league_id, status);
+CREATE INDEX IF NOT EXISTS idx_trades_review_ends_at ON trades(review_ends_at) WHERE status = 'accepted';
+
+DROP TRIGGER IF EXISTS update_trades_updated_at ON trades;
+
+CREATE TRIGGER update_trades_updated_at
+    BEFORE UPDATE ON trades
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS trade_items (
+    id SERIAL PRIMARY KEY,
+    trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+    player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    from_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    to_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    CONSTRAINT unique_trade_player UNIQUE (trade_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_items_trade ON trade_items(trade_id);
+
+CREATE TABLE IF NOT EXISTS trade_veto_votes (
+    id SERIAL PRIMARY KEY,
+    trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_trade_veto_vote UNIQUE (trade_id, roster_id)
+);
@@ -0,0 +1,31 @@
+-- Tradeable draft picks
+-- A pick is identified by its draft, round and original owner (the roster holding that slot in draft_order).
+-- Rows only exist for picks that changed hands; a pick without a row still belongs to its original roster.
+
+CREATE TABLE IF NOT EXISTS draft_pick_assets (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    round INTEGER NOT NULL,
+    original_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    current_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_draft_pick_asset UNIQUE (draft_id, round, original_roster_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_pick_assets_draft ON draft_pick_assets(draft_id);
+
+-- Original owner of a pick made with a traded pick (NULL when the slot owner made it)
+ALTER TABLE draft_picks ADD COLUMN IF NOT EXISTS original_roster_id INTEGER REFERENCES rosters(id) ON DELETE SET NULL;
+
+-- Trade items can be draft picks as well as players
+ALTER TABLE trade_items ALTER COLUMN player_id DROP NOT NULL;
+ALTER TABLE trade_items ADD COLUMN IF NOT EXISTS draft_id INTEGER REFERENCES drafts(id) ON DELETE CASCADE;
+ALTER TABLE trade_items ADD COLUMN IF NOT EXISTS pick_round INTEGER;
+ALTER TABLE trade_items ADD COLUMN IF NOT EXISTS pick_original_roster_id INTEGER REFERENCES rosters(id) ON DELETE CASCADE;
+
+ALTER TABLE trade_items DROP CONSTRAINT IF EXISTS trade_item_asset;
+ALTER TABLE trade_items ADD CONSTRAINT trade_item_asset CHECK (
+    player_id IS NOT NULL
+    OR (draft_id IS NOT NULL AND pick_round IS NOT NULL AND pick_original_roster_id IS NOT NULL)
+);
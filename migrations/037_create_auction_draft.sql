@@ -0,0 +1,37 @@
+-- Auction drafts
+-- Managers take turns nominating a player; the lot stays open while bids keep coming in,
+-- and closes once its bid countdown (drafts.settings.bid_seconds) expires with no new bid.
+-- The winner's pick is recorded in draft_picks with the price paid.
+
+CREATE TABLE IF NOT EXISTS auction_lots (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    nominator_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    current_bid INTEGER NOT NULL,
+    current_bidder_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    bid_deadline TIMESTAMPTZ NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open', -- 'open', 'sold'
+    is_auto_nomination BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT positive_auction_bid CHECK (current_bid >= 1),
+    CONSTRAINT unique_auction_lot_player UNIQUE (draft_id, player_id)
+);
+
+-- Only one player can be up for auction at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_auction_lots_one_open
+    ON auction_lots(draft_id) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS auction_bids (
+    id SERIAL PRIMARY KEY,
+    lot_id INTEGER NOT NULL REFERENCES auction_lots(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    amount INTEGER NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auction_bids_lot ON auction_bids(lot_id);
+
+-- Price paid for players won in an auction draft (NULL for snake/linear picks)
+ALTER TABLE draft_picks ADD COLUMN IF NOT EXISTS auction_price INTEGER;
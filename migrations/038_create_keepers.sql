@@ -0,0 +1,19 @@
+-- Keeper declarations
+-- A keeper is a player a roster carries into the next draft at the cost of its own pick in round_cost.
+-- Keeper picks are written into draft_picks when the draft starts, and the draft skips over them.
+
+CREATE TABLE IF NOT EXISTS keepers (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    player_id INTEGER NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+    round_cost INTEGER NOT NULL CHECK (round_cost >= 1),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_keeper_player UNIQUE (draft_id, player_id),
+    CONSTRAINT unique_keeper_round UNIQUE (draft_id, roster_id, round_cost)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keepers_draft ON keepers(draft_id);
+
+-- Picks pre-filled from keeper declarations
+ALTER TABLE draft_picks ADD COLUMN IF NOT EXISTS is_keeper BOOLEAN DEFAULT FALSE;
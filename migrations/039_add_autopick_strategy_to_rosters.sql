@@ -0,0 +1,8 @@
+-- Per-manager autopick strategy (best_available, by_position, queue_only, disabled)
+-- autopick_position_priority is the position order used by by_position, e.g. ["RB", "WR", "QB"]
+
+ALTER TABLE rosters
+ADD COLUMN IF NOT EXISTS autopick_strategy VARCHAR(20) NOT NULL DEFAULT 'best_available';
+
+ALTER TABLE rosters
+ADD COLUMN IF NOT EXISTS autopick_position_priority JSONB NOT NULL DEFAULT '[]';
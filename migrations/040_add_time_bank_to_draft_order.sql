@@ -0,0 +1,5 @@
+-- Chess-clock time bank for drafts with settings.timer_mode = 'per_manager'
+-- Seconds the roster has left for the rest of the draft; only drains while the roster is on the clock
+
+ALTER TABLE draft_order
+ADD COLUMN IF NOT EXISTS time_bank_seconds INTEGER;
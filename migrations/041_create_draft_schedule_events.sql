@@ -0,0 +1,11 @@
+-- Scheduled draft events (countdown reminders and auto-starts) already handled by the draft scheduler job
+-- The unique key makes each event fire once, even across server restarts
+-- event_key includes the scheduled time, e.g. 'draft_reminder:2026-09-01T00:00:00.000Z:60', so rescheduling re-arms them
+
+CREATE TABLE IF NOT EXISTS draft_schedule_events (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    event_key VARCHAR(100) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_draft_schedule_event UNIQUE (draft_id, event_key)
+);
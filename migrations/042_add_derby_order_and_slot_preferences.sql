@@ -0,0 +1,34 @@
+-- Derby timeout policies (settings.derby_on_timeout)
+-- 'skip' moves a manager to the back of the derby, so derby turn order is kept separately from draft_order.id
+-- derby_skips counts timeouts under 'skip'; a manager who times out again is auto-assigned so the derby always finishes
+
+ALTER TABLE draft_order ADD COLUMN IF NOT EXISTS derby_order INTEGER;
+ALTER TABLE draft_order ADD COLUMN IF NOT EXISTS derby_skips INTEGER NOT NULL DEFAULT 0;
+
+-- Existing derbies keep picking in draft_order.id order
+UPDATE draft_order d_order
+SET derby_order = ranked.position
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY draft_id ORDER BY id) AS position
+    FROM draft_order
+) ranked
+WHERE ranked.id = d_order.id AND d_order.derby_order IS NULL;
+
+-- Ranked slots a manager wants in a derby, used by 'auto_assign' when their timer runs out
+-- Keyed by roster rather than draft_order row so preferences survive re-randomizing the derby order
+CREATE TABLE IF NOT EXISTS derby_slot_preferences (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    slots INTEGER[] NOT NULL DEFAULT '{}', -- Most wanted first
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_derby_slot_preference UNIQUE (draft_id, roster_id)
+);
+
+DROP TRIGGER IF EXISTS update_derby_slot_preferences_updated_at ON derby_slot_preferences;
+
+CREATE TRIGGER update_derby_slot_preferences_updated_at
+    BEFORE UPDATE ON derby_slot_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
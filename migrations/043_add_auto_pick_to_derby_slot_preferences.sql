@@ -0,0 +1,5 @@
+-- Managers can opt to have their highest ranked open preferred slot taken as soon as their derby turn comes,
+-- so overnight derbies don't need anyone online
+
+ALTER TABLE derby_slot_preferences
+ADD COLUMN IF NOT EXISTS auto_pick BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,17 @@
+-- Audit trail of commissioner corrections to a draft
+-- action: 'undo' (pick removed), 'edit' (player swapped) or 'force_pick' (pick made on a roster's behalf)
+-- Roster IDs reference rosters.id (database PK)
+
+CREATE TABLE IF NOT EXISTS draft_pick_audit (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES drafts(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL,
+    pick_number INTEGER NOT NULL,
+    roster_id INTEGER REFERENCES rosters(id) ON DELETE SET NULL,
+    previous_player_id INTEGER REFERENCES players(id) ON DELETE SET NULL, -- Player before the change (undo, edit)
+    player_id INTEGER REFERENCES players(id) ON DELETE SET NULL, -- Player after the change (edit, force_pick)
+    performed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_pick_audit_draft ON draft_pick_audit(draft_id, created_at);
@@ -0,0 +1,48 @@
+-- Practice drafts against CPU opponents, kept apart from league drafts
+-- The user drafts from user_slot (1-based draft position); every other slot is a CPU
+-- CPU picks wait cpu_pick_seconds each (0 = instant); next_pick_at is when the next CPU pick is due
+
+CREATE TABLE IF NOT EXISTS mock_drafts (
+    id SERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    draft_type VARCHAR(20) NOT NULL DEFAULT 'snake', -- 'snake' or 'linear'
+    third_round_reversal BOOLEAN NOT NULL DEFAULT FALSE,
+    team_count INTEGER NOT NULL,
+    rounds INTEGER NOT NULL,
+    user_slot INTEGER NOT NULL,
+    scoring_type VARCHAR(20) NOT NULL DEFAULT 'ppr', -- 'ppr', 'half_ppr' or 'standard'
+    season VARCHAR(4) NOT NULL,
+    player_pool VARCHAR(20) NOT NULL DEFAULT 'all',
+    roster_positions JSONB,
+    cpu_pick_seconds INTEGER NOT NULL DEFAULT 2,
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress', -- 'in_progress' or 'completed'
+    current_pick INTEGER,
+    next_pick_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_mock_drafts_user ON mock_drafts(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_mock_drafts_next_pick ON mock_drafts(next_pick_at) WHERE status = 'in_progress';
+
+CREATE TABLE IF NOT EXISTS mock_draft_picks (
+    id SERIAL PRIMARY KEY,
+    mock_draft_id INTEGER NOT NULL REFERENCES mock_drafts(id) ON DELETE CASCADE,
+    pick_number INTEGER NOT NULL,
+    round INTEGER NOT NULL,
+    pick_in_round INTEGER NOT NULL,
+    slot INTEGER NOT NULL, -- Draft position that made the pick
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    is_cpu BOOLEAN NOT NULL DEFAULT FALSE,
+    picked_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_mock_draft_pick UNIQUE (mock_draft_id, pick_number),
+    CONSTRAINT unique_mock_draft_player UNIQUE (mock_draft_id, player_id)
+);
+
+DROP TRIGGER IF EXISTS update_mock_drafts_updated_at ON mock_drafts;
+
+CREATE TRIGGER update_mock_drafts_updated_at
+    BEFORE UPDATE ON mock_drafts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
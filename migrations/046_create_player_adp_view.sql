@@ -0,0 +1,36 @@
+-- Average draft position across completed drafts in every league
+-- Segmented by season, scoring type (from scoring_settings.receptions), league size and draft type
+-- Keeper picks and auction drafts are left out since their pick numbers don't reflect draft position
+-- total_pick_number lets segments be merged into a weighted ADP: SUM(total_pick_number) / SUM(times_drafted)
+-- Refreshed on a schedule by the ADP refresh job
+
+DROP MATERIALIZED VIEW IF EXISTS player_adp;
+
+CREATE MATERIALIZED VIEW player_adp AS
+SELECT
+    dp.player_id,
+    l.season,
+    CASE
+        WHEN COALESCE((l.scoring_settings->>'receptions')::numeric, 0) >= 1 THEN 'ppr'
+        WHEN COALESCE((l.scoring_settings->>'receptions')::numeric, 0) >= 0.5 THEN 'half_ppr'
+        ELSE 'standard'
+    END AS scoring_type,
+    l.total_rosters AS league_size,
+    d.draft_type,
+    COUNT(*) AS times_drafted,
+    SUM(dp.pick_number) AS total_pick_number,
+    ROUND(AVG(dp.pick_number), 2) AS adp,
+    MIN(dp.pick_number) AS min_pick,
+    MAX(dp.pick_number) AS max_pick
+FROM draft_picks dp
+INNER JOIN drafts d ON d.id = dp.draft_id
+INNER JOIN leagues l ON l.id = d.league_id
+WHERE d.status = 'completed'
+AND d.draft_type <> 'auction'
+AND NOT COALESCE(dp.is_keeper, FALSE)
+GROUP BY dp.player_id, l.season, 3, l.total_rosters, d.draft_type;
+
+-- Unique index for CONCURRENTLY refresh
+CREATE UNIQUE INDEX idx_player_adp_pk ON player_adp(player_id, season, scoring_type, league_size, draft_type);
+
+CREATE INDEX idx_player_adp_segment ON player_adp(season, scoring_type, league_size, draft_type);
@@ -0,0 +1,25 @@
+-- Matchup draft autopick
+-- matchup_autopick_enabled is kept apart from autopick_enabled so autopicking the player draft
+-- doesn't also hand a manager's schedule to the matchup draft
+
+ALTER TABLE rosters
+ADD COLUMN IF NOT EXISTS matchup_autopick_enabled BOOLEAN NOT NULL DEFAULT false;
+
+-- Opponent/week combos a manager wants, taken in queue order when they are auto-picked
+CREATE TABLE IF NOT EXISTS matchup_draft_queues (
+    id SERIAL PRIMARY KEY,
+    draft_id INTEGER NOT NULL REFERENCES matchup_drafts(id) ON DELETE CASCADE,
+    roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id (database PK)
+    opponent_roster_id INTEGER NOT NULL REFERENCES rosters(id) ON DELETE CASCADE, -- rosters.id, as in matchup_draft_picks
+    week_number INTEGER NOT NULL,
+    queue_position INTEGER NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT unique_matchup_draft_queue_entry UNIQUE (draft_id, roster_id, opponent_roster_id, week_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchup_draft_queues_roster
+    ON matchup_draft_queues(draft_id, roster_id, queue_position);
+
+-- Taken matchups are removed from every queue in the draft
+CREATE INDEX IF NOT EXISTS idx_matchup_draft_queues_opponent_week
+    ON matchup_draft_queues(draft_id, opponent_roster_id, week_number);
@@ -0,0 +1,15 @@
+-- Derby slot selection for matchup drafts (settings.draft_order = 'derby')
+-- Mirrors draft_order: derby_order is the turn order for picking slots, draft_position fills in as
+-- managers pick, and derby_skips counts 'skip' timeouts so a second timeout is randomized
+
+ALTER TABLE matchup_draft_order ADD COLUMN IF NOT EXISTS derby_order INTEGER;
+ALTER TABLE matchup_draft_order ADD COLUMN IF NOT EXISTS derby_skips INTEGER NOT NULL DEFAULT 0;
+
+-- Existing orders keep their draft position as derby turn order
+UPDATE matchup_draft_order mdo
+SET derby_order = ranked.position
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY draft_id ORDER BY draft_position, id) AS position
+    FROM matchup_draft_order
+) ranked
+WHERE ranked.id = mdo.id AND mdo.derby_order IS NULL;
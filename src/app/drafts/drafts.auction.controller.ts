@@ -0,0 +1,100 @@
+// src/app/drafts/drafts.auction.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * AUCTION operations for drafts
+ * Handles nominations and bidding for auction drafts
+ */
+
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/auction
+ * Get budgets, the current nominator and the player up for auction
+ */
+export const getAuctionState = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const state = await draftService.getAuctionState(draftId);
+
+    return res.status(200).json(state);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/auction/nominate
+ * Nominate a player for auction (nominator's turn only)
+ */
+export const nominatePlayer = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { player_id, opening_bid } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const lot = await draftService.nominateAuctionPlayer(leagueId, draftId, userId, player_id, opening_bid);
+
+    return res.status(201).json(lot);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/auction/bid
+ * Bid on the player up for auction
+ */
+export const placeBid = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { amount } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const lot = await draftService.placeAuctionBid(leagueId, draftId, userId, amount);
+
+    return res.status(200).json(lot);
+  } catch (error) {
+    next(error);
+  }
+};
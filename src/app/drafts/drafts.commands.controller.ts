@@ -1,8 +1,9 @@
 // src/app/drafts/drafts.commands.controller.ts
 import { Response, NextFunction } from "express";
 import { AuthRequest } from "../common/middleware/auth.middleware";
-import { ValidationError } from "../common/utils/errors";
+import { ValidationError, ForbiddenError } from "../common/utils/errors";
 import { Container } from "../../infrastructure/di/Container";
+import { getRosterRepository } from "./drafts.controller.helpers";
 
 /**
  * COMMAND operations for drafts (POST/PUT/DELETE endpoints)
@@ -47,9 +48,19 @@ export const createDraft = async (
       draftOrder: draftData.settings?.draft_order,
       timerMode: draftData.settings?.timer_mode,
       derbyStartTime: draftData.derby_settings?.derby_start_time,
+      scheduledStart: draftData.scheduled_start,
+      autoStart: draftData.auto_start,
       autoStartDerby: draftData.auto_start,
       derbyTimerSeconds: draftData.derby_settings?.derby_timer_seconds,
       derbyOnTimeout: draftData.derby_settings?.derby_on_timeout,
+      derbyAutoAssignRemaining: draftData.derby_settings?.auto_assign_remaining,
+      allowTradesDuringDraft: draftData.settings?.allow_trades_during_draft,
+      auctionBudget: draftData.settings?.auction_budget,
+      bidSeconds: draftData.settings?.bid_seconds,
+      maxKeepers: draftData.settings?.max_keepers,
+      keeperDeadline: draftData.settings?.keeper_deadline,
+      timeBankSeconds: draftData.settings?.time_bank_seconds,
+      reminderMinutes: draftData.settings?.reminder_minutes,
     });
 
     return res.status(201).json(draft);
@@ -96,9 +107,19 @@ export const updateDraft = async (
       draftOrder: draftData.settings?.draft_order,
       timerMode: draftData.settings?.timer_mode,
       derbyStartTime: draftData.derby_settings?.derby_start_time,
+      scheduledStart: draftData.scheduled_start,
+      autoStart: draftData.auto_start,
       autoStartDerby: draftData.auto_start,
       derbyTimerSeconds: draftData.derby_settings?.derby_timer_seconds,
       derbyOnTimeout: draftData.derby_settings?.derby_on_timeout,
+      derbyAutoAssignRemaining: draftData.derby_settings?.auto_assign_remaining,
+      allowTradesDuringDraft: draftData.settings?.allow_trades_during_draft,
+      auctionBudget: draftData.settings?.auction_budget,
+      bidSeconds: draftData.settings?.bid_seconds,
+      maxKeepers: draftData.settings?.max_keepers,
+      keeperDeadline: draftData.settings?.keeper_deadline,
+      timeBankSeconds: draftData.settings?.time_bank_seconds,
+      reminderMinutes: draftData.settings?.reminder_minutes,
     });
 
     return res.status(200).json(draft);
@@ -310,3 +331,73 @@ export const toggleAutopick = async (
     next(error);
   }
 };
+
+/**
+ * PUT /api/leagues/:leagueId/drafts/:draftId/autopick-strategy
+ * Choose how autopick drafts for the current user's roster
+ */
+export const updateAutopickStrategy = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const userId = req.user?.userId;
+    const { strategy, position_priority } = req.body;
+
+    if (isNaN(leagueId) || !userId) {
+      throw new ValidationError("Invalid parameters");
+    }
+
+    const roster = await getRosterRepository().findByLeagueAndUser(leagueId, userId);
+    if (!roster) {
+      throw new ForbiddenError("You are not part of this league");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const settings = await draftService.setAutopickSettings(leagueId, roster.id, {
+      strategy,
+      positionPriority: position_priority,
+    });
+
+    return res.status(200).json({
+      roster_id: roster.id,
+      strategy: settings.strategy,
+      position_priority: settings.positionPriority,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/sync-rosters
+ * Rebuild rosters from a completed draft's picks (commissioner only)
+ */
+export const syncRostersFromDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const rostersUpdated = await draftService.syncRostersFromDraft(leagueId, draftId, userId);
+
+    return res.status(200).json({ rosters_updated: rostersUpdated });
+  } catch (error) {
+    next(error);
+  }
+};
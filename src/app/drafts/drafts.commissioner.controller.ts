@@ -0,0 +1,138 @@
+// src/app/drafts/drafts.commissioner.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * COMMISSIONER controls for drafts
+ * Corrections to picks (undo, edit, pick on a roster's behalf) and their audit trail
+ */
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/force-pick
+ * Make a pick for the roster on the clock (commissioner only)
+ */
+export const forcePick = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { roster_id, player_id } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const pick = await draftService.forcePick(draftId, userId, roster_id, player_id);
+
+    return res.status(201).json(pick);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/undo
+ * Undo the most recent picks (commissioner only)
+ */
+export const undoPicks = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { count } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const undonePicks = await draftService.undoPicks(draftId, userId, count);
+
+    return res.status(200).json({ undone_picks: undonePicks });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/leagues/:leagueId/drafts/:draftId/picks/:pickNumber
+ * Swap the player of a pick (commissioner only)
+ */
+export const editPick = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const pickNumber = parseInt(req.params.pickNumber, 10);
+    const userId = req.user?.userId;
+    const { player_id } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId) || isNaN(pickNumber)) {
+      throw new ValidationError("Invalid league ID, draft ID or pick number");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const pick = await draftService.editPick(draftId, userId, pickNumber, player_id);
+
+    return res.status(200).json(pick);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/audit
+ * Get the commissioner's pick corrections, newest first
+ */
+export const getPickAudit = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const audit = await draftService.getPickAudit(leagueId, draftId, userId);
+
+    return res.status(200).json(audit);
+  } catch (error) {
+    next(error);
+  }
+};
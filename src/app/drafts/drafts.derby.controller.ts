@@ -79,6 +79,71 @@ export const pickDerbySlot = async (
   }
 };
 
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/derby-preferences
+ * Get the user's ranked derby slot preferences
+ */
+export const getDerbySlotPreferences = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const preferences = await draftService.getDerbySlotPreferences(leagueId, draftId, userId);
+
+    return res.status(200).json({ slots: preferences.slots, auto_pick: preferences.autoPick });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/leagues/:leagueId/drafts/:draftId/derby-preferences
+ * Set the user's ranked derby slot preferences and whether to auto-pick from them on their turn
+ */
+export const setDerbySlotPreferences = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const preferences = await draftService.setDerbySlotPreferences(leagueId, draftId, userId, {
+      slots: req.body.slots,
+      autoPick: req.body.auto_pick,
+    });
+
+    return res.status(200).json({ slots: preferences.slots, auto_pick: preferences.autoPick });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * POST /api/leagues/:leagueId/drafts/:draftId/pause-derby
  * Pause the derby (commissioner only)
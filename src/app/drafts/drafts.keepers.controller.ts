@@ -0,0 +1,100 @@
+// src/app/drafts/drafts.keepers.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * KEEPER operations for drafts
+ * Handles keeper declarations before a keeper league's draft
+ */
+
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/keepers
+ * Get all keepers declared for a draft
+ */
+export const getKeepers = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    const keeperService = Container.getInstance().getKeeperService();
+    const keepers = await keeperService.getKeepers(leagueId, draftId);
+
+    return res.status(200).json(keepers);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/drafts/:draftId/keepers
+ * Keep a player from your roster at the cost of a draft round
+ */
+export const declareKeeper = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { player_id, round } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const keeperService = Container.getInstance().getKeeperService();
+    const keeper = await keeperService.declareKeeper(leagueId, draftId, userId, player_id, round);
+
+    return res.status(201).json(keeper);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/leagues/:leagueId/drafts/:draftId/keepers/:keeperId
+ * Withdraw one of your keepers
+ */
+export const removeKeeper = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const keeperId = parseInt(req.params.keeperId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId) || isNaN(keeperId)) {
+      throw new ValidationError("Invalid league ID, draft ID or keeper ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const keeperService = Container.getInstance().getKeeperService();
+    await keeperService.removeKeeper(leagueId, draftId, userId, keeperId);
+
+    return res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
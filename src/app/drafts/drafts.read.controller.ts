@@ -3,7 +3,10 @@ import { Response, NextFunction } from "express";
 import { AuthRequest } from "../common/middleware/auth.middleware";
 import { ValidationError, ForbiddenError } from "../common/utils/errors";
 import { Container } from "../../infrastructure/di/Container";
-import { getLeagueRepository } from "./drafts.controller.helpers";
+import { getLeagueRepository, getRosterRepository } from "./drafts.controller.helpers";
+import { DraftExportFormat } from "../../application/services/DraftExportService";
+
+const EXPORT_FORMATS: DraftExportFormat[] = ["csv", "json", "sleeper"];
 
 /**
  * READ operations for drafts (GET endpoints)
@@ -134,9 +137,47 @@ export const getDraftPicks = async (
   }
 };
 
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/export?format=csv|json|sleeper
+ * Download the draft board (defaults to CSV)
+ */
+export const exportDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const format = (req.query.format as string | undefined) ?? "csv";
+
+    if (isNaN(leagueId) || isNaN(draftId) || !userId) {
+      throw new ValidationError("Invalid parameters");
+    }
+
+    if (!EXPORT_FORMATS.includes(format as DraftExportFormat)) {
+      throw new ValidationError(`Format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const result = await draftService.exportDraft(leagueId, draftId, userId, format as DraftExportFormat);
+
+    res.setHeader("Content-Type", result.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${result.filename}"`);
+
+    if (typeof result.body === "string") {
+      return res.status(200).send(result.body);
+    }
+    return res.status(200).json(result.body);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * GET /api/leagues/:leagueId/drafts/:draftId/available-players
- * Get available players with optional filters
+ * Get available players with optional filters (?sort=adp orders the board by ADP)
  */
 export const getAvailablePlayers = async (
   req: AuthRequest,
@@ -158,7 +199,7 @@ export const getAvailablePlayers = async (
       throw new ForbiddenError("You don't have access to this league");
     }
 
-    const { position, team, search } = req.query;
+    const { position, team, search, sort } = req.query;
     const filters: any = {};
 
     if (position && typeof position === 'string') {
@@ -170,6 +211,9 @@ export const getAvailablePlayers = async (
     if (search && typeof search === 'string') {
       filters.search = search;
     }
+    if (sort === 'adp' || sort === 'name') {
+      filters.sort = sort;
+    }
 
     const draftService = Container.getInstance().getDraftService();
     const players = await draftService.getAvailablePlayers(draftId, filters);
@@ -221,3 +265,38 @@ export const getDraftState = async (
     next(error);
   }
 };
+
+/**
+ * GET /api/leagues/:leagueId/drafts/:draftId/autopick-strategy
+ * Get the autopick strategy for the current user's roster
+ */
+export const getAutopickStrategy = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || !userId) {
+      throw new ValidationError("Invalid parameters");
+    }
+
+    const roster = await getRosterRepository().findByLeagueAndUser(leagueId, userId);
+    if (!roster) {
+      throw new ForbiddenError("You are not part of this league");
+    }
+
+    const draftService = Container.getInstance().getDraftService();
+    const settings = await draftService.getAutopickSettings(leagueId, roster.id);
+
+    return res.status(200).json({
+      roster_id: roster.id,
+      strategy: settings.strategy,
+      position_priority: settings.positionPriority,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
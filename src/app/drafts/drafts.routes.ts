@@ -6,9 +6,17 @@ import {
   createDraftSchema,
   makeDraftPickSchema,
   selectDerbySlotSchema,
+  derbySlotPreferencesSchema,
   addToQueueSchema,
   reorderQueueSchema,
   draftIdParamSchema,
+  declareKeeperSchema,
+  nominatePlayerSchema,
+  auctionBidSchema,
+  autopickStrategySchema,
+  forcePickSchema,
+  undoPicksSchema,
+  editPickSchema,
 } from "../validators/schemas/draft.schemas";
 
 // Import READ operations
@@ -17,8 +25,10 @@ import {
   getDraft,
   getDraftOrder,
   getDraftPicks,
+  exportDraft,
   getAvailablePlayers,
   getDraftState,
+  getAutopickStrategy,
 } from "./drafts.read.controller";
 
 // Import COMMAND operations
@@ -32,6 +42,8 @@ import {
   resumeDraftRoom,
   makePick,
   toggleAutopick,
+  updateAutopickStrategy,
+  syncRostersFromDraft,
 } from "./drafts.commands.controller";
 
 // Import DERBY operations
@@ -40,8 +52,18 @@ import {
   pickDerbySlot,
   pauseDerby,
   resumeDerby,
+  getDerbySlotPreferences,
+  setDerbySlotPreferences,
 } from "./drafts.derby.controller";
 
+// Import COMMISSIONER operations
+import {
+  forcePick,
+  undoPicks,
+  editPick,
+  getPickAudit,
+} from "./drafts.commissioner.controller";
+
 // Import QUEUE operations
 import {
   getQueue,
@@ -50,6 +72,20 @@ import {
   reorderQueue,
 } from "./drafts.queue.controller";
 
+// Import KEEPER operations
+import {
+  getKeepers,
+  declareKeeper,
+  removeKeeper,
+} from "./drafts.keepers.controller";
+
+// Import AUCTION operations
+import {
+  getAuctionState,
+  nominatePlayer,
+  placeBid,
+} from "./drafts.auction.controller";
+
 const router = Router();
 
 // All draft routes require authentication
@@ -76,6 +112,12 @@ router.post("/:leagueId/drafts/:draftId/start-derby", startDerby);
 // POST /api/leagues/:leagueId/drafts/:draftId/pick-slot - Pick derby slot (user's turn only)
 router.post("/:leagueId/drafts/:draftId/pick-slot", validateRequest(draftIdParamSchema, 'params'), validateRequest(selectDerbySlotSchema, 'body'), pickDerbySlot);
 
+// GET /api/leagues/:leagueId/drafts/:draftId/derby-preferences - Get user's ranked derby slot preferences
+router.get("/:leagueId/drafts/:draftId/derby-preferences", getDerbySlotPreferences);
+
+// PUT /api/leagues/:leagueId/drafts/:draftId/derby-preferences - Set user's ranked derby slot preferences
+router.put("/:leagueId/drafts/:draftId/derby-preferences", validateRequest(draftIdParamSchema, 'params'), validateRequest(derbySlotPreferencesSchema, 'body'), setDerbySlotPreferences);
+
 // POST /api/leagues/:leagueId/drafts/:draftId/pause-derby - Pause derby (commissioner only)
 router.post("/:leagueId/drafts/:draftId/pause-derby", pauseDerby);
 
@@ -98,7 +140,10 @@ router.get("/:leagueId/drafts/:draftId/state", getDraftState);
 // GET /api/leagues/:leagueId/drafts/:draftId/picks - Get all picks
 router.get("/:leagueId/drafts/:draftId/picks", getDraftPicks);
 
-// GET /api/leagues/:leagueId/drafts/:draftId/available-players - Get available players
+// GET /api/leagues/:leagueId/drafts/:draftId/export - Download draft results (?format=csv|json|sleeper)
+router.get("/:leagueId/drafts/:draftId/export", exportDraft);
+
+// GET /api/leagues/:leagueId/drafts/:draftId/available-players - Get available players (?sort=adp|name)
 router.get("/:leagueId/drafts/:draftId/available-players", getAvailablePlayers);
 
 // POST /api/leagues/:leagueId/drafts/:draftId/start - Start the draft (commissioner only)
@@ -116,6 +161,57 @@ router.post("/:leagueId/drafts/:draftId/pick", validateRequest(draftIdParamSchem
 // POST /api/leagues/:leagueId/drafts/:draftId/toggle-autopick - Toggle autopick for user's roster
 router.post("/:leagueId/drafts/:draftId/toggle-autopick", toggleAutopick);
 
+// GET /api/leagues/:leagueId/drafts/:draftId/autopick-strategy - Get user's autopick strategy
+router.get("/:leagueId/drafts/:draftId/autopick-strategy", getAutopickStrategy);
+
+// PUT /api/leagues/:leagueId/drafts/:draftId/autopick-strategy - Choose user's autopick strategy
+router.put("/:leagueId/drafts/:draftId/autopick-strategy", validateRequest(draftIdParamSchema, 'params'), validateRequest(autopickStrategySchema, 'body'), updateAutopickStrategy);
+
+// POST /api/leagues/:leagueId/drafts/:draftId/sync-rosters - Rebuild rosters from draft picks (commissioner only)
+router.post("/:leagueId/drafts/:draftId/sync-rosters", syncRostersFromDraft);
+
+// ==============================
+// COMMISSIONER (Pick Corrections)
+// ==============================
+
+// POST /api/leagues/:leagueId/drafts/:draftId/force-pick - Pick for the roster on the clock (commissioner only)
+router.post("/:leagueId/drafts/:draftId/force-pick", validateRequest(draftIdParamSchema, 'params'), validateRequest(forcePickSchema, 'body'), forcePick);
+
+// POST /api/leagues/:leagueId/drafts/:draftId/undo - Undo the most recent picks (commissioner only)
+router.post("/:leagueId/drafts/:draftId/undo", validateRequest(draftIdParamSchema, 'params'), validateRequest(undoPicksSchema, 'body'), undoPicks);
+
+// PUT /api/leagues/:leagueId/drafts/:draftId/picks/:pickNumber - Swap the player of a pick (commissioner only)
+router.put("/:leagueId/drafts/:draftId/picks/:pickNumber", validateRequest(editPickSchema, 'body'), editPick);
+
+// GET /api/leagues/:leagueId/drafts/:draftId/audit - Get the log of commissioner pick corrections
+router.get("/:leagueId/drafts/:draftId/audit", getPickAudit);
+
+// ==============================
+// KEEPERS (Keeper Leagues)
+// ==============================
+
+// GET /api/leagues/:leagueId/drafts/:draftId/keepers - Get declared keepers
+router.get("/:leagueId/drafts/:draftId/keepers", getKeepers);
+
+// POST /api/leagues/:leagueId/drafts/:draftId/keepers - Declare a keeper (before the draft starts)
+router.post("/:leagueId/drafts/:draftId/keepers", validateRequest(draftIdParamSchema, 'params'), validateRequest(declareKeeperSchema, 'body'), declareKeeper);
+
+// DELETE /api/leagues/:leagueId/drafts/:draftId/keepers/:keeperId - Withdraw a keeper
+router.delete("/:leagueId/drafts/:draftId/keepers/:keeperId", removeKeeper);
+
+// ==============================
+// AUCTION (Nominations & Bidding)
+// ==============================
+
+// GET /api/leagues/:leagueId/drafts/:draftId/auction - Get budgets, nominator and open lot
+router.get("/:leagueId/drafts/:draftId/auction", getAuctionState);
+
+// POST /api/leagues/:leagueId/drafts/:draftId/auction/nominate - Nominate a player (nominator's turn only)
+router.post("/:leagueId/drafts/:draftId/auction/nominate", validateRequest(draftIdParamSchema, 'params'), validateRequest(nominatePlayerSchema, 'body'), nominatePlayer);
+
+// POST /api/leagues/:leagueId/drafts/:draftId/auction/bid - Bid on the nominated player
+router.post("/:leagueId/drafts/:draftId/auction/bid", validateRequest(draftIdParamSchema, 'params'), validateRequest(auctionBidSchema, 'body'), placeBid);
+
 // ==============================
 // DRAFT QUEUE (Player Watchlist)
 // ==============================
@@ -162,6 +162,7 @@ export const createLeague = async (
       scoring_settings = {},
       roster_positions = [],
       season_type = 'regular',
+      league_type = 'redraft',
       description,
     } = req.body;
 
@@ -193,7 +194,7 @@ export const createLeague = async (
         totalRosters: total_rosters,
         season,
         seasonType: season_type,
-        settings,
+        settings: { ...settings, league_type },
         scoringSettings: scoring_settings,
         rosterPositions: roster_positions,
       },
@@ -283,6 +284,35 @@ export const resetLeague = async (
   }
 };
 
+/**
+ * POST /api/leagues/:id/rollover
+ * Start the next season - dynasty and keeper leagues keep their rosters
+ */
+export const rolloverSeason = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.userId;
+    const leagueId = parseInt(req.params.id, 10);
+
+    if (!userId) {
+      throw new ValidationError('User ID not found in request');
+    }
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError('Invalid league ID');
+    }
+
+    const result = await getLeagueResetService().rolloverSeason(leagueId, userId);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * DELETE /api/leagues/:id
  * Delete league permanently
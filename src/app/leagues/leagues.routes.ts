@@ -20,6 +20,7 @@ import {
   joinLeague,
   updateLeague,
   resetLeague,
+  rolloverSeason,
   deleteLeague,
   devAddUsersToLeague,
   getLeagueMembers,
@@ -57,6 +58,9 @@ router.put("/:id", validateRequest(leagueIdParamSchema, 'params'), validateReque
 // POST /api/leagues/:id/reset - Reset league (commissioner only)
 router.post("/:id/reset", resetLeague);
 
+// POST /api/leagues/:id/rollover - Roll the league over to the next season (commissioner only)
+router.post("/:id/rollover", rolloverSeason);
+
 // DELETE /api/leagues/:id - Delete league (commissioner only)
 router.delete("/:id", deleteLeague);
 
@@ -5,10 +5,56 @@ import { ValidationError } from "../common/utils/errors";
 import { Container } from "../../infrastructure/di/Container";
 
 /**
- * COMMAND operations for matchup drafts (POST endpoints)
- * Includes start/pause/resume, picks, and randomization
+ * COMMAND operations for matchup drafts (POST/PUT endpoints)
+ * Includes settings, start/pause/resume, picks, randomization, and queue/autopick
  */
 
+/**
+ * PUT /api/leagues/:leagueId/matchup-drafts/:draftId
+ * Update matchup draft settings (commissioner only, before the draft starts)
+ */
+export const updateMatchupDraftSettings = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    // Extract from req.body - validation is handled by Zod middleware
+    const settings = req.body;
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const matchupDraft = await matchupDraftService.updateMatchupDraftSettings(leagueId, draftId, userId, {
+      draftType: settings.draft_type,
+      thirdRoundReversal: settings.third_round_reversal,
+      pickTimeSeconds: settings.pick_time_seconds,
+      rounds: settings.rounds,
+      startWeek: settings.start_week,
+      endWeek: settings.end_week,
+      maxGamesPerOpponent: settings.max_games_per_opponent,
+      draftOrder: settings.draft_order,
+      derbyTimerSeconds: settings.derby_timer_seconds,
+      derbyOnTimeout: settings.derby_on_timeout,
+      derbyAutoAssignRemaining: settings.auto_assign_remaining,
+    });
+
+    return res.status(200).json(matchupDraft);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * POST /api/leagues/:leagueId/matchup-drafts/:draftId/start
  * Start a matchup draft (commissioner only)
@@ -145,6 +191,42 @@ export const makeMatchupPick = async (
   }
 };
 
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/pick/dry-run
+ * Check a pick without making it and report which weeks each roster can still fill
+ */
+export const dryRunMatchupPick = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const { opponent_roster_id, week_number } = req.body;
+    const pick = opponent_roster_id !== undefined
+      ? { opponentRosterId: opponent_roster_id, weekNumber: week_number }
+      : null;
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const result = await matchupDraftService.dryRunMatchupPick(leagueId, draftId, userId, pick);
+
+    return res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * POST /api/leagues/:leagueId/matchup-drafts/:draftId/randomize
  * Randomize matchup draft order (commissioner only)
@@ -175,3 +257,74 @@ export const randomizeMatchupDraftOrder = async (
     next(error);
   }
 };
+
+/**
+ * PUT /api/leagues/:leagueId/matchup-drafts/:draftId/queue
+ * Replace the user's matchup queue (most wanted first)
+ */
+export const setMatchupQueue = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    const { matchups } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const queue = await matchupDraftService.setMatchupQueue(
+      leagueId,
+      draftId,
+      userId,
+      matchups.map((matchup: { opponent_roster_id: number; week_number: number }) => ({
+        opponentRosterId: matchup.opponent_roster_id,
+        weekNumber: matchup.week_number,
+      }))
+    );
+
+    return res.status(200).json(queue);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/toggle-autopick
+ * Turn matchup autopick on or off for the user's roster
+ */
+export const toggleMatchupAutopick = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const queue = await matchupDraftService.toggleMatchupAutopick(leagueId, draftId, userId);
+
+    return res.status(200).json(queue);
+  } catch (error) {
+    next(error);
+  }
+};
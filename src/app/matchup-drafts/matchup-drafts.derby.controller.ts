@@ -0,0 +1,136 @@
+// src/app/matchup-drafts/matchup-drafts.derby.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * DERBY operations for matchup drafts
+ * Managers pick their matchup draft position when settings.draft_order is 'derby'
+ */
+
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/start-derby
+ * Start the matchup draft derby (commissioner only)
+ */
+export const startMatchupDerby = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const matchupDraft = await matchupDraftService.startMatchupDerby(leagueId, draftId, userId);
+
+    return res.status(200).json(matchupDraft);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/pick-slot
+ * Pick a matchup draft slot in the derby (user's turn only)
+ */
+export const pickMatchupDerbySlot = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+    // slot_number is validated by Zod schema
+    const { slot_number } = req.body;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const matchupDraft = await matchupDraftService.pickMatchupDerbySlot(leagueId, draftId, userId, slot_number);
+
+    return res.status(200).json(matchupDraft);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/pause-derby
+ * Pause the matchup draft derby (commissioner only)
+ */
+export const pauseMatchupDerby = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const matchupDraft = await matchupDraftService.pauseMatchupDerby(leagueId, draftId, userId);
+
+    return res.status(200).json(matchupDraft);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:leagueId/matchup-drafts/:draftId/resume-derby
+ * Resume the matchup draft derby (commissioner only)
+ */
+export const resumeMatchupDerby = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const matchupDraft = await matchupDraftService.resumeMatchupDerby(leagueId, draftId, userId);
+
+    return res.status(200).json(matchupDraft);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -3,11 +3,64 @@ import { Response, NextFunction } from "express";
 import { AuthRequest } from "../common/middleware/auth.middleware";
 import { ValidationError } from "../common/utils/errors";
 import { Container } from "../../infrastructure/di/Container";
+import {
+  AvailableMatchupFilters,
+  AvailableMatchupSortField,
+  AVAILABLE_MATCHUP_SORT_FIELDS,
+  MatchupDifficulty,
+  MATCHUP_DIFFICULTIES,
+} from "../../application/services/MatchupDraftRuntimeService";
 
 /**
  * READ operations for matchup drafts (GET endpoints)
  */
 
+// Parse an optional numeric query parameter
+function parseNumberParam(req: AuthRequest, name: string): number | undefined {
+  const value = req.query[name];
+  if (typeof value !== "string") return undefined;
+
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) {
+    throw new ValidationError(`Invalid ${name} parameter`);
+  }
+  return parsed;
+}
+
+// Parse available matchup filters (?week=&opponent_roster_id=&difficulty=easy,medium&min_projected_points=
+// &max_projected_points=&sort=&order=)
+function parseAvailableMatchupFilters(req: AuthRequest): AvailableMatchupFilters {
+  const { difficulty, sort, order } = req.query;
+  const filters: AvailableMatchupFilters = {
+    weekNumber: parseNumberParam(req, "week"),
+    opponentRosterId: parseNumberParam(req, "opponent_roster_id"),
+    minProjectedPoints: parseNumberParam(req, "min_projected_points"),
+    maxProjectedPoints: parseNumberParam(req, "max_projected_points"),
+  };
+
+  if (typeof difficulty === "string") {
+    const tiers = difficulty.split(",");
+    if (tiers.some(tier => !MATCHUP_DIFFICULTIES.includes(tier as MatchupDifficulty))) {
+      throw new ValidationError(`Difficulty must be one of: ${MATCHUP_DIFFICULTIES.join(", ")}`);
+    }
+    filters.difficulty = tiers as MatchupDifficulty[];
+  }
+  if (typeof sort === "string") {
+    if (!AVAILABLE_MATCHUP_SORT_FIELDS.includes(sort as AvailableMatchupSortField)) {
+      throw new ValidationError(`Sort must be one of: ${AVAILABLE_MATCHUP_SORT_FIELDS.join(", ")}`);
+    }
+    filters.sort = sort as AvailableMatchupSortField;
+  }
+  if (typeof order === "string") {
+    if (order !== "asc" && order !== "desc") {
+      throw new ValidationError("Order must be one of: asc, desc");
+    }
+    filters.order = order;
+  }
+
+  return filters;
+}
+
 /**
  * GET /api/leagues/:leagueId/matchup-drafts
  * Get or create matchup draft for a league
@@ -71,7 +124,8 @@ export const getMatchupDraft = async (
 
 /**
  * GET /api/leagues/:leagueId/matchup-drafts/:draftId/available-matchups
- * Get available matchups for selection
+ * Get available matchups for selection with each opponent's projection, record and difficulty
+ * (?week=&difficulty=easy,medium&sort=projected_points|record|difficulty|week&order=asc|desc)
  */
 export const getAvailableMatchups = async (
   req: AuthRequest,
@@ -92,7 +146,12 @@ export const getAvailableMatchups = async (
     }
 
     const matchupDraftService = Container.getInstance().getMatchupDraftService();
-    const availableMatchups = await matchupDraftService.getAvailableMatchups(leagueId, draftId, userId);
+    const availableMatchups = await matchupDraftService.getAvailableMatchups(
+      leagueId,
+      draftId,
+      userId,
+      parseAvailableMatchupFilters(req)
+    );
 
     return res.status(200).json(availableMatchups);
   } catch (error) {
@@ -161,3 +220,34 @@ export const getMatchupDraftOrder = async (
     next(error);
   }
 };
+
+/**
+ * GET /api/leagues/:leagueId/matchup-drafts/:draftId/queue
+ * Get the user's matchup queue and autopick flag
+ */
+export const getMatchupQueue = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId, 10);
+    const draftId = parseInt(req.params.draftId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(draftId)) {
+      throw new ValidationError("Invalid league ID or draft ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupDraftService = Container.getInstance().getMatchupDraftService();
+    const queue = await matchupDraftService.getMatchupQueue(leagueId, draftId, userId);
+
+    return res.status(200).json(queue);
+  } catch (error) {
+    next(error);
+  }
+};
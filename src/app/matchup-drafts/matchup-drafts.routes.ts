@@ -1,6 +1,13 @@
 // src/app/matchup-drafts/matchup-drafts.routes.ts
 import { Router } from "express";
 import { authMiddleware } from "../common/middleware/auth.middleware";
+import { validateRequest } from "../validators/validation.middleware";
+import {
+  matchupQueueSchema,
+  matchupPickDryRunSchema,
+  matchupDraftSettingsSchema,
+  matchupDerbySlotSchema,
+} from "../validators/schemas/matchupDraft.schemas";
 
 // Import READ operations
 import {
@@ -9,17 +16,30 @@ import {
   getAvailableMatchups,
   getMatchupDraftPicks,
   getMatchupDraftOrder,
+  getMatchupQueue,
 } from "./matchup-drafts.read.controller";
 
 // Import COMMAND operations
 import {
+  updateMatchupDraftSettings,
   startMatchupDraft,
   pauseMatchupDraft,
   resumeMatchupDraft,
   makeMatchupPick,
+  dryRunMatchupPick,
   randomizeMatchupDraftOrder,
+  setMatchupQueue,
+  toggleMatchupAutopick,
 } from "./matchup-drafts.commands.controller";
 
+// Import DERBY operations
+import {
+  startMatchupDerby,
+  pickMatchupDerbySlot,
+  pauseMatchupDerby,
+  resumeMatchupDerby,
+} from "./matchup-drafts.derby.controller";
+
 const router = Router();
 
 // All matchup draft routes require authentication
@@ -31,13 +51,16 @@ router.get("/:leagueId/matchup-drafts", getOrCreateMatchupDraft);
 // GET /api/leagues/:leagueId/matchup-drafts/:draftId - Get specific matchup draft
 router.get("/:leagueId/matchup-drafts/:draftId", getMatchupDraft);
 
+// PUT /api/leagues/:leagueId/matchup-drafts/:draftId - Update matchup draft settings (commissioner only, before start)
+router.put("/:leagueId/matchup-drafts/:draftId", validateRequest(matchupDraftSettingsSchema, 'body'), updateMatchupDraftSettings);
+
 // GET /api/leagues/:leagueId/matchup-drafts/:draftId/order - Get draft order
 router.get("/:leagueId/matchup-drafts/:draftId/order", getMatchupDraftOrder);
 
 // GET /api/leagues/:leagueId/matchup-drafts/:draftId/picks - Get all picks
 router.get("/:leagueId/matchup-drafts/:draftId/picks", getMatchupDraftPicks);
 
-// GET /api/leagues/:leagueId/matchup-drafts/:draftId/available-matchups - Get available matchups
+// GET /api/leagues/:leagueId/matchup-drafts/:draftId/available-matchups - Get available matchups with projections, records and difficulty (filterable/sortable)
 router.get("/:leagueId/matchup-drafts/:draftId/available-matchups", getAvailableMatchups);
 
 // POST /api/leagues/:leagueId/matchup-drafts/:draftId/start - Start matchup draft (commissioner only)
@@ -52,7 +75,31 @@ router.post("/:leagueId/matchup-drafts/:draftId/resume", resumeMatchupDraft);
 // POST /api/leagues/:leagueId/matchup-drafts/:draftId/pick - Make a matchup pick (user's turn only)
 router.post("/:leagueId/matchup-drafts/:draftId/pick", makeMatchupPick);
 
-// POST /api/leagues/:leagueId/matchup-drafts/:draftId/randomize - Randomize draft order (commissioner only)
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/pick/dry-run - Check a pick and report which weeks each roster can still fill
+router.post("/:leagueId/matchup-drafts/:draftId/pick/dry-run", validateRequest(matchupPickDryRunSchema, 'body'), dryRunMatchupPick);
+
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/randomize - Randomize draft order, or derby order for derbies (commissioner only)
 router.post("/:leagueId/matchup-drafts/:draftId/randomize", randomizeMatchupDraftOrder);
 
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/start-derby - Start draft order derby (commissioner only)
+router.post("/:leagueId/matchup-drafts/:draftId/start-derby", startMatchupDerby);
+
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/pick-slot - Pick derby slot (user's turn only)
+router.post("/:leagueId/matchup-drafts/:draftId/pick-slot", validateRequest(matchupDerbySlotSchema, 'body'), pickMatchupDerbySlot);
+
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/pause-derby - Pause derby (commissioner only)
+router.post("/:leagueId/matchup-drafts/:draftId/pause-derby", pauseMatchupDerby);
+
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/resume-derby - Resume derby (commissioner only)
+router.post("/:leagueId/matchup-drafts/:draftId/resume-derby", resumeMatchupDerby);
+
+// GET /api/leagues/:leagueId/matchup-drafts/:draftId/queue - Get user's matchup queue and autopick flag
+router.get("/:leagueId/matchup-drafts/:draftId/queue", getMatchupQueue);
+
+// PUT /api/leagues/:leagueId/matchup-drafts/:draftId/queue - Replace user's matchup queue
+router.put("/:leagueId/matchup-drafts/:draftId/queue", validateRequest(matchupQueueSchema, 'body'), setMatchupQueue);
+
+// POST /api/leagues/:leagueId/matchup-drafts/:draftId/toggle-autopick - Toggle matchup autopick for user's roster
+router.post("/:leagueId/matchup-drafts/:draftId/toggle-autopick", toggleMatchupAutopick);
+
 export default router;
@@ -0,0 +1,36 @@
+// src/app/matchups/matchups.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * GET /api/leagues/:id/matchups/:week
+ * Get head-to-head matchups for a league week
+ */
+export const getWeekMatchups = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const week = parseInt(req.params.week, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(week)) {
+      throw new ValidationError("Invalid league ID or week");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const matchupService = Container.getInstance().getMatchupService();
+    const matchups = await matchupService.getWeekMatchups(leagueId, userId, week);
+
+    return res.status(200).json(matchups.map(m => m.toJSON()));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,22 @@
+// src/app/matchups/matchups.routes.ts
+import { Router } from "express";
+import { authMiddleware } from "../common/middleware/auth.middleware";
+import { getWeekMatchups } from "./matchups.controller";
+import { getStandings } from "./standings.controller";
+import { getPlayoffBracket } from "./playoffs.controller";
+
+const router = Router();
+
+// All matchup routes require authentication
+router.use(authMiddleware);
+
+// GET /api/leagues/:id/matchups/:week - Get matchups for a week
+router.get("/:id/matchups/:week", getWeekMatchups);
+
+// GET /api/leagues/:id/standings - Get league standings
+router.get("/:id/standings", getStandings);
+
+// GET /api/leagues/:id/playoffs - Get playoff seeds and bracket
+router.get("/:id/playoffs", getPlayoffBracket);
+
+export default router;
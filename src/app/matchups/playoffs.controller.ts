@@ -0,0 +1,46 @@
+// src/app/matchups/playoffs.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * GET /api/leagues/:id/playoffs
+ * Get playoff seeds and bracket matchups for a league
+ */
+export const getPlayoffBracket = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const playoffService = Container.getInstance().getPlayoffService();
+    const bracket = await playoffService.getBracket(leagueId, userId);
+
+    return res.status(200).json({
+      season: bracket.season,
+      playoff_week_start: bracket.playoffWeekStart,
+      seeds: bracket.seeds.map(s => ({
+        roster_id: s.rosterId,
+        roster_number: s.rosterNumber,
+        username: s.username,
+        bracket: s.bracket,
+        seed: s.seed,
+      })),
+      matchups: bracket.matchups.map(m => m.toJSON()),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
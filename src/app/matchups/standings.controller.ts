@@ -0,0 +1,35 @@
+// src/app/matchups/standings.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * GET /api/leagues/:id/standings
+ * Get league standings ranked by win percentage then points for
+ */
+export const getStandings = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const standingsService = Container.getInstance().getStandingsService();
+    const standings = await standingsService.getStandings(leagueId, userId);
+
+    return res.status(200).json(standings.map(s => s.toJSON()));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,224 @@
+// src/app/mock-drafts/mock-drafts.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+import { MockDraftState } from "../../application/services/MockDraftService";
+
+/**
+ * Mock drafts: practice drafts against CPU opponents, outside any league
+ */
+
+const toResponse = (state: MockDraftState) => ({
+  mock_draft: state.mockDraft,
+  picks: state.picks,
+  current_slot: state.currentSlot,
+  is_user_turn: state.isUserTurn,
+});
+
+const parseMockDraftId = (req: AuthRequest): { mockDraftId: number; userId: string } => {
+  const mockDraftId = parseInt(req.params.mockDraftId, 10);
+  const userId = req.user?.userId;
+
+  if (isNaN(mockDraftId)) {
+    throw new ValidationError("Invalid mock draft ID");
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID not found in request");
+  }
+
+  return { mockDraftId, userId };
+};
+
+/**
+ * POST /api/mock-drafts
+ * Start a mock draft
+ */
+export const createMockDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const {
+      draft_type,
+      third_round_reversal,
+      team_count,
+      rounds,
+      user_slot,
+      scoring_type,
+      season,
+      player_pool,
+      roster_positions,
+      cpu_pick_seconds,
+    } = req.body;
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const state = await mockDraftService.createMockDraft(userId, {
+      draftType: draft_type,
+      thirdRoundReversal: third_round_reversal,
+      teamCount: team_count,
+      rounds,
+      userSlot: user_slot,
+      scoringType: scoring_type,
+      season,
+      playerPool: player_pool,
+      rosterPositions: roster_positions,
+      cpuPickSeconds: cpu_pick_seconds,
+    });
+
+    return res.status(201).json(toResponse(state));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/mock-drafts
+ * Get the user's mock drafts
+ */
+export const getMockDrafts = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const mockDrafts = await mockDraftService.getUserMockDrafts(userId);
+
+    return res.status(200).json(mockDrafts);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/mock-drafts/:mockDraftId
+ * Get a mock draft with its picks
+ */
+export const getMockDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mockDraftId, userId } = parseMockDraftId(req);
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const state = await mockDraftService.getMockDraftState(mockDraftId, userId);
+
+    return res.status(200).json(toResponse(state));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/mock-drafts/:mockDraftId/available-players
+ * Get undrafted players with optional filters
+ */
+export const getMockDraftAvailablePlayers = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mockDraftId, userId } = parseMockDraftId(req);
+
+    const { position, team, search } = req.query;
+    const filters: any = {};
+
+    if (position && typeof position === 'string') {
+      filters.position = position;
+    }
+    if (team && typeof team === 'string') {
+      filters.team = team;
+    }
+    if (search && typeof search === 'string') {
+      filters.search = search;
+    }
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const players = await mockDraftService.getAvailablePlayers(mockDraftId, userId, filters);
+
+    return res.status(200).json(players);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/mock-drafts/:mockDraftId/pick
+ * Make the user's pick
+ */
+export const makeMockDraftPick = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mockDraftId, userId } = parseMockDraftId(req);
+    const { player_id } = req.body;
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const state = await mockDraftService.makePick(mockDraftId, userId, player_id);
+
+    return res.status(201).json(toResponse(state));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/mock-drafts/:mockDraftId
+ * Change CPU pick speed
+ */
+export const updateMockDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mockDraftId, userId } = parseMockDraftId(req);
+    const { cpu_pick_seconds } = req.body;
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const mockDraft = await mockDraftService.updateCpuPickSpeed(mockDraftId, userId, cpu_pick_seconds);
+
+    return res.status(200).json(mockDraft);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/mock-drafts/:mockDraftId
+ * Delete a mock draft
+ */
+export const deleteMockDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { mockDraftId, userId } = parseMockDraftId(req);
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    await mockDraftService.deleteMockDraft(mockDraftId, userId);
+
+    return res.status(200).json({ message: "Mock draft deleted successfully" });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,46 @@
+// src/app/mock-drafts/mock-drafts.routes.ts
+import { Router } from "express";
+import { authMiddleware } from "../common/middleware/auth.middleware";
+import { validateRequest } from "../validators/validation.middleware";
+import {
+  createMockDraftSchema,
+  mockDraftPickSchema,
+  updateMockDraftSchema,
+} from "../validators/schemas/mockDraft.schemas";
+import {
+  createMockDraft,
+  getMockDrafts,
+  getMockDraft,
+  getMockDraftAvailablePlayers,
+  makeMockDraftPick,
+  updateMockDraft,
+  deleteMockDraft,
+} from "./mock-drafts.controller";
+
+const router = Router();
+
+// All mock draft routes require authentication
+router.use(authMiddleware);
+
+// GET /api/mock-drafts - Get user's mock drafts
+router.get("/", getMockDrafts);
+
+// POST /api/mock-drafts - Start a mock draft against CPU opponents
+router.post("/", validateRequest(createMockDraftSchema, 'body'), createMockDraft);
+
+// GET /api/mock-drafts/:mockDraftId - Get mock draft state and picks
+router.get("/:mockDraftId", getMockDraft);
+
+// PUT /api/mock-drafts/:mockDraftId - Change CPU pick speed
+router.put("/:mockDraftId", validateRequest(updateMockDraftSchema, 'body'), updateMockDraft);
+
+// DELETE /api/mock-drafts/:mockDraftId - Delete a mock draft
+router.delete("/:mockDraftId", deleteMockDraft);
+
+// GET /api/mock-drafts/:mockDraftId/available-players - Get undrafted players
+router.get("/:mockDraftId/available-players", getMockDraftAvailablePlayers);
+
+// POST /api/mock-drafts/:mockDraftId/pick - Make a pick (user's turn only)
+router.post("/:mockDraftId/pick", validateRequest(mockDraftPickSchema, 'body'), makeMockDraftPick);
+
+export default router;
@@ -4,7 +4,7 @@ import { NotFoundError, ValidationError } from "../common/utils/errors";
 import { Container } from "../../infrastructure/di/Container";
 import { PlayerService } from "../../application/services/PlayerService";
 import { PlayerSyncService } from "../../application/services/PlayerSyncService";
-import { PlayerFilters } from "../../domain/repositories/IPlayerRepository";
+import { PlayerFilters, AdpSegment, PlayerSortField } from "../../domain/repositories/IPlayerRepository";
 
 // Helper to get PlayerService from DI Container
 function getPlayerService(): PlayerService {
@@ -16,6 +16,47 @@ function getPlayerSyncService(): PlayerSyncService {
   return Container.getInstance().getPlayerSyncService();
 }
 
+const SORT_FIELDS: PlayerSortField[] = ["name", "adp"];
+const ADP_SCORING_TYPES = ["ppr", "half_ppr", "standard"];
+
+// Parse ?sort= for player lists
+function parseSort(req: AuthRequest): PlayerSortField | undefined {
+  const sort = req.query.sort as string | undefined;
+  if (sort === undefined) return undefined;
+
+  if (!SORT_FIELDS.includes(sort as PlayerSortField)) {
+    throw new ValidationError(`Sort must be one of: ${SORT_FIELDS.join(", ")}`);
+  }
+  return sort as PlayerSortField;
+}
+
+// Parse the ADP segment (?season=&scoring_type=&league_size=&draft_type=)
+function parseAdpSegment(req: AuthRequest): AdpSegment {
+  const { season, scoring_type, league_size, draft_type } = req.query;
+  const segment: AdpSegment = {};
+
+  if (typeof season === "string") {
+    segment.season = season;
+  }
+  if (typeof scoring_type === "string") {
+    if (!ADP_SCORING_TYPES.includes(scoring_type)) {
+      throw new ValidationError(`Scoring type must be one of: ${ADP_SCORING_TYPES.join(", ")}`);
+    }
+    segment.scoringType = scoring_type as AdpSegment["scoringType"];
+  }
+  if (typeof league_size === "string") {
+    segment.leagueSize = parseInt(league_size);
+    if (isNaN(segment.leagueSize) || segment.leagueSize < 1) {
+      throw new ValidationError("Invalid league_size parameter");
+    }
+  }
+  if (typeof draft_type === "string") {
+    segment.draftType = draft_type;
+  }
+
+  return segment;
+}
+
 /**
  * Get a player by ID
  * GET /api/players/:id
@@ -47,7 +88,7 @@ export const getPlayerById = async (
 
 /**
  * Search players with filters
- * GET /api/players/search?position=QB&team=KC&search=mahomes&limit=20&offset=0
+ * GET /api/players/search?position=QB&team=KC&search=mahomes&limit=20&offset=0&sort=adp&scoring_type=ppr
  */
 export const searchPlayers = async (
   req: AuthRequest,
@@ -62,6 +103,8 @@ export const searchPlayers = async (
       active: req.query.active === 'false' ? false : req.query.active === 'true' ? true : undefined,
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      sort: parseSort(req),
+      adp: parseAdpSegment(req),
     };
 
     // Validate numeric parameters
@@ -82,8 +125,8 @@ export const searchPlayers = async (
 };
 
 /**
- * Get all active players
- * GET /api/players
+ * Get all active players with their ADP, optionally sorted by it
+ * GET /api/players?sort=adp&season=2026&scoring_type=ppr&league_size=12&draft_type=snake
  */
 export const getActivePlayers = async (
   req: AuthRequest,
@@ -92,7 +135,7 @@ export const getActivePlayers = async (
 ) => {
   try {
     const playerService = getPlayerService();
-    const players = await playerService.getActivePlayers();
+    const players = await playerService.getActivePlayers(parseSort(req), parseAdpSegment(req));
 
     res.json(players);
   } catch (error) {
@@ -10,7 +10,7 @@ router.post("/sync", syncPlayers);
 // All other player routes require authentication
 router.use(authMiddleware);
 
-// GET /api/players - Get all active players
+// GET /api/players - Get all active players (?sort=adp|name with optional ADP segment filters)
 router.get("/", getActivePlayers);
 
 // GET /api/players/search - Search players with filters
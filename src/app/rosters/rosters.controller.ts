@@ -0,0 +1,70 @@
+// src/app/rosters/rosters.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * GET /api/leagues/:id/rosters/:rosterId/lineup
+ * Get a roster's starters and bench
+ */
+export const getLineup = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const rosterId = parseInt(req.params.rosterId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(rosterId)) {
+      throw new ValidationError("Invalid league ID or roster ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const lineupService = Container.getInstance().getLineupService();
+    const lineup = await lineupService.getLineup(leagueId, rosterId, userId);
+
+    return res.status(200).json(lineup);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/leagues/:id/rosters/:rosterId/lineup
+ * Set a roster's starters and bench (roster owner only)
+ */
+export const updateLineup = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const rosterId = parseInt(req.params.rosterId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(rosterId)) {
+      throw new ValidationError("Invalid league ID or roster ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const lineupService = Container.getInstance().getLineupService();
+    const lineup = await lineupService.updateLineup(leagueId, rosterId, userId, {
+      starters: req.body.starters,
+      bench: req.body.bench,
+    });
+
+    return res.status(200).json(lineup);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,19 @@
+// src/app/rosters/rosters.routes.ts
+import { Router } from "express";
+import { authMiddleware } from "../common/middleware/auth.middleware";
+import { validateRequest } from "../validators/validation.middleware";
+import { updateLineupSchema } from "../validators/schemas/roster.schemas";
+import { getLineup, updateLineup } from "./rosters.controller";
+
+const router = Router();
+
+// All roster routes require authentication
+router.use(authMiddleware);
+
+// GET /api/leagues/:id/rosters/:rosterId/lineup - Get a roster's lineup
+router.get("/:id/rosters/:rosterId/lineup", getLineup);
+
+// PUT /api/leagues/:id/rosters/:rosterId/lineup - Set a roster's lineup
+router.put("/:id/rosters/:rosterId/lineup", validateRequest(updateLineupSchema, 'body'), updateLineup);
+
+export default router;
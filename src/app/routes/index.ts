@@ -6,6 +6,11 @@ import leaguesRoutes from "../leagues/leagues.routes";
 import directMessagesRoutes from "../directMessages/directMessages.routes";
 import draftsRoutes from "../drafts/drafts.routes";
 import matchupDraftsRoutes from "../matchup-drafts/matchup-drafts.routes";
+import mockDraftsRoutes from "../mock-drafts/mock-drafts.routes";
+import matchupsRoutes from "../matchups/matchups.routes";
+import rostersRoutes from "../rosters/rosters.routes";
+import waiversRoutes from "../waivers/waivers.routes";
+import tradesRoutes from "../trades/trades.routes";
 import playersRoutes from "../players/players.routes";
 import statsRoutes from "../stats/stats.routes";
 
@@ -17,7 +22,12 @@ router.use("/auth", authRoutes);
 router.use("/leagues", leaguesRoutes);
 router.use("/leagues", draftsRoutes); // Drafts routes are nested under leagues
 router.use("/leagues", matchupDraftsRoutes); // Matchup drafts routes are nested under leagues
+router.use("/leagues", matchupsRoutes); // Matchups routes are nested under leagues
+router.use("/leagues", rostersRoutes); // Roster routes are nested under leagues
+router.use("/leagues", waiversRoutes); // Waiver routes are nested under leagues
+router.use("/leagues", tradesRoutes); // Trade routes are nested under leagues
 router.use("/direct-messages", directMessagesRoutes);
+router.use("/mock-drafts", mockDraftsRoutes);
 router.use("/players", playersRoutes);
 router.use("/stats", statsRoutes);
 
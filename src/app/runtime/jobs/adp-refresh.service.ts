@@ -0,0 +1,27 @@
+import { Container } from '../../../infrastructure/di/Container';
+
+let isProcessing = false;
+
+/**
+ * Recalculate the player_adp materialized view from completed drafts
+ * Called hourly by cron job
+ */
+export const refreshAdp = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const playerService = Container.getInstance().getPlayerService();
+    await playerService.refreshAdp();
+
+    console.log('[ADP] player_adp materialized view refreshed');
+  } catch (error) {
+    console.error('[ADP] Error in refreshAdp:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -17,17 +17,20 @@ export const processExpiredDraftPicks = async () => {
     isProcessing = true;
 
     // Find drafts with expired pick deadlines OR where current picker has autopick enabled
+    // Untimed auctions have no deadline between lots but still auto-nominate for managers on autopick
     const result = await pool.query(
-      `SELECT id, league_id FROM drafts
+      `SELECT id, league_id, draft_type FROM drafts
        WHERE status = 'in_progress'
-       AND pick_deadline IS NOT NULL
        AND (
          pick_deadline < NOW()
-         OR EXISTS (
-           SELECT 1 FROM rosters
-           WHERE rosters.league_id = drafts.league_id
-           AND rosters.id = drafts.current_roster_id
-           AND rosters.autopick_enabled = true
+         OR (
+           (pick_deadline IS NOT NULL OR draft_type = 'auction')
+           AND EXISTS (
+             SELECT 1 FROM rosters
+             WHERE rosters.league_id = drafts.league_id
+             AND rosters.id = drafts.current_roster_id
+             AND rosters.autopick_enabled = true
+           )
          )
        )`,
       []
@@ -48,7 +51,12 @@ export const processExpiredDraftPicks = async () => {
         console.log(`[Draft Auto-Pick] Processing draft ${draftId} (league ${leagueId})`);
 
         const draftService = Container.getInstance().getDraftService();
-        await draftService.autoPickForCurrentUser(draftId);
+        if (row.draft_type === 'auction') {
+          // Close an expired lot or auto-nominate for the current nominator
+          await draftService.processAuctionTimeout(draftId);
+        } else {
+          await draftService.autoPickForCurrentUser(draftId);
+        }
 
         console.log(`[Draft Auto-Pick] Successfully auto-picked for draft ${draftId}`);
       } catch (error) {
@@ -0,0 +1,47 @@
+import { Container } from '../../../infrastructure/di/Container';
+import { getSocketService } from '../socket/socket.service';
+
+let isProcessing = false;
+
+/**
+ * Post countdown reminders and auto-start scheduled drafts and derbies
+ * Called every minute by cron job. Each reminder and start is recorded in
+ * draft_schedule_events, so a restart never repeats one.
+ */
+export const processScheduledDrafts = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const schedulerService = Container.getInstance().getDraftSchedulerService();
+    const result = await schedulerService.processScheduledDrafts();
+
+    for (const derby of result.derbiesStarted) {
+      try {
+        getSocketService().emitDerbyUpdate(derby.leagueId, {
+          draft_id: derby.id,
+          action: 'derby_started',
+          current_picker_index: derby.settings?.current_picker_index,
+          derby_status: derby.settings?.derby_status,
+          pick_deadline: derby.settings?.pick_deadline,
+        });
+      } catch (error) {
+        console.error('[Draft Scheduler] Error emitting WebSocket event:', error);
+      }
+    }
+
+    if (result.draftsStarted > 0 || result.derbiesStarted.length > 0) {
+      console.log(
+        `[Draft Scheduler] Started ${result.draftsStarted} draft(s) and ${result.derbiesStarted.length} derby(s)`
+      );
+    }
+  } catch (error) {
+    console.error('[Draft Scheduler] Error in processScheduledDrafts:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -0,0 +1,64 @@
+import { Container } from '../../../infrastructure/di/Container';
+import { pool } from '../../../db/pool';
+
+let isProcessing = false;
+
+/**
+ * Process expired matchup draft picks
+ * Called by cron job to check for matchup drafts where pick_deadline has passed
+ * or the manager on the clock has matchup autopick enabled
+ */
+export const processExpiredMatchupDraftPicks = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    // current_roster_id holds the league roster number (rosters.roster_id)
+    const result = await pool.query(
+      `SELECT id, league_id FROM matchup_drafts
+       WHERE status = 'in_progress'
+       AND (
+         pick_deadline < NOW()
+         OR EXISTS (
+           SELECT 1 FROM rosters
+           WHERE rosters.league_id = matchup_drafts.league_id
+           AND rosters.roster_id = matchup_drafts.current_roster_id
+           AND rosters.matchup_autopick_enabled = true
+         )
+       )`,
+      []
+    );
+
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    console.log(`[Matchup Draft Auto-Pick] Found ${result.rows.length} matchup draft(s) to auto-pick`);
+
+    for (const row of result.rows) {
+      const draftId = row.id;
+      const leagueId = row.league_id;
+
+      try {
+        const matchupDraftService = Container.getInstance().getMatchupDraftService();
+        const pick = await matchupDraftService.handleExpiredPick(leagueId, draftId);
+
+        if (pick) {
+          console.log(
+            `[Matchup Draft Auto-Pick] Auto-picked week ${pick.weekNumber} vs roster ${pick.opponentRosterNumber} in draft ${draftId}`
+          );
+        }
+      } catch (error) {
+        console.error(`[Matchup Draft Auto-Pick] Error processing draft ${draftId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Matchup Draft Auto-Pick] Error in processExpiredMatchupDraftPicks:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
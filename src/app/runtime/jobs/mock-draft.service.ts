@@ -0,0 +1,41 @@
+import { Container } from '../../../infrastructure/di/Container';
+import { getSocketService } from '../socket/socket.service';
+import { SocketEvents, MockDraftEventTypes } from '../socket/socketEvents';
+
+let isProcessing = false;
+
+/**
+ * Make CPU picks that are due in mock drafts
+ * Called every second by cron job; each mock draft's cpu_pick_seconds sets the pace.
+ */
+export const processMockDraftPicks = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const mockDraftService = Container.getInstance().getMockDraftService();
+    const runs = await mockDraftService.processDueCpuPicks();
+
+    for (const { mockDraft, picks } of runs) {
+      try {
+        getSocketService().emitToRoom(`mock_draft_${mockDraft.id}`, SocketEvents.MOCK_DRAFT_EVENT, {
+          event_type: mockDraft.status === 'completed'
+            ? MockDraftEventTypes.MOCK_DRAFT_COMPLETED
+            : MockDraftEventTypes.CPU_PICKS_MADE,
+          mock_draft: mockDraft,
+          picks,
+        });
+      } catch (error) {
+        console.error('[Mock Draft] Error emitting WebSocket event:', error);
+      }
+    }
+  } catch (error) {
+    console.error('[Mock Draft] Error in processMockDraftPicks:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -0,0 +1,29 @@
+import { Container } from '../../../infrastructure/di/Container';
+
+let isProcessing = false;
+
+/**
+ * Execute accepted trades whose veto window has ended
+ * Called every minute by cron job
+ */
+export const processTradeReviews = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const tradeService = Container.getInstance().getTradeService();
+    const processed = await tradeService.processReviewedTrades();
+
+    if (processed > 0) {
+      console.log(`[Trades] Processed ${processed} trade(s) after review`);
+    }
+  } catch (error) {
+    console.error('[Trades] Error in processTradeReviews:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -0,0 +1,56 @@
+import { Container } from '../../../infrastructure/di/Container';
+import { pool } from '../../../db/pool';
+import { DEFAULT_WAIVER_DAY } from '../../../application/services/WaiverService';
+
+let isProcessing = false;
+
+/**
+ * Process waiver claims
+ * Called hourly by cron job. A league is processed once on its waiver day
+ * (settings.waiver_day, UTC); leagues.last_waiver_run_at keeps a restart or
+ * a later hourly tick from running the same day twice.
+ */
+export const processWaivers = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const waiverService = Container.getInstance().getWaiverService();
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+
+    const result = await pool.query(
+      `SELECT id, settings, last_waiver_run_at
+       FROM leagues
+       WHERE status != 'complete'
+       ORDER BY id`
+    );
+
+    for (const league of result.rows) {
+      const waiverDay = league.settings?.waiver_day ?? DEFAULT_WAIVER_DAY;
+      if (now.getUTCDay() !== waiverDay) {
+        continue;
+      }
+
+      const lastRun: Date | null = league.last_waiver_run_at;
+      if (lastRun && lastRun.toISOString().slice(0, 10) === today) {
+        continue;
+      }
+
+      try {
+        const processed = await waiverService.processLeagueWaivers(league.id);
+        console.log(`[Waivers] Processed ${processed} claim(s) for league ${league.id}`);
+      } catch (error) {
+        console.error(`[Waivers] Error processing league ${league.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Waivers] Error in processWaivers:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
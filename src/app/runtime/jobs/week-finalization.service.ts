@@ -0,0 +1,155 @@
+import { Container } from '../../../infrastructure/di/Container';
+import { pool } from '../../../db/pool';
+import { League } from '../../../domain/models/League';
+import { GameSchedule } from '../../../infrastructure/external/SleeperScheduleService';
+
+let isProcessing = false;
+
+/**
+ * Whether any game in the week kicks off after the league's first draft completed
+ * Weeks played entirely before the draft have no drafted rosters to score, so they are never back-filled.
+ */
+export function isWeekAfterDraft(schedule: GameSchedule[], draftCompletedAt: Date | null): boolean {
+  if (!draftCompletedAt) return true;
+  return schedule.some(game => {
+    const startTime = Number(game.start_time);
+    // Sleeper sends milliseconds; allow seconds too
+    const startMs = startTime < 1e12 ? startTime * 1000 : startTime;
+    return startMs >= draftCompletedAt.getTime();
+  });
+}
+
+/**
+ * Finalize completed weeks
+ * Called by cron job. For every in-season league (or one whose draft has completed), any week
+ * whose NFL games are all complete gets its matchup scores locked, W/L/T recorded and standings
+ * rebuilt. Weeks that were over before the league's first draft completed are skipped.
+ * The last regular season week seeds the playoffs; each playoff week advances the bracket.
+ * Safe to re-run: already final matchups are skipped.
+ */
+export const processCompletedWeeks = async () => {
+  // Prevent concurrent processing
+  if (isProcessing) {
+    return;
+  }
+
+  try {
+    isProcessing = true;
+
+    const container = Container.getInstance();
+    const scheduleService = container.getSleeperScheduleService();
+    const currentWeekService = container.getCurrentWeekService();
+    const statsSyncService = container.getStatsSyncService();
+    const matchupService = container.getMatchupService();
+    const standingsService = container.getStandingsService();
+    const playoffService = container.getPlayoffService();
+    const chatService = container.getChatService();
+
+    // Leagues still before or in their draft have empty rosters; finalizing them would record fake results
+    const result = await pool.query(
+      `SELECT l.id, l.season, l.season_type, l.status, l.settings,
+              (SELECT MIN(d.completed_at) FROM drafts d
+               WHERE d.league_id = l.id AND d.status = 'completed') AS draft_completed_at
+       FROM leagues l
+       WHERE l.season IS NOT NULL AND l.status != 'complete'
+       AND (
+         l.status = 'in_season'
+         OR EXISTS (SELECT 1 FROM drafts d WHERE d.league_id = l.id AND d.status = 'completed')
+       )
+       ORDER BY l.id`
+    );
+
+    // Cache schedule lookups and final stat syncs across leagues in this run
+    const weekComplete = new Map<string, boolean>();
+    const weekSchedules = new Map<string, GameSchedule[]>();
+    const syncedWeeks = new Set<string>();
+
+    for (const league of result.rows) {
+      const leagueId = league.id;
+      const seasonType = league.season_type || 'regular';
+
+      try {
+        const currentWeek = await currentWeekService.getCurrentNFLWeek(league.season, seasonType);
+        const startWeek = league.settings?.start_week || 1;
+        const playoffWeekStart = League.getPlayoffWeekStart(league.settings);
+        const draftCompletedAt: Date | null = league.draft_completed_at
+          ? new Date(league.draft_completed_at)
+          : null;
+        let finalizedAny = false;
+        let afterDraft = false;
+
+        for (let week = startWeek; week <= Math.min(currentWeek, 18); week++) {
+          const key = `${league.season}-${seasonType}-${week}`;
+
+          // Weeks come in order, so once one is past the draft every later one is too
+          if (!afterDraft) {
+            if (!weekSchedules.has(key)) {
+              weekSchedules.set(key, await scheduleService.getWeekSchedule(league.season, week, seasonType));
+            }
+            afterDraft = isWeekAfterDraft(weekSchedules.get(key)!, draftCompletedAt);
+            if (!afterDraft) {
+              continue;
+            }
+          }
+
+          const matchups = await matchupService.ensureWeekMatchups(leagueId, week);
+          if (matchups.length === 0 || matchups.every(m => m.isFinal)) {
+            continue;
+          }
+
+          if (!weekComplete.has(key)) {
+            weekComplete.set(
+              key,
+              await scheduleService.isWeekComplete(league.season, week, seasonType)
+            );
+          }
+          if (!weekComplete.get(key)) {
+            continue;
+          }
+
+          // Pull final stats once per week before locking any league's scores
+          if (!syncedWeeks.has(key)) {
+            await statsSyncService.syncWeeklyStats(league.season, week, seasonType);
+            syncedWeeks.add(key);
+          }
+
+          await matchupService.finalizeWeek(leagueId, week, seasonType);
+          finalizedAny = true;
+
+          console.log(`[Week Finalization] Finalized league ${leagueId} week ${week}`);
+
+          await chatService.sendSystemMessage(
+            leagueId,
+            `📊 Week ${week} results are final`,
+            { event: 'week_finalized', week }
+          );
+
+          // Standings must be current before the bracket is seeded off them
+          if (week < playoffWeekStart) {
+            await standingsService.recalculateStandings(leagueId);
+          }
+          if (week === playoffWeekStart - 1) {
+            await playoffService.seedPlayoffs(leagueId);
+          } else if (week >= playoffWeekStart) {
+            await playoffService.advanceBracket(leagueId, week);
+          }
+        }
+
+        if (finalizedAny) {
+          await pool.query(
+            `UPDATE leagues
+             SET status = 'in_season', updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND status IN ('pre_draft', 'drafting')`,
+            [leagueId]
+          );
+        }
+      } catch (error) {
+        console.error(`[Week Finalization] Error processing league ${leagueId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('[Week Finalization] Error in processCompletedWeeks:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -2,6 +2,7 @@ import { IDraftEventsPublisher } from '../../../application/services/IDraftEvent
 import { DraftData } from '../../../domain/repositories/IDraftRepository';
 import { DraftPick } from '../../../domain/models/DraftPick';
 import { DraftOrderEntry } from '../../../domain/models/DraftOrderEntry';
+import { AuctionLot } from '../../../domain/models/AuctionLot';
 import { getSocketService } from './socket.service';
 import { SocketEvents, DraftEventTypes } from './socketEvents';
 
@@ -35,14 +36,16 @@ export class SocketDraftEventsPublisher implements IDraftEventsPublisher {
   emitPickerChanged(
     leagueId: number,
     currentPicker: DraftOrderEntry,
-    draft: DraftData
+    draft: DraftData,
+    timeBanks: Record<number, number> | null
   ): void {
     const socketService = getSocketService();
     socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
       event_type: DraftEventTypes.PICKER_CHANGED,
       draft_id: draft.id,
       current_picker: currentPicker,
-      draft
+      draft,
+      time_banks: timeBanks
     });
   }
 
@@ -121,4 +124,83 @@ export class SocketDraftEventsPublisher implements IDraftEventsPublisher {
       user_id: userId
     });
   }
+
+  emitAuctionNomination(leagueId: number, draft: DraftData, lot: AuctionLot): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.AUCTION_NOMINATION,
+      draft_id: draft.id,
+      lot,
+      draft
+    });
+  }
+
+  emitAuctionBid(leagueId: number, draft: DraftData, lot: AuctionLot): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.AUCTION_BID,
+      draft_id: draft.id,
+      lot,
+      draft
+    });
+  }
+
+  emitAuctionPlayerSold(
+    leagueId: number,
+    pick: DraftPick,
+    draft: DraftData,
+    nextNominator: DraftOrderEntry | null
+  ): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.AUCTION_PLAYER_SOLD,
+      draft_id: draft.id,
+      pick,
+      draft,
+      next_nominator: nextNominator
+    });
+  }
+
+  emitPicksUndone(
+    leagueId: number,
+    draft: DraftData,
+    undonePicks: DraftPick[],
+    currentPicker: DraftOrderEntry | null
+  ): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.PICKS_UNDONE,
+      draft_id: draft.id,
+      undone_picks: undonePicks,
+      draft,
+      current_picker: currentPicker
+    });
+  }
+
+  emitPickEdited(leagueId: number, draft: DraftData, pick: DraftPick, previousPlayerId: number): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.PICK_EDITED,
+      draft_id: draft.id,
+      pick,
+      previous_player_id: previousPlayerId,
+      draft
+    });
+  }
+
+  emitCommissionerPickMade(
+    leagueId: number,
+    pick: DraftPick,
+    draft: DraftData,
+    nextPicker: DraftOrderEntry | null
+  ): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.DRAFT_EVENT, {
+      event_type: DraftEventTypes.COMMISSIONER_PICK_MADE,
+      draft_id: draft.id,
+      pick,
+      draft,
+      next_picker: nextPicker
+    });
+  }
 }
@@ -1,4 +1,5 @@
 import { IMatchupDraftEventsPublisher } from '../../../application/services/IMatchupDraftEventsPublisher';
+import { MatchupDerbyAssignment, MatchupDerbyState } from '../../../application/services/MatchupDraftDerbyService';
 import { getSocketService } from './socket.service';
 import { SocketEvents, MatchupDraftEventTypes } from './socketEvents';
 
@@ -55,4 +56,59 @@ export class SocketMatchupDraftEventsPublisher implements IMatchupDraftEventsPub
       draft_id: draftId
     });
   }
+
+  emitMatchupDerbyStarted(leagueId: number, draftId: number, derby: MatchupDerbyState): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.MATCHUP_DRAFT_EVENT, {
+      event_type: MatchupDraftEventTypes.MATCHUP_DERBY_STARTED,
+      draft_id: draftId,
+      current_picker: derby.currentPicker,
+      pick_deadline: derby.pickDeadline
+    });
+  }
+
+  emitMatchupDerbySlotPicked(
+    leagueId: number,
+    draftId: number,
+    assignment: MatchupDerbyAssignment,
+    derby: MatchupDerbyState
+  ): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.MATCHUP_DRAFT_EVENT, {
+      event_type: MatchupDraftEventTypes.MATCHUP_DERBY_SLOT_PICKED,
+      draft_id: draftId,
+      action: assignment.action,
+      roster_id: assignment.rosterId,
+      slot_number: assignment.slotNumber,
+      derby_status: derby.status,
+      current_picker: derby.currentPicker,
+      pick_deadline: derby.pickDeadline
+    });
+  }
+
+  emitMatchupDerbyPaused(leagueId: number, draftId: number): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.MATCHUP_DRAFT_EVENT, {
+      event_type: MatchupDraftEventTypes.MATCHUP_DERBY_PAUSED,
+      draft_id: draftId
+    });
+  }
+
+  emitMatchupDerbyResumed(leagueId: number, draftId: number, derby: MatchupDerbyState): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.MATCHUP_DRAFT_EVENT, {
+      event_type: MatchupDraftEventTypes.MATCHUP_DERBY_RESUMED,
+      draft_id: draftId,
+      current_picker: derby.currentPicker,
+      pick_deadline: derby.pickDeadline
+    });
+  }
+
+  emitMatchupDerbyCompleted(leagueId: number, draftId: number): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.MATCHUP_DRAFT_EVENT, {
+      event_type: MatchupDraftEventTypes.MATCHUP_DERBY_COMPLETED,
+      draft_id: draftId
+    });
+  }
 }
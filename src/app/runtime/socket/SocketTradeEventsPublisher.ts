@@ -0,0 +1,57 @@
+import { ITradeEventsPublisher } from '../../../application/services/ITradeEventsPublisher';
+import { Trade } from '../../../domain/models/Trade';
+import { getSocketService } from './socket.service';
+import { SocketEvents, TradeEventTypes, TradeEventType } from './socketEvents';
+
+export class SocketTradeEventsPublisher implements ITradeEventsPublisher {
+  emitTradeProposed(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_PROPOSED, { trade: trade.toJSON() });
+  }
+
+  emitTradeAccepted(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_ACCEPTED, { trade: trade.toJSON() });
+  }
+
+  emitTradeRejected(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_REJECTED, { trade: trade.toJSON() });
+  }
+
+  emitTradeCountered(leagueId: number, trade: Trade, counter: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_COUNTERED, {
+      trade: trade.toJSON(),
+      counter: counter.toJSON()
+    });
+  }
+
+  emitTradeCancelled(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_CANCELLED, { trade: trade.toJSON() });
+  }
+
+  emitTradeVetoVote(leagueId: number, trade: Trade, vetoCount: number, vetoThreshold: number): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_VETO_VOTE, {
+      trade: trade.toJSON(),
+      veto_count: vetoCount,
+      veto_threshold: vetoThreshold
+    });
+  }
+
+  emitTradeVetoed(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_VETOED, { trade: trade.toJSON() });
+  }
+
+  emitTradeCompleted(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_COMPLETED, { trade: trade.toJSON() });
+  }
+
+  emitTradeFailed(leagueId: number, trade: Trade): void {
+    this.emit(leagueId, TradeEventTypes.TRADE_FAILED, { trade: trade.toJSON() });
+  }
+
+  private emit(leagueId: number, eventType: TradeEventType, data: Record<string, any>): void {
+    const socketService = getSocketService();
+    socketService.emitToRoom(`league_${leagueId}`, SocketEvents.TRADE_EVENT, {
+      event_type: eventType,
+      ...data
+    });
+  }
+}
@@ -171,7 +171,12 @@ export type MatchupDraftEventType =
   | 'matchup_picker_changed'
   | 'matchup_draft_paused'
   | 'matchup_draft_resumed'
-  | 'matchup_draft_completed';
+  | 'matchup_draft_completed'
+  | 'matchup_derby_started'
+  | 'matchup_derby_slot_picked'
+  | 'matchup_derby_paused'
+  | 'matchup_derby_resumed'
+  | 'matchup_derby_completed';
 
 export interface MatchupDraftEventData {
   currentPick?: number;
@@ -34,9 +34,15 @@ export const SocketEvents = {
   // Matchup draft events
   MATCHUP_DRAFT_EVENT: 'matchup_draft_event',
 
+  // Mock draft events (room: mock_draft_<id>)
+  MOCK_DRAFT_EVENT: 'mock_draft_event',
+
   // Derby events
   DERBY_UPDATED: 'derby_updated',
 
+  // Trade events
+  TRADE_EVENT: 'trade_event',
+
   // Matchup/Score events
   JOIN_MATCHUP: 'join_matchup',
   LEAVE_MATCHUP: 'leave_matchup',
@@ -57,6 +63,12 @@ export const DraftEventTypes = {
   AUTO_PICK_OCCURRED: 'auto_pick_occurred',
   AUTOPICK_STATUS_CHANGED: 'autopick_status_changed',
   AUTOPICK_ENABLED_ON_TIMEOUT: 'autopick_enabled_on_timeout',
+  AUCTION_NOMINATION: 'auction_nomination',
+  AUCTION_BID: 'auction_bid',
+  AUCTION_PLAYER_SOLD: 'auction_player_sold',
+  PICKS_UNDONE: 'picks_undone',
+  PICK_EDITED: 'pick_edited',
+  COMMISSIONER_PICK_MADE: 'commissioner_pick_made',
 } as const;
 
 /**
@@ -69,9 +81,39 @@ export const MatchupDraftEventTypes = {
   MATCHUP_DRAFT_PAUSED: 'matchup_draft_paused',
   MATCHUP_DRAFT_RESUMED: 'matchup_draft_resumed',
   MATCHUP_DRAFT_COMPLETED: 'matchup_draft_completed',
+  MATCHUP_DERBY_STARTED: 'matchup_derby_started',
+  MATCHUP_DERBY_SLOT_PICKED: 'matchup_derby_slot_picked',
+  MATCHUP_DERBY_PAUSED: 'matchup_derby_paused',
+  MATCHUP_DERBY_RESUMED: 'matchup_derby_resumed',
+  MATCHUP_DERBY_COMPLETED: 'matchup_derby_completed',
+} as const;
+
+/**
+ * Trade event types (sent via TRADE_EVENT with event_type field)
+ */
+export const TradeEventTypes = {
+  TRADE_PROPOSED: 'trade_proposed',
+  TRADE_ACCEPTED: 'trade_accepted',
+  TRADE_REJECTED: 'trade_rejected',
+  TRADE_COUNTERED: 'trade_countered',
+  TRADE_CANCELLED: 'trade_cancelled',
+  TRADE_VETO_VOTE: 'trade_veto_vote',
+  TRADE_VETOED: 'trade_vetoed',
+  TRADE_COMPLETED: 'trade_completed',
+  TRADE_FAILED: 'trade_failed',
+} as const;
+
+/**
+ * Mock draft event types (sent via MOCK_DRAFT_EVENT with event_type field)
+ */
+export const MockDraftEventTypes = {
+  CPU_PICKS_MADE: 'cpu_picks_made',
+  MOCK_DRAFT_COMPLETED: 'mock_draft_completed',
 } as const;
 
 // Type exports for type-safety
 export type SocketEvent = typeof SocketEvents[keyof typeof SocketEvents];
 export type DraftEventType = typeof DraftEventTypes[keyof typeof DraftEventTypes];
 export type MatchupDraftEventType = typeof MatchupDraftEventTypes[keyof typeof MatchupDraftEventTypes];
+export type TradeEventType = typeof TradeEventTypes[keyof typeof TradeEventTypes];
+export type MockDraftEventType = typeof MockDraftEventTypes[keyof typeof MockDraftEventTypes];
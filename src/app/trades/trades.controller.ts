@@ -0,0 +1,251 @@
+// src/app/trades/trades.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+import { TradeStatus } from "../../domain/models/Trade";
+import { TradeOffer } from "../../application/services/TradeService";
+
+const TRADE_STATUSES: TradeStatus[] = [
+  'pending',
+  'accepted',
+  'completed',
+  'rejected',
+  'countered',
+  'cancelled',
+  'vetoed',
+  'failed',
+];
+
+/**
+ * Read league ID, trade ID and user ID from a trade request
+ */
+function getTradeParams(req: AuthRequest): { leagueId: number; tradeId: number; userId: string } {
+  const leagueId = parseInt(req.params.id, 10);
+  const tradeId = parseInt(req.params.tradeId, 10);
+  const userId = req.user?.userId;
+
+  if (isNaN(leagueId) || isNaN(tradeId)) {
+    throw new ValidationError("Invalid league ID or trade ID");
+  }
+
+  if (!userId) {
+    throw new ValidationError("User ID not found in request");
+  }
+
+  return { leagueId, tradeId, userId };
+}
+
+/**
+ * Map a validated offer body to the service's TradeOffer
+ */
+function toTradeOffer(body: any): TradeOffer {
+  const toPick = (pick: any) => ({
+    draftId: pick.draft_id,
+    round: pick.round,
+    originalRosterId: pick.original_roster_id,
+  });
+
+  return {
+    givePlayerIds: body.give_player_ids,
+    receivePlayerIds: body.receive_player_ids,
+    givePicks: body.give_picks.map(toPick),
+    receivePicks: body.receive_picks.map(toPick),
+    message: body.message,
+  };
+}
+
+/**
+ * GET /api/leagues/:id/trades
+ * Get a league's trades; ?status=pending,accepted filters by status
+ */
+export const getTrades = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    let statuses: TradeStatus[] | undefined;
+    if (typeof req.query.status === 'string' && req.query.status.length > 0) {
+      statuses = req.query.status.split(',') as TradeStatus[];
+      if (statuses.some(status => !TRADE_STATUSES.includes(status))) {
+        throw new ValidationError(`Status must be one of: ${TRADE_STATUSES.join(', ')}`);
+      }
+    }
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trades = await tradeService.getTrades(leagueId, userId, statuses);
+
+    return res.status(200).json(trades.map(t => t.toJSON()));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/leagues/:id/trades/:tradeId
+ * Get a single trade
+ */
+export const getTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.getTrade(leagueId, tradeId, userId);
+
+    return res.status(200).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades
+ * Propose a trade to another roster
+ */
+export const proposeTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const { receiver_roster_id } = req.body;
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.proposeTrade(leagueId, userId, receiver_roster_id, toTradeOffer(req.body));
+
+    return res.status(201).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades/:tradeId/accept
+ * Accept a trade offered to the user's roster
+ */
+export const acceptTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.acceptTrade(leagueId, tradeId, userId);
+
+    return res.status(200).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades/:tradeId/reject
+ * Reject a trade offered to the user's roster
+ */
+export const rejectTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.rejectTrade(leagueId, tradeId, userId);
+
+    return res.status(200).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades/:tradeId/cancel
+ * Cancel a trade the user proposed
+ */
+export const cancelTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.cancelTrade(leagueId, tradeId, userId);
+
+    return res.status(200).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades/:tradeId/counter
+ * Counter a trade offered to the user's roster
+ */
+export const counterTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.counterTrade(leagueId, tradeId, userId, toTradeOffer(req.body));
+
+    return res.status(201).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/trades/:tradeId/veto
+ * Vote to veto an accepted trade
+ */
+export const vetoTrade = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { leagueId, tradeId, userId } = getTradeParams(req);
+
+    const tradeService = Container.getInstance().getTradeService();
+    const trade = await tradeService.vetoTrade(leagueId, tradeId, userId);
+
+    return res.status(200).json(trade.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
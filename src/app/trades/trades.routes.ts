@@ -0,0 +1,46 @@
+// src/app/trades/trades.routes.ts
+import { Router } from "express";
+import { authMiddleware } from "../common/middleware/auth.middleware";
+import { validateRequest } from "../validators/validation.middleware";
+import { proposeTradeSchema, counterTradeSchema } from "../validators/schemas/trade.schemas";
+import {
+  getTrades,
+  getTrade,
+  proposeTrade,
+  acceptTrade,
+  rejectTrade,
+  cancelTrade,
+  counterTrade,
+  vetoTrade,
+} from "./trades.controller";
+
+const router = Router();
+
+// All trade routes require authentication
+router.use(authMiddleware);
+
+// GET /api/leagues/:id/trades - Get league trades
+router.get("/:id/trades", getTrades);
+
+// GET /api/leagues/:id/trades/:tradeId - Get a trade
+router.get("/:id/trades/:tradeId", getTrade);
+
+// POST /api/leagues/:id/trades - Propose a trade
+router.post("/:id/trades", validateRequest(proposeTradeSchema, 'body'), proposeTrade);
+
+// POST /api/leagues/:id/trades/:tradeId/accept - Accept a trade
+router.post("/:id/trades/:tradeId/accept", acceptTrade);
+
+// POST /api/leagues/:id/trades/:tradeId/reject - Reject a trade
+router.post("/:id/trades/:tradeId/reject", rejectTrade);
+
+// POST /api/leagues/:id/trades/:tradeId/cancel - Cancel a proposed trade
+router.post("/:id/trades/:tradeId/cancel", cancelTrade);
+
+// POST /api/leagues/:id/trades/:tradeId/counter - Counter a trade
+router.post("/:id/trades/:tradeId/counter", validateRequest(counterTradeSchema, 'body'), counterTrade);
+
+// POST /api/leagues/:id/trades/:tradeId/veto - Vote to veto an accepted trade
+router.post("/:id/trades/:tradeId/veto", vetoTrade);
+
+export default router;
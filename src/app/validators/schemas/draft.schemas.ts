@@ -20,6 +20,12 @@ export const draftSettingsSchema = z.object({
     .max(600, 'Pick time cannot exceed 600 seconds')
     .optional()
     .default(90),
+  time_bank_seconds: z
+    .number()
+    .int('Time bank must be an integer')
+    .min(60, 'Time bank must be at least 60 seconds')
+    .max(86400, 'Time bank cannot exceed 24 hours')
+    .optional(),
   autopick_after_seconds: z
     .number()
     .int()
@@ -30,6 +36,30 @@ export const draftSettingsSchema = z.object({
   draft_order: z.enum(['random', 'manual', 'derby']).optional().default('random'),
   enforce_position_limits: z.boolean().optional().default(true),
   max_keepers: z.number().int().min(0).max(15).optional(),
+  keeper_deadline: z.string().datetime('Invalid datetime format').optional(),
+  auction_budget: z
+    .number()
+    .int('Auction budget must be an integer')
+    .min(1, 'Auction budget must be at least $1')
+    .max(10000, 'Auction budget cannot exceed $10000')
+    .optional(),
+  bid_seconds: z
+    .number()
+    .int('Bid time must be an integer')
+    .min(5, 'Bid time must be at least 5 seconds')
+    .max(300, 'Bid time cannot exceed 300 seconds')
+    .optional(),
+  reminder_minutes: z
+    .array(
+      z
+        .number()
+        .int('Reminder minutes must be an integer')
+        .min(1, 'Reminders must be at least 1 minute before the start')
+        .max(10080, 'Reminders cannot be more than 7 days before the start')
+    )
+    .max(10, 'Cannot schedule more than 10 reminders')
+    .optional()
+    .describe('Minutes before the scheduled start to post countdown reminders'),
 }).passthrough();
 
 /**
@@ -80,6 +110,43 @@ export const makeDraftPickSchema = z.object({
     .describe('Override position limits or other constraints'),
 });
 
+/**
+ * Schema for a commissioner pick on behalf of the roster on the clock
+ */
+export const forcePickSchema = z.object({
+  roster_id: z
+    .number()
+    .int('Roster ID must be an integer')
+    .positive('Roster ID must be positive'),
+  player_id: z
+    .number()
+    .int('Player ID must be an integer')
+    .positive('Player ID must be positive'),
+});
+
+/**
+ * Schema for undoing the most recent picks
+ */
+export const undoPicksSchema = z.object({
+  count: z
+    .number()
+    .int('Count must be an integer')
+    .min(1, 'Must undo at least 1 pick')
+    .max(50, 'Cannot undo more than 50 picks at once')
+    .optional()
+    .default(1),
+});
+
+/**
+ * Schema for swapping the player of an existing pick
+ */
+export const editPickSchema = z.object({
+  player_id: z
+    .number()
+    .int('Player ID must be an integer')
+    .positive('Player ID must be positive'),
+});
+
 /**
  * Schema for draft ID parameter
  */
@@ -123,7 +190,7 @@ export const createDraftSchema = z.object({
     .boolean()
     .optional()
     .default(false)
-    .describe('Automatically start draft at scheduled time'),
+    .describe('Automatically start draft (and derby) at scheduled time'),
 });
 
 /**
@@ -151,6 +218,28 @@ export const selectDerbySlotSchema = z.object({
     .describe('Allow overriding if slot is already taken'),
 });
 
+/**
+ * Schema for a manager's ranked derby slot preferences
+ */
+export const derbySlotPreferencesSchema = z.object({
+  slots: z
+    .array(
+      z
+        .number()
+        .int('Slot number must be an integer')
+        .min(1, 'Slot number must be at least 1')
+        .max(20, 'Slot number cannot exceed 20')
+    )
+    .max(20, 'Cannot rank more than 20 slots')
+    .refine((slots) => slots.length === new Set(slots).size, 'Slots must be unique')
+    .describe('Preferred draft slots, most wanted first'),
+  auto_pick: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Take the highest ranked open slot as soon as it is your turn'),
+});
+
 /**
  * Schema for toggling autopick
  */
@@ -166,6 +255,19 @@ export const toggleAutopickSchema = z.object({
     .describe('Position priority for autopick strategy'),
 });
 
+/**
+ * Schema for choosing an autopick strategy
+ */
+export const autopickStrategySchema = z.object({
+  strategy: autopickStrategyEnum,
+  position_priority: z
+    .array(z.string().min(1))
+    .max(10, 'Position priority cannot list more than 10 positions')
+    .optional()
+    .default([])
+    .describe('Position order used by the by_position strategy'),
+});
+
 /**
  * Schema for queue operations
  */
@@ -228,20 +330,68 @@ export const tradeDraftPickSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Schema for declaring a keeper
+ */
+export const declareKeeperSchema = z.object({
+  player_id: z
+    .number()
+    .int('Player ID must be an integer')
+    .positive('Player ID must be positive'),
+  round: z
+    .number()
+    .int('Round must be an integer')
+    .min(1, 'Round must be at least 1'),
+});
+
+/**
+ * Schema for nominating a player in an auction draft
+ */
+export const nominatePlayerSchema = z.object({
+  player_id: z
+    .number()
+    .int('Player ID must be an integer')
+    .positive('Player ID must be positive'),
+  opening_bid: z
+    .number()
+    .int('Opening bid must be an integer')
+    .min(1, 'Opening bid must be at least $1')
+    .optional()
+    .default(1),
+});
+
+/**
+ * Schema for bidding on the nominated player in an auction draft
+ */
+export const auctionBidSchema = z.object({
+  amount: z
+    .number()
+    .int('Bid must be an integer')
+    .min(1, 'Bid must be at least $1'),
+});
+
 /**
  * Type exports
  */
 export type MakeDraftPickInput = z.infer<typeof makeDraftPickSchema>;
+export type ForcePickInput = z.infer<typeof forcePickSchema>;
+export type UndoPicksInput = z.infer<typeof undoPicksSchema>;
+export type EditPickInput = z.infer<typeof editPickSchema>;
 export type DraftIdParam = z.infer<typeof draftIdParamSchema>;
 export type CreateDraftInput = z.infer<typeof createDraftSchema>;
 export type UpdateDraftInput = z.infer<typeof updateDraftSchema>;
 export type SelectDerbySlotInput = z.infer<typeof selectDerbySlotSchema>;
+export type DerbySlotPreferencesInput = z.infer<typeof derbySlotPreferencesSchema>;
 export type ToggleAutopickInput = z.infer<typeof toggleAutopickSchema>;
+export type AutopickStrategyInput = z.infer<typeof autopickStrategySchema>;
 export type AddToQueueInput = z.infer<typeof addToQueueSchema>;
 export type RemoveFromQueueInput = z.infer<typeof removeFromQueueSchema>;
 export type ReorderQueueInput = z.infer<typeof reorderQueueSchema>;
 export type ClearQueueInput = z.infer<typeof clearQueueSchema>;
 export type TradeDraftPickInput = z.infer<typeof tradeDraftPickSchema>;
+export type DeclareKeeperInput = z.infer<typeof declareKeeperSchema>;
+export type NominatePlayerInput = z.infer<typeof nominatePlayerSchema>;
+export type AuctionBidInput = z.infer<typeof auctionBidSchema>;
 export type DraftSettings = z.infer<typeof draftSettingsSchema>;
 export type DerbySettings = z.infer<typeof derbySettingsSchema>;
 export type DraftType = z.infer<typeof draftTypeEnum>;
@@ -7,6 +7,7 @@ export const leagueTypeEnum = z.enum(['redraft', 'keeper', 'dynasty']);
 export const seasonTypeEnum = z.enum(['regular', 'playoffs', 'offseason']);
 export const draftOrderEnum = z.enum(['linear', 'snake', 'third_round_reversal', 'auction', 'derby']);
 export const scoringTypeEnum = z.enum(['ppr', 'half_ppr', 'standard', 'custom']);
+export const playoffTiebreakerEnum = z.enum(['head_to_head', 'points_for', 'points_against']);
 
 /**
  * Schema for roster position configuration
@@ -24,12 +25,17 @@ export const leagueSettingsSchema = z.object({
   commissioner_roster_id: z.number().int().optional(),
   waiver_type: z.enum(['rolling', 'faab']).optional(),
   waiver_budget: z.number().int().min(0).optional(),
+  waiver_day: z.number().int().min(0).max(6).optional(), // 0 = Sunday
   trade_deadline_week: z.number().int().min(1).max(18).optional(),
   playoff_teams: z.number().int().min(2).max(12).optional(),
   playoff_start_week: z.number().int().min(1).max(18).optional(),
+  playoff_week_start: z.number().int().min(2).max(18).optional(),
+  playoff_tiebreakers: z.array(playoffTiebreakerEnum).optional(),
+  playoff_consolation: z.boolean().optional(),
   allow_custom_scoring: z.boolean().optional(),
   veto_threshold: z.number().int().min(1).optional(),
   veto_period_hours: z.number().int().min(1).max(72).optional(),
+  league_type: leagueTypeEnum.optional(),
 }).passthrough(); // Allow additional properties for flexibility
 
 /**
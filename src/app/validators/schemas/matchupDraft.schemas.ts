@@ -0,0 +1,116 @@
+import { z } from 'zod';
+
+const opponentRosterIdSchema = z.number().int().positive('Opponent roster ID must be a positive integer');
+
+const weekNumberSchema = z
+  .number()
+  .int()
+  .min(1, 'Week number must be at least 1')
+  .max(18, 'Week number cannot exceed 18');
+
+/**
+ * Schema for replacing a manager's matchup queue
+ * opponent_roster_id is the opponent's league roster number, as in matchup picks
+ */
+export const matchupQueueSchema = z.object({
+  matchups: z
+    .array(
+      z.object({
+        opponent_roster_id: opponentRosterIdSchema,
+        week_number: weekNumberSchema,
+      })
+    )
+    .max(100, 'Cannot queue more than 100 matchups')
+    .refine(
+      (matchups) =>
+        matchups.length === new Set(matchups.map(m => `${m.opponent_roster_id}-${m.week_number}`)).size,
+      'Queued matchups must be unique'
+    )
+    .describe('Preferred opponent/week combos, most wanted first'),
+});
+
+/**
+ * Schema for checking a matchup pick without making it
+ * Leave both fields out (or send no body) to check the schedule as it stands.
+ */
+export const matchupPickDryRunSchema = z.preprocess(
+  (body) => body ?? {},
+  z
+    .object({
+      opponent_roster_id: opponentRosterIdSchema.optional(),
+      week_number: weekNumberSchema.optional(),
+    })
+    .refine(
+      (data) => (data.opponent_roster_id === undefined) === (data.week_number === undefined),
+      'Provide both opponent_roster_id and week_number, or neither'
+    )
+);
+
+/**
+ * Schema for updating matchup draft settings (before the draft starts)
+ * Omitted fields keep their current value; max_games_per_opponent null removes the limit.
+ */
+export const matchupDraftSettingsSchema = z
+  .object({
+    draft_type: z.enum(['snake', 'linear']).optional(),
+    third_round_reversal: z.boolean().optional(),
+    pick_time_seconds: z
+      .number()
+      .int('Pick time must be an integer')
+      .min(10, 'Pick time must be at least 10 seconds')
+      .max(600, 'Pick time cannot exceed 600 seconds')
+      .optional(),
+    rounds: z
+      .number()
+      .int('Rounds must be an integer')
+      .min(1, 'Must have at least 1 round')
+      .max(18, 'Cannot have more than 18 rounds')
+      .optional(),
+    start_week: weekNumberSchema.optional(),
+    end_week: weekNumberSchema.optional(),
+    max_games_per_opponent: z
+      .number()
+      .int('Max games per opponent must be an integer')
+      .min(1, 'Max games per opponent must be at least 1')
+      .nullable()
+      .optional()
+      .describe('Most times a roster may face the same opponent; null for no limit'),
+    draft_order: z
+      .enum(['random', 'derby'])
+      .optional()
+      .describe("How draft positions are set: 'random' by randomize, 'derby' by managers picking slots"),
+    derby_timer_seconds: z
+      .number()
+      .int()
+      .min(30, 'Derby timer must be at least 30 seconds')
+      .max(86400, 'Derby timer cannot exceed 24 hours')
+      .optional(),
+    derby_on_timeout: z
+      .enum(['randomize', 'skip'])
+      .optional()
+      .describe('What happens when a manager runs out of derby time'),
+    auto_assign_remaining: z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.start_week === undefined || data.end_week === undefined || data.start_week <= data.end_week,
+    'start_week cannot be after end_week'
+  );
+
+/**
+ * Schema for picking a draft slot in a matchup draft derby
+ */
+export const matchupDerbySlotSchema = z.object({
+  slot_number: z
+    .number()
+    .int('Slot number must be an integer')
+    .min(1, 'Slot number must be at least 1')
+    .max(20, 'Slot number cannot exceed 20'),
+});
+
+/**
+ * Type exports
+ */
+export type MatchupQueueInput = z.infer<typeof matchupQueueSchema>;
+export type MatchupPickDryRunInput = z.infer<typeof matchupPickDryRunSchema>;
+export type MatchupDraftSettingsInput = z.infer<typeof matchupDraftSettingsSchema>;
+export type MatchupDerbySlotInput = z.infer<typeof matchupDerbySlotSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { rosterPositionSchema } from './league.schemas';
+
+const cpuPickSecondsSchema = z
+  .number()
+  .int('CPU pick speed must be an integer')
+  .min(0, 'CPU pick speed cannot be negative')
+  .max(60, 'CPU pick speed cannot exceed 60 seconds');
+
+/**
+ * Schema for starting a mock draft
+ * user_slot is the draft position the user picks from; every other slot is a CPU
+ */
+export const createMockDraftSchema = z
+  .object({
+    draft_type: z.enum(['snake', 'linear']).optional().default('snake'),
+    third_round_reversal: z.boolean().optional().default(false),
+    team_count: z.number().int().min(2, 'At least 2 teams are required').max(20).optional().default(12),
+    rounds: z.number().int().min(1).max(30).optional().default(15),
+    user_slot: z.number().int().min(1, 'Draft slot must be at least 1'),
+    scoring_type: z.enum(['ppr', 'half_ppr', 'standard']).optional().default('ppr'),
+    season: z.string().regex(/^\d{4}$/, 'Season must be a year').optional(),
+    player_pool: z.enum(['all', 'rookie', 'vet']).optional().default('all'),
+    roster_positions: z.array(rosterPositionSchema).optional(),
+    cpu_pick_seconds: cpuPickSecondsSchema.optional().default(2),
+  })
+  .refine(data => data.user_slot <= data.team_count, {
+    message: 'Draft slot cannot be greater than the number of teams',
+    path: ['user_slot'],
+  });
+
+/**
+ * Schema for the user's pick in a mock draft
+ */
+export const mockDraftPickSchema = z.object({
+  player_id: z.number().int().positive('Player ID must be a positive integer'),
+});
+
+/**
+ * Schema for changing CPU pick speed mid-draft
+ */
+export const updateMockDraftSchema = z.object({
+  cpu_pick_seconds: cpuPickSecondsSchema,
+});
+
+/**
+ * Type exports
+ */
+export type CreateMockDraftInput = z.infer<typeof createMockDraftSchema>;
+export type MockDraftPickInput = z.infer<typeof mockDraftPickSchema>;
+export type UpdateMockDraftInput = z.infer<typeof updateMockDraftSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Schema for setting a roster lineup
+ * Starters are aligned to the league's starter slots; null leaves a slot empty
+ */
+export const updateLineupSchema = z.object({
+  starters: z.array(z.number().int().positive().nullable()),
+  bench: z.array(z.number().int().positive()),
+});
+
+/**
+ * Type exports
+ */
+export type UpdateLineupInput = z.infer<typeof updateLineupSchema>;
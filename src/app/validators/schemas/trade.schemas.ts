@@ -0,0 +1,42 @@
+import { z } from 'zod';
+
+const playerIdsSchema = z.array(z.number().int().positive('Player ID must be a positive integer'));
+
+/**
+ * A draft pick, identified by its round and the roster (rosters.id) that originally held it
+ */
+const tradePickSchema = z.object({
+  draft_id: z.number().int().positive('Draft ID must be a positive integer'),
+  round: z.number().int().min(1),
+  original_roster_id: z.number().int().positive('Roster ID must be a positive integer'),
+});
+
+/**
+ * Players and picks offered in a trade or counter offer
+ * give_* come from the user's roster, receive_* from the other team's
+ */
+const tradeOfferSchema = z.object({
+  give_player_ids: playerIdsSchema.default([]),
+  receive_player_ids: playerIdsSchema.default([]),
+  give_picks: z.array(tradePickSchema).default([]),
+  receive_picks: z.array(tradePickSchema).default([]),
+  message: z.string().max(500, 'Message must be 500 characters or less').nullable().optional(),
+});
+
+/**
+ * Schema for proposing a trade
+ */
+export const proposeTradeSchema = tradeOfferSchema.extend({
+  receiver_roster_id: z.number().int().positive('Roster ID must be a positive integer'),
+});
+
+/**
+ * Schema for countering a trade
+ */
+export const counterTradeSchema = tradeOfferSchema;
+
+/**
+ * Type exports
+ */
+export type ProposeTradeInput = z.infer<typeof proposeTradeSchema>;
+export type CounterTradeInput = z.infer<typeof counterTradeSchema>;
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+/**
+ * Schema for submitting a waiver claim
+ * bid_amount is ignored for rolling waivers
+ */
+export const submitWaiverClaimSchema = z.object({
+  player_id: z.number().int().positive('Player ID must be a positive integer'),
+  drop_player_id: z.number().int().positive().nullable().optional(),
+  bid_amount: z.number().int().min(0, 'Bid cannot be negative').optional(),
+});
+
+/**
+ * Schema for reordering pending waiver claims
+ */
+export const reorderWaiverClaimsSchema = z.object({
+  claim_ids: z.array(z.number().int().positive()).min(1, 'At least one claim is required'),
+});
+
+/**
+ * Schema for adding a free agent
+ */
+export const addFreeAgentSchema = z.object({
+  player_id: z.number().int().positive('Player ID must be a positive integer'),
+  drop_player_id: z.number().int().positive().nullable().optional(),
+});
+
+/**
+ * Type exports
+ */
+export type SubmitWaiverClaimInput = z.infer<typeof submitWaiverClaimSchema>;
+export type ReorderWaiverClaimsInput = z.infer<typeof reorderWaiverClaimsSchema>;
+export type AddFreeAgentInput = z.infer<typeof addFreeAgentSchema>;
@@ -0,0 +1,180 @@
+// src/app/waivers/waivers.controller.ts
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../common/middleware/auth.middleware";
+import { ValidationError } from "../common/utils/errors";
+import { Container } from "../../infrastructure/di/Container";
+
+/**
+ * GET /api/leagues/:id/waivers
+ * Get waiver order, FAAB budgets, players on waivers and the user's pending claims
+ */
+export const getWaivers = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const waiverService = Container.getInstance().getWaiverService();
+    const waivers = await waiverService.getWaivers(leagueId, userId);
+
+    return res.status(200).json({
+      waiver_type: waivers.waiver_type,
+      waiver_day: waivers.waiver_day,
+      rosters: waivers.rosters,
+      players_on_waivers: waivers.players_on_waivers.map(p => ({
+        player_id: p.playerId,
+        player_name: p.playerName,
+        dropped_by_roster_id: p.droppedByRosterId,
+        created_at: p.createdAt,
+      })),
+      claims: waivers.claims.map(c => c.toJSON()),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/waivers/claims
+ * Submit a waiver claim for the user's roster
+ */
+export const submitClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const { player_id, drop_player_id, bid_amount } = req.body;
+
+    const waiverService = Container.getInstance().getWaiverService();
+    const claim = await waiverService.submitClaim(leagueId, userId, {
+      playerId: player_id,
+      dropPlayerId: drop_player_id,
+      bidAmount: bid_amount,
+    });
+
+    return res.status(201).json(claim.toJSON());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * PUT /api/leagues/:id/waivers/claims/order
+ * Reorder the user's pending waiver claims
+ */
+export const reorderClaims = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const waiverService = Container.getInstance().getWaiverService();
+    const claims = await waiverService.reorderClaims(leagueId, userId, req.body.claim_ids);
+
+    return res.status(200).json(claims.map(c => c.toJSON()));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/leagues/:id/waivers/claims/:claimId
+ * Cancel one of the user's pending waiver claims
+ */
+export const cancelClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const claimId = parseInt(req.params.claimId, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId) || isNaN(claimId)) {
+      throw new ValidationError("Invalid league ID or claim ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const waiverService = Container.getInstance().getWaiverService();
+    await waiverService.cancelClaim(leagueId, userId, claimId);
+
+    return res.status(200).json({ message: "Waiver claim cancelled" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/leagues/:id/free-agents
+ * Add a free agent to the user's roster, optionally dropping a player
+ */
+export const addFreeAgent = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leagueId = parseInt(req.params.id, 10);
+    const userId = req.user?.userId;
+
+    if (isNaN(leagueId)) {
+      throw new ValidationError("Invalid league ID");
+    }
+
+    if (!userId) {
+      throw new ValidationError("User ID not found in request");
+    }
+
+    const { player_id, drop_player_id } = req.body;
+
+    const waiverService = Container.getInstance().getWaiverService();
+    const roster = await waiverService.addFreeAgent(
+      leagueId,
+      userId,
+      player_id,
+      drop_player_id ?? null
+    );
+
+    return res.status(200).json(roster);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,38 @@
+// src/app/waivers/waivers.routes.ts
+import { Router } from "express";
+import { authMiddleware } from "../common/middleware/auth.middleware";
+import { validateRequest } from "../validators/validation.middleware";
+import {
+  submitWaiverClaimSchema,
+  reorderWaiverClaimsSchema,
+  addFreeAgentSchema,
+} from "../validators/schemas/waiver.schemas";
+import {
+  getWaivers,
+  submitClaim,
+  reorderClaims,
+  cancelClaim,
+  addFreeAgent,
+} from "./waivers.controller";
+
+const router = Router();
+
+// All waiver routes require authentication
+router.use(authMiddleware);
+
+// GET /api/leagues/:id/waivers - Get waiver order, budgets and pending claims
+router.get("/:id/waivers", getWaivers);
+
+// POST /api/leagues/:id/waivers/claims - Submit a waiver claim
+router.post("/:id/waivers/claims", validateRequest(submitWaiverClaimSchema, 'body'), submitClaim);
+
+// PUT /api/leagues/:id/waivers/claims/order - Reorder pending claims
+router.put("/:id/waivers/claims/order", validateRequest(reorderWaiverClaimsSchema, 'body'), reorderClaims);
+
+// DELETE /api/leagues/:id/waivers/claims/:claimId - Cancel a pending claim
+router.delete("/:id/waivers/claims/:claimId", cancelClaim);
+
+// POST /api/leagues/:id/free-agents - Add a free agent
+router.post("/:id/free-agents", validateRequest(addFreeAgentSchema, 'body'), addFreeAgent);
+
+export default router;
@@ -0,0 +1,592 @@
+import { Pool, PoolClient } from 'pg';
+import { IDraftRepository, DraftData } from '../../domain/repositories/IDraftRepository';
+import { DraftPick } from '../../domain/models/DraftPick';
+import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { AuctionLot } from '../../domain/models/AuctionLot';
+import { Player } from '../../domain/models/Player';
+import { IDraftEventsPublisher } from './IDraftEventsPublisher';
+import { DraftQueueService } from './DraftQueueService';
+import { DraftUtilityService } from './DraftUtilityService';
+import { RosterPopulationService } from './RosterPopulationService';
+import { ValidationException, NotFoundException, ServerException } from '../../domain/exceptions/AuthExceptions';
+import { withTransaction } from '../../db/transaction';
+
+/**
+ * Budget each roster starts an auction draft with when settings.auction_budget isn't set
+ */
+export const DEFAULT_AUCTION_BUDGET = 200;
+
+/**
+ * Seconds a lot stays open after the latest bid when settings.bid_seconds isn't set
+ */
+export const DEFAULT_BID_SECONDS = 30;
+
+const LOT_SELECT = `
+  SELECT
+    al.*,
+    p.full_name as player_name,
+    p.position as player_position,
+    p.team as player_team,
+    u.username as current_bidder_username
+  FROM auction_lots al
+  LEFT JOIN players p ON p.id = al.player_id
+  LEFT JOIN rosters r ON r.id = al.current_bidder_roster_id
+  LEFT JOIN users u ON u.id = r.user_id
+`;
+
+/**
+ * Budget and roster space for one roster in an auction draft
+ */
+export interface AuctionBudget {
+  roster_id: number;
+  username: string | null;
+  budget_remaining: number;
+  open_slots: number;
+  max_bid: number;
+}
+
+/**
+ * Live auction state for the draft room
+ */
+export interface AuctionState {
+  budget: number;
+  bid_seconds: number;
+  nominator: DraftOrderEntry | null;
+  open_lot: AuctionLot | null;
+  budgets: AuctionBudget[];
+}
+
+/**
+ * Highest bid a roster can make while keeping $1 for each other open roster spot
+ */
+export function getMaxBid(budgetRemaining: number, openSlots: number): number {
+  if (openSlots <= 0) return 0;
+  return Math.max(0, budgetRemaining - (openSlots - 1));
+}
+
+/**
+ * Next roster in draft order after the current nominator that still has an open roster spot
+ * Returns null when every roster is full.
+ */
+export function getNextNominator(
+  draftOrder: DraftOrderEntry[],
+  currentRosterId: number | null,
+  openSlots: Map<number, number>
+): DraftOrderEntry | null {
+  const order = [...draftOrder].sort((a, b) => a.draftPosition - b.draftPosition);
+  const start = order.findIndex(entry => entry.rosterId === currentRosterId);
+
+  for (let i = 1; i <= order.length; i++) {
+    const entry = order[(start + i) % order.length];
+    if ((openSlots.get(entry.rosterId) ?? 0) > 0) {
+      return entry;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Service responsible for auction draft operations
+ * Managers take turns nominating players, then everyone bids until the countdown runs out.
+ * draft.rounds is the number of players each roster wins; drafts.current_roster_id is the nominator
+ * and drafts.pick_deadline tracks whichever clock is running (nomination or bid countdown).
+ */
+export class AuctionDraftService {
+  constructor(
+    private readonly draftRepository: IDraftRepository,
+    private readonly pool: Pool,
+    private readonly utilityService: DraftUtilityService,
+    private readonly eventsPublisher?: IDraftEventsPublisher,
+    private readonly queueService?: DraftQueueService,
+    private readonly rosterPopulationService?: RosterPopulationService
+  ) {}
+
+  /**
+   * Get budgets, the current nominator and the player up for auction
+   */
+  async getAuctionState(draftId: number): Promise<AuctionState> {
+    const draft = await this.getAuctionDraft(draftId);
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const { budget, bidSeconds } = this.getAuctionSettings(draft);
+
+    const budgets = await this.getBudgets(this.pool, draft, draftOrder);
+    const openLot = await this.getOpenLot(this.pool, draftId);
+
+    return {
+      budget,
+      bid_seconds: bidSeconds,
+      nominator: draftOrder.find(entry => entry.rosterId === draft.currentRosterId) || null,
+      open_lot: openLot,
+      budgets: [...budgets.values()],
+    };
+  }
+
+  /**
+   * Nominate a player with an opening bid (nominator's turn only)
+   */
+  async nominatePlayer(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    playerId: number,
+    openingBid: number = 1
+  ): Promise<AuctionLot> {
+    const draft = await this.getAuctionDraft(draftId, leagueId);
+    this.assertInProgress(draft);
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const nominator = draftOrder.find(entry => entry.rosterId === draft.currentRosterId);
+    if (!nominator) {
+      throw new ServerException('Could not determine current nominator');
+    }
+
+    if (nominator.userId !== userId) {
+      throw new ValidationException('It is not your turn to nominate');
+    }
+
+    return this.openLot(draft, draftOrder, nominator, playerId, openingBid, false);
+  }
+
+  /**
+   * Bid on the player up for auction
+   * Each bid restarts the countdown for everyone.
+   */
+  async placeBid(leagueId: number, draftId: number, userId: string, amount: number): Promise<AuctionLot> {
+    const draft = await this.getAuctionDraft(draftId, leagueId);
+    this.assertInProgress(draft);
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const bidder = draftOrder.find(entry => entry.userId === userId);
+    if (!bidder) {
+      throw new ValidationException('You do not have a team in this draft');
+    }
+
+    const { bidSeconds } = this.getAuctionSettings(draft);
+
+    const lotId = await withTransaction(async (client) => {
+      const lotResult = await client.query(
+        `SELECT * FROM auction_lots WHERE draft_id = $1 AND status = 'open' FOR UPDATE`,
+        [draftId]
+      );
+
+      if (lotResult.rows.length === 0) {
+        throw new ValidationException('There is no player up for auction');
+      }
+
+      const lot = AuctionLot.fromDatabase(lotResult.rows[0]);
+
+      if (new Date(lot.bidDeadline).getTime() <= Date.now()) {
+        throw new ValidationException('Bidding on this player has closed');
+      }
+
+      if (lot.currentBidderRosterId === bidder.rosterId) {
+        throw new ValidationException('You already have the high bid');
+      }
+
+      if (amount <= lot.currentBid) {
+        throw new ValidationException(`Bid must be more than $${lot.currentBid}`);
+      }
+
+      const budgets = await this.getBudgets(client, draft, draftOrder);
+      const maxBid = budgets.get(bidder.rosterId)?.max_bid ?? 0;
+      if (amount > maxBid) {
+        throw new ValidationException(`Your max bid is $${maxBid}`);
+      }
+
+      const bidDeadline = new Date(Date.now() + bidSeconds * 1000);
+
+      await client.query(
+        `UPDATE auction_lots
+         SET current_bid = $1, current_bidder_roster_id = $2, bid_deadline = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $4`,
+        [amount, bidder.rosterId, bidDeadline, lot.id]
+      );
+      await client.query(
+        'INSERT INTO auction_bids (lot_id, roster_id, amount) VALUES ($1, $2, $3)',
+        [lot.id, bidder.rosterId, amount]
+      );
+      await client.query(
+        'UPDATE drafts SET pick_deadline = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [bidDeadline, draftId]
+      );
+
+      return lot.id;
+    }, this.pool);
+
+    const lot = (await this.getLotById(lotId))!;
+    const updatedDraft = (await this.draftRepository.findById(draftId))!;
+
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitAuctionBid(draft.leagueId, updatedDraft, lot);
+    }
+
+    return lot;
+  }
+
+  /**
+   * Handle an expired clock (called by the draft autopick job)
+   * Closes a lot whose countdown ran out, or auto-nominates for a nominator who
+   * timed out or has autopick enabled.
+   */
+  async processTimeout(draftId: number): Promise<void> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || draft.status !== 'in_progress' || draft.draftType !== 'auction') return;
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const openLot = await this.getOpenLot(this.pool, draftId);
+
+    if (openLot) {
+      if (new Date(openLot.bidDeadline).getTime() <= Date.now()) {
+        await this.closeLot(draft, draftOrder, openLot.id);
+      }
+      return;
+    }
+
+    const nominator = draftOrder.find(entry => entry.rosterId === draft.currentRosterId);
+    if (!nominator) return;
+
+    const timedOut = draft.pickDeadline !== null && new Date() >= draft.pickDeadline;
+    const autopickEnabled = await this.draftRepository.getUserAutopickStatus(
+      draft.leagueId,
+      nominator.rosterId
+    );
+
+    if (timedOut || autopickEnabled) {
+      await this.autoNominate(draft, draftOrder, nominator);
+    }
+  }
+
+  /**
+   * Restart the bid countdown after the draft is resumed
+   * Pausing clears the draft clock, so an open lot gets a fresh countdown rather than closing instantly.
+   */
+  async restartClock(draft: DraftData): Promise<DraftData> {
+    const openLot = await this.getOpenLot(this.pool, draft.id);
+    if (!openLot) return draft;
+
+    const { bidSeconds } = this.getAuctionSettings(draft);
+    const bidDeadline = new Date(Date.now() + bidSeconds * 1000);
+
+    await this.pool.query(
+      'UPDATE auction_lots SET bid_deadline = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [bidDeadline, openLot.id]
+    );
+
+    return this.draftRepository.update(draft.id, { pickDeadline: bidDeadline });
+  }
+
+  /**
+   * Put a player up for auction with the nominator as the opening bidder
+   */
+  private async openLot(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    nominator: DraftOrderEntry,
+    playerId: number,
+    openingBid: number,
+    isAutoNomination: boolean
+  ): Promise<AuctionLot> {
+    const { bidSeconds } = this.getAuctionSettings(draft);
+
+    const lotId = await withTransaction(async (client) => {
+      const openResult = await client.query(
+        `SELECT id FROM auction_lots WHERE draft_id = $1 AND status = 'open' FOR UPDATE`,
+        [draft.id]
+      );
+      if (openResult.rows.length > 0) {
+        throw new ValidationException('A player is already up for auction');
+      }
+
+      const takenResult = await client.query(
+        `SELECT 1 FROM draft_picks WHERE draft_id = $1 AND player_id = $2
+         UNION ALL
+         SELECT 1 FROM auction_lots WHERE draft_id = $1 AND player_id = $2`,
+        [draft.id, playerId]
+      );
+      if (takenResult.rows.length > 0) {
+        throw new ValidationException('Player has already been drafted');
+      }
+
+      const budgets = await this.getBudgets(client, draft, draftOrder);
+      const maxBid = budgets.get(nominator.rosterId)?.max_bid ?? 0;
+      if (openingBid > maxBid) {
+        throw new ValidationException(`Your max bid is $${maxBid}`);
+      }
+
+      const bidDeadline = new Date(Date.now() + bidSeconds * 1000);
+
+      const insertResult = await client.query(
+        `INSERT INTO auction_lots (
+          draft_id, player_id, nominator_roster_id, current_bid,
+          current_bidder_roster_id, bid_deadline, is_auto_nomination
+        ) VALUES ($1, $2, $3, $4, $3, $5, $6)
+        RETURNING id`,
+        [draft.id, playerId, nominator.rosterId, openingBid, bidDeadline, isAutoNomination]
+      );
+      await client.query(
+        'INSERT INTO auction_bids (lot_id, roster_id, amount) VALUES ($1, $2, $3)',
+        [insertResult.rows[0].id, nominator.rosterId, openingBid]
+      );
+      await client.query(
+        'UPDATE drafts SET pick_deadline = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [bidDeadline, draft.id]
+      );
+
+      return insertResult.rows[0].id as number;
+    }, this.pool);
+
+    // Nominated players can't be nominated again
+    if (this.queueService) {
+      await this.queueService.removePlayerFromAllQueues(draft.id, playerId);
+    }
+
+    const lot = (await this.getLotById(lotId))!;
+    const updatedDraft = (await this.draftRepository.findById(draft.id))!;
+
+    await this.utilityService.sendSystemMessage(
+      draft.leagueId,
+      `${isAutoNomination ? '⏰ ' : ''}${nominator.username || 'Team'} nominated ${lot.playerName || `Player #${playerId}`} for $${openingBid}`
+    );
+
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitAuctionNomination(draft.leagueId, updatedDraft, lot);
+    }
+
+    return lot;
+  }
+
+  /**
+   * Award a lot to its high bidder and pass the nomination to the next roster with space
+   */
+  private async closeLot(draft: DraftData, draftOrder: DraftOrderEntry[], lotId: number): Promise<void> {
+    const result = await withTransaction(async (client) => {
+      const lotResult = await client.query(
+        `SELECT * FROM auction_lots WHERE id = $1 AND status = 'open' FOR UPDATE`,
+        [lotId]
+      );
+      if (lotResult.rows.length === 0) {
+        return null;
+      }
+
+      const lot = AuctionLot.fromDatabase(lotResult.rows[0]);
+
+      const countResult = await client.query(
+        'SELECT COUNT(*) as count FROM draft_picks WHERE draft_id = $1',
+        [draft.id]
+      );
+      const pickNumber = parseInt(countResult.rows[0].count, 10) + 1;
+      const totalRosters = draftOrder.length;
+
+      const insertResult = await client.query(
+        `INSERT INTO draft_picks (
+          draft_id, pick_number, round, pick_in_round, roster_id,
+          player_id, is_auto_pick, pick_time_seconds, auction_price
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, NULL, $8)
+        RETURNING id`,
+        [
+          draft.id,
+          pickNumber,
+          Math.ceil(pickNumber / totalRosters),
+          ((pickNumber - 1) % totalRosters) + 1,
+          lot.currentBidderRosterId,
+          lot.playerId,
+          lot.isAutoNomination && lot.currentBidderRosterId === lot.nominatorRosterId,
+          lot.currentBid
+        ]
+      );
+
+      await client.query(
+        `UPDATE auction_lots SET status = 'sold', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [lot.id]
+      );
+
+      const budgets = await this.getBudgets(client, draft, draftOrder);
+      const openSlots = new Map([...budgets.values()].map(b => [b.roster_id, b.open_slots]));
+      const nextNominator = getNextNominator(draftOrder, draft.currentRosterId, openSlots);
+
+      if (!nextNominator) {
+        await client.query(
+          `UPDATE drafts SET
+            status = 'completed',
+            current_pick = NULL,
+            current_round = NULL,
+            current_roster_id = NULL,
+            pick_deadline = NULL,
+            completed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1`,
+          [draft.id]
+        );
+      } else {
+        const nominationDeadline = draft.pickTimeSeconds
+          ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
+          : null;
+
+        await client.query(
+          `UPDATE drafts SET
+            current_pick = $1,
+            current_round = $2,
+            current_roster_id = $3,
+            pick_deadline = $4,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $5`,
+          [
+            pickNumber + 1,
+            Math.ceil((pickNumber + 1) / totalRosters),
+            nextNominator.rosterId,
+            nominationDeadline,
+            draft.id
+          ]
+        );
+      }
+
+      return { pickId: insertResult.rows[0].id as number, lot, nextNominator };
+    }, this.pool);
+
+    if (!result) return;
+
+    const pickResult = await this.pool.query(
+      `SELECT
+        dp.*,
+        p.full_name as player_name,
+        p.position as player_position,
+        p.team as player_team
+      FROM draft_picks dp
+      LEFT JOIN players p ON p.id = dp.player_id
+      WHERE dp.id = $1`,
+      [result.pickId]
+    );
+    const pick = DraftPick.fromDatabase(pickResult.rows[0]);
+
+    const updatedDraft = await this.draftRepository.findById(draft.id);
+    if (!updatedDraft) throw new ServerException('Failed to fetch updated draft');
+
+    const winner = draftOrder.find(entry => entry.rosterId === result.lot.currentBidderRosterId);
+    await this.utilityService.sendSystemMessage(
+      draft.leagueId,
+      `💰 ${winner?.username || 'Team'} won ${pick.playerName || `Player #${pick.playerId}`} for $${result.lot.currentBid}`
+    );
+
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitAuctionPlayerSold(draft.leagueId, pick, updatedDraft, result.nextNominator);
+    }
+
+    if (updatedDraft.status === 'completed') {
+      await this.rosterPopulationService?.populateCompletedDraft(draft.id);
+      await this.utilityService.sendSystemMessage(draft.leagueId, '🎉 Draft completed!');
+
+      if (this.eventsPublisher) {
+        this.eventsPublisher.emitDraftCompleted(draft.leagueId, updatedDraft);
+      }
+    }
+  }
+
+  /**
+   * Nominate for a manager who timed out: next queued player, otherwise a random available player
+   */
+  private async autoNominate(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    nominator: DraftOrderEntry
+  ): Promise<void> {
+    let selectedPlayer: Player | undefined;
+
+    if (this.queueService) {
+      const nextQueued = await this.queueService.getNextQueuedPlayer(draft.id, nominator.rosterId);
+      if (nextQueued && nextQueued.player) {
+        selectedPlayer = nextQueued.player;
+      }
+    }
+
+    if (!selectedPlayer) {
+      const playerPool = draft.settings?.player_pool || 'all';
+      const availablePlayers = await this.draftRepository.getAvailablePlayers(draft.id, playerPool);
+      if (availablePlayers.length === 0) return;
+
+      selectedPlayer = availablePlayers[Math.floor(Math.random() * availablePlayers.length)];
+    }
+
+    console.log(`[Auction] Auto-nominating ${selectedPlayer.fullName} for ${nominator.username} in draft ${draft.id}`);
+    await this.openLot(draft, draftOrder, nominator, selectedPlayer.id, 1, true);
+  }
+
+  /**
+   * Budget remaining, open roster spots and max bid for every roster in the draft
+   */
+  private async getBudgets(
+    db: Pool | PoolClient,
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[]
+  ): Promise<Map<number, AuctionBudget>> {
+    const { budget } = this.getAuctionSettings(draft);
+
+    const result = await db.query(
+      `SELECT roster_id, COUNT(*) as won, COALESCE(SUM(auction_price), 0) as spent
+       FROM draft_picks
+       WHERE draft_id = $1
+       GROUP BY roster_id`,
+      [draft.id]
+    );
+    const totals = new Map(result.rows.map(row => [
+      row.roster_id as number,
+      { won: parseInt(row.won, 10), spent: parseInt(row.spent, 10) },
+    ]));
+
+    const budgets = new Map<number, AuctionBudget>();
+    for (const entry of draftOrder) {
+      const { won, spent } = totals.get(entry.rosterId) || { won: 0, spent: 0 };
+      const budgetRemaining = budget - spent;
+      const openSlots = Math.max(0, draft.rounds - won);
+
+      budgets.set(entry.rosterId, {
+        roster_id: entry.rosterId,
+        username: entry.username,
+        budget_remaining: budgetRemaining,
+        open_slots: openSlots,
+        max_bid: getMaxBid(budgetRemaining, openSlots),
+      });
+    }
+
+    return budgets;
+  }
+
+  private async getOpenLot(db: Pool | PoolClient, draftId: number): Promise<AuctionLot | null> {
+    const result = await db.query(
+      `${LOT_SELECT} WHERE al.draft_id = $1 AND al.status = 'open'`,
+      [draftId]
+    );
+    return result.rows.length > 0 ? AuctionLot.fromDatabase(result.rows[0]) : null;
+  }
+
+  private async getLotById(lotId: number): Promise<AuctionLot | null> {
+    const result = await this.pool.query(`${LOT_SELECT} WHERE al.id = $1`, [lotId]);
+    return result.rows.length > 0 ? AuctionLot.fromDatabase(result.rows[0]) : null;
+  }
+
+  private getAuctionSettings(draft: DraftData): { budget: number; bidSeconds: number } {
+    return {
+      budget: draft.settings?.auction_budget ?? DEFAULT_AUCTION_BUDGET,
+      bidSeconds: draft.settings?.bid_seconds ?? DEFAULT_BID_SECONDS,
+    };
+  }
+
+  private async getAuctionDraft(draftId: number, leagueId?: number): Promise<DraftData> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || (leagueId !== undefined && draft.leagueId !== leagueId)) {
+      throw new NotFoundException('Draft not found');
+    }
+
+    if (draft.draftType !== 'auction') {
+      throw new ValidationException('This is not an auction draft');
+    }
+
+    return draft;
+  }
+
+  private assertInProgress(draft: DraftData): void {
+    if (draft.status !== 'in_progress') {
+      throw new ValidationException('Draft is not in progress');
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { Player } from '../../domain/models/Player';
+import { PlayerSeasonProjection } from '../../domain/repositories/IPlayerProjectionRepository';
+import { LineupSlot, isEligibleForSlot } from './LineupService';
+
+export type AutopickStrategyName = 'best_available' | 'by_position' | 'queue_only' | 'disabled';
+
+export const DEFAULT_AUTOPICK_STRATEGY: AutopickStrategyName = 'best_available';
+
+/**
+ * Everything a strategy needs to choose a player for the roster on the clock
+ */
+export interface AutopickContext {
+  /** Next available player in the roster's queue */
+  queuedPlayer: Player | null;
+  /** Players still available in the draft's player pool */
+  availablePlayers: Player[];
+  /** Season projected points keyed by Sleeper ID; players without projections rank last */
+  projections: Map<string, number>;
+  /** Starting slots the roster has not filled yet */
+  openSlots: LineupSlot[];
+  /** Manager's position order for by_position, e.g. ['RB', 'WR', 'QB'] */
+  positionPriority: string[];
+}
+
+/**
+ * Chooses a player when a manager is auto-picked
+ * Returning null leaves the manager on the clock until the deadline, then their pick is skipped.
+ */
+export interface AutopickStrategy {
+  readonly name: AutopickStrategyName;
+  selectPlayer(context: AutopickContext): Player | null;
+}
+
+/**
+ * Projected points in the format matching a league's reception scoring
+ */
+export function getSeasonProjectedPoints(
+  projection: PlayerSeasonProjection,
+  scoringSettings: Record<string, any> | null | undefined
+): number {
+  const receptions = scoringSettings?.receptions ?? 0;
+  if (receptions >= 1) return projection.projPtsPpr;
+  if (receptions >= 0.5) return projection.projPtsHalfPpr;
+  return projection.projPtsStd;
+}
+
+/**
+ * Sort players by projected points, highest first
+ * Ties (including players with no projection) keep their original order.
+ */
+export function rankByProjection(players: Player[], projections: Map<string, number>): Player[] {
+  return players
+    .map((player, index) => ({ player, index, points: projections.get(player.sleeperId) ?? -Infinity }))
+    .sort((a, b) => (b.points - a.points) || (a.index - b.index))
+    .map(entry => entry.player);
+}
+
+/**
+ * Best projected player who can start in one of the open slots, or the best projected player overall
+ */
+function selectBestAvailable(context: AutopickContext): Player | null {
+  const ranked = rankByProjection(context.availablePlayers, context.projections);
+  const starter = ranked.find(player => context.openSlots.some(slot => isEligibleForSlot(player, slot)));
+  return starter ?? ranked[0] ?? null;
+}
+
+/**
+ * Queue first, then the best projected player for an unfilled starting slot
+ */
+class BestAvailableStrategy implements AutopickStrategy {
+  readonly name = 'best_available' as const;
+
+  selectPlayer(context: AutopickContext): Player | null {
+    return context.queuedPlayer ?? selectBestAvailable(context);
+  }
+}
+
+/**
+ * Queue first, then the best projected player at the first priority position that still has an
+ * open starting slot. Falls back to best available once the priority positions are filled.
+ */
+class ByPositionStrategy implements AutopickStrategy {
+  readonly name = 'by_position' as const;
+
+  selectPlayer(context: AutopickContext): Player | null {
+    if (context.queuedPlayer) return context.queuedPlayer;
+
+    const ranked = rankByProjection(context.availablePlayers, context.projections);
+
+    for (const position of context.positionPriority.map(p => p.toUpperCase())) {
+      const slots = context.openSlots.filter(slot => slot.eligiblePositions.includes(position));
+      if (slots.length === 0) continue;
+
+      const player = ranked.find(p =>
+        (p.fantasyPositions.length > 0 ? p.fantasyPositions : [p.position]).includes(position) &&
+        slots.some(slot => isEligibleForSlot(p, slot))
+      );
+      if (player) return player;
+    }
+
+    return selectBestAvailable(context);
+  }
+}
+
+/**
+ * Only ever picks from the queue; with an empty queue the pick is skipped once time runs out
+ */
+class QueueOnlyStrategy implements AutopickStrategy {
+  readonly name = 'queue_only' as const;
+
+  selectPlayer(context: AutopickContext): Player | null {
+    return context.queuedPlayer;
+  }
+}
+
+/**
+ * Never picks for the manager; their pick is skipped once time runs out
+ */
+class DisabledStrategy implements AutopickStrategy {
+  readonly name = 'disabled' as const;
+
+  selectPlayer(): Player | null {
+    return null;
+  }
+}
+
+const STRATEGIES: Record<AutopickStrategyName, AutopickStrategy> = {
+  best_available: new BestAvailableStrategy(),
+  by_position: new ByPositionStrategy(),
+  queue_only: new QueueOnlyStrategy(),
+  disabled: new DisabledStrategy(),
+};
+
+/**
+ * Look up a strategy by name, falling back to best_available for unknown names
+ */
+export function getAutopickStrategy(name: string | null | undefined): AutopickStrategy {
+  return STRATEGIES[name as AutopickStrategyName] ?? STRATEGIES[DEFAULT_AUTOPICK_STRATEGY];
+}
@@ -1,9 +1,127 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { DraftData } from '../../domain/repositories/IDraftRepository';
 import { DraftUtilityService } from './DraftUtilityService';
 import { ValidationException, NotFoundException } from '../../domain/exceptions/AuthExceptions';
 import { withTransaction } from '../../db/transaction';
 
+/**
+ * What happens when a manager's derby timer runs out (settings.derby_on_timeout)
+ * - randomize: assign a random open slot
+ * - auto_assign: assign the manager's highest ranked open preferred slot, else a random one
+ * - skip: move the manager to the end of the derby order (a second timeout is randomized)
+ */
+export type DerbyTimeoutPolicy = 'randomize' | 'auto_assign' | 'skip';
+
+export function getDerbyTimeoutPolicy(settings: any): DerbyTimeoutPolicy {
+  const policy = settings?.derby_on_timeout;
+  return policy === 'auto_assign' || policy === 'skip' ? policy : 'randomize';
+}
+
+/**
+ * Slots from 1 to totalSlots that nobody has taken yet
+ */
+export function getOpenDerbySlots(totalSlots: number, takenSlots: Iterable<number>): number[] {
+  const taken = new Set(takenSlots);
+  const open: number[] = [];
+  for (let slot = 1; slot <= totalSlots; slot++) {
+    if (!taken.has(slot)) {
+      open.push(slot);
+    }
+  }
+  return open;
+}
+
+/**
+ * Highest ranked preferred slot that is still open, or null when none are
+ */
+export function getPreferredOpenSlot(preferences: number[], openSlots: number[]): number | null {
+  return preferences.find(slot => openSlots.includes(slot)) ?? null;
+}
+
+/**
+ * A derby slot handed out without the manager picking it
+ * - auto_pick: the manager's highest ranked open preferred slot
+ * - last_slot: the only slot left, given to the last manager without one
+ */
+export interface DerbySlotAssignment {
+  rosterId: number;
+  slotNumber: number;
+  reason: 'auto_pick' | 'last_slot';
+}
+
+/**
+ * Walk the derby order from the first manager without a slot, giving auto_pick managers their
+ * preferred slot and, with autoAssignRemaining, the last manager the last slot, until someone
+ * has to pick for themselves
+ *
+ * @param order - rosters in derby order with the slot each holds, null if none yet
+ * @param autoPickSlots - ranked preferences of managers who opted into auto_pick, keyed by roster
+ * @returns slots handed out in order, and the index in `order` of the manager now on the clock
+ *          (null once every manager has a slot)
+ */
+export function assignAutoDerbySlots(
+  order: Array<{ rosterId: number; slotNumber: number | null }>,
+  autoPickSlots: Map<number, number[]>,
+  autoAssignRemaining: boolean
+): { assignments: DerbySlotAssignment[]; currentPickerIndex: number | null } {
+  const slots = order.map(entry => entry.slotNumber);
+  const assignments: DerbySlotAssignment[] = [];
+
+  let index: number;
+  while ((index = slots.findIndex(slot => !slot)) !== -1) {
+    const rosterId = order[index].rosterId;
+    const openSlots = getOpenDerbySlots(order.length, slots.filter((slot): slot is number => !!slot));
+    const isLast = slots.filter(slot => !slot).length === 1;
+
+    if (isLast && autoAssignRemaining) {
+      slots[index] = openSlots[0];
+      assignments.push({ rosterId, slotNumber: openSlots[0], reason: 'last_slot' });
+      continue;
+    }
+
+    const preferredSlot = getPreferredOpenSlot(autoPickSlots.get(rosterId) || [], openSlots);
+    if (preferredSlot === null) {
+      return { assignments, currentPickerIndex: index };
+    }
+
+    slots[index] = preferredSlot;
+    assignments.push({ rosterId, slotNumber: preferredSlot, reason: 'auto_pick' });
+  }
+
+  return { assignments, currentPickerIndex: null };
+}
+
+/**
+ * A manager's ranked derby slots, most wanted first
+ * autoPick takes the highest ranked open slot as soon as the manager's turn comes.
+ */
+export interface DerbySlotPreferences {
+  slots: number[];
+  autoPick: boolean;
+}
+
+/**
+ * Outcome of a derby timeout, for the derby autopick job to announce
+ */
+export interface DerbyTimeoutResult {
+  action: 'slot_auto_picked' | 'slot_skipped';
+  slotNumber: number | null;
+  settings: any;
+  messages: string[];
+}
+
+/**
+ * A row of the derby order
+ */
+interface DerbyOrderRow {
+  id: number;
+  roster_id: number;
+  draft_position: number | null;
+  derby_skips: number;
+  user_id: string | null;
+  username: string | null;
+}
+
 /**
  * Service responsible for derby draft operations
  * Handles derby-specific workflow: start, pick slot, pause, resume
@@ -21,6 +139,29 @@ export class DerbyService {
     // Verify commissioner
     await this.utilityService.verifyCommissioner(leagueId, userId);
 
+    const username = await this.utilityService.getUsernameById(userId);
+    return this.beginDerby(
+      leagueId,
+      draftId,
+      `${username} started the derby! Users can now select their draft positions.`
+    );
+  }
+
+  /**
+   * Start a derby at its derby_start_time (called by the draft scheduler job)
+   */
+  async startScheduledDerby(leagueId: number, draftId: number): Promise<DraftData> {
+    return this.beginDerby(
+      leagueId,
+      draftId,
+      'The derby has started! Users can now select their draft positions.'
+    );
+  }
+
+  /**
+   * Open derby slot selection with the first manager in derby order on the clock
+   */
+  private async beginDerby(leagueId: number, draftId: number, message: string): Promise<DraftData> {
     // Check if draft exists and is a derby draft
     const draftResult = await this.pool.query(
       'SELECT id, draft_type, settings FROM drafts WHERE id = $1 AND league_id = $2',
@@ -57,29 +198,20 @@ export class DerbyService {
     const derbyStartTime = new Date();
     settings.derby_start_time = derbyStartTime.toISOString();
     settings.derby_status = 'in_progress';
-    settings.current_picker_index = 0; // First person in derby order picks first
-    settings.pick_deadline = new Date(Date.now() + derbyTimerSeconds * 1000).toISOString();
     // Preserve derby_timer_seconds in settings
     settings.derby_timer_seconds = derbyTimerSeconds;
 
-    // Update the draft with derby start time and status
-    await this.pool.query(
-      `UPDATE drafts
-       SET settings = $1,
-           updated_at = CURRENT_TIMESTAMP,
-           pick_deadline = $2
-       WHERE id = $3`,
-      [JSON.stringify(settings), settings.pick_deadline, draftId]
+    // Put the first person in derby order on the clock (or take their preferred slot right away)
+    const messages = await withTransaction(
+      (client) => this.advanceDerby(client, draftId, settings),
+      this.pool
     );
 
-    // Get username for system message
-    const username = await this.utilityService.getUsernameById(userId);
-
-    // Send system message
-    await this.utilityService.sendSystemMessage(
-      leagueId,
-      `${username} started the derby! Users can now select their draft positions.`
-    );
+    // Send system messages
+    await this.utilityService.sendSystemMessage(leagueId, message);
+    for (const assigned of messages) {
+      await this.utilityService.sendSystemMessage(leagueId, assigned);
+    }
 
     // Fetch the updated draft with league info to get total_rosters
     const result = await this.pool.query(
@@ -119,23 +251,15 @@ export class DerbyService {
       throw new ValidationException('Derby is not in progress');
     }
 
-    // Get draft order to find current picker
-    // Order by id to preserve the original derby picking order (not draft_position which changes as people pick)
-    const orderResult = await this.pool.query(
-      `SELECT d_order.id, d_order.roster_id, d_order.draft_position, r.user_id
-       FROM draft_order d_order
-       INNER JOIN rosters r ON r.id = d_order.roster_id
-       WHERE d_order.draft_id = $1
-       ORDER BY d_order.id`,
-      [draftId]
-    );
+    // Get derby order to find current picker
+    const order = await this.getDerbyOrder(this.pool, draftId);
 
-    if (orderResult.rows.length === 0) {
+    if (order.length === 0) {
       throw new ValidationException('No draft order found');
     }
 
     const currentPickerIndex = settings.current_picker_index || 0;
-    const currentPicker = orderResult.rows[currentPickerIndex];
+    const currentPicker = order[currentPickerIndex];
 
     // Verify it's this user's turn
     if (currentPicker.user_id !== userId) {
@@ -143,12 +267,12 @@ export class DerbyService {
     }
 
     // Validate slot number
-    if (slotNumber < 1 || slotNumber > orderResult.rows.length) {
-      throw new ValidationException(`Slot number must be between 1 and ${orderResult.rows.length}`);
+    if (slotNumber < 1 || slotNumber > order.length) {
+      throw new ValidationException(`Slot number must be between 1 and ${order.length}`);
     }
 
     // Wrap slot selection and draft update in a transaction
-    await withTransaction(async (client) => {
+    const messages = await withTransaction(async (client) => {
       // Check if slot is already taken (within transaction for consistency)
       const slotCheck = await client.query(
         `SELECT id FROM draft_order
@@ -167,33 +291,17 @@ export class DerbyService {
       );
 
       // Move to next picker
-      const nextPickerIndex = currentPickerIndex + 1;
-
-      if (nextPickerIndex < orderResult.rows.length) {
-        // More pickers to go
-        settings.current_picker_index = nextPickerIndex;
-        // Use derby timer seconds from settings (not pick_time_seconds)
-        const derbyTimerSeconds = settings.derby_timer_seconds || 300;
-        settings.pick_deadline = new Date(Date.now() + derbyTimerSeconds * 1000).toISOString();
-      } else {
-        // Derby complete
-        settings.derby_status = 'completed';
-        delete settings.current_picker_index;
-        delete settings.pick_deadline;
-      }
-
-      // Update draft settings and pick_deadline column
-      await client.query(
-        `UPDATE drafts SET settings = $1, pick_deadline = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3`,
-        [JSON.stringify(settings), settings.pick_deadline || null, draftId]
-      );
+      return this.advanceDerby(client, draftId, settings);
     }, this.pool);
 
     // Get username for system message
     const username = await this.utilityService.getUsernameById(userId);
 
-    // Send system message
+    // Send system messages
     await this.utilityService.sendSystemMessage(leagueId, `${username} selected slot ${slotNumber}`);
+    for (const message of messages) {
+      await this.utilityService.sendSystemMessage(leagueId, message);
+    }
 
     // Fetch the updated draft with league info to get total_rosters
     const result = await this.pool.query(
@@ -318,4 +426,288 @@ export class DerbyService {
 
     return this.utilityService.mapDraftRow(result.rows[0]);
   }
+
+  /**
+   * Get the user's ranked derby slot preferences
+   */
+  async getSlotPreferences(leagueId: number, draftId: number, userId: string): Promise<DerbySlotPreferences> {
+    const rosterId = await this.getUserRosterId(leagueId, userId);
+
+    const result = await this.pool.query(
+      'SELECT slots, auto_pick FROM derby_slot_preferences WHERE draft_id = $1 AND roster_id = $2',
+      [draftId, rosterId]
+    );
+
+    return {
+      slots: result.rows[0]?.slots || [],
+      autoPick: result.rows[0]?.auto_pick || false,
+    };
+  }
+
+  /**
+   * Replace the user's ranked derby slot preferences (most wanted first)
+   * With autoPick the highest ranked open slot is taken as soon as the user's turn comes,
+   * including right away if it already has; otherwise the list is only used by the
+   * auto_assign timeout policy.
+   */
+  async setSlotPreferences(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    preferences: DerbySlotPreferences
+  ): Promise<DerbySlotPreferences> {
+    const rosterId = await this.getUserRosterId(leagueId, userId);
+
+    const draftResult = await this.pool.query(
+      `SELECT d.settings, l.total_rosters
+       FROM drafts d
+       INNER JOIN leagues l ON l.id = d.league_id
+       WHERE d.id = $1 AND d.league_id = $2`,
+      [draftId, leagueId]
+    );
+
+    if (draftResult.rows.length === 0) {
+      throw new NotFoundException('Draft not found');
+    }
+
+    const { settings, total_rosters: totalRosters } = draftResult.rows[0];
+
+    if (settings?.draft_order !== 'derby') {
+      throw new ValidationException('This endpoint is only for derby drafts');
+    }
+
+    if (settings.derby_status === 'completed') {
+      throw new ValidationException('The derby has already finished');
+    }
+
+    if (preferences.slots.some(slot => slot > totalRosters)) {
+      throw new ValidationException(`Slot numbers must be between 1 and ${totalRosters}`);
+    }
+
+    const messages = await withTransaction(async (client) => {
+      // Lock the draft so the preferences can't race the user's turn starting or ending
+      const locked = await client.query('SELECT settings FROM drafts WHERE id = $1 FOR UPDATE', [draftId]);
+      const currentSettings = locked.rows[0].settings || {};
+
+      await client.query(
+        `INSERT INTO derby_slot_preferences (draft_id, roster_id, slots, auto_pick)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (draft_id, roster_id) DO UPDATE SET slots = EXCLUDED.slots, auto_pick = EXCLUDED.auto_pick`,
+        [draftId, rosterId, preferences.slots, preferences.autoPick]
+      );
+
+      if (!preferences.autoPick || currentSettings.derby_status !== 'in_progress') {
+        return [];
+      }
+
+      // Already on the clock: take the preferred slot now rather than waiting for the timer
+      const order = await this.getDerbyOrder(client, draftId);
+      const currentPicker = order[currentSettings.current_picker_index || 0];
+      if (currentPicker?.roster_id !== rosterId) {
+        return [];
+      }
+
+      // Without an open preferred slot the manager stays on the clock; advancing would only restart the timer
+      const openSlots = getOpenDerbySlots(
+        order.length,
+        order.filter(row => row.draft_position).map(row => row.draft_position!)
+      );
+      if (getPreferredOpenSlot(preferences.slots, openSlots) === null) {
+        return [];
+      }
+
+      return this.advanceDerby(client, draftId, currentSettings);
+    }, this.pool);
+
+    for (const message of messages) {
+      await this.utilityService.sendSystemMessage(leagueId, message);
+    }
+
+    return preferences;
+  }
+
+  /**
+   * Apply the derby_on_timeout policy to the manager whose derby timer ran out
+   * Called by the derby autopick job. Returns null when the pick is no longer expired
+   * (e.g. the manager picked or the derby was paused in the meantime).
+   */
+  async handleExpiredPick(leagueId: number, draftId: number): Promise<DerbyTimeoutResult | null> {
+    return withTransaction(async (client) => {
+      // Lock the draft so overlapping job runs can't both act on the same timeout
+      const draftResult = await client.query(
+        `SELECT settings FROM drafts
+         WHERE id = $1 AND league_id = $2 AND pick_deadline IS NOT NULL AND pick_deadline < NOW()
+         FOR UPDATE`,
+        [draftId, leagueId]
+      );
+
+      if (draftResult.rows.length === 0) {
+        return null;
+      }
+
+      const settings = draftResult.rows[0].settings || {};
+      if (settings.derby_status !== 'in_progress') {
+        return null;
+      }
+
+      const order = await this.getDerbyOrder(client, draftId);
+      const currentPickerIndex = settings.current_picker_index || 0;
+      const currentPicker = order[currentPickerIndex];
+
+      if (!currentPicker) {
+        console.error(`[Derby Auto-Pick] Invalid picker index ${currentPickerIndex} for draft ${draftId}`);
+        return null;
+      }
+
+      const username = currentPicker.username || `Team ${currentPicker.roster_id}`;
+      const policy = getDerbyTimeoutPolicy(settings);
+      const unassigned = order.filter(row => !row.draft_position);
+
+      // Skipping only helps if someone else can pick in the meantime
+      if (policy === 'skip' && currentPicker.derby_skips === 0 && unassigned.length > 1) {
+        await client.query(
+          `UPDATE draft_order
+           SET derby_order = (SELECT MAX(derby_order) + 1 FROM draft_order WHERE draft_id = $1),
+               derby_skips = derby_skips + 1
+           WHERE id = $2`,
+          [draftId, currentPicker.id]
+        );
+
+        const messages = [
+          `${username} was skipped (time expired) and moved to the end of the derby order`,
+          ...(await this.advanceDerby(client, draftId, settings)),
+        ];
+
+        return { action: 'slot_skipped', slotNumber: null, settings, messages };
+      }
+
+      const openSlots = getOpenDerbySlots(
+        order.length,
+        order.filter(row => row.draft_position).map(row => row.draft_position!)
+      );
+
+      if (openSlots.length === 0) {
+        console.error(`[Derby Auto-Pick] No available slots for draft ${draftId}`);
+        return null;
+      }
+
+      let slotNumber: number | null = null;
+      if (policy === 'auto_assign') {
+        const preferences = await client.query(
+          'SELECT slots FROM derby_slot_preferences WHERE draft_id = $1 AND roster_id = $2',
+          [draftId, currentPicker.roster_id]
+        );
+        slotNumber = getPreferredOpenSlot(preferences.rows[0]?.slots || [], openSlots);
+      }
+      const fromPreferences = slotNumber !== null;
+      slotNumber ??= openSlots[Math.floor(Math.random() * openSlots.length)];
+
+      await client.query(
+        'UPDATE draft_order SET draft_position = $1 WHERE id = $2',
+        [slotNumber, currentPicker.id]
+      );
+
+      const messages = [
+        fromPreferences
+          ? `${username} was auto-assigned preferred slot ${slotNumber} (time expired)`
+          : `${username} was auto-assigned slot ${slotNumber} (time expired)`,
+        ...(await this.advanceDerby(client, draftId, settings)),
+      ];
+
+      return { action: 'slot_auto_picked', slotNumber, settings, messages };
+    }, this.pool);
+  }
+
+  /**
+   * Put the next manager without a slot on the clock, or complete the derby
+   * Managers who opted into auto_pick are given their highest ranked open preferred slot as
+   * soon as their turn comes, and with auto_assign_remaining (the default) the last manager
+   * left is given the last slot. Mutates and saves `settings`.
+   *
+   * @returns system messages for any slots assigned along the way
+   */
+  private async advanceDerby(client: PoolClient, draftId: number, settings: any): Promise<string[]> {
+    const messages: string[] = [];
+    const order = await this.getDerbyOrder(client, draftId);
+
+    const preferencesResult = await client.query(
+      'SELECT roster_id, slots FROM derby_slot_preferences WHERE draft_id = $1 AND auto_pick = TRUE',
+      [draftId]
+    );
+    const autoPickSlots = new Map<number, number[]>(
+      preferencesResult.rows.map(row => [row.roster_id, row.slots])
+    );
+
+    const { assignments, currentPickerIndex } = assignAutoDerbySlots(
+      order.map(row => ({ rosterId: row.roster_id, slotNumber: row.draft_position })),
+      autoPickSlots,
+      settings.auto_assign_remaining !== false
+    );
+
+    for (const assignment of assignments) {
+      const row = order.find(entry => entry.roster_id === assignment.rosterId)!;
+      await client.query(
+        'UPDATE draft_order SET draft_position = $1 WHERE id = $2',
+        [assignment.slotNumber, row.id]
+      );
+
+      const username = row.username || `Team ${row.roster_id}`;
+      messages.push(
+        assignment.reason === 'last_slot'
+          ? `${username} was assigned the last remaining slot ${assignment.slotNumber}`
+          : `${username} auto-picked preferred slot ${assignment.slotNumber}`
+      );
+    }
+
+    if (currentPickerIndex !== null) {
+      settings.current_picker_index = currentPickerIndex;
+      // Use derby timer seconds from settings (not pick_time_seconds)
+      const derbyTimerSeconds = settings.derby_timer_seconds || 300;
+      settings.pick_deadline = new Date(Date.now() + derbyTimerSeconds * 1000).toISOString();
+    } else {
+      // Derby complete
+      settings.derby_status = 'completed';
+      delete settings.current_picker_index;
+      delete settings.pick_deadline;
+    }
+
+    // Update draft settings and pick_deadline column
+    await client.query(
+      `UPDATE drafts SET settings = $1, pick_deadline = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3`,
+      [JSON.stringify(settings), settings.pick_deadline || null, draftId]
+    );
+
+    return messages;
+  }
+
+  /**
+   * Derby picking order (not draft_position, which fills in as managers pick)
+   */
+  private async getDerbyOrder(db: Pool | PoolClient, draftId: number): Promise<DerbyOrderRow[]> {
+    const result = await db.query(
+      `SELECT d_order.id, d_order.roster_id, d_order.draft_position, d_order.derby_skips,
+              r.user_id, u.username
+       FROM draft_order d_order
+       INNER JOIN rosters r ON r.id = d_order.roster_id
+       LEFT JOIN users u ON u.id = r.user_id
+       WHERE d_order.draft_id = $1
+       ORDER BY d_order.derby_order, d_order.id`,
+      [draftId]
+    );
+
+    return result.rows;
+  }
+
+  private async getUserRosterId(leagueId: number, userId: string): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT id FROM rosters WHERE league_id = $1 AND user_id = $2',
+      [leagueId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('You do not have a roster in this league');
+    }
+
+    return result.rows[0].id;
+  }
 }
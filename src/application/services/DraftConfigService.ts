@@ -87,6 +87,16 @@ export class DraftConfigService {
       autoStartDerby?: boolean;
       derbyTimerSeconds?: number;
       derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+      allowTradesDuringDraft?: boolean;
+      auctionBudget?: number;
+      bidSeconds?: number;
+      maxKeepers?: number;
+      keeperDeadline?: string;
+      timeBankSeconds?: number;
+      scheduledStart?: string;
+      autoStart?: boolean;
+      reminderMinutes?: number[];
     }
   ): Promise<DraftData> {
     // Verify commissioner
@@ -107,6 +117,20 @@ export class DraftConfigService {
       console.log('[DEBUG] Storing derby_timer_seconds in settings:', params.derbyTimerSeconds);
     }
     if (params.derbyOnTimeout !== undefined) settings.derby_on_timeout = params.derbyOnTimeout;
+    if (params.derbyAutoAssignRemaining !== undefined) {
+      settings.auto_assign_remaining = params.derbyAutoAssignRemaining;
+    }
+    if (params.allowTradesDuringDraft !== undefined) {
+      settings.allow_trades_during_draft = params.allowTradesDuringDraft;
+    }
+    if (params.auctionBudget !== undefined) settings.auction_budget = params.auctionBudget;
+    if (params.bidSeconds !== undefined) settings.bid_seconds = params.bidSeconds;
+    if (params.maxKeepers !== undefined) settings.max_keepers = params.maxKeepers;
+    if (params.keeperDeadline !== undefined) settings.keeper_deadline = params.keeperDeadline;
+    if (params.timeBankSeconds !== undefined) settings.time_bank_seconds = params.timeBankSeconds;
+    if (params.scheduledStart !== undefined) settings.scheduled_start = params.scheduledStart;
+    if (params.autoStart !== undefined) settings.auto_start = params.autoStart;
+    if (params.reminderMinutes !== undefined) settings.reminder_minutes = params.reminderMinutes;
 
     console.log('[DEBUG] Full settings object being stored:', JSON.stringify(settings));
 
@@ -178,6 +202,16 @@ export class DraftConfigService {
       autoStartDerby?: boolean;
       derbyTimerSeconds?: number;
       derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+      allowTradesDuringDraft?: boolean;
+      auctionBudget?: number;
+      bidSeconds?: number;
+      maxKeepers?: number;
+      keeperDeadline?: string;
+      timeBankSeconds?: number;
+      scheduledStart?: string;
+      autoStart?: boolean;
+      reminderMinutes?: number[];
     }
   ): Promise<DraftData> {
     // Verify commissioner
@@ -231,6 +265,20 @@ export class DraftConfigService {
     if (params.derbyOnTimeout !== undefined) {
       settings.derby_on_timeout = params.derbyOnTimeout;
     }
+    if (params.derbyAutoAssignRemaining !== undefined) {
+      settings.auto_assign_remaining = params.derbyAutoAssignRemaining;
+    }
+    if (params.allowTradesDuringDraft !== undefined) {
+      settings.allow_trades_during_draft = params.allowTradesDuringDraft;
+    }
+    if (params.auctionBudget !== undefined) settings.auction_budget = params.auctionBudget;
+    if (params.bidSeconds !== undefined) settings.bid_seconds = params.bidSeconds;
+    if (params.maxKeepers !== undefined) settings.max_keepers = params.maxKeepers;
+    if (params.keeperDeadline !== undefined) settings.keeper_deadline = params.keeperDeadline;
+    if (params.timeBankSeconds !== undefined) settings.time_bank_seconds = params.timeBankSeconds;
+    if (params.scheduledStart !== undefined) settings.scheduled_start = params.scheduledStart;
+    if (params.autoStart !== undefined) settings.auto_start = params.autoStart;
+    if (params.reminderMinutes !== undefined) settings.reminder_minutes = params.reminderMinutes;
 
     console.log('[DEBUG] Full updated settings object:', JSON.stringify(settings));
 
@@ -300,7 +348,7 @@ export class DraftConfigService {
        INNER JOIN rosters r ON r.id = d_order.roster_id
        LEFT JOIN users u ON u.id = r.user_id
        WHERE d_order.draft_id = $1
-       ORDER BY ${isDerby ? 'd_order.id' : 'd_order.draft_position'}`,
+       ORDER BY ${isDerby ? 'd_order.derby_order, d_order.id' : 'd_order.draft_position'}`,
       [draftId]
     );
 
@@ -393,9 +441,9 @@ export class DraftConfigService {
     // For regular drafts, assign sequential positions
     const insertPromises = rosters.map((roster, index) => {
       return this.pool.query(
-        `INSERT INTO draft_order (draft_id, roster_id, draft_position)
-         VALUES ($1, $2, $3)`,
-        [draftId, roster.id, isDerby ? null : index + 1]
+        `INSERT INTO draft_order (draft_id, roster_id, draft_position, derby_order)
+         VALUES ($1, $2, $3, $4)`,
+        [draftId, roster.id, isDerby ? null : index + 1, index + 1]
       );
     });
 
@@ -415,7 +463,7 @@ export class DraftConfigService {
        INNER JOIN rosters r ON r.id = d_order.roster_id
        LEFT JOIN users u ON u.id = r.user_id
        WHERE d_order.draft_id = $1
-       ORDER BY ${isDerby ? 'd_order.id' : 'd_order.draft_position'}`,
+       ORDER BY ${isDerby ? 'd_order.derby_order, d_order.id' : 'd_order.draft_position'}`,
       [draftId]
     );
 
@@ -0,0 +1,233 @@
+import { IDraftRepository } from '../../domain/repositories/IDraftRepository';
+import { DraftPick } from '../../domain/models/DraftPick';
+import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { NotFoundException } from '../../domain/exceptions/AuthExceptions';
+import { DraftUtilityService } from './DraftUtilityService';
+
+export type DraftExportFormat = 'csv' | 'json' | 'sleeper';
+
+/**
+ * One row of the exported draft board
+ */
+export interface DraftBoardRow {
+  round: number;
+  pick: number;
+  pick_in_round: number;
+  /** League roster number (rosters.roster_id) */
+  roster_id: number | null;
+  manager: string | null;
+  player_id: number;
+  player_name: string | null;
+  position: string | null;
+  team: string | null;
+  is_auto_pick: boolean;
+  is_keeper: boolean;
+  time_taken_seconds: number | null;
+}
+
+/**
+ * Pick in the shape of Sleeper's GET /draft/<draft_id>/picks response
+ */
+export interface SleeperDraftPick {
+  round: number;
+  pick_no: number;
+  draft_slot: number | null;
+  roster_id: number | null;
+  player_id: string | null;
+  picked_by: string | null;
+  is_keeper: boolean | null;
+  draft_id: string;
+  metadata: {
+    first_name: string;
+    last_name: string;
+    position: string;
+    team: string;
+  };
+}
+
+export interface DraftExport {
+  format: DraftExportFormat;
+  contentType: string;
+  filename: string;
+  body: string | DraftBoardRow[] | SleeperDraftPick[];
+}
+
+const CSV_COLUMNS: (keyof DraftBoardRow)[] = [
+  'round',
+  'pick',
+  'pick_in_round',
+  'roster_id',
+  'manager',
+  'player_id',
+  'player_name',
+  'position',
+  'team',
+  'is_auto_pick',
+  'is_keeper',
+  'time_taken_seconds',
+];
+
+/**
+ * Seconds each pick took, from the previous pick (or the draft start) to the pick being made
+ * pick_time_seconds can't be used: it is the clock left when the pick was made, including any
+ * time bank. Keepers aren't made on the clock and get null.
+ */
+function getTimesTaken(picks: DraftPick[], startedAt: Date | null): Map<number, number | null> {
+  const timesTaken = new Map<number, number | null>();
+  let previous = startedAt;
+
+  const made = [...picks].sort((a, b) => a.pickedAt.getTime() - b.pickedAt.getTime() || a.pickNumber - b.pickNumber);
+  for (const pick of made) {
+    if (pick.isKeeper) {
+      timesTaken.set(pick.pickNumber, null);
+      continue;
+    }
+    timesTaken.set(
+      pick.pickNumber,
+      previous ? Math.max(0, Math.round((pick.pickedAt.getTime() - previous.getTime()) / 1000)) : null
+    );
+    previous = pick.pickedAt;
+  }
+
+  return timesTaken;
+}
+
+/**
+ * Pick-by-pick board in draft order, with the manager who made each pick
+ */
+export function buildDraftBoard(
+  picks: DraftPick[],
+  draftOrder: DraftOrderEntry[],
+  startedAt: Date | null
+): DraftBoardRow[] {
+  const managers = new Map(draftOrder.map(entry => [entry.rosterId, entry.username]));
+  const timesTaken = getTimesTaken(picks, startedAt);
+
+  return [...picks]
+    .sort((a, b) => a.pickNumber - b.pickNumber)
+    .map(pick => ({
+      round: pick.round,
+      pick: pick.pickNumber,
+      pick_in_round: pick.pickInRound,
+      roster_id: pick.rosterNumber ?? null,
+      manager: managers.get(pick.rosterId) ?? null,
+      player_id: pick.playerId,
+      player_name: pick.playerName ?? null,
+      position: pick.playerPosition ?? null,
+      team: pick.playerTeam ?? null,
+      is_auto_pick: pick.isAutoPick,
+      is_keeper: pick.isKeeper,
+      time_taken_seconds: timesTaken.get(pick.pickNumber) ?? null,
+    }));
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function escapeCsvValue(value: string | number | boolean | null): string {
+  if (value === null) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: DraftBoardRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(column => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Convert picks to Sleeper's pick format so results can be loaded by tools built for Sleeper drafts
+ * Players are identified by their Sleeper ID; draft_slot is the original owner's position in the draft order.
+ */
+export function toSleeperPicks(
+  draftId: number,
+  picks: DraftPick[],
+  draftOrder: DraftOrderEntry[]
+): SleeperDraftPick[] {
+  const entries = new Map(draftOrder.map(entry => [entry.rosterId, entry]));
+
+  return [...picks]
+    .sort((a, b) => a.pickNumber - b.pickNumber)
+    .map(pick => {
+      const owner = entries.get(pick.rosterId);
+      const slotOwner = entries.get(pick.originalRosterId ?? pick.rosterId);
+      const [firstName, ...lastName] = (pick.playerName ?? '').split(' ');
+
+      return {
+        round: pick.round,
+        pick_no: pick.pickNumber,
+        draft_slot: slotOwner?.draftPosition ?? null,
+        roster_id: pick.rosterNumber ?? null,
+        player_id: pick.playerSleeperId ?? null,
+        picked_by: owner?.userId ?? null,
+        is_keeper: pick.isKeeper ? true : null,
+        draft_id: String(draftId),
+        metadata: {
+          first_name: firstName,
+          last_name: lastName.join(' '),
+          position: pick.playerPosition ?? '',
+          team: pick.playerTeam ?? '',
+        },
+      };
+    });
+}
+
+/**
+ * Service for exporting draft results
+ */
+export class DraftExportService {
+  constructor(
+    private readonly draftRepository: IDraftRepository,
+    private readonly utilityService: DraftUtilityService
+  ) {}
+
+  /**
+   * Export a draft's picks as a CSV board, a JSON board or Sleeper-compatible picks
+   */
+  async exportDraft(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    format: DraftExportFormat
+  ): Promise<DraftExport> {
+    const hasAccess = await this.utilityService.userHasLeagueAccess(leagueId, userId);
+    if (!hasAccess) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || draft.leagueId !== leagueId) throw new NotFoundException('Draft not found');
+
+    const picks = await this.draftRepository.getDraftPicks(draftId);
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const filename = `draft-${draftId}`;
+
+    switch (format) {
+      case 'csv':
+        return {
+          format,
+          contentType: 'text/csv; charset=utf-8',
+          filename: `${filename}.csv`,
+          body: toCsv(buildDraftBoard(picks, draftOrder, draft.startedAt)),
+        };
+      case 'sleeper':
+        return {
+          format,
+          contentType: 'application/json',
+          filename: `${filename}-sleeper.json`,
+          body: toSleeperPicks(draftId, picks, draftOrder),
+        };
+      default:
+        return {
+          format,
+          contentType: 'application/json',
+          filename: `${filename}.json`,
+          body: buildDraftBoard(picks, draftOrder, draft.startedAt),
+        };
+    }
+  }
+}
@@ -1,14 +1,212 @@
-import { Pool } from 'pg';
-import { IDraftRepository, DraftData, PlayerFilters } from '../../domain/repositories/IDraftRepository';
+import { Pool, PoolClient } from 'pg';
+import { IDraftRepository, DraftData, PlayerFilters, AutopickSettings } from '../../domain/repositories/IDraftRepository';
 import { DraftPick } from '../../domain/models/DraftPick';
 import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { DraftPickAsset } from '../../domain/models/DraftPickAsset';
+import { Keeper } from '../../domain/models/Keeper';
+import { DraftPickAudit, DraftPickAuditAction } from '../../domain/models/DraftPickAudit';
 import { Player } from '../../domain/models/Player';
 import { IDraftEventsPublisher } from './IDraftEventsPublisher';
 import { DraftQueueService } from './DraftQueueService';
 import { DraftUtilityService } from './DraftUtilityService';
+import { RosterPopulationService, assignStarters } from './RosterPopulationService';
+import { AutopickContext, getAutopickStrategy, getSeasonProjectedPoints } from './AutopickStrategies';
+import { buildStarterSlots } from './LineupService';
+import { getAdpScoringType } from './PlayerService';
+import { IPlayerProjectionRepository } from '../../domain/repositories/IPlayerProjectionRepository';
 import { ValidationException, NotFoundException, ServerException } from '../../domain/exceptions/AuthExceptions';
 import { withTransaction } from '../../db/transaction';
 
+/**
+ * Check if a round runs in reverse order (snake drafts only)
+ */
+export function isSnakeRoundReversed(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  round: number
+): boolean {
+  if (draft.draftType !== 'snake') return false;
+
+  // Round 3 reversal setting
+  if (draft.thirdRoundReversal && round === 3) return true;
+
+  // Standard snake: even rounds are reversed
+  return round % 2 === 0;
+}
+
+/**
+ * Overall pick number of a draft slot's pick in a given round
+ */
+export function getPickNumberForSlot(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  totalRosters: number,
+  round: number,
+  draftPosition: number
+): number {
+  const pickInRound = isSnakeRoundReversed(draft, round)
+    ? totalRosters - draftPosition + 1
+    : draftPosition;
+
+  return (round - 1) * totalRosters + pickInRound;
+}
+
+/**
+ * Draft position (1-based slot in the draft order) that makes a given overall pick, ignoring trades
+ */
+export function getDraftPositionForPickNumber(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  totalRosters: number,
+  pickNumber: number
+): number {
+  const round = Math.ceil(pickNumber / totalRosters);
+  const pickInRound = ((pickNumber - 1) % totalRosters) + 1;
+
+  return isSnakeRoundReversed(draft, round)
+    ? totalRosters - pickInRound + 1
+    : pickInRound;
+}
+
+/**
+ * Key for looking up the current owner of a pick by round and original roster
+ */
+export function getPickOwnerKey(round: number, originalRosterId: number): string {
+  return `${round}:${originalRosterId}`;
+}
+
+/**
+ * Draft order entry whose slot a pick number belongs to, ignoring trades
+ */
+function getSlotForPickNumber(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  draftOrder: DraftOrderEntry[],
+  pickNumber: number
+): DraftOrderEntry | null {
+  const position = getDraftPositionForPickNumber(draft, draftOrder.length, pickNumber);
+  return draftOrder.find(entry => entry.draftPosition === position) || null;
+}
+
+/**
+ * Picker for a specific pick number
+ * Resolves the draft slot from the order, then hands the pick to its current owner if it was traded
+ */
+export function getPickerForPickNumber(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  draftOrder: DraftOrderEntry[],
+  pickNumber: number,
+  pickOwners: Map<string, number>
+): DraftOrderEntry | null {
+  const slot = getSlotForPickNumber(draft, draftOrder, pickNumber);
+  if (!slot) return null;
+
+  const round = Math.ceil(pickNumber / draftOrder.length);
+  const ownerRosterId = pickOwners.get(getPickOwnerKey(round, slot.rosterId));
+  if (ownerRosterId === undefined || ownerRosterId === slot.rosterId) return slot;
+
+  return draftOrder.find(entry => entry.rosterId === ownerRosterId) || slot;
+}
+
+/**
+ * Original owner of the current pick if the picker acquired it in a trade, otherwise null
+ */
+export function getTradedFromRosterId(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal' | 'currentPick'>,
+  draftOrder: DraftOrderEntry[],
+  picker: DraftOrderEntry
+): number | null {
+  if (!draft.currentPick) return null;
+  const slot = getSlotForPickNumber(draft, draftOrder, draft.currentPick);
+  return slot && slot.rosterId !== picker.rosterId ? slot.rosterId : null;
+}
+
+/**
+ * Where the draft goes back to after picks are undone: the earliest undone pick, with whoever
+ * owns it now on the clock
+ * Keepers are never undone, so keeper picks after it stay filled and are skipped again as the draft moves on.
+ */
+export function getUndoRewind(
+  draft: Pick<DraftData, 'draftType' | 'thirdRoundReversal'>,
+  draftOrder: DraftOrderEntry[],
+  undonePickNumbers: number[],
+  pickOwners: Map<string, number>
+): { pickNumber: number; round: number; picker: DraftOrderEntry | null } {
+  const pickNumber = Math.min(...undonePickNumbers);
+  return {
+    pickNumber,
+    round: Math.ceil(pickNumber / draftOrder.length),
+    picker: getPickerForPickNumber(draft, draftOrder, pickNumber, pickOwners),
+  };
+}
+
+/**
+ * First pick after a given pick number that hasn't already been made (e.g. by a keeper)
+ * Returns null when every remaining pick is filled.
+ */
+export function getNextOpenPickNumber(
+  afterPickNumber: number,
+  totalPicks: number,
+  filledPickNumbers: Set<number>
+): number | null {
+  for (let pickNumber = afterPickNumber + 1; pickNumber <= totalPicks; pickNumber++) {
+    if (!filledPickNumbers.has(pickNumber)) {
+      return pickNumber;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Draft clock mode from settings.timer_mode
+ * - per_pick: every pick gets pick_time_seconds
+ * - per_manager: chess clock, each roster's time bank only drains on their own turns
+ * - none: untimed, picks never expire and nobody is auto-picked
+ */
+export type DraftTimerMode = 'per_pick' | 'per_manager' | 'none';
+
+export function getTimerMode(draft: Pick<DraftData, 'settings'>): DraftTimerMode {
+  const mode = draft.settings?.timer_mode;
+  return mode === 'per_manager' || mode === 'none' ? mode : 'per_pick';
+}
+
+/**
+ * Time bank each roster starts a per_manager draft with
+ * Defaults to the per-pick time for every round.
+ */
+export function getStartingTimeBank(draft: Pick<DraftData, 'settings' | 'pickTimeSeconds' | 'rounds'>): number {
+  return draft.settings?.time_bank_seconds ?? (draft.pickTimeSeconds || 0) * draft.rounds;
+}
+
+/**
+ * Deadline for the roster coming on the clock
+ * timeBankSeconds is that roster's remaining bank and only applies to per_manager drafts.
+ */
+export function getPickDeadline(
+  draft: Pick<DraftData, 'settings' | 'pickTimeSeconds'>,
+  timeBankSeconds: number | null,
+  now: number = Date.now()
+): Date | null {
+  switch (getTimerMode(draft)) {
+    case 'none':
+      return null;
+    case 'per_manager':
+      return new Date(now + Math.max(0, timeBankSeconds ?? 0) * 1000);
+    default:
+      return draft.pickTimeSeconds ? new Date(now + draft.pickTimeSeconds * 1000) : null;
+  }
+}
+
+/**
+ * Whole seconds left before a deadline, never negative
+ */
+export function getSecondsRemaining(deadline: Date | null, now: number = Date.now()): number {
+  if (!deadline) return 0;
+  return Math.max(0, Math.floor((deadline.getTime() - now) / 1000));
+}
+
+/**
+ * How many of the top projected players autopick strategies choose from
+ */
+const AUTOPICK_CANDIDATE_LIMIT = 300;
+
 /**
  * Service responsible for runtime draft operations
  * Handles start/pause/resume/pick operations and live draft state
@@ -19,7 +217,9 @@ export class DraftRuntimeService {
     private readonly pool: Pool,
     private readonly utilityService: DraftUtilityService,
     private readonly eventsPublisher?: IDraftEventsPublisher,
-    private readonly queueService?: DraftQueueService
+    private readonly queueService?: DraftQueueService,
+    private readonly rosterPopulationService?: RosterPopulationService,
+    private readonly projectionRepository?: IPlayerProjectionRepository
   ) {}
 
   /**
@@ -36,26 +236,68 @@ export class DraftRuntimeService {
     // Verify commissioner
     await this.utilityService.verifyCommissioner(draft.leagueId, userId);
 
+    return this.beginDraft(draft);
+  }
+
+  /**
+   * Start a draft at its scheduled time (called by the draft scheduler job)
+   */
+  async startScheduledDraft(draftId: number): Promise<DraftData> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft) throw new NotFoundException('Draft not found');
+
+    if (draft.status !== 'not_started') {
+      throw new ValidationException('Draft has already been started');
+    }
+
+    return this.beginDraft(draft);
+  }
+
+  /**
+   * Put the first open pick on the clock and mark the draft in progress
+   */
+  private async beginDraft(draft: DraftData): Promise<DraftData> {
+    const draftId = draft.id;
     const draftOrder = await this.draftRepository.getDraftOrder(draftId);
     if (draftOrder.length === 0) {
       throw new ValidationException('Draft order must be set before starting');
     }
 
-    // Get first picker
-    const firstPicker = draftOrder.find(entry => entry.draftPosition === 1);
+    // Keeper picks are made before the draft starts, so the first open pick may not be pick 1
+    const keepers = await this.draftRepository.getKeepers(draftId);
+    const keeperPickNumbers = this.getKeeperPickNumbers(draft, draftOrder, keepers);
+    const firstPickNumber = getNextOpenPickNumber(
+      0,
+      draftOrder.length * draft.rounds,
+      new Set(keeperPickNumbers.values())
+    );
+    if (!firstPickNumber) {
+      throw new ValidationException('Every pick in this draft is already filled by keepers');
+    }
+
+    // Get first picker (the owner of the first open pick, which may have been traded)
+    const pickOwners = await this.getPickOwners(draftId);
+    const firstPicker = getPickerForPickNumber(draft, draftOrder, firstPickNumber, pickOwners);
     if (!firstPicker) {
       throw new ServerException('Could not find first picker');
     }
 
+    await this.prefillKeeperPicks(draft, draftOrder, keepers, keeperPickNumbers);
+
+    // Fill every roster's time bank for chess-clock drafts
+    const timeBank = getTimerMode(draft) === 'per_manager' ? getStartingTimeBank(draft) : null;
+    await this.pool.query(
+      'UPDATE draft_order SET time_bank_seconds = $2 WHERE draft_id = $1',
+      [draftId, timeBank]
+    );
+
     // Calculate pick deadline
-    const pickDeadline = draft.pickTimeSeconds
-      ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
-      : null;
+    const pickDeadline = getPickDeadline(draft, timeBank);
 
     const updatedDraft = await this.draftRepository.update(draftId, {
       status: 'in_progress',
-      currentPick: 1,
-      currentRound: 1,
+      currentPick: firstPickNumber,
+      currentRound: Math.ceil(firstPickNumber / draftOrder.length),
       currentRosterId: firstPicker.rosterId,
       pickDeadline,
       startedAt: new Date()
@@ -89,6 +331,11 @@ export class DraftRuntimeService {
     // Verify commissioner
     await this.utilityService.verifyCommissioner(draft.leagueId, userId);
 
+    // Bank the current picker's remaining time so the clock picks up where it left off
+    if (draft.currentRosterId) {
+      await this.stopClock(this.pool, draft, draft.currentRosterId);
+    }
+
     const updatedDraft = await this.draftRepository.update(draftId, {
       status: 'paused',
       pickDeadline: null
@@ -127,9 +374,7 @@ export class DraftRuntimeService {
     }
 
     // Calculate new pick deadline
-    const pickDeadline = draft.pickTimeSeconds
-      ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
-      : null;
+    const pickDeadline = await this.getTurnDeadline(this.pool, draft, currentPicker.rosterId);
 
     const updatedDraft = await this.draftRepository.update(draftId, {
       status: 'in_progress',
@@ -152,7 +397,6 @@ export class DraftRuntimeService {
 
   /**
    * Make a pick
-   * Uses transaction to ensure atomicity of pick creation and draft advancement
    */
   async makePick(draftId: number, userId: string, playerId: number): Promise<DraftPick> {
     const draft = await this.draftRepository.findById(draftId);
@@ -162,9 +406,14 @@ export class DraftRuntimeService {
       throw new ValidationException('Draft is not in progress');
     }
 
-    // Get draft order
+    if (draft.draftType === 'auction') {
+      throw new ValidationException('Players are won by nomination and bidding in auction drafts');
+    }
+
+    // Get draft order and traded pick owners
     const draftOrder = await this.draftRepository.getDraftOrder(draftId);
-    const currentPicker = await this.getCurrentPicker(draft, draftOrder);
+    const pickOwners = await this.getPickOwners(draftId);
+    const currentPicker = await this.getCurrentPicker(draft, draftOrder, pickOwners);
 
     if (!currentPicker) {
       throw new ServerException('Could not determine current picker');
@@ -175,6 +424,247 @@ export class DraftRuntimeService {
       throw new ValidationException('It is not your turn to pick');
     }
 
+    return this.submitPick(draft, draftOrder, pickOwners, currentPicker, playerId, null);
+  }
+
+  /**
+   * Make a pick on behalf of the roster on the clock (commissioner only)
+   * @param rosterId - rosters.id of the roster on the clock, guarding against acting on a stale board
+   */
+  async forcePick(draftId: number, userId: string, rosterId: number, playerId: number): Promise<DraftPick> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft) throw new NotFoundException('Draft not found');
+
+    // Verify commissioner
+    await this.utilityService.verifyCommissioner(draft.leagueId, userId);
+
+    if (draft.status !== 'in_progress') {
+      throw new ValidationException('Draft is not in progress');
+    }
+
+    if (draft.draftType === 'auction') {
+      throw new ValidationException('Players are won by nomination and bidding in auction drafts');
+    }
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const pickOwners = await this.getPickOwners(draftId);
+    const currentPicker = await this.getCurrentPicker(draft, draftOrder, pickOwners);
+
+    if (!currentPicker) {
+      throw new ServerException('Could not determine current picker');
+    }
+
+    if (currentPicker.rosterId !== rosterId) {
+      throw new ValidationException('That roster is not on the clock');
+    }
+
+    return this.submitPick(draft, draftOrder, pickOwners, currentPicker, playerId, userId);
+  }
+
+  /**
+   * Undo the last `count` picks and put the earliest undone pick back on the clock (commissioner only)
+   * Undone players become available (and queueable) again. Keeper picks are never undone.
+   */
+  async undoPicks(draftId: number, userId: string, count: number): Promise<DraftPick[]> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft) throw new NotFoundException('Draft not found');
+
+    // Verify commissioner
+    await this.utilityService.verifyCommissioner(draft.leagueId, userId);
+
+    if (draft.status !== 'in_progress' && draft.status !== 'paused') {
+      throw new ValidationException('Picks can only be undone while the draft is in progress or paused');
+    }
+
+    if (draft.draftType === 'auction') {
+      throw new ValidationException('Auction picks cannot be undone');
+    }
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draftId);
+    const pickOwners = await this.getPickOwners(draftId);
+
+    const { undonePicks, picker } = await withTransaction(async (client) => {
+      const picksResult = await client.query(
+        `SELECT
+          dp.*,
+          p.full_name as player_name,
+          p.position as player_position,
+          p.team as player_team
+        FROM draft_picks dp
+        LEFT JOIN players p ON p.id = dp.player_id
+        WHERE dp.draft_id = $1 AND NOT COALESCE(dp.is_keeper, FALSE)
+        ORDER BY dp.pick_number DESC
+        LIMIT $2
+        FOR UPDATE OF dp`,
+        [draftId, count]
+      );
+
+      if (picksResult.rows.length === 0) {
+        throw new ValidationException('There are no picks to undo');
+      }
+
+      if (picksResult.rows.length < count) {
+        throw new ValidationException(`Only ${picksResult.rows.length} pick(s) can be undone`);
+      }
+
+      // Earliest pick first
+      const picks = picksResult.rows.map(row => DraftPick.fromDatabase(row)).reverse();
+
+      await client.query(
+        'DELETE FROM draft_picks WHERE id = ANY($1::int[])',
+        [picks.map(pick => pick.id)]
+      );
+
+      for (const pick of picks) {
+        await this.recordPickAudit(client, draftId, 'undo', pick.pickNumber, pick.rosterId, pick.playerId, null, userId);
+      }
+
+      // Bank the interrupted picker's time before the clock moves back
+      if (draft.status === 'in_progress' && draft.currentRosterId) {
+        await this.stopClock(client, draft, draft.currentRosterId);
+      }
+
+      const rewind = getUndoRewind(draft, draftOrder, picks.map(pick => pick.pickNumber), pickOwners);
+      const pickDeadline = draft.status === 'in_progress' && rewind.picker
+        ? await this.getTurnDeadline(client, draft, rewind.picker.rosterId)
+        : null;
+
+      await client.query(
+        `UPDATE drafts SET
+          current_pick = $1,
+          current_round = $2,
+          current_roster_id = $3,
+          pick_deadline = $4,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $5`,
+        [rewind.pickNumber, rewind.round, rewind.picker?.rosterId ?? null, pickDeadline, draftId]
+      );
+
+      return { undonePicks: picks, picker: rewind.picker };
+    }, this.pool);
+
+    const updatedDraft = await this.draftRepository.findById(draftId);
+    if (!updatedDraft) throw new ServerException('Failed to fetch updated draft');
+
+    // Send system message
+    const undoneNames = undonePicks.map(pick => pick.playerName || `Player #${pick.playerId}`).join(', ');
+    await this.utilityService.sendSystemMessage(
+      draft.leagueId,
+      `↩️ The commissioner undid ${undonePicks.length} pick(s): ${undoneNames}. ${picker?.username || 'Team'} is back on the clock.`
+    );
+
+    // Emit WebSocket events
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitPicksUndone(draft.leagueId, updatedDraft, undonePicks, picker);
+    }
+
+    if (picker && updatedDraft.status === 'in_progress') {
+      await this.emitPickerChanged(updatedDraft, picker);
+    }
+
+    return undonePicks;
+  }
+
+  /**
+   * Swap the player of an existing pick (commissioner only)
+   * The replaced player becomes available again. Completed drafts can then be re-synced to rosters.
+   */
+  async editPick(draftId: number, userId: string, pickNumber: number, playerId: number): Promise<DraftPick> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft) throw new NotFoundException('Draft not found');
+
+    // Verify commissioner
+    await this.utilityService.verifyCommissioner(draft.leagueId, userId);
+
+    const pickResult = await this.pool.query(
+      'SELECT * FROM draft_picks WHERE draft_id = $1 AND pick_number = $2',
+      [draftId, pickNumber]
+    );
+
+    if (pickResult.rows.length === 0) {
+      throw new NotFoundException('Pick not found');
+    }
+
+    const existing = DraftPick.fromDatabase(pickResult.rows[0]);
+
+    if (existing.isKeeper) {
+      throw new ValidationException('Keeper picks are changed through keeper declarations');
+    }
+
+    if (existing.playerId === playerId) {
+      throw new ValidationException('That player is already the pick');
+    }
+
+    const isAvailable = await this.draftRepository.isPlayerAvailable(draftId, playerId);
+    if (!isAvailable) {
+      throw new ValidationException('Player has already been drafted');
+    }
+
+    await withTransaction(async (client) => {
+      await client.query(
+        'UPDATE draft_picks SET player_id = $1 WHERE id = $2',
+        [playerId, existing.id]
+      );
+
+      await this.recordPickAudit(
+        client, draftId, 'edit', pickNumber, existing.rosterId, existing.playerId, playerId, userId
+      );
+    }, this.pool);
+
+    // The new player can't be drafted again, so drop them from everyone's queue
+    if (this.queueService) {
+      await this.queueService.removePlayerFromAllQueues(draftId, playerId);
+    }
+
+    const pick = await this.getPickWithPlayer(existing.id);
+
+    // Send system message
+    const previousPlayer = await this.utilityService.getPlayerInfo(existing.playerId);
+    const previousName = previousPlayer ? previousPlayer.fullName : `Player #${existing.playerId}`;
+    await this.utilityService.sendSystemMessage(
+      draft.leagueId,
+      `✏️ The commissioner changed pick ${pickNumber} from ${previousName} to ${pick.playerName || `Player #${playerId}`}`
+    );
+
+    // Emit WebSocket event
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitPickEdited(draft.leagueId, draft, pick, existing.playerId);
+    }
+
+    return pick;
+  }
+
+  /**
+   * Get the commissioner audit trail for a draft, newest first
+   */
+  async getPickAudit(leagueId: number, draftId: number, userId: string): Promise<DraftPickAudit[]> {
+    const hasAccess = await this.utilityService.userHasLeagueAccess(leagueId, userId);
+    if (!hasAccess) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || draft.leagueId !== leagueId) throw new NotFoundException('Draft not found');
+
+    return this.draftRepository.getPickAudit(draftId);
+  }
+
+  /**
+   * Record a pick for the roster on the clock and advance the draft
+   * Uses transaction to ensure atomicity of pick creation and draft advancement
+   *
+   * @param forcedBy - commissioner making the pick on the roster's behalf, null for the manager's own pick
+   */
+  private async submitPick(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    pickOwners: Map<string, number>,
+    currentPicker: DraftOrderEntry,
+    playerId: number,
+    forcedBy: string | null
+  ): Promise<DraftPick> {
+    const draftId = draft.id;
+
     // Verify player is available
     const isAvailable = await this.draftRepository.isPlayerAvailable(draftId, playerId);
     if (!isAvailable) {
@@ -192,8 +682,8 @@ export class DraftRuntimeService {
       const insertResult = await client.query(
         `INSERT INTO draft_picks (
           draft_id, pick_number, round, pick_in_round, roster_id,
-          player_id, is_auto_pick, pick_time_seconds
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          player_id, is_auto_pick, pick_time_seconds, original_roster_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING id`,
         [
           draftId,
@@ -203,18 +693,26 @@ export class DraftRuntimeService {
           currentPicker.rosterId,
           playerId,
           false,
-          pickTimeSeconds
+          pickTimeSeconds,
+          getTradedFromRosterId(draft, draftOrder, currentPicker)
         ]
       );
 
       const pickId = insertResult.rows[0].id;
 
-      // Calculate next pick details
-      const totalPicks = draftOrder.length * draft.rounds;
-      const nextPickNumber = (draft.currentPick || 0) + 1;
+      if (forcedBy) {
+        await this.recordPickAudit(
+          client, draftId, 'force_pick', draft.currentPick!, currentPicker.rosterId, null, playerId, forcedBy
+        );
+      }
+
+      await this.stopClock(client, draft, currentPicker.rosterId);
+
+      // Calculate next pick details, skipping picks already filled by keepers
+      const nextPickNumber = await this.getNextPickNumber(client, draft, draftOrder);
 
       // Update draft state
-      if (nextPickNumber > totalPicks) {
+      if (nextPickNumber === null) {
         // Draft completed
         await client.query(
           `UPDATE drafts SET
@@ -231,9 +729,9 @@ export class DraftRuntimeService {
       } else {
         // Advance to next pick
         const nextRound = Math.ceil(nextPickNumber / draftOrder.length);
-        const nextPicker = this.getPickerForPickNumber(draft, draftOrder, nextPickNumber);
-        const pickDeadline = draft.pickTimeSeconds
-          ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
+        const nextPicker = getPickerForPickNumber(draft, draftOrder, nextPickNumber, pickOwners);
+        const pickDeadline = nextPicker
+          ? await this.getTurnDeadline(client, draft, nextPicker.rosterId)
           : null;
 
         await client.query(
@@ -252,24 +750,16 @@ export class DraftRuntimeService {
     }, this.pool);
 
     // Fetch the complete pick with player information (outside transaction)
-    const pickResult = await this.pool.query(
-      `SELECT
-        dp.*,
-        p.full_name as player_name,
-        p.position as player_position,
-        p.team as player_team
-      FROM draft_picks dp
-      LEFT JOIN players p ON p.id = dp.player_id
-      WHERE dp.id = $1`,
-      [result.pickId]
-    );
-
-    const pick = DraftPick.fromDatabase(pickResult.rows[0]);
+    const pick = await this.getPickWithPlayer(result.pickId);
 
     // Get updated draft state
     const updatedDraft = await this.draftRepository.findById(draftId);
     if (!updatedDraft) throw new ServerException('Failed to fetch updated draft');
 
+    if (updatedDraft.status === 'completed') {
+      await this.rosterPopulationService?.populateCompletedDraft(draftId);
+    }
+
     // Get player info for system message
     const player = await this.utilityService.getPlayerInfo(playerId);
     const playerName = player ? `${player.fullName} (${player.position})` : `Player #${playerId}`;
@@ -277,22 +767,72 @@ export class DraftRuntimeService {
     // Send system message
     await this.utilityService.sendSystemMessage(
       draft.leagueId,
-      `${currentPicker.username || 'Team'} selected ${playerName}`
+      forcedBy
+        ? `The commissioner selected ${playerName} for ${currentPicker.username || 'Team'}`
+        : `${currentPicker.username || 'Team'} selected ${playerName}`
     );
 
     // Get next picker for WebSocket event
     const nextPicker = updatedDraft.status === 'in_progress'
-      ? await this.getCurrentPicker(updatedDraft, draftOrder)
+      ? await this.getCurrentPicker(updatedDraft, draftOrder, pickOwners)
       : null;
 
     // Emit WebSocket event
     if (this.eventsPublisher) {
-      this.eventsPublisher.emitPickMade(draft.leagueId, pick, updatedDraft, nextPicker);
+      if (forcedBy) {
+        this.eventsPublisher.emitCommissionerPickMade(draft.leagueId, pick, updatedDraft, nextPicker);
+      } else {
+        this.eventsPublisher.emitPickMade(draft.leagueId, pick, updatedDraft, nextPicker);
+      }
+    }
+
+    if (nextPicker) {
+      await this.emitPickerChanged(updatedDraft, nextPicker);
     }
 
     return pick;
   }
 
+  /**
+   * Get a pick with its player's name, position and team
+   */
+  private async getPickWithPlayer(pickId: number): Promise<DraftPick> {
+    const pickResult = await this.pool.query(
+      `SELECT
+        dp.*,
+        p.full_name as player_name,
+        p.position as player_position,
+        p.team as player_team
+      FROM draft_picks dp
+      LEFT JOIN players p ON p.id = dp.player_id
+      WHERE dp.id = $1`,
+      [pickId]
+    );
+
+    return DraftPick.fromDatabase(pickResult.rows[0]);
+  }
+
+  /**
+   * Write a commissioner correction to the draft's audit trail
+   */
+  private async recordPickAudit(
+    db: Pool | PoolClient,
+    draftId: number,
+    action: DraftPickAuditAction,
+    pickNumber: number,
+    rosterId: number | null,
+    previousPlayerId: number | null,
+    playerId: number | null,
+    performedBy: string
+  ): Promise<void> {
+    await db.query(
+      `INSERT INTO draft_pick_audit (
+        draft_id, action, pick_number, roster_id, previous_player_id, player_id, performed_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [draftId, action, pickNumber, rosterId, previousPlayerId, playerId, performedBy]
+    );
+  }
+
   /**
    * Auto-pick for current user (called by cron job)
    */
@@ -300,10 +840,29 @@ export class DraftRuntimeService {
     const draft = await this.draftRepository.findById(draftId);
     if (!draft || draft.status !== 'in_progress') return null;
 
+    // Auction timeouts are handled by AuctionDraftService.processTimeout
+    if (draft.draftType === 'auction') return null;
+
+    // Untimed drafts wait on every manager
+    if (getTimerMode(draft) === 'none') return null;
+
     const draftOrder = await this.draftRepository.getDraftOrder(draftId);
-    const currentPicker = await this.getCurrentPicker(draft, draftOrder);
+    const pickOwners = await this.getPickOwners(draftId);
+    const currentPicker = await this.getCurrentPicker(draft, draftOrder, pickOwners);
     if (!currentPicker) return null;
 
+    const autopickSettings = await this.draftRepository.getAutopickSettings(
+      draft.leagueId,
+      currentPicker.rosterId
+    );
+    const strategy = getAutopickStrategy(autopickSettings.strategy);
+    const timedOut = !!draft.pickDeadline && new Date() >= draft.pickDeadline;
+
+    // Managers who turned autopick off are never picked for; once time runs out their pick is skipped
+    if (strategy.name === 'disabled') {
+      return timedOut ? this.skipCurrentPick(draft, draftOrder, pickOwners, currentPicker) : null;
+    }
+
     // Check if autopick is enabled for this user
     const autopickEnabled = await this.draftRepository.getUserAutopickStatus(
       draft.leagueId,
@@ -311,39 +870,28 @@ export class DraftRuntimeService {
     );
 
     // If autopick is not enabled and this is a timeout, enable it automatically
-    if (!autopickEnabled && draft.pickDeadline && new Date() >= draft.pickDeadline) {
+    if (!autopickEnabled && timedOut) {
       await this.enableAutopickOnTimeout(draft.leagueId, draftId, currentPicker);
     } else if (!autopickEnabled) {
       // Autopick not enabled and no timeout yet - don't autopick
       return null;
     }
 
-    let selectedPlayer: Player | undefined;
-
-    // Try to use queued player first
-    if (this.queueService) {
-      const nextQueued = await this.queueService.getNextQueuedPlayer(draftId, currentPicker.rosterId);
-      if (nextQueued && nextQueued.player) {
-        selectedPlayer = nextQueued.player;
-        console.log(`[Draft Auto-Pick] Using queued player: ${selectedPlayer.fullName} (player.id: ${selectedPlayer.id}, queue.playerId: ${nextQueued.playerId})`);
-      }
-    }
+    const context = await this.buildAutopickContext(
+      draft,
+      currentPicker.rosterId,
+      autopickSettings.positionPriority
+    );
+    const selectedPlayer = strategy.selectPlayer(context);
 
-    // Fall back to random player if no queue or queue is empty
+    // queue_only never falls back to another player, so an empty queue (or an exhausted player pool)
+    // waits out the clock and then skips the pick
     if (!selectedPlayer) {
-      const playerPool = draft.settings?.player_pool || 'all';
-      const availablePlayers = await this.draftRepository.getAvailablePlayers(draftId, playerPool);
-
-      if (availablePlayers.length === 0) {
-        // No players available - complete draft?
-        return null;
-      }
-
-      // Select random player
-      selectedPlayer = availablePlayers[Math.floor(Math.random() * availablePlayers.length)];
-      console.log(`[Draft Auto-Pick] No queue, selecting random player: ${selectedPlayer.fullName}`);
+      return timedOut ? this.skipCurrentPick(draft, draftOrder, pickOwners, currentPicker) : null;
     }
 
+    console.log(`[Draft Auto-Pick] ${strategy.name} selected ${selectedPlayer.fullName} for ${currentPicker.username}`);
+
     // Create auto-pick
     const pick = await this.draftRepository.createPick({
       draftId,
@@ -353,7 +901,8 @@ export class DraftRuntimeService {
       rosterId: currentPicker.rosterId,
       playerId: selectedPlayer.id,
       isAutoPick: true,
-      pickTimeSeconds: 0
+      pickTimeSeconds: 0,
+      originalRosterId: getTradedFromRosterId(draft, draftOrder, currentPicker)
     });
 
     // Remove player from all queues
@@ -367,26 +916,73 @@ export class DraftRuntimeService {
       `⏰ ${currentPicker.username || 'Team'} auto-picked ${selectedPlayer.fullName} (${selectedPlayer.position})`
     );
 
+    await this.stopClock(this.pool, draft, currentPicker.rosterId);
+
     // Advance draft
-    const { updatedDraft, nextPicker } = await this.advanceDraft(draft, draftOrder);
+    const { updatedDraft, nextPicker } = await this.advanceDraft(draft, draftOrder, pickOwners);
 
     // Emit WebSocket event
     if (this.eventsPublisher) {
       this.eventsPublisher.emitAutoPickOccurred(draft.leagueId, pick, updatedDraft, nextPicker);
     }
 
+    if (nextPicker) {
+      await this.emitPickerChanged(updatedDraft, nextPicker);
+    }
+
     return pick;
   }
 
+  /**
+   * Move past the current pick without making it, for a timed-out manager autopick can't pick for
+   * The roster simply ends the draft one player short.
+   */
+  private async skipCurrentPick(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    pickOwners: Map<string, number>,
+    currentPicker: DraftOrderEntry
+  ): Promise<null> {
+    console.log(`[Draft Auto-Pick] Skipping pick ${draft.currentPick} for ${currentPicker.username}`);
+
+    await this.utilityService.sendSystemMessage(
+      draft.leagueId,
+      `⏭️ ${currentPicker.username || 'Team'} ran out of time and skipped pick ${draft.currentRound}.${this.getPickInRound(draft, draftOrder)}`
+    );
+
+    await this.stopClock(this.pool, draft, currentPicker.rosterId);
+
+    const { updatedDraft, nextPicker } = await this.advanceDraft(draft, draftOrder, pickOwners);
+    if (nextPicker) {
+      await this.emitPickerChanged(updatedDraft, nextPicker);
+    }
+
+    return null;
+  }
+
   /**
    * Get available players with filters
+   * Each player's ADP comes from completed drafts with this draft's season, scoring, size and type
    */
   async getAvailablePlayers(draftId: number, filters?: PlayerFilters): Promise<Player[]> {
     const draft = await this.draftRepository.findById(draftId);
     if (!draft) throw new NotFoundException('Draft not found');
 
+    // ADP from drafts in the same format as this one
+    const leagueResult = await this.pool.query(
+      'SELECT season, scoring_settings FROM leagues WHERE id = $1',
+      [draft.leagueId]
+    );
+    const league = leagueResult.rows[0];
+    const adp = filters?.adp ?? (league ? {
+      season: league.season,
+      scoringType: getAdpScoringType(league.scoring_settings),
+      leagueSize: draft.totalRosters,
+      draftType: draft.draftType,
+    } : undefined);
+
     const playerPool = draft.settings?.player_pool || 'all';
-    return this.draftRepository.getAvailablePlayers(draftId, playerPool, filters);
+    return this.draftRepository.getAvailablePlayers(draftId, playerPool, { ...filters, adp });
   }
 
   /**
@@ -405,8 +1001,10 @@ export class DraftRuntimeService {
 
     const draftOrder = await this.draftRepository.getDraftOrder(draftId);
     const picks = await this.draftRepository.getDraftPicks(draftId);
+    const tradedPicks = await this.draftRepository.getPickAssets(draftId);
+    const pickOwners = this.buildPickOwners(tradedPicks);
     const currentPicker = draft.status === 'in_progress'
-      ? await this.getCurrentPicker(draft, draftOrder)
+      ? await this.getCurrentPicker(draft, draftOrder, pickOwners)
       : null;
 
     // Get autopick statuses for all rosters
@@ -420,8 +1018,10 @@ export class DraftRuntimeService {
       draft,
       draftOrder,
       picks,
+      tradedPicks: tradedPicks.map(asset => asset.toJSON()),
       currentPicker,
-      autopickStatuses
+      autopickStatuses,
+      timeBanks: this.getTimeBanks(draft, draftOrder)
     };
   }
 
@@ -430,13 +1030,13 @@ export class DraftRuntimeService {
    */
   private async advanceDraft(
     draft: DraftData,
-    draftOrder: DraftOrderEntry[]
+    draftOrder: DraftOrderEntry[],
+    pickOwners: Map<string, number>
   ): Promise<{ updatedDraft: DraftData; nextPicker: DraftOrderEntry | null }> {
-    const totalPicks = draftOrder.length * draft.rounds;
-    const nextPickNumber = (draft.currentPick || 0) + 1;
+    const nextPickNumber = await this.getNextPickNumber(this.pool, draft, draftOrder);
 
     // Check if draft is complete
-    if (nextPickNumber > totalPicks) {
+    if (nextPickNumber === null) {
       const updatedDraft = await this.draftRepository.update(draft.id, {
         status: 'completed',
         currentPick: null,
@@ -446,6 +1046,8 @@ export class DraftRuntimeService {
         completedAt: new Date()
       });
 
+      await this.rosterPopulationService?.populateCompletedDraft(draft.id);
+
       await this.utilityService.sendSystemMessage(draft.leagueId, '🎉 Draft completed!');
 
       if (this.eventsPublisher) {
@@ -457,16 +1059,14 @@ export class DraftRuntimeService {
 
     // Calculate next round and pick
     const nextRound = Math.ceil(nextPickNumber / draftOrder.length);
-    const nextPicker = this.getPickerForPickNumber(draft, draftOrder, nextPickNumber);
+    const nextPicker = getPickerForPickNumber(draft, draftOrder, nextPickNumber, pickOwners);
 
     if (!nextPicker) {
       throw new ServerException('Could not determine next picker');
     }
 
     // Calculate new pick deadline
-    const pickDeadline = draft.pickTimeSeconds
-      ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
-      : null;
+    const pickDeadline = await this.getTurnDeadline(this.pool, draft, nextPicker.rosterId);
 
     const updatedDraft = await this.draftRepository.update(draft.id, {
       currentPick: nextPickNumber,
@@ -479,47 +1079,267 @@ export class DraftRuntimeService {
   }
 
   /**
-   * Get current picker
+   * Gather the queue, projections and open starting slots for an autopick strategy
    */
-  private async getCurrentPicker(
+  private async buildAutopickContext(
+    draft: DraftData,
+    rosterId: number,
+    positionPriority: string[]
+  ): Promise<AutopickContext> {
+    let queuedPlayer: Player | null = null;
+    if (this.queueService) {
+      const nextQueued = await this.queueService.getNextQueuedPlayer(draft.id, rosterId);
+      queuedPlayer = nextQueued?.player ?? null;
+    }
+
+    const leagueResult = await this.pool.query(
+      'SELECT season, roster_positions, scoring_settings FROM leagues WHERE id = $1',
+      [draft.leagueId]
+    );
+    const league = leagueResult.rows[0];
+
+    const projections = new Map<string, number>();
+    if (this.projectionRepository && league) {
+      const totals = await this.projectionRepository.findSeasonTotals(league.season);
+      for (const total of totals) {
+        projections.set(total.playerSleeperId, getSeasonProjectedPoints(total, league.scoring_settings));
+      }
+    }
+
+    // Only the top projected players are worth considering; without projections use the whole pool
+    const playerPool = draft.settings?.player_pool || 'all';
+    const topProjected = [...projections.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, AUTOPICK_CANDIDATE_LIMIT)
+      .map(([sleeperId]) => sleeperId);
+
+    let availablePlayers = topProjected.length > 0
+      ? await this.draftRepository.getAvailablePlayers(draft.id, playerPool, { sleeperIds: topProjected })
+      : [];
+    if (availablePlayers.length === 0) {
+      availablePlayers = await this.draftRepository.getAvailablePlayers(draft.id, playerPool);
+    }
+
+    // Starting slots this roster hasn't filled with its picks so far
+    const picksResult = await this.pool.query(
+      `SELECT p.*
+       FROM draft_picks dp
+       INNER JOIN players p ON p.id = dp.player_id
+       WHERE dp.draft_id = $1 AND dp.roster_id = $2
+       ORDER BY dp.pick_number`,
+      [draft.id, rosterId]
+    );
+    const slots = buildStarterSlots(league?.roster_positions);
+    const { starters } = assignStarters(picksResult.rows.map(row => Player.fromDatabase(row)), slots);
+
+    return {
+      queuedPlayer,
+      availablePlayers,
+      projections,
+      openSlots: slots.filter((_, index) => starters[index] === null),
+      positionPriority,
+    };
+  }
+
+  /**
+   * Deadline for a roster coming on the clock, using its time bank in per_manager drafts
+   */
+  private async getTurnDeadline(
+    db: Pool | PoolClient,
+    draft: DraftData,
+    rosterId: number
+  ): Promise<Date | null> {
+    if (getTimerMode(draft) !== 'per_manager') {
+      return getPickDeadline(draft, null);
+    }
+
+    const result = await db.query(
+      'SELECT time_bank_seconds FROM draft_order WHERE draft_id = $1 AND roster_id = $2',
+      [draft.id, rosterId]
+    );
+
+    return getPickDeadline(draft, result.rows[0]?.time_bank_seconds ?? 0);
+  }
+
+  /**
+   * Stop a per_manager roster's clock, keeping whatever is left before the current deadline
+   */
+  private async stopClock(db: Pool | PoolClient, draft: DraftData, rosterId: number): Promise<void> {
+    if (getTimerMode(draft) !== 'per_manager' || !draft.pickDeadline) return;
+
+    await db.query(
+      'UPDATE draft_order SET time_bank_seconds = $3 WHERE draft_id = $1 AND roster_id = $2',
+      [draft.id, rosterId, getSecondsRemaining(draft.pickDeadline)]
+    );
+  }
+
+  /**
+   * Remaining time bank per roster for per_manager drafts (null for other timer modes)
+   * The roster on the clock is reported live from the pick deadline.
+   */
+  private getTimeBanks(draft: DraftData, draftOrder: DraftOrderEntry[]): Record<number, number> | null {
+    if (getTimerMode(draft) !== 'per_manager') return null;
+
+    const timeBanks: Record<number, number> = {};
+    for (const entry of draftOrder) {
+      timeBanks[entry.rosterId] =
+        draft.status === 'in_progress' && entry.rosterId === draft.currentRosterId && draft.pickDeadline
+          ? getSecondsRemaining(draft.pickDeadline)
+          : entry.timeBankSeconds ?? 0;
+    }
+
+    return timeBanks;
+  }
+
+  /**
+   * Announce the roster now on the clock along with every roster's remaining time bank
+   */
+  private async emitPickerChanged(draft: DraftData, currentPicker: DraftOrderEntry): Promise<void> {
+    if (!this.eventsPublisher) return;
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draft.id);
+    this.eventsPublisher.emitPickerChanged(
+      draft.leagueId,
+      currentPicker,
+      draft,
+      this.getTimeBanks(draft, draftOrder)
+    );
+  }
+
+  /**
+   * Next pick number after the current pick that hasn't been filled by a keeper
+   */
+  private async getNextPickNumber(
+    db: Pool | PoolClient,
     draft: DraftData,
     draftOrder: DraftOrderEntry[]
-  ): Promise<DraftOrderEntry | null> {
-    if (!draft.currentPick) return null;
-    return this.getPickerForPickNumber(draft, draftOrder, draft.currentPick);
+  ): Promise<number | null> {
+    const currentPick = draft.currentPick || 0;
+    const result = await db.query(
+      'SELECT pick_number FROM draft_picks WHERE draft_id = $1 AND pick_number > $2',
+      [draft.id, currentPick]
+    );
+
+    return getNextOpenPickNumber(
+      currentPick,
+      draftOrder.length * draft.rounds,
+      new Set(result.rows.map(row => row.pick_number as number))
+    );
   }
 
   /**
-   * Get picker for a specific pick number
+   * Pick number each keeper occupies: its roster's own pick in the keeper's round
+   * Keepers for rosters missing from the draft order are left out.
    */
-  private getPickerForPickNumber(
+  private getKeeperPickNumbers(
     draft: DraftData,
     draftOrder: DraftOrderEntry[],
-    pickNumber: number
-  ): DraftOrderEntry | null {
-    const totalRosters = draftOrder.length;
-    const round = Math.ceil(pickNumber / totalRosters);
-    const pickInRound = ((pickNumber - 1) % totalRosters) + 1;
+    keepers: Keeper[]
+  ): Map<number, number> {
+    const pickNumbers = new Map<number, number>();
 
-    const isReversed = this.isSnakeRoundReversed(draft, round);
-    const position = isReversed
-      ? totalRosters - pickInRound + 1
-      : pickInRound;
+    for (const keeper of keepers) {
+      const slot = draftOrder.find(entry => entry.rosterId === keeper.rosterId);
+      if (!slot || keeper.roundCost > draft.rounds) continue;
 
-    return draftOrder.find(entry => entry.draftPosition === position) || null;
+      pickNumbers.set(
+        keeper.id,
+        getPickNumberForSlot(draft, draftOrder.length, keeper.roundCost, slot.draftPosition)
+      );
+    }
+
+    return pickNumbers;
+  }
+
+  /**
+   * Write keeper declarations into draft_picks so the draft skips over them
+   * Safe to re-run: picks that already exist are left alone.
+   */
+  private async prefillKeeperPicks(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    keepers: Keeper[],
+    keeperPickNumbers: Map<number, number>
+  ): Promise<void> {
+    if (keeperPickNumbers.size === 0) return;
+
+    await withTransaction(async (client) => {
+      for (const keeper of keepers) {
+        const pickNumber = keeperPickNumbers.get(keeper.id);
+        if (!pickNumber) continue;
+
+        await client.query(
+          `INSERT INTO draft_picks (
+            draft_id, pick_number, round, pick_in_round, roster_id,
+            player_id, is_auto_pick, pick_time_seconds, is_keeper
+          ) VALUES ($1, $2, $3, $4, $5, $6, FALSE, NULL, TRUE)
+          ON CONFLICT DO NOTHING`,
+          [
+            draft.id,
+            pickNumber,
+            keeper.roundCost,
+            ((pickNumber - 1) % draftOrder.length) + 1,
+            keeper.rosterId,
+            keeper.playerId
+          ]
+        );
+      }
+    }, this.pool);
+
+    // Kept players can't be drafted, so drop them from everyone's queue
+    if (this.queueService) {
+      for (const keeper of keepers) {
+        await this.queueService.removePlayerFromAllQueues(draft.id, keeper.playerId);
+      }
+    }
+  }
+
+  /**
+   * Re-run roster population for a completed draft (commissioner only)
+   * Used when picks are edited after the draft has finished
+   */
+  async syncRostersFromDraft(leagueId: number, draftId: number, userId: string): Promise<number> {
+    await this.utilityService.verifyCommissioner(leagueId, userId);
+
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || draft.leagueId !== leagueId) throw new NotFoundException('Draft not found');
+
+    if (draft.status !== 'completed') {
+      throw new ValidationException('Rosters can only be synced from a completed draft');
+    }
+
+    if (!this.rosterPopulationService) {
+      throw new ServerException('Roster population is not configured');
+    }
+
+    return this.rosterPopulationService.populateFromDraft(draftId);
   }
 
   /**
-   * Check if a snake round is reversed
+   * Get current picker
+   * Loads traded pick owners unless the caller already has them
    */
-  private isSnakeRoundReversed(draft: DraftData, round: number): boolean {
-    if (draft.draftType !== 'snake') return false;
+  private async getCurrentPicker(
+    draft: DraftData,
+    draftOrder: DraftOrderEntry[],
+    pickOwners?: Map<string, number>
+  ): Promise<DraftOrderEntry | null> {
+    if (!draft.currentPick) return null;
+    const owners = pickOwners ?? await this.getPickOwners(draft.id);
+    return getPickerForPickNumber(draft, draftOrder, draft.currentPick, owners);
+  }
 
-    // Round 3 reversal setting
-    if (draft.thirdRoundReversal && round === 3) return true;
+  /**
+   * Get current owners of traded picks, keyed by getPickOwnerKey
+   */
+  private async getPickOwners(draftId: number): Promise<Map<string, number>> {
+    return this.buildPickOwners(await this.draftRepository.getPickAssets(draftId));
+  }
 
-    // Standard snake: even rounds are reversed
-    return round % 2 === 0;
+  private buildPickOwners(assets: DraftPickAsset[]): Map<string, number> {
+    return new Map(
+      assets.map(asset => [getPickOwnerKey(asset.round, asset.originalRosterId), asset.currentRosterId])
+    );
   }
 
   /**
@@ -561,6 +1381,26 @@ export class DraftRuntimeService {
     return { enabled: newStatus, all_statuses: allStatuses };
   }
 
+  /**
+   * Get a roster's autopick strategy
+   */
+  async getAutopickSettings(leagueId: number, rosterId: number): Promise<AutopickSettings> {
+    return this.draftRepository.getAutopickSettings(leagueId, rosterId);
+  }
+
+  /**
+   * Choose how autopick drafts for a roster
+   */
+  async setAutopickSettings(leagueId: number, rosterId: number, settings: AutopickSettings): Promise<AutopickSettings> {
+    const positionPriority = settings.positionPriority.map(position => position.toUpperCase());
+    await this.draftRepository.setAutopickSettings(leagueId, rosterId, {
+      strategy: settings.strategy,
+      positionPriority,
+    });
+
+    return { strategy: settings.strategy, positionPriority };
+  }
+
   /**
    * Enable autopick automatically when user times out
    */
@@ -0,0 +1,227 @@
+import { Pool } from 'pg';
+import { DraftData } from '../../domain/repositories/IDraftRepository';
+import { DraftService } from './DraftService';
+import { ChatService } from './ChatService';
+
+/**
+ * Countdown reminders (minutes before the start) when the draft doesn't set `reminder_minutes`
+ */
+export const DEFAULT_REMINDER_MINUTES = [1440, 60, 15];
+
+export type ScheduledDraftEvent = 'draft' | 'derby';
+
+/**
+ * Outcome of one scheduler run
+ */
+export interface DraftSchedulerRunResult {
+  remindersSent: number;
+  draftsStarted: number;
+  derbiesStarted: DraftData[];
+}
+
+/**
+ * Reminder threshold (in minutes) that is due at `now`, or null when none is
+ * Only the closest threshold counts, so a server that was down doesn't post a
+ * backlog of stale reminders once it comes back up.
+ */
+export function getDueReminderMinutes(
+  startTime: Date,
+  reminderMinutes: number[],
+  now: Date = new Date()
+): number | null {
+  const minutesUntilStart = (startTime.getTime() - now.getTime()) / 60000;
+  if (minutesUntilStart <= 0) return null;
+
+  const due = reminderMinutes.filter(m => m >= minutesUntilStart);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Human readable countdown, e.g. "1 day", "2 hours" or "15 minutes"
+ */
+export function formatCountdown(minutes: number): string {
+  const plural = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+
+  if (minutes % 1440 === 0) return plural(minutes / 1440, 'day');
+  if (minutes % 60 === 0) return plural(minutes / 60, 'hour');
+  return plural(minutes, 'minute');
+}
+
+/**
+ * Key recorded in draft_schedule_events so each event fires once per scheduled time
+ */
+export function getScheduleEventKey(
+  event: ScheduledDraftEvent,
+  startTime: Date,
+  reminderMinutes?: number
+): string {
+  const base = `${event}_${reminderMinutes === undefined ? 'start' : 'reminder'}:${startTime.toISOString()}`;
+  return reminderMinutes === undefined ? base : `${base}:${reminderMinutes}`;
+}
+
+/**
+ * Service for drafts and derbies scheduled ahead of time
+ * Posts countdown reminders to league chat and auto-starts drafts (settings.auto_start at
+ * settings.scheduled_start, falling back to the league's draft_date) and derbies
+ * (settings.auto_start_derby at settings.derby_start_time).
+ */
+export class DraftSchedulerService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly draftService: DraftService,
+    private readonly chatService: ChatService
+  ) {}
+
+  /**
+   * Send due reminders and start drafts and derbies whose time has come
+   * Called by the draft scheduler job.
+   */
+  async processScheduledDrafts(now: Date = new Date()): Promise<DraftSchedulerRunResult> {
+    const result: DraftSchedulerRunResult = { remindersSent: 0, draftsStarted: 0, derbiesStarted: [] };
+
+    const drafts = await this.pool.query(
+      `SELECT d.id, d.league_id, d.settings, l.draft_date
+       FROM drafts d
+       INNER JOIN leagues l ON l.id = d.league_id
+       WHERE d.status = 'not_started'
+       ORDER BY d.id`
+    );
+
+    for (const row of drafts.rows) {
+      const settings = row.settings || {};
+      const reminderMinutes: number[] = Array.isArray(settings.reminder_minutes)
+        ? settings.reminder_minutes
+        : DEFAULT_REMINDER_MINUTES;
+
+      try {
+        const isDerby = settings.draft_order === 'derby';
+        const derbyStart = isDerby && !settings.derby_status ? parseDate(settings.derby_start_time) : null;
+        if (derbyStart) {
+          result.remindersSent += await this.sendReminder(row.id, row.league_id, 'derby', derbyStart, reminderMinutes, now);
+
+          if (settings.auto_start_derby && derbyStart <= now) {
+            const derby = await this.startDerby(row.id, row.league_id, derbyStart);
+            if (derby) result.derbiesStarted.push(derby);
+          }
+        }
+
+        const draftStart = parseDate(settings.scheduled_start) ?? parseDate(row.draft_date);
+        if (draftStart) {
+          result.remindersSent += await this.sendReminder(row.id, row.league_id, 'draft', draftStart, reminderMinutes, now);
+
+          // A derby draft can't start until every manager has picked a slot
+          const readyToStart = !isDerby || settings.derby_status === 'completed';
+          if (settings.auto_start && readyToStart && draftStart <= now) {
+            if (await this.startDraft(row.id, row.league_id, draftStart)) {
+              result.draftsStarted++;
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`[Draft Scheduler] Error processing draft ${row.id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Post the due countdown reminder, if it hasn't been posted yet
+   * @returns number of reminders sent (0 or 1)
+   */
+  private async sendReminder(
+    draftId: number,
+    leagueId: number,
+    event: ScheduledDraftEvent,
+    startTime: Date,
+    reminderMinutes: number[],
+    now: Date
+  ): Promise<number> {
+    const minutes = getDueReminderMinutes(startTime, reminderMinutes, now);
+    if (minutes === null) return 0;
+
+    if (!(await this.claimEvent(draftId, getScheduleEventKey(event, startTime, minutes)))) {
+      return 0;
+    }
+
+    const label = event === 'derby' ? 'The derby' : 'The draft';
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `⏰ ${label} starts in ${formatCountdown(minutes)}`,
+      { event: `${event}_reminder`, draft_id: draftId, minutes_before: minutes }
+    );
+
+    return 1;
+  }
+
+  /**
+   * Start a scheduled draft once; a failed start is reported to league chat and not retried
+   */
+  private async startDraft(draftId: number, leagueId: number, startTime: Date): Promise<boolean> {
+    if (!(await this.claimEvent(draftId, getScheduleEventKey('draft', startTime)))) {
+      return false;
+    }
+
+    try {
+      await this.draftService.startScheduledDraft(draftId);
+      return true;
+    } catch (error) {
+      await this.reportStartFailure(leagueId, draftId, 'draft', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start a scheduled derby once; a failed start is reported to league chat and not retried
+   */
+  private async startDerby(draftId: number, leagueId: number, startTime: Date): Promise<DraftData | null> {
+    if (!(await this.claimEvent(draftId, getScheduleEventKey('derby', startTime)))) {
+      return null;
+    }
+
+    try {
+      return await this.draftService.startScheduledDerby(leagueId, draftId);
+    } catch (error) {
+      await this.reportStartFailure(leagueId, draftId, 'derby', error);
+      return null;
+    }
+  }
+
+  private async reportStartFailure(
+    leagueId: number,
+    draftId: number,
+    event: ScheduledDraftEvent,
+    error: unknown
+  ): Promise<void> {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Draft Scheduler] Could not start ${event} for draft ${draftId}:`, error);
+
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `⚠️ The ${event} could not be started automatically: ${reason}. The commissioner can start it manually.`,
+      { event: `${event}_auto_start_failed`, draft_id: draftId }
+    );
+  }
+
+  /**
+   * Record an event as handled
+   * @returns false when it was already recorded (by an earlier run or another server)
+   */
+  private async claimEvent(draftId: number, eventKey: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO draft_schedule_events (draft_id, event_key)
+       VALUES ($1, $2)
+       ON CONFLICT (draft_id, event_key) DO NOTHING
+       RETURNING id`,
+      [draftId, eventKey]
+    );
+
+    return result.rows.length > 0;
+  }
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string | Date);
+  return isNaN(date.getTime()) ? null : date;
+}
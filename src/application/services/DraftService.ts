@@ -1,14 +1,20 @@
 import { Pool } from 'pg';
-import { IDraftRepository, DraftData, PlayerFilters } from '../../domain/repositories/IDraftRepository';
+import { IDraftRepository, DraftData, PlayerFilters, AutopickSettings } from '../../domain/repositories/IDraftRepository';
+import { IPlayerProjectionRepository } from '../../domain/repositories/IPlayerProjectionRepository';
 import { DraftPick } from '../../domain/models/DraftPick';
+import { DraftPickAudit } from '../../domain/models/DraftPickAudit';
 import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { AuctionLot } from '../../domain/models/AuctionLot';
 import { Player } from '../../domain/models/Player';
 import { IDraftEventsPublisher } from './IDraftEventsPublisher';
 import { DraftQueueService } from './DraftQueueService';
 import { DraftConfigService } from './DraftConfigService';
 import { DraftRuntimeService } from './DraftRuntimeService';
-import { DerbyService } from './DerbyService';
+import { DerbyService, DerbySlotPreferences, DerbyTimeoutResult } from './DerbyService';
+import { AuctionDraftService, AuctionState } from './AuctionDraftService';
+import { DraftExportService, DraftExport, DraftExportFormat } from './DraftExportService';
 import { DraftUtilityService } from './DraftUtilityService';
+import { RosterPopulationService } from './RosterPopulationService';
 
 /**
  * Main DraftService facade - delegates to specialized services
@@ -18,13 +24,17 @@ export class DraftService {
   private readonly configService: DraftConfigService;
   private readonly runtimeService: DraftRuntimeService;
   private readonly derbyService: DerbyService;
+  private readonly auctionService: AuctionDraftService;
+  private readonly exportService: DraftExportService;
   private readonly utilityService: DraftUtilityService;
 
   constructor(
     draftRepository: IDraftRepository,
     pool: Pool,
     eventsPublisher?: IDraftEventsPublisher,
-    queueService?: DraftQueueService
+    queueService?: DraftQueueService,
+    rosterPopulationService?: RosterPopulationService,
+    projectionRepository?: IPlayerProjectionRepository
   ) {
     // Initialize utility service first (no dependencies)
     this.utilityService = new DraftUtilityService(pool);
@@ -36,9 +46,20 @@ export class DraftService {
       pool,
       this.utilityService,
       eventsPublisher,
-      queueService
+      queueService,
+      rosterPopulationService,
+      projectionRepository
     );
     this.derbyService = new DerbyService(pool, this.utilityService);
+    this.auctionService = new AuctionDraftService(
+      draftRepository,
+      pool,
+      this.utilityService,
+      eventsPublisher,
+      queueService,
+      rosterPopulationService
+    );
+    this.exportService = new DraftExportService(draftRepository, this.utilityService);
   }
 
   // ==========================================
@@ -49,18 +70,39 @@ export class DraftService {
     return this.runtimeService.startDraft(draftId, userId);
   }
 
+  async startScheduledDraft(draftId: number): Promise<DraftData> {
+    return this.runtimeService.startScheduledDraft(draftId);
+  }
+
   async pauseDraft(draftId: number, userId: string): Promise<DraftData> {
     return this.runtimeService.pauseDraft(draftId, userId);
   }
 
   async resumeDraft(draftId: number, userId: string): Promise<DraftData> {
-    return this.runtimeService.resumeDraft(draftId, userId);
+    const draft = await this.runtimeService.resumeDraft(draftId, userId);
+    return draft.draftType === 'auction' ? this.auctionService.restartClock(draft) : draft;
   }
 
   async makePick(draftId: number, userId: string, playerId: number): Promise<DraftPick> {
     return this.runtimeService.makePick(draftId, userId, playerId);
   }
 
+  async forcePick(draftId: number, userId: string, rosterId: number, playerId: number): Promise<DraftPick> {
+    return this.runtimeService.forcePick(draftId, userId, rosterId, playerId);
+  }
+
+  async undoPicks(draftId: number, userId: string, count: number): Promise<DraftPick[]> {
+    return this.runtimeService.undoPicks(draftId, userId, count);
+  }
+
+  async editPick(draftId: number, userId: string, pickNumber: number, playerId: number): Promise<DraftPick> {
+    return this.runtimeService.editPick(draftId, userId, pickNumber, playerId);
+  }
+
+  async getPickAudit(leagueId: number, draftId: number, userId: string): Promise<DraftPickAudit[]> {
+    return this.runtimeService.getPickAudit(leagueId, draftId, userId);
+  }
+
   async autoPickForCurrentUser(draftId: number): Promise<DraftPick | null> {
     return this.runtimeService.autoPickForCurrentUser(draftId);
   }
@@ -69,12 +111,20 @@ export class DraftService {
     return this.runtimeService.getAvailablePlayers(draftId, filters);
   }
 
+  async syncRostersFromDraft(leagueId: number, draftId: number, userId: string): Promise<number> {
+    return this.runtimeService.syncRostersFromDraft(leagueId, draftId, userId);
+  }
+
   async getDraftPicks(draftId: number): Promise<DraftPick[]> {
     return this.runtimeService.getDraftPicks(draftId);
   }
 
   async getDraftState(draftId: number): Promise<any> {
-    return this.runtimeService.getDraftState(draftId);
+    const state = await this.runtimeService.getDraftState(draftId);
+    if (state.draft.draftType === 'auction') {
+      state.auction = await this.auctionService.getAuctionState(draftId);
+    }
+    return state;
   }
 
   // ==========================================
@@ -104,6 +154,16 @@ export class DraftService {
       autoStartDerby?: boolean;
       derbyTimerSeconds?: number;
       derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+      allowTradesDuringDraft?: boolean;
+      auctionBudget?: number;
+      bidSeconds?: number;
+      maxKeepers?: number;
+      keeperDeadline?: string;
+      timeBankSeconds?: number;
+      scheduledStart?: string;
+      autoStart?: boolean;
+      reminderMinutes?: number[];
     }
   ): Promise<DraftData> {
     return this.configService.createDraft(leagueId, userId, params);
@@ -129,6 +189,16 @@ export class DraftService {
       autoStartDerby?: boolean;
       derbyTimerSeconds?: number;
       derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+      allowTradesDuringDraft?: boolean;
+      auctionBudget?: number;
+      bidSeconds?: number;
+      maxKeepers?: number;
+      keeperDeadline?: string;
+      timeBankSeconds?: number;
+      scheduledStart?: string;
+      autoStart?: boolean;
+      reminderMinutes?: number[];
     }
   ): Promise<DraftData> {
     return this.configService.updateDraft(leagueId, draftId, userId, params);
@@ -150,10 +220,31 @@ export class DraftService {
     return this.derbyService.startDerby(leagueId, draftId, userId);
   }
 
+  async startScheduledDerby(leagueId: number, draftId: number): Promise<DraftData> {
+    return this.derbyService.startScheduledDerby(leagueId, draftId);
+  }
+
   async pickDerbySlot(leagueId: number, draftId: number, userId: string, slotNumber: number): Promise<DraftData> {
     return this.derbyService.pickDerbySlot(leagueId, draftId, userId, slotNumber);
   }
 
+  async getDerbySlotPreferences(leagueId: number, draftId: number, userId: string): Promise<DerbySlotPreferences> {
+    return this.derbyService.getSlotPreferences(leagueId, draftId, userId);
+  }
+
+  async setDerbySlotPreferences(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    preferences: DerbySlotPreferences
+  ): Promise<DerbySlotPreferences> {
+    return this.derbyService.setSlotPreferences(leagueId, draftId, userId, preferences);
+  }
+
+  async handleExpiredDerbyPick(leagueId: number, draftId: number): Promise<DerbyTimeoutResult | null> {
+    return this.derbyService.handleExpiredPick(leagueId, draftId);
+  }
+
   async pauseDerby(leagueId: number, draftId: number, userId: string): Promise<DraftData> {
     return this.derbyService.pauseDerby(leagueId, draftId, userId);
   }
@@ -162,6 +253,40 @@ export class DraftService {
     return this.derbyService.resumeDerby(leagueId, draftId, userId);
   }
 
+  // ==========================================
+  // Auction Operations - Delegate to AuctionDraftService
+  // ==========================================
+
+  async getAuctionState(draftId: number): Promise<AuctionState> {
+    return this.auctionService.getAuctionState(draftId);
+  }
+
+  async nominateAuctionPlayer(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    playerId: number,
+    openingBid?: number
+  ): Promise<AuctionLot> {
+    return this.auctionService.nominatePlayer(leagueId, draftId, userId, playerId, openingBid);
+  }
+
+  async placeAuctionBid(leagueId: number, draftId: number, userId: string, amount: number): Promise<AuctionLot> {
+    return this.auctionService.placeBid(leagueId, draftId, userId, amount);
+  }
+
+  async processAuctionTimeout(draftId: number): Promise<void> {
+    return this.auctionService.processTimeout(draftId);
+  }
+
+  // ==========================================
+  // Export Operations - Delegate to DraftExportService
+  // ==========================================
+
+  async exportDraft(leagueId: number, draftId: number, userId: string, format: DraftExportFormat): Promise<DraftExport> {
+    return this.exportService.exportDraft(leagueId, draftId, userId, format);
+  }
+
   // ==========================================
   // Utility Methods - Delegate to DraftUtilityService
   // ==========================================
@@ -181,4 +306,12 @@ export class DraftService {
   async toggleAutopick(leagueId: number, draftId: number, rosterId: number, userId: string): Promise<{ enabled: boolean; all_statuses: { [key: number]: boolean } }> {
     return this.runtimeService.toggleAutopick(leagueId, draftId, rosterId, userId);
   }
+
+  async getAutopickSettings(leagueId: number, rosterId: number): Promise<AutopickSettings> {
+    return this.runtimeService.getAutopickSettings(leagueId, rosterId);
+  }
+
+  async setAutopickSettings(leagueId: number, rosterId: number, settings: AutopickSettings): Promise<AutopickSettings> {
+    return this.runtimeService.setAutopickSettings(leagueId, rosterId, settings);
+  }
 }
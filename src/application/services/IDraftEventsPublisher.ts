@@ -1,6 +1,7 @@
 import { DraftData } from '../../domain/repositories/IDraftRepository';
 import { DraftPick } from '../../domain/models/DraftPick';
 import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { AuctionLot } from '../../domain/models/AuctionLot';
 
 export interface IDraftEventsPublisher {
   /**
@@ -20,11 +21,13 @@ export interface IDraftEventsPublisher {
 
   /**
    * Emit event when the current picker changes (timer expired, etc.)
+   * timeBanks maps roster ID to seconds left in per_manager drafts, null otherwise
    */
   emitPickerChanged(
     leagueId: number,
     currentPicker: DraftOrderEntry,
-    draft: DraftData
+    draft: DraftData,
+    timeBanks: Record<number, number> | null
   ): void;
 
   /**
@@ -72,4 +75,49 @@ export interface IDraftEventsPublisher {
     rosterId: number,
     userId: string
   ): void;
+
+  /**
+   * Emit event when a player is nominated in an auction draft
+   */
+  emitAuctionNomination(leagueId: number, draft: DraftData, lot: AuctionLot): void;
+
+  /**
+   * Emit event when a bid is placed in an auction draft (bid countdown restarts)
+   */
+  emitAuctionBid(leagueId: number, draft: DraftData, lot: AuctionLot): void;
+
+  /**
+   * Emit event when an auction lot closes and the player goes to the high bidder
+   */
+  emitAuctionPlayerSold(
+    leagueId: number,
+    pick: DraftPick,
+    draft: DraftData,
+    nextNominator: DraftOrderEntry | null
+  ): void;
+
+  /**
+   * Emit event when the commissioner undoes picks (currentPicker is back on the clock)
+   */
+  emitPicksUndone(
+    leagueId: number,
+    draft: DraftData,
+    undonePicks: DraftPick[],
+    currentPicker: DraftOrderEntry | null
+  ): void;
+
+  /**
+   * Emit event when the commissioner swaps the player of a pick
+   */
+  emitPickEdited(leagueId: number, draft: DraftData, pick: DraftPick, previousPlayerId: number): void;
+
+  /**
+   * Emit event when the commissioner makes a pick on behalf of a roster
+   */
+  emitCommissionerPickMade(
+    leagueId: number,
+    pick: DraftPick,
+    draft: DraftData,
+    nextPicker: DraftOrderEntry | null
+  ): void;
 }
@@ -1,3 +1,5 @@
+import { MatchupDerbyAssignment, MatchupDerbyState } from './MatchupDraftDerbyService';
+
 export interface IMatchupDraftEventsPublisher {
   /**
    * Emit event when matchup draft is started
@@ -28,4 +30,34 @@ export interface IMatchupDraftEventsPublisher {
    * Emit event when matchup draft is completed
    */
   emitMatchupDraftCompleted(leagueId: number, draftId: number): void;
+
+  /**
+   * Emit event when the matchup draft order derby is started
+   */
+  emitMatchupDerbyStarted(leagueId: number, draftId: number, derby: MatchupDerbyState): void;
+
+  /**
+   * Emit event when a derby slot is picked, auto-assigned or skipped
+   */
+  emitMatchupDerbySlotPicked(
+    leagueId: number,
+    draftId: number,
+    assignment: MatchupDerbyAssignment,
+    derby: MatchupDerbyState
+  ): void;
+
+  /**
+   * Emit event when the matchup draft order derby is paused
+   */
+  emitMatchupDerbyPaused(leagueId: number, draftId: number): void;
+
+  /**
+   * Emit event when the matchup draft order derby is resumed
+   */
+  emitMatchupDerbyResumed(leagueId: number, draftId: number, derby: MatchupDerbyState): void;
+
+  /**
+   * Emit event when every roster has a slot and the matchup draft order is set
+   */
+  emitMatchupDerbyCompleted(leagueId: number, draftId: number): void;
 }
@@ -0,0 +1,48 @@
+import { Trade } from '../../domain/models/Trade';
+
+export interface ITradeEventsPublisher {
+  /**
+   * Emit event when a trade is proposed
+   */
+  emitTradeProposed(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when a trade is accepted (it may still be under veto review)
+   */
+  emitTradeAccepted(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when a trade is rejected
+   */
+  emitTradeRejected(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when a trade is countered with a new offer
+   */
+  emitTradeCountered(leagueId: number, trade: Trade, counter: Trade): void;
+
+  /**
+   * Emit event when the proposer cancels a trade
+   */
+  emitTradeCancelled(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when a league member votes to veto a trade
+   */
+  emitTradeVetoVote(leagueId: number, trade: Trade, vetoCount: number, vetoThreshold: number): void;
+
+  /**
+   * Emit event when a trade is vetoed
+   */
+  emitTradeVetoed(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when a trade is processed and players have moved
+   */
+  emitTradeCompleted(leagueId: number, trade: Trade): void;
+
+  /**
+   * Emit event when an accepted trade can no longer be processed
+   */
+  emitTradeFailed(leagueId: number, trade: Trade): void;
+}
@@ -0,0 +1,169 @@
+import { IDraftRepository, DraftData } from '../../domain/repositories/IDraftRepository';
+import { IRosterRepository, Roster } from '../../domain/repositories/IRosterRepository';
+import { ILeagueRepository } from '../../domain/repositories/ILeagueRepository';
+import { Keeper } from '../../domain/models/Keeper';
+import { ChatService } from './ChatService';
+import { normalizeLineupIds } from './LineupService';
+import {
+  ValidationException,
+  NotFoundException,
+  ForbiddenException,
+} from '../../domain/exceptions/AuthExceptions';
+
+/**
+ * Service for keeper declarations in keeper leagues
+ * Managers keep players from their roster for an upcoming draft, each costing the
+ * manager's own pick in a chosen round. The window is open until the draft starts
+ * (or settings.keeper_deadline passes), and at most settings.max_keepers per roster.
+ */
+export class KeeperService {
+  constructor(
+    private readonly draftRepository: IDraftRepository,
+    private readonly rosterRepository: IRosterRepository,
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly chatService: ChatService
+  ) {}
+
+  /**
+   * Get every keeper declared for a draft
+   */
+  async getKeepers(leagueId: number, draftId: number): Promise<Keeper[]> {
+    await this.getLeagueDraft(leagueId, draftId);
+    return this.draftRepository.getKeepers(draftId);
+  }
+
+  /**
+   * Keep a player from the user's roster at the cost of their pick in roundCost
+   */
+  async declareKeeper(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    playerId: number,
+    roundCost: number
+  ): Promise<Keeper> {
+    const draft = await this.getKeeperDraft(leagueId, draftId);
+    const roster = await this.getUserRoster(leagueId, userId);
+    const maxKeepers = draft.settings?.max_keepers ?? 0;
+
+    if (!this.getRosterPlayerIds(roster).includes(playerId)) {
+      throw new ValidationException('You can only keep players on your roster');
+    }
+
+    if (roundCost < 1 || roundCost > draft.rounds) {
+      throw new ValidationException(`This draft only has ${draft.rounds} rounds`);
+    }
+
+    const keepers = await this.draftRepository.getKeepers(draftId);
+    const rosterKeepers = keepers.filter(keeper => keeper.rosterId === roster.id);
+
+    if (rosterKeepers.some(keeper => keeper.playerId === playerId)) {
+      throw new ValidationException('You are already keeping this player');
+    }
+
+    if (rosterKeepers.length >= maxKeepers) {
+      throw new ValidationException(`You can only keep ${maxKeepers} players`);
+    }
+
+    if (rosterKeepers.some(keeper => keeper.roundCost === roundCost)) {
+      throw new ValidationException(`You already have a keeper in round ${roundCost}`);
+    }
+
+    // The keeper uses the roster's own pick, so it can't have been traded away
+    const assets = await this.draftRepository.getPickAssets(draftId);
+    const asset = assets.find(a => a.round === roundCost && a.originalRosterId === roster.id);
+    if (asset && asset.currentRosterId !== roster.id) {
+      throw new ValidationException(`You no longer own your round ${roundCost} pick`);
+    }
+
+    const keeper = await this.draftRepository.createKeeper({
+      draftId,
+      rosterId: roster.id,
+      playerId,
+      roundCost,
+    });
+
+    const username = await this.rosterRepository.getUsernameById(userId);
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `${username || 'Team'} kept ${keeper.playerName || `Player #${playerId}`} for a round ${roundCost} pick`,
+      { event: 'keeper_declared', draft_id: draftId, roster_id: roster.id, player_id: playerId }
+    );
+
+    return keeper;
+  }
+
+  /**
+   * Withdraw one of the user's keepers while the window is open
+   */
+  async removeKeeper(leagueId: number, draftId: number, userId: string, keeperId: number): Promise<void> {
+    await this.getKeeperDraft(leagueId, draftId);
+    const roster = await this.getUserRoster(leagueId, userId);
+
+    const keepers = await this.draftRepository.getKeepers(draftId);
+    const keeper = keepers.find(k => k.id === keeperId);
+    if (!keeper) {
+      throw new NotFoundException('Keeper not found');
+    }
+
+    if (keeper.rosterId !== roster.id) {
+      throw new ForbiddenException('You can only remove your own keepers');
+    }
+
+    await this.draftRepository.deleteKeeper(draftId, keeperId);
+  }
+
+  /**
+   * Get a draft in a keeper league whose keeper window is open
+   */
+  private async getKeeperDraft(leagueId: number, draftId: number): Promise<DraftData> {
+    const draft = await this.getLeagueDraft(leagueId, draftId);
+
+    const league = await this.leagueRepository.findById(leagueId);
+    if (league?.settings?.league_type !== 'keeper') {
+      throw new ValidationException('Keepers are only available in keeper leagues');
+    }
+
+    if (draft.draftType === 'auction') {
+      throw new ValidationException('Keepers cost a draft round, so they are not available in auction drafts');
+    }
+
+    if (!draft.settings?.max_keepers) {
+      throw new ValidationException('Keepers are not enabled for this draft');
+    }
+
+    if (draft.status !== 'not_started') {
+      throw new ValidationException('Keepers must be declared before the draft starts');
+    }
+
+    const deadline = draft.settings?.keeper_deadline;
+    if (deadline && new Date(deadline).getTime() <= Date.now()) {
+      throw new ValidationException('The keeper deadline has passed');
+    }
+
+    return draft;
+  }
+
+  private async getLeagueDraft(leagueId: number, draftId: number): Promise<DraftData> {
+    const draft = await this.draftRepository.findById(draftId);
+    if (!draft || draft.leagueId !== leagueId) {
+      throw new NotFoundException('Draft not found');
+    }
+    return draft;
+  }
+
+  private async getUserRoster(leagueId: number, userId: string): Promise<Roster> {
+    const roster = await this.rosterRepository.findByLeagueAndUser(leagueId, userId);
+    if (!roster) {
+      throw new ForbiddenException('You are not part of this league');
+    }
+    return roster;
+  }
+
+  private getRosterPlayerIds(roster: Roster): number[] {
+    return [
+      ...normalizeLineupIds(roster.starters),
+      ...normalizeLineupIds(roster.bench),
+    ].filter((id): id is number => id !== null);
+  }
+}
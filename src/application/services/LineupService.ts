@@ -0,0 +1,388 @@
+import { Pool } from 'pg';
+import { Player } from '../../domain/models/Player';
+import { IRosterRepository, Roster } from '../../domain/repositories/IRosterRepository';
+import { ILeagueRepository } from '../../domain/repositories/ILeagueRepository';
+import { IPlayerRepository } from '../../domain/repositories/IPlayerRepository';
+import { SleeperScheduleService } from '../../infrastructure/external/SleeperScheduleService';
+import { CurrentWeekService } from './CurrentWeekService';
+import {
+  ValidationException,
+  NotFoundException,
+  ForbiddenException,
+} from '../../domain/exceptions/AuthExceptions';
+
+/**
+ * A single starting lineup slot
+ */
+export interface LineupSlot {
+  position: string;
+  eligiblePositions: string[];
+}
+
+/**
+ * Lineup submitted by a manager; starters are aligned to the league's starter slots
+ */
+export interface LineupInput {
+  starters: Array<number | null>;
+  bench: number[];
+}
+
+/**
+ * Lineup with slot and player details for API responses
+ */
+export interface LineupView {
+  roster_id: number;
+  slots: Array<{
+    position: string;
+    eligible_positions: string[];
+    player_id: number | null;
+  }>;
+  bench: number[];
+  players: Array<{
+    id: number;
+    full_name: string;
+    position: string | null;
+    fantasy_positions: string[];
+    team: string | null;
+    locked: boolean;
+  }>;
+}
+
+/**
+ * Roster positions that don't occupy a starting slot
+ */
+const NON_STARTER_POSITIONS = ['BN', 'BENCH', 'IR', 'TAXI'];
+
+/**
+ * Positions a flex slot accepts when the league doesn't list them explicitly
+ */
+const DEFAULT_FLEX_ELIGIBILITY: Record<string, string[]> = {
+  FLEX: ['RB', 'WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  SUPERFLEX: ['QB', 'RB', 'WR', 'TE'],
+  REC_FLEX: ['WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  IDP_FLEX: ['DL', 'LB', 'DB'],
+};
+
+/**
+ * Read league roster_positions as a list of entries.
+ * Accepts the array format validated by rosterPositionSchema as well as a
+ * plain `{ position: count }` map.
+ */
+function getRosterPositionEntries(
+  rosterPositions: unknown
+): Array<{ position: string; count: number; flex_eligible?: string[] }> {
+  if (Array.isArray(rosterPositions)) {
+    return rosterPositions;
+  }
+
+  if (rosterPositions && typeof rosterPositions === 'object') {
+    return Object.entries(rosterPositions as Record<string, number>).map(
+      ([position, count]) => ({ position, count })
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Expand league roster_positions into an ordered list of starter slots
+ */
+export function buildStarterSlots(rosterPositions: unknown): LineupSlot[] {
+  const slots: LineupSlot[] = [];
+  for (const entry of getRosterPositionEntries(rosterPositions)) {
+    const position = entry.position.toUpperCase();
+    if (NON_STARTER_POSITIONS.includes(position)) {
+      continue;
+    }
+
+    const eligiblePositions = entry.flex_eligible?.length
+      ? entry.flex_eligible.map(p => p.toUpperCase())
+      : DEFAULT_FLEX_ELIGIBILITY[position] || [position];
+
+    for (let i = 0; i < entry.count; i++) {
+      slots.push({ position, eligiblePositions });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Coerce JSONB lineup entries to players.id numbers, keeping empty slots as null
+ */
+export function normalizeLineupIds(values: unknown): Array<number | null> {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  return values.map(value => {
+    const id = parseInt(value, 10);
+    return isNaN(id) ? null : id;
+  });
+}
+
+/**
+ * Maximum number of players on a roster (starters plus bench)
+ * IR and taxi spots don't count; 0 means the league has no limit configured.
+ */
+export function getRosterCapacity(rosterPositions: unknown): number {
+  return getRosterPositionEntries(rosterPositions)
+    .filter(entry => !['IR', 'TAXI'].includes(entry.position.toUpperCase()))
+    .reduce((total, entry) => total + entry.count, 0);
+}
+
+/**
+ * Add and remove players from a lineup
+ * Dropped starters leave their slot empty; added players go to the bench.
+ */
+export function applyRosterMoves(
+  starters: Array<number | null>,
+  bench: number[],
+  add: number[],
+  drop: number[]
+): { starters: Array<number | null>; bench: number[] } {
+  return {
+    starters: starters.map(id => (id !== null && drop.includes(id) ? null : id)),
+    bench: [...bench.filter(id => !drop.includes(id)), ...add],
+  };
+}
+
+/**
+ * Check whether a player can fill a starter slot
+ */
+export function isEligibleForSlot(player: Player, slot: LineupSlot): boolean {
+  const positions = player.fantasyPositions.length > 0
+    ? player.fantasyPositions
+    : player.position ? [player.position] : [];
+
+  return positions.some(p => slot.eligiblePositions.includes(p.toUpperCase()));
+}
+
+/**
+ * Where a player sits in a lineup: their starter slot index, or 'bench'
+ */
+function getSlotAssignment(starters: unknown, playerId: number): string {
+  const index = normalizeLineupIds(starters).indexOf(playerId);
+  return index === -1 ? 'bench' : `slot:${index}`;
+}
+
+/**
+ * All players.id values currently on a roster (starters and bench)
+ */
+function getRosterPlayerIds(roster: Roster): number[] {
+  const ids = [...normalizeLineupIds(roster.starters), ...normalizeLineupIds(roster.bench)];
+  return [...new Set(ids.filter((id): id is number => id !== null))];
+}
+
+/**
+ * Why a lineup can't replace a roster's current one, or null when it can
+ * It must contain exactly the players on the roster, with each starter eligible for its slot,
+ * and players whose game has started must stay where they are.
+ *
+ * @param players - players in the submitted lineup
+ * @param lockedTeams - teams whose game has started
+ */
+export function getLineupFailure(
+  roster: Roster,
+  lineup: LineupInput,
+  slots: LineupSlot[],
+  players: Player[],
+  lockedTeams: Map<string, string>
+): string | null {
+  if (lineup.starters.length !== slots.length) {
+    return `Lineup must have exactly ${slots.length} starter slots`;
+  }
+
+  const submittedIds = [
+    ...lineup.starters.filter((id): id is number => id !== null),
+    ...lineup.bench,
+  ];
+  if (new Set(submittedIds).size !== submittedIds.length) {
+    return 'A player can only appear once in a lineup';
+  }
+
+  const rosterPlayerIds = getRosterPlayerIds(roster);
+  const notOnRoster = submittedIds.filter(id => !rosterPlayerIds.includes(id));
+  if (notOnRoster.length > 0) {
+    return `Players not on this roster: ${notOnRoster.join(', ')}`;
+  }
+
+  const missing = rosterPlayerIds.filter(id => !submittedIds.includes(id));
+  if (missing.length > 0) {
+    return `Lineup is missing rostered players: ${missing.join(', ')}`;
+  }
+
+  const playersById = new Map(players.map(p => [p.id, p]));
+  for (const [index, playerId] of lineup.starters.entries()) {
+    if (playerId === null) {
+      continue;
+    }
+    const player = playersById.get(playerId);
+    const slot = slots[index];
+    if (!player || !isEligibleForSlot(player, slot)) {
+      return `${player?.fullName ?? `Player ${playerId}`} is not eligible for the ${slot.position} slot`;
+    }
+  }
+
+  for (const player of players) {
+    if (!player.team || !lockedTeams.has(player.team)) {
+      continue;
+    }
+    if (getSlotAssignment(roster.starters, player.id) !== getSlotAssignment(lineup.starters, player.id)) {
+      return `${player.fullName} is locked because their game has already started`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Service for managing roster lineups
+ * Validates starters against league roster positions and locks players whose games have started
+ */
+export class LineupService {
+  constructor(
+    private readonly rosterRepository: IRosterRepository,
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly playerRepository: IPlayerRepository,
+    private readonly scheduleService: SleeperScheduleService,
+    private readonly currentWeekService: CurrentWeekService,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Get a roster's lineup
+   */
+  async getLineup(leagueId: number, rosterId: number, userId: string): Promise<LineupView> {
+    const isMember = await this.leagueRepository.isUserMember(leagueId, userId);
+    if (!isMember) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    const roster = await this.rosterRepository.findByLeagueAndRosterId(leagueId, rosterId);
+    if (!roster) {
+      throw new NotFoundException('Roster not found');
+    }
+
+    const league = await this.getLeagueContext(leagueId);
+    return this.buildLineupView(roster, buildStarterSlots(league.roster_positions), league);
+  }
+
+  /**
+   * Replace a roster's starters and bench
+   * Only the roster owner may set a lineup, and it must contain exactly the players on the roster
+   */
+  async updateLineup(
+    leagueId: number,
+    rosterId: number,
+    userId: string,
+    lineup: LineupInput
+  ): Promise<LineupView> {
+    const roster = await this.rosterRepository.findByLeagueAndRosterId(leagueId, rosterId);
+    if (!roster) {
+      throw new NotFoundException('Roster not found');
+    }
+
+    if (roster.user_id !== userId) {
+      throw new ForbiddenException('You can only set the lineup for your own roster');
+    }
+
+    const league = await this.getLeagueContext(leagueId);
+    const slots = buildStarterSlots(league.roster_positions);
+
+    const submittedIds = [
+      ...lineup.starters.filter((id): id is number => id !== null),
+      ...lineup.bench,
+    ];
+    const [players, lockedTeams] = await Promise.all([
+      this.playerRepository.findByIds([...new Set(submittedIds)]),
+      this.getLockedTeams(league),
+    ]);
+
+    // Checked against the locked roster row, so a waiver run, add or trade landing meanwhile isn't overwritten
+    const { roster: updated, failure } = await this.rosterRepository.updateLineup(
+      leagueId,
+      rosterId,
+      lineup,
+      locked => getLineupFailure(locked, lineup, slots, players, lockedTeams)
+    );
+
+    if (failure) {
+      throw new ValidationException(failure);
+    }
+
+    return this.buildLineupView(updated, slots, league, players, lockedTeams);
+  }
+
+  /**
+   * Build the lineup response, padding starters to the league's slot count
+   */
+  private async buildLineupView(
+    roster: Roster,
+    slots: LineupSlot[],
+    league: { season: string | null; season_type: string | null },
+    players?: Player[],
+    lockedTeams?: Map<string, string>
+  ): Promise<LineupView> {
+    const starters = normalizeLineupIds(roster.starters);
+    const bench = normalizeLineupIds(roster.bench).filter((id): id is number => id !== null);
+
+    const rosterPlayers = players ?? await this.playerRepository.findByIds(getRosterPlayerIds(roster));
+    const locked = lockedTeams ?? await this.getLockedTeams(league);
+
+    return {
+      roster_id: roster.roster_id,
+      slots: slots.map((slot, index) => ({
+        position: slot.position,
+        eligible_positions: slot.eligiblePositions,
+        player_id: starters[index] ?? null,
+      })),
+      bench,
+      players: rosterPlayers.map(player => ({
+        id: player.id,
+        full_name: player.fullName,
+        position: player.position,
+        fantasy_positions: player.fantasyPositions,
+        team: player.team,
+        locked: player.team !== null && locked.has(player.team),
+      })),
+    };
+  }
+
+  /**
+   * Teams whose game for the current week is in progress or complete
+   */
+  private async getLockedTeams(
+    league: { season: string | null; season_type: string | null }
+  ): Promise<Map<string, string>> {
+    if (!league.season) {
+      return new Map();
+    }
+
+    const seasonType = league.season_type || 'regular';
+    const week = await this.currentWeekService.getCurrentNFLWeek(league.season, seasonType);
+    return this.scheduleService.getTeamsWithGamesStarted(league.season, week, seasonType);
+  }
+
+  /**
+   * Get season and roster configuration for a league
+   */
+  private async getLeagueContext(leagueId: number): Promise<{
+    season: string | null;
+    season_type: string | null;
+    roster_positions: unknown;
+  }> {
+    const result = await this.pool.query(
+      'SELECT season, season_type, roster_positions FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    return result.rows[0];
+  }
+}
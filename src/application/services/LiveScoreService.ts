@@ -2,6 +2,7 @@ import { Pool } from 'pg';
 import { SleeperScheduleService, GameSchedule } from '../../infrastructure/external/SleeperScheduleService';
 import { CurrentWeekService } from './CurrentWeekService';
 import { StatsSyncService } from './StatsSyncService';
+import { MatchupService } from './MatchupService';
 import { logInfo, logError, logWarn } from '../../infrastructure/logger/Logger';
 import { getSocketService } from '../../app/runtime/socket/socket.service';
 import { SocketEvents } from '../../app/runtime/socket/socketEvents';
@@ -36,7 +37,8 @@ export class LiveScoreService {
     private pool: Pool,
     private scheduleService: SleeperScheduleService,
     private currentWeekService: CurrentWeekService,
-    private statsSyncService: StatsSyncService
+    private statsSyncService: StatsSyncService,
+    private matchupService: MatchupService
   ) {}
 
   /**
@@ -132,7 +134,11 @@ export class LiveScoreService {
           await this.updateMatchupScores(league);
 
           // Get updated matchups and broadcast
-          const matchups = await this.getMatchupScores(league.league_id, league.current_week);
+          const matchups = await this.getMatchupScores(
+            league.league_id,
+            league.season,
+            league.current_week
+          );
           this.broadcastScoreUpdate(league.league_id, league.current_week, matchups);
 
           logInfo(
@@ -160,17 +166,27 @@ export class LiveScoreService {
 
   /**
    * Update matchup scores for a league
+   * Recomputes starter points from the freshly synced weekly stats and persists them
    */
   private async updateMatchupScores(league: ActiveLeague): Promise<void> {
-    // This would integrate with your existing matchup/scoring logic
-    // For now, we'll just log - you'll need to implement based on your schema
-    logInfo(`[LiveScore] Updating matchup scores for league ${league.league_id}`);
+    const matchups = await this.matchupService.updateWeekScores(
+      league.league_id,
+      league.current_week,
+      league.season_type
+    );
+    logInfo(
+      `[LiveScore] Updated ${matchups.length} matchup scores for league ${league.league_id}`
+    );
   }
 
   /**
    * Get matchup scores for a league and week
    */
-  private async getMatchupScores(leagueId: number, week: number): Promise<MatchupScore[]> {
+  private async getMatchupScores(
+    leagueId: number,
+    season: string,
+    week: number
+  ): Promise<MatchupScore[]> {
     try {
       const query = `
         SELECT
@@ -182,9 +198,9 @@ export class LiveScoreService {
           COALESCE(m.roster1_score, 0) as roster1_score,
           COALESCE(m.roster2_score, 0) as roster2_score
         FROM matchups m
-        WHERE m.league_id = $1 AND m.week = $2
+        WHERE m.league_id = $1 AND m.season = $2 AND m.week = $3
       `;
-      const result = await this.pool.query(query, [leagueId, week]);
+      const result = await this.pool.query(query, [leagueId, season, week]);
       return result.rows;
     } catch (error) {
       logError(error as Error, { context: 'LiveScoreService.getMatchupScores' });
@@ -1,6 +1,12 @@
 import { Pool } from 'pg';
-import { MatchupDraftUtilityService } from './MatchupDraftUtilityService';
+import {
+  MatchupDraftUtilityService,
+  getMatchupDraftWeekRange,
+  getMaxGamesPerOpponent,
+  getRegularSeasonWeekRange,
+} from './MatchupDraftUtilityService';
 import { ValidationException, NotFoundException } from '../../domain/exceptions/AuthExceptions';
+import { getMaxMatchupDraftRounds, isScheduleFeasible } from './MatchupScheduleFeasibility';
 
 interface DraftOrderEntry {
   id: number;
@@ -49,12 +55,11 @@ export class MatchupDraftConfigService {
 
     // Create new matchup draft
     const league = await this.utilityService.getLeagueSettings(leagueId);
-    const startWeek = league.settings?.start_week || 1;
-    const playoffWeekStart = league.settings?.playoff_week_start || 15;
-    const regularSeasonWeeks = playoffWeekStart - startWeek;
+    const { startWeek, endWeek } = getRegularSeasonWeekRange(league.settings);
+    const regularSeasonWeeks = endWeek - startWeek + 1;
 
-    // Number of rounds = number of regular season weeks
-    const rounds = regularSeasonWeeks;
+    // Each pick fills a week for both rosters, so rosters pick about half their regular season games
+    const rounds = getMaxMatchupDraftRounds(league.total_rosters, regularSeasonWeeks);
 
     const result = await this.pool.query(
       `INSERT INTO matchup_drafts
@@ -107,6 +112,132 @@ export class MatchupDraftConfigService {
     };
   }
 
+  /**
+   * Update matchup draft settings (commissioner only, before the draft starts)
+   * Week range, opponent limit and derby options live in the settings JSON; pass maxGamesPerOpponent null
+   * to lift the limit.
+   */
+  async updateMatchupDraftSettings(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    params: {
+      draftType?: string;
+      thirdRoundReversal?: boolean;
+      pickTimeSeconds?: number;
+      rounds?: number;
+      startWeek?: number;
+      endWeek?: number;
+      maxGamesPerOpponent?: number | null;
+      draftOrder?: string;
+      derbyTimerSeconds?: number;
+      derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+    }
+  ): Promise<any> {
+    await this.utilityService.verifyCommissioner(leagueId, userId);
+
+    const checkResult = await this.pool.query(
+      'SELECT * FROM matchup_drafts WHERE id = $1 AND league_id = $2',
+      [draftId, leagueId]
+    );
+
+    if (checkResult.rows.length === 0) {
+      throw new NotFoundException('Matchup draft not found');
+    }
+
+    const existing = checkResult.rows[0];
+    if (existing.status !== 'not_started') {
+      throw new ValidationException('Matchup draft settings can only be changed before the draft starts');
+    }
+
+    const derbyRunning = ['in_progress', 'paused'].includes(existing.settings?.derby_status);
+    if (derbyRunning && params.draftOrder !== undefined && params.draftOrder !== existing.settings.draft_order) {
+      throw new ValidationException('The draft order type cannot be changed while the derby is running');
+    }
+
+    const league = await this.utilityService.getLeagueSettings(leagueId);
+    const regularSeason = getRegularSeasonWeekRange(league.settings);
+    const currentWeeks = getMatchupDraftWeekRange(existing.settings, league.settings);
+    const startWeek = params.startWeek ?? currentWeeks.startWeek;
+    const endWeek = params.endWeek ?? currentWeeks.endWeek;
+
+    if (startWeek < regularSeason.startWeek || endWeek > regularSeason.endWeek) {
+      throw new ValidationException(
+        `Matchup draft weeks must be within the regular season (weeks ${regularSeason.startWeek}-${regularSeason.endWeek})`
+      );
+    }
+    if (startWeek > endWeek) {
+      throw new ValidationException('Start week cannot be after end week');
+    }
+
+    // Rounds have to fit the week range, and the opponent limit if there is one
+    const totalRosters = await this.utilityService.getTotalRostersForLeague(leagueId);
+    const rounds = params.rounds ?? existing.rounds;
+    const maxRounds = getMaxMatchupDraftRounds(totalRosters, endWeek - startWeek + 1);
+    if (rounds < 1 || rounds > maxRounds) {
+      throw new ValidationException(
+        `Rounds must be between 1 and ${maxRounds} for weeks ${startWeek}-${endWeek}`
+      );
+    }
+
+    const maxGamesPerOpponent = params.maxGamesPerOpponent !== undefined
+      ? params.maxGamesPerOpponent
+      : getMaxGamesPerOpponent(existing.settings);
+    // Each roster plays about 2 * rounds games, as picker and as opponent, so check the empty schedule
+    const rosterIds = Array.from({ length: totalRosters }, (_, index) => index + 1);
+    const fitsOpponentLimit = maxGamesPerOpponent === null || isScheduleFeasible({
+      rosterIds,
+      weeks: Array.from({ length: endWeek - startWeek + 1 }, (_, index) => startWeek + index),
+      games: [],
+      remainingPicks: new Map(rosterIds.map(rosterId => [rosterId, rounds])),
+      maxGamesPerOpponent,
+    });
+    if (!fitsOpponentLimit) {
+      throw new ValidationException(
+        `${rounds} rounds give each team about ${rounds * 2} games, more than facing each opponent at most ${maxGamesPerOpponent} time(s) allows`
+      );
+    }
+
+    const settings: any = {
+      ...(existing.settings || {}),
+      start_week: startWeek,
+      end_week: endWeek,
+      max_games_per_opponent: maxGamesPerOpponent,
+    };
+
+    // Derby fields; a new timer applies from the next derby turn
+    if (params.draftOrder !== undefined) settings.draft_order = params.draftOrder;
+    if (params.derbyTimerSeconds !== undefined) settings.derby_timer_seconds = params.derbyTimerSeconds;
+    if (params.derbyOnTimeout !== undefined) settings.derby_on_timeout = params.derbyOnTimeout;
+    if (params.derbyAutoAssignRemaining !== undefined) {
+      settings.auto_assign_remaining = params.derbyAutoAssignRemaining;
+    }
+
+    const result = await this.pool.query(
+      `UPDATE matchup_drafts SET
+        draft_type = COALESCE($1, draft_type),
+        third_round_reversal = COALESCE($2, third_round_reversal),
+        pick_time_seconds = COALESCE($3, pick_time_seconds),
+        rounds = $4,
+        settings = $5,
+        updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6 AND league_id = $7
+       RETURNING *`,
+      [
+        params.draftType,
+        params.thirdRoundReversal,
+        params.pickTimeSeconds,
+        rounds,
+        JSON.stringify(settings),
+        draftId,
+        leagueId,
+      ]
+    );
+
+    return this.utilityService.mapMatchupDraftRow(result.rows[0]);
+  }
+
   /**
    * Get matchup draft order
    */
@@ -123,7 +254,7 @@ export class MatchupDraftConfigService {
        JOIN rosters r ON r.id = mdo.roster_id
        LEFT JOIN users u ON u.id = r.user_id
        WHERE mdo.draft_id = $1
-       ORDER BY mdo.draft_position ASC`,
+       ORDER BY mdo.draft_position ASC NULLS LAST, mdo.derby_order, mdo.id`,
       [draftId]
     );
 
@@ -144,6 +275,25 @@ export class MatchupDraftConfigService {
     // Verify commissioner
     await this.utilityService.verifyCommissioner(leagueId, userId);
 
+    const draftResult = await this.pool.query(
+      'SELECT status, settings FROM matchup_drafts WHERE id = $1 AND league_id = $2',
+      [draftId, leagueId]
+    );
+
+    if (draftResult.rows.length === 0) {
+      throw new NotFoundException('Matchup draft not found');
+    }
+
+    const settings = draftResult.rows[0].settings || {};
+    const isDerby = settings.draft_order === 'derby';
+
+    if (draftResult.rows[0].status !== 'not_started') {
+      throw new ValidationException('Draft order can only be changed before the draft starts');
+    }
+    if (['in_progress', 'paused'].includes(settings.derby_status)) {
+      throw new ValidationException('Draft order cannot be randomized while the derby is running');
+    }
+
     // Get all rosters
     const rostersResult = await this.pool.query(
       'SELECT id FROM rosters WHERE league_id = $1 ORDER BY roster_id ASC',
@@ -169,10 +319,20 @@ export class MatchupDraftConfigService {
       }
 
       // Insert randomized draft order sequentially to maintain transaction integrity
+      // For derbies the shuffle is the derby order and managers pick their own draft positions
       for (let i = 0; i < rosters.length; i++) {
         await client.query(
-          'INSERT INTO matchup_draft_order (draft_id, roster_id, draft_position) VALUES ($1, $2, $3)',
-          [draftId, rosters[i].id, i + 1]
+          'INSERT INTO matchup_draft_order (draft_id, roster_id, draft_position, derby_order) VALUES ($1, $2, $3, $4)',
+          [draftId, rosters[i].id, isDerby ? null : i + 1, i + 1]
+        );
+      }
+
+      // A fresh derby order means the derby can be run again
+      if (isDerby) {
+        delete settings.derby_status;
+        await client.query(
+          'UPDATE matchup_drafts SET settings = $1, pick_deadline = NULL WHERE id = $2',
+          [JSON.stringify(settings), draftId]
         );
       }
 
@@ -197,7 +357,7 @@ export class MatchupDraftConfigService {
        JOIN rosters r ON r.id = mdo.roster_id
        LEFT JOIN users u ON u.id = r.user_id
        WHERE mdo.draft_id = $1
-       ORDER BY mdo.draft_position ASC`,
+       ORDER BY mdo.draft_position ASC NULLS LAST, mdo.derby_order, mdo.id`,
       [draftId]
     );
 
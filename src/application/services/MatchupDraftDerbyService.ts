@@ -0,0 +1,478 @@
+import { Pool, PoolClient } from 'pg';
+import { MatchupDraftUtilityService } from './MatchupDraftUtilityService';
+import { IMatchupDraftEventsPublisher } from './IMatchupDraftEventsPublisher';
+import { ValidationException, NotFoundException } from '../../domain/exceptions/AuthExceptions';
+import { withTransaction } from '../../db/transaction';
+import {
+  DerbySlotAssignment,
+  assignAutoDerbySlots,
+  getDerbyTimeoutPolicy,
+  getOpenDerbySlots,
+} from './DerbyService';
+
+/**
+ * Manager on the clock in a matchup draft derby; rosterId is the league roster number
+ */
+export interface MatchupDerbyPicker {
+  rosterId: number;
+  userId: string | null;
+  username: string | null;
+}
+
+export interface MatchupDerbyState {
+  status: 'in_progress' | 'paused' | 'completed';
+  currentPicker: MatchupDerbyPicker | null;
+  pickDeadline: string | null;
+}
+
+/**
+ * A slot taken in the derby, or a turn skipped on timeout (slotNumber null)
+ */
+export interface MatchupDerbyAssignment {
+  rosterId: number;
+  slotNumber: number | null;
+  action: 'picked' | 'auto_assigned' | 'skipped';
+  message: string;
+}
+
+/**
+ * A row of the matchup derby order; roster_id is the league roster number
+ */
+interface MatchupDerbyOrderRow {
+  id: number;
+  roster_id: number;
+  draft_position: number | null;
+  derby_skips: number;
+  user_id: string | null;
+  username: string | null;
+}
+
+/**
+ * Who goes on the clock after a derby turn, in `order` (derby order, with the slot each roster holds)
+ * Slot preferences aren't kept for matchup drafts, so the only slot handed out is the last one,
+ * when auto_assign_remaining (the default) is on.
+ * @returns the last-slot assignment if any, and the index of the manager now on the clock
+ *          (null once every manager has a slot)
+ */
+export function getMatchupDerbyAdvance(
+  order: Array<{ rosterId: number; slotNumber: number | null }>,
+  settings: any
+): { assignments: DerbySlotAssignment[]; currentPickerIndex: number | null } {
+  return assignAutoDerbySlots(order, new Map(), settings?.auto_assign_remaining !== false);
+}
+
+/**
+ * What a derby timeout does to the manager on the clock
+ * With the skip policy a manager is moved to the end of the derby order once, and only while
+ * someone else can pick in the meantime; otherwise they get a random open slot.
+ */
+export function getMatchupDerbyTimeoutAction(
+  settings: any,
+  derbySkips: number,
+  unassignedCount: number
+): 'skip' | 'randomize' {
+  return getDerbyTimeoutPolicy(settings) === 'skip' && derbySkips === 0 && unassignedCount > 1
+    ? 'skip'
+    : 'randomize';
+}
+
+/**
+ * Derby progress for events: status, the manager on the clock and their deadline
+ * @param pickers - managers in derby order
+ */
+export function getMatchupDerbyState(settings: any, pickers: MatchupDerbyPicker[]): MatchupDerbyState {
+  const current = settings.derby_status === 'completed' ? undefined : pickers[settings.current_picker_index || 0];
+
+  return {
+    status: settings.derby_status,
+    currentPicker: current || null,
+    pickDeadline: settings.pick_deadline || null,
+  };
+}
+
+function toDerbyPicker(row: MatchupDerbyOrderRow): MatchupDerbyPicker {
+  return { rosterId: row.roster_id, userId: row.user_id, username: row.username };
+}
+
+/**
+ * Service responsible for choosing matchup draft order by derby (settings.draft_order = 'derby')
+ * Follows the player draft derby: managers take turns picking a draft slot in derby order, with
+ * derby_timer_seconds per turn and derby_on_timeout ('randomize' or 'skip') when the timer runs out.
+ * Slot preferences aren't kept for matchup drafts, so a timeout never assigns a preferred slot.
+ */
+export class MatchupDraftDerbyService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly utilityService: MatchupDraftUtilityService,
+    private readonly eventsPublisher?: IMatchupDraftEventsPublisher
+  ) {}
+
+  /**
+   * Start the derby (commissioner only); every slot starts open
+   */
+  async startDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    await this.utilityService.verifyCommissioner(leagueId, userId);
+
+    const { assignments, derby } = await withTransaction(async (client) => {
+      const settings = await this.getDerbySettings(client, leagueId, draftId);
+
+      if (settings.derby_status === 'in_progress' || settings.derby_status === 'paused') {
+        throw new ValidationException('The derby has already started');
+      }
+      if (settings.derby_status === 'completed') {
+        throw new ValidationException('The derby has already finished; randomize the derby order to run it again');
+      }
+
+      const orderCheck = await client.query(
+        'SELECT COUNT(*) as count FROM matchup_draft_order WHERE draft_id = $1',
+        [draftId]
+      );
+
+      if (parseInt(orderCheck.rows[0].count) === 0) {
+        throw new ValidationException('Derby order must be randomized before starting');
+      }
+
+      await client.query(
+        'UPDATE matchup_draft_order SET draft_position = NULL, derby_skips = 0 WHERE draft_id = $1',
+        [draftId]
+      );
+
+      settings.derby_status = 'in_progress';
+      settings.derby_start_time = new Date().toISOString();
+      settings.derby_timer_seconds = settings.derby_timer_seconds || 300;
+
+      return this.advanceDerby(client, draftId, settings);
+    }, this.pool);
+
+    const username = await this.utilityService.getUsernameById(userId);
+    await this.utilityService.sendSystemMessage(
+      leagueId,
+      `${username} started the matchup draft derby! Managers can now select their draft positions.`
+    );
+
+    this.eventsPublisher?.emitMatchupDerbyStarted(leagueId, draftId, derby);
+    await this.announceAssignments(leagueId, draftId, assignments, derby);
+
+    return this.getMatchupDraft(draftId);
+  }
+
+  /**
+   * Pick a draft slot (current derby picker only)
+   */
+  async pickDerbySlot(leagueId: number, draftId: number, userId: string, slotNumber: number): Promise<any> {
+    const { assignments, derby } = await withTransaction(async (client) => {
+      const settings = await this.getDerbySettings(client, leagueId, draftId);
+
+      if (settings.derby_status !== 'in_progress') {
+        throw new ValidationException('Derby is not in progress');
+      }
+
+      const order = await this.getDerbyOrder(client, draftId);
+      const currentPicker = order[settings.current_picker_index || 0];
+
+      if (!currentPicker || currentPicker.user_id !== userId) {
+        throw new ValidationException("It's not your turn to pick");
+      }
+
+      if (slotNumber < 1 || slotNumber > order.length) {
+        throw new ValidationException(`Slot number must be between 1 and ${order.length}`);
+      }
+
+      if (order.some(row => row.draft_position === slotNumber)) {
+        throw new ValidationException('This slot is already taken');
+      }
+
+      await client.query(
+        'UPDATE matchup_draft_order SET draft_position = $1 WHERE id = $2',
+        [slotNumber, currentPicker.id]
+      );
+
+      const picked: MatchupDerbyAssignment = {
+        rosterId: currentPicker.roster_id,
+        slotNumber,
+        action: 'picked',
+        message: `${this.getDisplayName(currentPicker)} selected slot ${slotNumber}`,
+      };
+
+      const advanced = await this.advanceDerby(client, draftId, settings);
+      return { assignments: [picked, ...advanced.assignments], derby: advanced.derby };
+    }, this.pool);
+
+    await this.announceAssignments(leagueId, draftId, assignments, derby);
+
+    return this.getMatchupDraft(draftId);
+  }
+
+  /**
+   * Pause the derby (commissioner only)
+   */
+  async pauseDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    await this.utilityService.verifyCommissioner(leagueId, userId);
+
+    const settings = await this.getDerbySettings(this.pool, leagueId, draftId);
+
+    if (settings.derby_status !== 'in_progress') {
+      throw new ValidationException('Derby is not in progress');
+    }
+
+    settings.derby_status = 'paused';
+    delete settings.pick_deadline; // Remove the deadline when paused
+
+    await this.pool.query(
+      `UPDATE matchup_drafts SET settings = $1, pick_deadline = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = $2`,
+      [JSON.stringify(settings), draftId]
+    );
+
+    const username = await this.utilityService.getUsernameById(userId);
+    await this.utilityService.sendSystemMessage(leagueId, `${username} paused the matchup draft derby`);
+
+    this.eventsPublisher?.emitMatchupDerbyPaused(leagueId, draftId);
+
+    return this.getMatchupDraft(draftId);
+  }
+
+  /**
+   * Resume a paused derby (commissioner only); the manager on the clock gets a fresh timer
+   */
+  async resumeDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    await this.utilityService.verifyCommissioner(leagueId, userId);
+
+    const settings = await this.getDerbySettings(this.pool, leagueId, draftId);
+
+    if (settings.derby_status !== 'paused') {
+      throw new ValidationException('Derby is not paused');
+    }
+
+    settings.derby_status = 'in_progress';
+    const derbyTimerSeconds = settings.derby_timer_seconds || 300;
+    settings.pick_deadline = new Date(Date.now() + derbyTimerSeconds * 1000).toISOString();
+
+    await this.pool.query(
+      `UPDATE matchup_drafts SET settings = $1, pick_deadline = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3`,
+      [JSON.stringify(settings), settings.pick_deadline, draftId]
+    );
+
+    const username = await this.utilityService.getUsernameById(userId);
+    await this.utilityService.sendSystemMessage(leagueId, `${username} resumed the matchup draft derby`);
+
+    const order = await this.getDerbyOrder(this.pool, draftId);
+    this.eventsPublisher?.emitMatchupDerbyResumed(
+      leagueId,
+      draftId,
+      getMatchupDerbyState(settings, order.map(toDerbyPicker))
+    );
+
+    return this.getMatchupDraft(draftId);
+  }
+
+  /**
+   * Apply the derby_on_timeout policy to the manager whose derby timer ran out
+   * Called by the derby autopick job. Returns null when the pick is no longer expired
+   * (e.g. the manager picked or the derby was paused in the meantime).
+   */
+  async handleExpiredPick(leagueId: number, draftId: number): Promise<MatchupDerbyAssignment[] | null> {
+    const result = await withTransaction(async (client) => {
+      // Lock the draft so overlapping job runs can't both act on the same timeout
+      const draftResult = await client.query(
+        `SELECT settings FROM matchup_drafts
+         WHERE id = $1 AND league_id = $2 AND pick_deadline IS NOT NULL AND pick_deadline < NOW()
+         FOR UPDATE`,
+        [draftId, leagueId]
+      );
+
+      if (draftResult.rows.length === 0) {
+        return null;
+      }
+
+      const settings = draftResult.rows[0].settings || {};
+      if (settings.derby_status !== 'in_progress') {
+        return null;
+      }
+
+      const order = await this.getDerbyOrder(client, draftId);
+      const currentPicker = order[settings.current_picker_index || 0];
+
+      if (!currentPicker) {
+        console.error(`[Matchup Derby Auto-Pick] Invalid picker index ${settings.current_picker_index} for draft ${draftId}`);
+        return null;
+      }
+
+      const username = this.getDisplayName(currentPicker);
+      const unassigned = order.filter(row => !row.draft_position);
+
+      if (getMatchupDerbyTimeoutAction(settings, currentPicker.derby_skips, unassigned.length) === 'skip') {
+        await client.query(
+          `UPDATE matchup_draft_order
+           SET derby_order = (SELECT MAX(derby_order) + 1 FROM matchup_draft_order WHERE draft_id = $1),
+               derby_skips = derby_skips + 1
+           WHERE id = $2`,
+          [draftId, currentPicker.id]
+        );
+
+        const skipped: MatchupDerbyAssignment = {
+          rosterId: currentPicker.roster_id,
+          slotNumber: null,
+          action: 'skipped',
+          message: `${username} was skipped (time expired) and moved to the end of the derby order`,
+        };
+
+        const advanced = await this.advanceDerby(client, draftId, settings);
+        return { assignments: [skipped, ...advanced.assignments], derby: advanced.derby };
+      }
+
+      const openSlots = getOpenDerbySlots(
+        order.length,
+        order.filter(row => row.draft_position).map(row => row.draft_position!)
+      );
+
+      if (openSlots.length === 0) {
+        console.error(`[Matchup Derby Auto-Pick] No available slots for draft ${draftId}`);
+        return null;
+      }
+
+      const slotNumber = openSlots[Math.floor(Math.random() * openSlots.length)];
+      await client.query(
+        'UPDATE matchup_draft_order SET draft_position = $1 WHERE id = $2',
+        [slotNumber, currentPicker.id]
+      );
+
+      const assigned: MatchupDerbyAssignment = {
+        rosterId: currentPicker.roster_id,
+        slotNumber,
+        action: 'auto_assigned',
+        message: `${username} was auto-assigned slot ${slotNumber} (time expired)`,
+      };
+
+      const advanced = await this.advanceDerby(client, draftId, settings);
+      return { assignments: [assigned, ...advanced.assignments], derby: advanced.derby };
+    }, this.pool);
+
+    if (!result) {
+      return null;
+    }
+
+    await this.announceAssignments(leagueId, draftId, result.assignments, result.derby);
+    return result.assignments;
+  }
+
+  /**
+   * Put the next manager without a slot on the clock, or complete the derby
+   * Mutates and saves `settings`.
+   */
+  private async advanceDerby(
+    client: PoolClient,
+    draftId: number,
+    settings: any
+  ): Promise<{ assignments: MatchupDerbyAssignment[]; derby: MatchupDerbyState }> {
+    const order = await this.getDerbyOrder(client, draftId);
+    const advance = getMatchupDerbyAdvance(
+      order.map(row => ({ rosterId: row.roster_id, slotNumber: row.draft_position })),
+      settings
+    );
+
+    const assignments: MatchupDerbyAssignment[] = [];
+    for (const { rosterId, slotNumber } of advance.assignments) {
+      const row = order.find(entry => entry.roster_id === rosterId)!;
+      await client.query(
+        'UPDATE matchup_draft_order SET draft_position = $1 WHERE id = $2',
+        [slotNumber, row.id]
+      );
+      assignments.push({
+        rosterId,
+        slotNumber,
+        action: 'auto_assigned',
+        message: `${this.getDisplayName(row)} was assigned the last remaining slot ${slotNumber}`,
+      });
+    }
+
+    if (advance.currentPickerIndex !== null) {
+      settings.current_picker_index = advance.currentPickerIndex;
+      const derbyTimerSeconds = settings.derby_timer_seconds || 300;
+      settings.pick_deadline = new Date(Date.now() + derbyTimerSeconds * 1000).toISOString();
+    } else {
+      settings.derby_status = 'completed';
+      delete settings.current_picker_index;
+      delete settings.pick_deadline;
+    }
+
+    await client.query(
+      `UPDATE matchup_drafts SET settings = $1, pick_deadline = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3`,
+      [JSON.stringify(settings), settings.pick_deadline || null, draftId]
+    );
+
+    return { assignments, derby: getMatchupDerbyState(settings, order.map(toDerbyPicker)) };
+  }
+
+  /**
+   * Post system messages and socket events for derby progress
+   */
+  private async announceAssignments(
+    leagueId: number,
+    draftId: number,
+    assignments: MatchupDerbyAssignment[],
+    derby: MatchupDerbyState
+  ): Promise<void> {
+    for (const assignment of assignments) {
+      await this.utilityService.sendSystemMessage(leagueId, assignment.message);
+      this.eventsPublisher?.emitMatchupDerbySlotPicked(leagueId, draftId, assignment, derby);
+    }
+
+    if (derby.status === 'completed') {
+      await this.utilityService.sendSystemMessage(leagueId, 'The matchup draft derby is complete! The draft order is set.');
+      this.eventsPublisher?.emitMatchupDerbyCompleted(leagueId, draftId);
+    }
+  }
+
+  /**
+   * Settings of a matchup draft that picks its order by derby and hasn't started yet
+   * Locks the draft row when called inside a transaction.
+   */
+  private async getDerbySettings(db: Pool | PoolClient, leagueId: number, draftId: number): Promise<any> {
+    const result = await db.query(
+      `SELECT status, settings FROM matchup_drafts WHERE id = $1 AND league_id = $2 FOR UPDATE`,
+      [draftId, leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('Matchup draft not found');
+    }
+
+    const { status, settings } = result.rows[0];
+
+    if (settings?.draft_order !== 'derby') {
+      throw new ValidationException("This endpoint is only for derby matchup drafts (draft_order must be 'derby')");
+    }
+
+    if (status !== 'not_started') {
+      throw new ValidationException('The matchup draft has already started');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Derby picking order (not draft_position, which fills in as managers pick)
+   */
+  private async getDerbyOrder(db: Pool | PoolClient, draftId: number): Promise<MatchupDerbyOrderRow[]> {
+    const result = await db.query(
+      `SELECT mdo.id, r.roster_id, mdo.draft_position, mdo.derby_skips, r.user_id, u.username
+       FROM matchup_draft_order mdo
+       INNER JOIN rosters r ON r.id = mdo.roster_id
+       LEFT JOIN users u ON u.id = r.user_id
+       WHERE mdo.draft_id = $1
+       ORDER BY mdo.derby_order, mdo.id`,
+      [draftId]
+    );
+
+    return result.rows;
+  }
+
+  private getDisplayName(row: MatchupDerbyOrderRow): string {
+    return row.username || `Team ${row.roster_id}`;
+  }
+
+  private async getMatchupDraft(draftId: number): Promise<any> {
+    const result = await this.pool.query('SELECT * FROM matchup_drafts WHERE id = $1', [draftId]);
+    return this.utilityService.mapMatchupDraftRow(result.rows[0]);
+  }
+}
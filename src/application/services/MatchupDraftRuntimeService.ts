@@ -1,7 +1,23 @@
-import { Pool } from 'pg';
-import { MatchupDraftUtilityService } from './MatchupDraftUtilityService';
+import { Pool, PoolClient } from 'pg';
+import {
+  MatchupDraftUtilityService,
+  getMatchupDraftWeekRange,
+  getMaxGamesPerOpponent,
+} from './MatchupDraftUtilityService';
 import { MatchupDraftConfigService } from './MatchupDraftConfigService';
 import { ValidationException, ServerException } from '../../domain/exceptions/AuthExceptions';
+import { getSeasonProjectedPoints } from './AutopickStrategies';
+import { getDraftPositionForPickNumber } from './DraftRuntimeService';
+import { normalizeLineupIds } from './LineupService';
+import { withTransaction } from '../../db/transaction';
+import {
+  MatchupScheduleReport,
+  MatchupScheduleState,
+  applyMatchupPick,
+  getMatchupPickViolation,
+  getMatchupScheduleReport,
+  isScheduleFeasible,
+} from './MatchupScheduleFeasibility';
 
 interface MatchupDraft {
   id: number;
@@ -39,11 +55,78 @@ interface MatchupDraftPick {
   createdAt: Date;
 }
 
-interface AvailableMatchup {
+export type MatchupDifficulty = 'easy' | 'medium' | 'hard';
+
+export const MATCHUP_DIFFICULTIES: MatchupDifficulty[] = ['easy', 'medium', 'hard'];
+
+export type AvailableMatchupSortField = 'week' | 'projected_points' | 'record' | 'difficulty';
+
+export const AVAILABLE_MATCHUP_SORT_FIELDS: AvailableMatchupSortField[] = [
+  'week',
+  'projected_points',
+  'record',
+  'difficulty',
+];
+
+export interface RosterRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/**
+ * An opponent/week combo nobody has picked yet, with what a manager needs to judge it
+ * projectedPoints is the opponent roster's projected total that week and difficulty ranks it
+ * against every roster's projection that week; both are null without projections.
+ */
+export interface AvailableMatchup {
   opponentRosterId: number;
   weekNumber: number;
   opponentUsername: string | null;
   opponentRosterNumber: string;
+  projectedPoints: number | null;
+  opponentRecord: RosterRecord;
+  difficulty: MatchupDifficulty | null;
+}
+
+/**
+ * Filters and ordering for available matchups (default: by opponent, then week)
+ */
+export interface AvailableMatchupFilters {
+  weekNumber?: number;
+  opponentRosterId?: number;
+  difficulty?: MatchupDifficulty[];
+  minProjectedPoints?: number;
+  maxProjectedPoints?: number;
+  sort?: AvailableMatchupSortField;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Opponent/week combo in a manager's matchup queue
+ * opponentRosterId is the opponent's league roster number (rosters.roster_id).
+ */
+export interface QueuedMatchup {
+  opponentRosterId: number;
+  weekNumber: number;
+}
+
+/**
+ * Result of checking a pick without making it
+ * violation explains why the pick would be rejected; schedule reflects the pick when it is allowed.
+ */
+export interface MatchupPickDryRun {
+  pick: QueuedMatchup | null;
+  violation: string | null;
+  schedule: MatchupScheduleReport;
+}
+
+/**
+ * A manager's matchup queue, most wanted first, and whether they are on autopick
+ */
+export interface MatchupDraftQueue {
+  matchups: Array<QueuedMatchup & { opponentUsername: string | null; isAvailable: boolean }>;
+  autopickEnabled: boolean;
 }
 
 interface DraftOrderEntry {
@@ -55,6 +138,126 @@ interface DraftOrderEntry {
   draftPosition: number;
 }
 
+/**
+ * Key for an opponent/week combo, used for availability and projection lookups
+ */
+export function getMatchupKey(opponentRosterId: number, weekNumber: number): string {
+  return `${opponentRosterId}-${weekNumber}`;
+}
+
+/**
+ * Highest queued matchup that is still available, or null when none are
+ */
+export function getQueuedAvailableMatchup(
+  queue: QueuedMatchup[],
+  availableMatchups: AvailableMatchup[]
+): AvailableMatchup | null {
+  const available = new Map(
+    availableMatchups.map(matchup => [getMatchupKey(matchup.opponentRosterId, matchup.weekNumber), matchup])
+  );
+
+  for (const queued of queue) {
+    const matchup = available.get(getMatchupKey(queued.opponentRosterId, queued.weekNumber));
+    if (matchup) return matchup;
+  }
+  return null;
+}
+
+/**
+ * Available matchup against the opponent with the lowest projected points that week
+ * Matchups without a projection are skipped; returns null when none have one.
+ * Ties keep the order of availableMatchups.
+ */
+export function getWeakestOpponentMatchup(availableMatchups: AvailableMatchup[]): AvailableMatchup | null {
+  let weakest: AvailableMatchup | null = null;
+
+  for (const matchup of availableMatchups) {
+    if (
+      matchup.projectedPoints !== null &&
+      (weakest === null || matchup.projectedPoints < (weakest.projectedPoints as number))
+    ) {
+      weakest = matchup;
+    }
+  }
+  return weakest;
+}
+
+/**
+ * Difficulty tier of facing a roster projected for `points`, by where it ranks among
+ * every roster's projection that week: bottom third easy, middle third medium, top third hard
+ */
+export function getMatchupDifficulty(points: number | null, weekPoints: number[]): MatchupDifficulty | null {
+  if (points === null || weekPoints.length === 0) return null;
+
+  const percentile = weekPoints.filter(other => other < points).length / weekPoints.length;
+  if (percentile < 1 / 3) return 'easy';
+  if (percentile < 2 / 3) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Share of games won, counting ties as half a win; null before any games are played
+ */
+export function getWinPercentage(record: RosterRecord): number | null {
+  const games = record.wins + record.losses + record.ties;
+  return games === 0 ? null : (record.wins + record.ties / 2) / games;
+}
+
+/**
+ * Apply available matchup filters and sort
+ * Sorting is ascending unless order is 'desc'; matchups missing the sort value go last either way,
+ * and ties keep their original order.
+ */
+export function filterAndSortMatchups(
+  matchups: AvailableMatchup[],
+  filters: AvailableMatchupFilters
+): AvailableMatchup[] {
+  const filtered = matchups.filter(matchup => {
+    if (filters.weekNumber !== undefined && matchup.weekNumber !== filters.weekNumber) return false;
+    if (filters.opponentRosterId !== undefined && matchup.opponentRosterId !== filters.opponentRosterId) return false;
+    if (filters.difficulty && (!matchup.difficulty || !filters.difficulty.includes(matchup.difficulty))) return false;
+    if (
+      filters.minProjectedPoints !== undefined &&
+      (matchup.projectedPoints === null || matchup.projectedPoints < filters.minProjectedPoints)
+    ) {
+      return false;
+    }
+    if (
+      filters.maxProjectedPoints !== undefined &&
+      (matchup.projectedPoints === null || matchup.projectedPoints > filters.maxProjectedPoints)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  if (!filters.sort) return filtered;
+
+  const getSortValue = (matchup: AvailableMatchup): number | null => {
+    switch (filters.sort) {
+      case 'projected_points':
+        return matchup.projectedPoints;
+      case 'record':
+        return getWinPercentage(matchup.opponentRecord);
+      case 'difficulty':
+        return matchup.difficulty ? MATCHUP_DIFFICULTIES.indexOf(matchup.difficulty) : null;
+      default:
+        return matchup.weekNumber;
+    }
+  };
+  const direction = filters.order === 'desc' ? -1 : 1;
+
+  return filtered
+    .map((matchup, index) => ({ matchup, index, value: getSortValue(matchup) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return (a.value === null ? 1 : 0) - (b.value === null ? 1 : 0) || a.index - b.index;
+      }
+      return (a.value - b.value) * direction || a.index - b.index;
+    })
+    .map(entry => entry.matchup);
+}
+
 /**
  * Service responsible for matchup draft runtime operations
  * Handles start/pause/resume/pick operations and live draft state
@@ -85,12 +288,24 @@ export class MatchupDraftRuntimeService {
       throw new ValidationException('Draft order must be set before starting');
     }
 
+    if (draft.settings?.draft_order === 'derby' && draft.settings.derby_status !== 'completed') {
+      throw new ValidationException('The derby must be completed before starting the matchup draft');
+    }
+
     // Get first picker
     const firstPicker = draftOrder.find(entry => entry.draftPosition === 1);
     if (!firstPicker) {
       throw new ServerException('Could not find first picker');
     }
 
+    const league = await this.utilityService.getLeagueSettings(leagueId);
+    const scheduleState = await this.getScheduleState(draft, draftOrder, league);
+    if (!isScheduleFeasible(scheduleState)) {
+      throw new ValidationException(
+        `${draft.rounds} rounds don't fit in ${scheduleState.weeks.length} matchup draft weeks; reduce the number of rounds`
+      );
+    }
+
     // Calculate pick deadline
     const pickDeadline = draft.pickTimeSeconds
       ? new Date(Date.now() + draft.pickTimeSeconds * 1000)
@@ -209,14 +424,11 @@ export class MatchupDraftRuntimeService {
 
     // Get league settings for week validation
     const league = await this.utilityService.getLeagueSettings(leagueId);
-    const startWeek = league.settings?.start_week || 1;
-    const playoffWeekStart = league.settings?.playoff_week_start || 15;
+    const { startWeek, endWeek } = getMatchupDraftWeekRange(draft.settings, league.settings);
 
     // Validate week number
-    if (weekNumber < startWeek || weekNumber >= playoffWeekStart) {
-      throw new ValidationException(
-        `Week number must be between ${startWeek} and ${playoffWeekStart - 1} (regular season only)`
-      );
+    if (weekNumber < startWeek || weekNumber > endWeek) {
+      throw new ValidationException(`Week number must be between ${startWeek} and ${endWeek}`);
     }
 
     // Get draft order
@@ -258,6 +470,17 @@ export class MatchupDraftRuntimeService {
       throw new ValidationException('This matchup has already been selected by another team');
     }
 
+    // Reject picks that collide with an existing game or leave the rest of the schedule unfillable
+    const scheduleState = await this.getScheduleState(draft, draftOrder, league);
+    const violation = getMatchupPickViolation(scheduleState, {
+      rosterId: currentPicker.rosterId,
+      opponentRosterId,
+      weekNumber,
+    });
+    if (violation) {
+      throw new ValidationException(violation);
+    }
+
     // Calculate pick time
     const pickTimeSeconds = draft.pickDeadline
       ? Math.max(0, Math.floor((draft.pickDeadline.getTime() - Date.now()) / 1000))
@@ -297,12 +520,17 @@ export class MatchupDraftRuntimeService {
 
     const pick = this.utilityService.mapMatchupPickRow(result.rows[0]);
 
+    await this.removeMatchupFromQueues(this.pool, draftId, opponent.id, weekNumber);
+
     // Advance to next pick
-    await this.advanceToNextPick(draft, draftOrder);
+    const completed = await this.advanceToNextPick(this.pool, draft, draftOrder);
 
-    // Emit WebSocket event
+    // Emit WebSocket events
     if (this.eventsPublisher) {
       this.eventsPublisher.emitMatchupPickMade(leagueId, draftId, pick, currentPicker);
+      if (completed) {
+        this.eventsPublisher.emitMatchupDraftCompleted(leagueId, draftId);
+      }
     }
 
     return pick;
@@ -321,147 +549,387 @@ export class MatchupDraftRuntimeService {
   }
 
   /**
-   * Handle expired pick timer by making an automatic pick
+   * Make an automatic pick when the pick timer has expired or the current picker has matchup autopick on
+   * Takes the picker's highest queued matchup that is still available, then the matchup against
+   * the weakest projected opponent, then a random available matchup.
    * This should be called by a cron job or timer service when pick_deadline expires
    */
   async handleExpiredPick(leagueId: number, draftId: number): Promise<MatchupDraftPick | null> {
-    const draftResult = await this.pool.query(
-      'SELECT * FROM matchup_drafts WHERE id = $1 AND league_id = $2',
-      [draftId, leagueId]
-    );
+    const result = await withTransaction(async (client) => {
+      // Lock the draft so the job and an autopick toggle can't both pick for the same slot
+      const draftResult = await client.query(
+        'SELECT * FROM matchup_drafts WHERE id = $1 AND league_id = $2 FOR UPDATE',
+        [draftId, leagueId]
+      );
+
+      if (draftResult.rows.length === 0) {
+        return null;
+      }
+
+      const draft = this.utilityService.mapMatchupDraftRow(draftResult.rows[0]);
+
+      if (draft.status !== 'in_progress') {
+        return null;
+      }
+
+      // Get draft order and current picker
+      const draftOrder = await this.configService.getMatchupDraftOrder(leagueId, draftId, '');
+      const currentPicker = this.getCurrentPicker(draft, draftOrder);
+
+      if (!currentPicker || !currentPicker.userId) {
+        return null;
+      }
+
+      // Get the database PK of the current picker's roster
+      const pickerRosterResult = await this.pool.query(
+        'SELECT id, matchup_autopick_enabled FROM rosters WHERE league_id = $1 AND roster_id = $2',
+        [leagueId, currentPicker.rosterId]
+      );
+      const pickerRoster = pickerRosterResult.rows[0];
+
+      if (!pickerRoster) {
+        return null;
+      }
+
+      // Only auto-pick once the deadline has passed, unless the picker is on autopick
+      const isExpired = draft.pickDeadline !== null && draft.pickDeadline <= new Date();
+      if (!isExpired && !pickerRoster.matchup_autopick_enabled) {
+        return null;
+      }
+
+      // Get available matchups for the current picker
+      const availableMatchups = await this.getAvailableMatchups(leagueId, draftId, currentPicker.userId);
+
+      if (availableMatchups.length === 0) {
+        throw new ServerException('No available matchups for auto-pick');
+      }
+
+      // Only consider matchups that keep the schedule complete, unless none do
+      const league = await this.utilityService.getLeagueSettings(leagueId);
+      const scheduleState = await this.getScheduleState(draft, draftOrder, league);
+      const feasibleMatchups = availableMatchups.filter(matchup =>
+        getMatchupPickViolation(scheduleState, {
+          rosterId: currentPicker.rosterId,
+          opponentRosterId: matchup.opponentRosterId,
+          weekNumber: matchup.weekNumber,
+        }) === null
+      );
+      const candidates = feasibleMatchups.length > 0 ? feasibleMatchups : availableMatchups;
+
+      const queue = await this.getQueuedMatchups(draftId, pickerRoster.id);
+      const selectedMatchup = getQueuedAvailableMatchup(queue, candidates)
+        ?? getWeakestOpponentMatchup(candidates)
+        ?? candidates[Math.floor(Math.random() * candidates.length)];
+
+      // Get opponent roster database PK
+      const opponentResult = await this.pool.query(
+        `SELECT r.id, r.roster_id, u.username
+         FROM rosters r
+         LEFT JOIN users u ON u.id = r.user_id
+         WHERE r.league_id = $1 AND r.roster_id = $2`,
+        [leagueId, selectedMatchup.opponentRosterId]
+      );
+
+      if (opponentResult.rows.length === 0) {
+        throw new ServerException('Failed to find opponent roster for auto-pick');
+      }
+
+      const opponent = opponentResult.rows[0];
+
+      // Calculate pick in round
+      const pickInRound = this.getPickInRound(draft, draftOrder);
+
+      // Seconds left on the clock; 0 when the timer expired
+      const pickTimeSeconds = draft.pickDeadline && !isExpired
+        ? Math.floor((draft.pickDeadline.getTime() - Date.now()) / 1000)
+        : 0;
+
+      // Create auto-pick
+      const pickResult = await client.query(
+        `INSERT INTO matchup_draft_picks
+         (draft_id, pick_number, round, pick_in_round, roster_id,
+          opponent_roster_id, opponent_username, opponent_roster_number,
+          week_number, is_auto_pick, pick_time_seconds)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING *`,
+        [
+          draftId,
+          draft.currentPick,
+          draft.currentRound,
+          pickInRound,
+          pickerRoster.id,
+          opponent.id,
+          opponent.username,
+          opponent.roster_id.toString(),
+          selectedMatchup.weekNumber,
+          true, // is_auto_pick = true
+          pickTimeSeconds
+        ]
+      );
 
-    if (draftResult.rows.length === 0) {
+      const pick = this.utilityService.mapMatchupPickRow(pickResult.rows[0]);
+
+      await this.removeMatchupFromQueues(client, draftId, opponent.id, selectedMatchup.weekNumber);
+
+      // Move to next pick
+      const completed = await this.advanceToNextPick(client, draft, draftOrder);
+
+      return { pick, currentPicker, completed };
+    }, this.pool);
+
+    if (!result) {
       return null;
     }
 
-    const draft = this.utilityService.mapMatchupDraftRow(draftResult.rows[0]);
+    // Emit WebSocket events with auto-pick flag once the pick is committed
+    if (this.eventsPublisher) {
+      this.eventsPublisher.emitMatchupPickMade(leagueId, draftId, result.pick, result.currentPicker, true);
+      if (result.completed) {
+        this.eventsPublisher.emitMatchupDraftCompleted(leagueId, draftId);
+      }
+    }
 
-    // Only auto-pick if draft is in progress and deadline has passed
-    if (draft.status !== 'in_progress' || !draft.pickDeadline) {
-      return null;
+    return result.pick;
+  }
+
+  /**
+   * Check a pick for the user's roster without making it, and report which weeks each roster can still fill
+   * Without a pick, reports the schedule as it stands.
+   */
+  async dryRunMatchupPick(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    pick: QueuedMatchup | null
+  ): Promise<MatchupPickDryRun> {
+    const draft = await this.configService.getMatchupDraftById(leagueId, draftId, userId);
+    const draftOrder = await this.configService.getMatchupDraftOrder(leagueId, draftId, userId);
+    const league = await this.utilityService.getLeagueSettings(leagueId);
+    const scheduleState = await this.getScheduleState(draft, draftOrder, league);
+
+    if (!pick) {
+      return { pick: null, violation: null, schedule: getMatchupScheduleReport(scheduleState) };
     }
 
-    const now = new Date();
-    if (draft.pickDeadline > now) {
-      return null; // Timer hasn't expired yet
+    const roster = await this.utilityService.getUserRosterForLeague(leagueId, userId);
+    if (!roster) {
+      throw new ValidationException('User not found in this league');
     }
 
-    // Get draft order and current picker
-    const draftOrder = await this.configService.getMatchupDraftOrder(leagueId, draftId, '');
-    const currentPicker = this.getCurrentPicker(draft, draftOrder);
+    const scheduledPick = { rosterId: roster.roster_id, ...pick };
+    const violation = draft.status === 'completed'
+      ? 'Draft has already been completed'
+      : getMatchupPickViolation(scheduleState, scheduledPick);
 
-    if (!currentPicker || !currentPicker.userId) {
-      return null;
+    return {
+      pick,
+      violation,
+      schedule: getMatchupScheduleReport(violation ? scheduleState : applyMatchupPick(scheduleState, scheduledPick)),
+    };
+  }
+
+  /**
+   * Get the user's matchup queue and autopick flag
+   */
+  async getMatchupQueue(leagueId: number, draftId: number, userId: string): Promise<MatchupDraftQueue> {
+    await this.configService.getMatchupDraftById(leagueId, draftId, userId);
+
+    const roster = await this.utilityService.getUserRosterForLeague(leagueId, userId);
+    if (!roster) {
+      throw new ValidationException('User not found in this league');
     }
 
-    // Get available matchups for the current picker
-    const availableMatchups = await this.getAvailableMatchups(leagueId, draftId, currentPicker.userId);
+    const result = await this.pool.query(
+      `SELECT opponent.roster_id AS opponent_roster_id, u.username AS opponent_username, q.week_number,
+              NOT EXISTS (
+                SELECT 1 FROM matchup_draft_picks mdp
+                WHERE mdp.draft_id = q.draft_id
+                AND mdp.opponent_roster_id = q.opponent_roster_id
+                AND mdp.week_number = q.week_number
+              ) AS is_available
+       FROM matchup_draft_queues q
+       JOIN rosters opponent ON opponent.id = q.opponent_roster_id
+       LEFT JOIN users u ON u.id = opponent.user_id
+       WHERE q.draft_id = $1 AND q.roster_id = $2
+       ORDER BY q.queue_position ASC`,
+      [draftId, roster.id]
+    );
+
+    return {
+      matchups: result.rows.map(row => ({
+        opponentRosterId: row.opponent_roster_id,
+        weekNumber: row.week_number,
+        opponentUsername: row.opponent_username,
+        isAvailable: row.is_available,
+      })),
+      autopickEnabled: roster.matchup_autopick_enabled,
+    };
+  }
 
-    if (availableMatchups.length === 0) {
-      throw new ServerException('No available matchups for auto-pick');
+  /**
+   * Replace the user's matchup queue (most wanted first)
+   */
+  async setMatchupQueue(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    matchups: QueuedMatchup[]
+  ): Promise<MatchupDraftQueue> {
+    const draft = await this.configService.getMatchupDraftById(leagueId, draftId, userId);
+
+    if (draft.status === 'completed') {
+      throw new ValidationException('Draft has already been completed');
     }
 
-    // Select a random matchup
-    const randomIndex = Math.floor(Math.random() * availableMatchups.length);
-    const selectedMatchup = availableMatchups[randomIndex];
+    const roster = await this.utilityService.getUserRosterForLeague(leagueId, userId);
+    if (!roster) {
+      throw new ValidationException('User not found in this league');
+    }
 
-    // Get opponent roster database PK
-    const opponentResult = await this.pool.query(
-      `SELECT r.id, r.roster_id, u.username
-       FROM rosters r
-       LEFT JOIN users u ON u.id = r.user_id
-       WHERE r.league_id = $1 AND r.roster_id = $2`,
-      [leagueId, selectedMatchup.opponentRosterId]
-    );
+    const league = await this.utilityService.getLeagueSettings(leagueId);
+    const { startWeek, endWeek } = getMatchupDraftWeekRange(draft.settings, league.settings);
 
-    if (opponentResult.rows.length === 0) {
-      throw new ServerException('Failed to find opponent roster for auto-pick');
+    if (matchups.some(matchup => matchup.weekNumber < startWeek || matchup.weekNumber > endWeek)) {
+      throw new ValidationException(`Week number must be between ${startWeek} and ${endWeek}`);
     }
 
-    const opponent = opponentResult.rows[0];
+    if (matchups.some(matchup => matchup.opponentRosterId === roster.roster_id)) {
+      throw new ValidationException('You cannot select yourself as an opponent');
+    }
 
-    // Get the database PK of the current picker's roster
-    const pickerRosterResult = await this.pool.query(
-      'SELECT id FROM rosters WHERE league_id = $1 AND roster_id = $2',
-      [leagueId, currentPicker.rosterId]
+    const rostersResult = await this.pool.query(
+      'SELECT id, roster_id FROM rosters WHERE league_id = $1',
+      [leagueId]
     );
+    const rosterIds = new Map<number, number>(rostersResult.rows.map(row => [row.roster_id, row.id]));
 
-    // Calculate pick in round
-    const pickInRound = this.getPickInRound(draft, draftOrder);
+    if (matchups.some(matchup => !rosterIds.has(matchup.opponentRosterId))) {
+      throw new ValidationException('Invalid opponent roster ID');
+    }
 
-    // Create auto-pick
-    const result = await this.pool.query(
-      `INSERT INTO matchup_draft_picks
-       (draft_id, pick_number, round, pick_in_round, roster_id,
-        opponent_roster_id, opponent_username, opponent_roster_number,
-        week_number, is_auto_pick, pick_time_seconds)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-       RETURNING *`,
-      [
-        draftId,
-        draft.currentPick,
-        draft.currentRound,
-        pickInRound,
-        pickerRosterResult.rows[0].id,
-        opponent.id,
-        opponent.username,
-        opponent.roster_id.toString(),
-        selectedMatchup.weekNumber,
-        true, // is_auto_pick = true
-        0     // Timer expired, so 0 seconds remaining
-      ]
-    );
+    await withTransaction(async (client) => {
+      await client.query(
+        'DELETE FROM matchup_draft_queues WHERE draft_id = $1 AND roster_id = $2',
+        [draftId, roster.id]
+      );
 
-    const pick = this.utilityService.mapMatchupPickRow(result.rows[0]);
+      for (const [index, matchup] of matchups.entries()) {
+        await client.query(
+          `INSERT INTO matchup_draft_queues (draft_id, roster_id, opponent_roster_id, week_number, queue_position)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [draftId, roster.id, rosterIds.get(matchup.opponentRosterId), matchup.weekNumber, index + 1]
+        );
+      }
+    }, this.pool);
 
-    // Move to next pick
-    await this.advanceToNextPick(draft, draftOrder);
+    return this.getMatchupQueue(leagueId, draftId, userId);
+  }
 
-    // Emit WebSocket event with auto-pick flag
-    if (this.eventsPublisher) {
-      this.eventsPublisher.emitMatchupPickMade(leagueId, draftId, pick, currentPicker, true);
+  /**
+   * Turn matchup autopick on or off for the user's roster
+   * Turning it on while the user is on the clock picks for them right away.
+   */
+  async toggleMatchupAutopick(leagueId: number, draftId: number, userId: string): Promise<MatchupDraftQueue> {
+    const draft = await this.configService.getMatchupDraftById(leagueId, draftId, userId);
+
+    const roster = await this.utilityService.getUserRosterForLeague(leagueId, userId);
+    if (!roster) {
+      throw new ValidationException('User not found in this league');
     }
 
-    return pick;
+    const result = await this.pool.query(
+      `UPDATE rosters SET matchup_autopick_enabled = NOT matchup_autopick_enabled
+       WHERE id = $1
+       RETURNING matchup_autopick_enabled`,
+      [roster.id]
+    );
+
+    if (
+      result.rows[0].matchup_autopick_enabled &&
+      draft.status === 'in_progress' &&
+      draft.currentRosterId === roster.roster_id
+    ) {
+      // The toggle is saved either way; a failed pick is left for the autopick job to retry
+      try {
+        await this.handleExpiredPick(leagueId, draftId);
+      } catch (error) {
+        console.error(`[Matchup Draft Auto-Pick] Error picking after autopick was enabled in draft ${draftId}:`, error);
+      }
+    }
+
+    return this.getMatchupQueue(leagueId, draftId, userId);
   }
 
   /**
-   * Get available matchups
+   * Get available matchups with each opponent's projection, record and difficulty tier for that week
+   * Weeks where the user or the opponent already has a game are left out, as are opponents the user
+   * already faces max_games_per_opponent times.
    */
-  async getAvailableMatchups(leagueId: number, draftId: number, userId: string): Promise<AvailableMatchup[]> {
+  async getAvailableMatchups(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    filters: AvailableMatchupFilters = {}
+  ): Promise<AvailableMatchup[]> {
     const draft = await this.configService.getMatchupDraftById(leagueId, draftId, userId);
     const league = await this.utilityService.getLeagueSettings(leagueId);
 
-    const startWeek = league.settings?.start_week || 1;
-    const playoffWeekStart = league.settings?.playoff_week_start || 15;
+    const { startWeek, endWeek } = getMatchupDraftWeekRange(draft.settings, league.settings);
+    const maxGamesPerOpponent = getMaxGamesPerOpponent(draft.settings);
 
     // Get the current user's roster to exclude them from available matchups
     const userRoster = await this.utilityService.getUserRosterForLeague(leagueId, userId);
     const userRosterId = userRoster?.roster_id;
 
-    // Get all rosters in the league
+    // Get all rosters in the league with their record this season
     const rostersResult = await this.pool.query(
-      `SELECT r.id, r.roster_id, u.username
+      `SELECT r.id, r.roster_id, u.username,
+              COALESCE(s.wins, 0) AS wins, COALESCE(s.losses, 0) AS losses, COALESCE(s.ties, 0) AS ties
        FROM rosters r
        LEFT JOIN users u ON u.id = r.user_id
+       LEFT JOIN standings s ON s.roster_id = r.id AND s.league_id = r.league_id AND s.season = $2
        WHERE r.league_id = $1
        ORDER BY r.roster_id ASC`,
-      [leagueId]
+      [leagueId, league.season]
     );
 
-    // Get all picked matchups
+    // Get every roster/week that already has a game, whether the roster picked or was picked
     const pickedResult = await this.pool.query(
-      `SELECT r.roster_id, mdp.week_number
+      `SELECT picker.roster_id, opponent.roster_id AS opponent_roster_id, mdp.week_number
        FROM matchup_draft_picks mdp
-       JOIN rosters r ON r.id = mdp.opponent_roster_id
+       JOIN rosters picker ON picker.id = mdp.roster_id
+       JOIN rosters opponent ON opponent.id = mdp.opponent_roster_id
        WHERE mdp.draft_id = $1`,
       [draftId]
     );
 
-    const pickedMatchups = new Set(
-      pickedResult.rows.map(row => `${row.roster_id}-${row.week_number}`)
+    const scheduledWeeks = new Set(
+      pickedResult.rows.flatMap(row => [
+        getMatchupKey(row.roster_id, row.week_number),
+        getMatchupKey(row.opponent_roster_id, row.week_number),
+      ])
     );
 
+    // Games the user already has against each opponent, for the max_games_per_opponent limit
+    const gamesAgainst = new Map<number, number>();
+    for (const row of pickedResult.rows) {
+      const opponent = row.roster_id === userRosterId ? row.opponent_roster_id
+        : row.opponent_roster_id === userRosterId ? row.roster_id
+        : null;
+      if (opponent !== null) gamesAgainst.set(opponent, (gamesAgainst.get(opponent) || 0) + 1);
+    }
+
+    const projections = await this.getRosterWeekProjections(league, startWeek, endWeek);
+    const pointsByWeek = new Map<number, number[]>();
+    for (let week = startWeek; week <= endWeek; week++) {
+      pointsByWeek.set(
+        week,
+        rostersResult.rows
+          .map(roster => projections.get(getMatchupKey(roster.roster_id, week)))
+          .filter((points): points is number => points !== undefined)
+      );
+    }
+
     // Generate all possible matchups (excluding self-selection)
     const availableMatchups: AvailableMatchup[] = [];
     for (const roster of rostersResult.rows) {
@@ -469,20 +937,29 @@ export class MatchupDraftRuntimeService {
         continue;
       }
 
-      for (let week = startWeek; week < playoffWeekStart; week++) {
-        const key = `${roster.roster_id}-${week}`;
-        if (!pickedMatchups.has(key)) {
+      if (maxGamesPerOpponent !== null && (gamesAgainst.get(roster.roster_id) || 0) >= maxGamesPerOpponent) {
+        continue;
+      }
+
+      for (let week = startWeek; week <= endWeek; week++) {
+        const key = getMatchupKey(roster.roster_id, week);
+        const userScheduled = userRosterId !== undefined && scheduledWeeks.has(getMatchupKey(userRosterId, week));
+        if (!scheduledWeeks.has(key) && !userScheduled) {
+          const projectedPoints = projections.get(key) ?? null;
           availableMatchups.push({
             opponentRosterId: roster.roster_id,
             weekNumber: week,
             opponentUsername: roster.username,
             opponentRosterNumber: roster.roster_id.toString(),
+            projectedPoints,
+            opponentRecord: { wins: roster.wins, losses: roster.losses, ties: roster.ties },
+            difficulty: getMatchupDifficulty(projectedPoints, pointsByWeek.get(week) || []),
           });
         }
       }
     }
 
-    return availableMatchups;
+    return filterAndSortMatchups(availableMatchups, filters);
   }
 
   /**
@@ -498,18 +975,157 @@ export class MatchupDraftRuntimeService {
   }
 
   /**
-   * Get current picker
+   * Games picked so far and the picks each roster still has to make, for feasibility checks
    */
-  private getCurrentPicker(draft: any, draftOrder: DraftOrderEntry[]): DraftOrderEntry | null {
-    const pickInRound = this.getPickInRound(draft, draftOrder);
+  private async getScheduleState(draft: any, draftOrder: DraftOrderEntry[], league: any): Promise<MatchupScheduleState> {
+    const { startWeek, endWeek } = getMatchupDraftWeekRange(draft.settings, league.settings);
+
+    const rostersResult = await this.pool.query(
+      'SELECT roster_id FROM rosters WHERE league_id = $1 ORDER BY roster_id ASC',
+      [league.id]
+    );
+    const rosterIds: number[] = rostersResult.rows.map(row => row.roster_id);
+
+    const picksResult = await this.pool.query(
+      `SELECT picker.roster_id, opponent.roster_id AS opponent_roster_id, mdp.week_number
+       FROM matchup_draft_picks mdp
+       JOIN rosters picker ON picker.id = mdp.roster_id
+       JOIN rosters opponent ON opponent.id = mdp.opponent_roster_id
+       WHERE mdp.draft_id = $1`,
+      [draft.id]
+    );
+
+    const remainingPicks = new Map<number, number>(rosterIds.map(rosterId => [rosterId, 0]));
+    if (draft.status === 'not_started') {
+      for (const rosterId of rosterIds) {
+        remainingPicks.set(rosterId, draft.rounds);
+      }
+    } else if (draft.status !== 'completed') {
+      const totalPicks = draftOrder.length * draft.rounds;
+      for (let pickNumber = draft.currentPick || 1; pickNumber <= totalPicks; pickNumber++) {
+        const round = Math.ceil(pickNumber / draftOrder.length);
+        const picker = this.getCurrentPicker({ ...draft, currentPick: pickNumber, currentRound: round }, draftOrder);
+        if (picker) {
+          remainingPicks.set(picker.rosterId, (remainingPicks.get(picker.rosterId) || 0) + 1);
+        }
+      }
+    }
+
+    return {
+      rosterIds,
+      weeks: Array.from({ length: Math.max(0, endWeek - startWeek + 1) }, (_, index) => startWeek + index),
+      games: picksResult.rows.map(row => ({
+        rosterId: row.roster_id,
+        opponentRosterId: row.opponent_roster_id,
+        weekNumber: row.week_number,
+      })),
+      remainingPicks,
+      maxGamesPerOpponent: getMaxGamesPerOpponent(draft.settings),
+    };
+  }
+
+  /**
+   * Queued matchups for a roster (rosters.id), most wanted first
+   */
+  private async getQueuedMatchups(draftId: number, rosterDbId: number): Promise<QueuedMatchup[]> {
+    const result = await this.pool.query(
+      `SELECT opponent.roster_id AS opponent_roster_id, q.week_number
+       FROM matchup_draft_queues q
+       JOIN rosters opponent ON opponent.id = q.opponent_roster_id
+       WHERE q.draft_id = $1 AND q.roster_id = $2
+       ORDER BY q.queue_position ASC`,
+      [draftId, rosterDbId]
+    );
 
-    // Determine if this is a reverse round (snake draft logic)
-    const isReverse = draft.currentRound % 2 === 0;
+    return result.rows.map(row => ({
+      opponentRosterId: row.opponent_roster_id,
+      weekNumber: row.week_number,
+    }));
+  }
+
+  /**
+   * Drop a matchup that was just taken from every queue in the draft
+   */
+  private async removeMatchupFromQueues(
+    db: Pool | PoolClient,
+    draftId: number,
+    opponentRosterDbId: number,
+    weekNumber: number
+  ): Promise<void> {
+    await db.query(
+      'DELETE FROM matchup_draft_queues WHERE draft_id = $1 AND opponent_roster_id = $2 AND week_number = $3',
+      [draftId, opponentRosterDbId, weekNumber]
+    );
+  }
+
+  /**
+   * Projected points of each roster (starters and bench) per week from startWeek to endWeek, keyed by getMatchupKey
+   * Uses the league's reception scoring; weeks without projections are left out.
+   */
+  private async getRosterWeekProjections(league: any, startWeek: number, endWeek: number): Promise<Map<string, number>> {
+    const rostersResult = await this.pool.query(
+      'SELECT roster_id, starters, bench FROM rosters WHERE league_id = $1',
+      [league.id]
+    );
+
+    const playersByRoster = new Map<number, number[]>(
+      rostersResult.rows.map(row => [
+        row.roster_id,
+        [...normalizeLineupIds(row.starters), ...normalizeLineupIds(row.bench)]
+          .filter((id): id is number => id !== null),
+      ])
+    );
+    const playerIds = [...playersByRoster.values()].flat();
+
+    const projections = new Map<string, number>();
+    if (playerIds.length === 0) return projections;
+
+    const projectionsResult = await this.pool.query(
+      `SELECT p.id AS player_id, pp.week, pp.proj_pts_ppr, pp.proj_pts_half_ppr, pp.proj_pts_std
+       FROM players p
+       JOIN player_projections pp ON pp.player_sleeper_id = p.sleeper_id
+       WHERE p.id = ANY($1::int[])
+       AND pp.season = $2
+       AND pp.season_type = 'regular'
+       AND pp.week BETWEEN $3 AND $4`,
+      [playerIds, league.season, startWeek, endWeek]
+    );
+
+    const pointsByPlayerWeek = new Map<string, number>();
+    for (const row of projectionsResult.rows) {
+      pointsByPlayerWeek.set(
+        `${row.player_id}-${row.week}`,
+        getSeasonProjectedPoints(
+          {
+            playerSleeperId: '',
+            projPtsPpr: parseFloat(row.proj_pts_ppr) || 0,
+            projPtsHalfPpr: parseFloat(row.proj_pts_half_ppr) || 0,
+            projPtsStd: parseFloat(row.proj_pts_std) || 0,
+          },
+          league.scoring_settings
+        )
+      );
+    }
+
+    for (const [rosterId, rosterPlayerIds] of playersByRoster) {
+      for (let week = startWeek; week <= endWeek; week++) {
+        let total: number | null = null;
+        for (const playerId of rosterPlayerIds) {
+          const points = pointsByPlayerWeek.get(`${playerId}-${week}`);
+          if (points !== undefined) total = (total ?? 0) + points;
+        }
+        if (total !== null) projections.set(getMatchupKey(rosterId, week), Math.round(total * 100) / 100);
+      }
+    }
 
-    const position = isReverse
-      ? draftOrder.length - pickInRound + 1
-      : pickInRound;
+    return projections;
+  }
 
+  /**
+   * Get current picker, following the draft type and third round reversal
+   */
+  private getCurrentPicker(draft: any, draftOrder: DraftOrderEntry[]): DraftOrderEntry | null {
+    const position = getDraftPositionForPickNumber(draft, draftOrder.length, draft.currentPick || 1);
     return draftOrder.find(entry => entry.draftPosition === position) || null;
   }
 
@@ -523,25 +1139,22 @@ export class MatchupDraftRuntimeService {
 
   /**
    * Advance to next pick
+   * Returns true when that was the last pick and the draft is now completed.
    */
-  private async advanceToNextPick(draft: any, draftOrder: DraftOrderEntry[]): Promise<void> {
+  private async advanceToNextPick(db: Pool | PoolClient, draft: any, draftOrder: DraftOrderEntry[]): Promise<boolean> {
     const totalPicks = draftOrder.length * draft.rounds;
     const nextPick = (draft.currentPick || 0) + 1;
 
     // Check if draft is complete
     if (nextPick > totalPicks) {
-      await this.pool.query(
+      await db.query(
         `UPDATE matchup_drafts
          SET status = $1, current_pick = NULL, current_round = NULL, current_roster_id = NULL, pick_deadline = NULL, completed_at = $2
          WHERE id = $3`,
         ['completed', new Date(), draft.id]
       );
 
-      if (this.eventsPublisher) {
-        this.eventsPublisher.emitMatchupDraftCompleted(draft.leagueId, draft.id);
-      }
-
-      return;
+      return true;
     }
 
     // Calculate next round and pick
@@ -560,11 +1173,13 @@ export class MatchupDraftRuntimeService {
       pickDeadline = new Date(Math.max(deadlineTime, Date.now() + 1000));
     }
 
-    await this.pool.query(
+    await db.query(
       `UPDATE matchup_drafts
        SET current_pick = $1, current_round = $2, current_roster_id = $3, pick_deadline = $4
        WHERE id = $5`,
       [nextPick, nextRound, nextPicker.rosterId, pickDeadline, draft.id]
     );
+
+    return false;
   }
 }
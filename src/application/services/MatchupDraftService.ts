@@ -1,7 +1,15 @@
 import { Pool } from 'pg';
 import { MatchupDraftConfigService } from './MatchupDraftConfigService';
-import { MatchupDraftRuntimeService } from './MatchupDraftRuntimeService';
+import {
+  MatchupDraftRuntimeService,
+  MatchupDraftQueue,
+  MatchupPickDryRun,
+  QueuedMatchup,
+  AvailableMatchup,
+  AvailableMatchupFilters,
+} from './MatchupDraftRuntimeService';
 import { MatchupDraftUtilityService } from './MatchupDraftUtilityService';
+import { MatchupDraftDerbyService, MatchupDerbyAssignment } from './MatchupDraftDerbyService';
 
 interface MatchupDraftPick {
   id: number;
@@ -20,13 +28,6 @@ interface MatchupDraftPick {
   createdAt: Date;
 }
 
-interface AvailableMatchup {
-  opponentRosterId: number;
-  weekNumber: number;
-  opponentUsername: string | null;
-  opponentRosterNumber: string;
-}
-
 interface DraftOrderEntry {
   id: number;
   draftId: number;
@@ -44,6 +45,7 @@ export class MatchupDraftService {
   private readonly configService: MatchupDraftConfigService;
   private readonly runtimeService: MatchupDraftRuntimeService;
   private readonly utilityService: MatchupDraftUtilityService;
+  private readonly derbyService: MatchupDraftDerbyService;
 
   constructor(
     pool: Pool,
@@ -62,6 +64,9 @@ export class MatchupDraftService {
       this.configService,
       eventsPublisher
     );
+
+    // Initialize derby service (depends on utility)
+    this.derbyService = new MatchupDraftDerbyService(pool, this.utilityService, eventsPublisher);
   }
 
   // ==========================================
@@ -84,6 +89,51 @@ export class MatchupDraftService {
     return this.configService.randomizeMatchupDraftOrder(leagueId, draftId, userId);
   }
 
+  async updateMatchupDraftSettings(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    params: {
+      draftType?: string;
+      thirdRoundReversal?: boolean;
+      pickTimeSeconds?: number;
+      rounds?: number;
+      startWeek?: number;
+      endWeek?: number;
+      maxGamesPerOpponent?: number | null;
+      draftOrder?: string;
+      derbyTimerSeconds?: number;
+      derbyOnTimeout?: string;
+      derbyAutoAssignRemaining?: boolean;
+    }
+  ): Promise<any> {
+    return this.configService.updateMatchupDraftSettings(leagueId, draftId, userId, params);
+  }
+
+  // ==========================================
+  // Derby Operations - Delegate to MatchupDraftDerbyService
+  // ==========================================
+
+  async startMatchupDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    return this.derbyService.startDerby(leagueId, draftId, userId);
+  }
+
+  async pickMatchupDerbySlot(leagueId: number, draftId: number, userId: string, slotNumber: number): Promise<any> {
+    return this.derbyService.pickDerbySlot(leagueId, draftId, userId, slotNumber);
+  }
+
+  async pauseMatchupDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    return this.derbyService.pauseDerby(leagueId, draftId, userId);
+  }
+
+  async resumeMatchupDerby(leagueId: number, draftId: number, userId: string): Promise<any> {
+    return this.derbyService.resumeDerby(leagueId, draftId, userId);
+  }
+
+  async handleExpiredDerbyPick(leagueId: number, draftId: number): Promise<MatchupDerbyAssignment[] | null> {
+    return this.derbyService.handleExpiredPick(leagueId, draftId);
+  }
+
   // ==========================================
   // Runtime Operations - Delegate to MatchupDraftRuntimeService
   // ==========================================
@@ -110,15 +160,46 @@ export class MatchupDraftService {
     return this.runtimeService.makeMatchupPick(leagueId, draftId, userId, opponentRosterId, weekNumber);
   }
 
+  async dryRunMatchupPick(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    pick: QueuedMatchup | null
+  ): Promise<MatchupPickDryRun> {
+    return this.runtimeService.dryRunMatchupPick(leagueId, draftId, userId, pick);
+  }
+
   async handleExpiredPick(leagueId: number, draftId: number): Promise<MatchupDraftPick | null> {
     return this.runtimeService.handleExpiredPick(leagueId, draftId);
   }
 
-  async getAvailableMatchups(leagueId: number, draftId: number, userId: string): Promise<AvailableMatchup[]> {
-    return this.runtimeService.getAvailableMatchups(leagueId, draftId, userId);
+  async getAvailableMatchups(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    filters?: AvailableMatchupFilters
+  ): Promise<AvailableMatchup[]> {
+    return this.runtimeService.getAvailableMatchups(leagueId, draftId, userId, filters);
   }
 
   async getMatchupDraftPicks(leagueId: number, draftId: number, userId: string): Promise<MatchupDraftPick[]> {
     return this.runtimeService.getMatchupDraftPicks(leagueId, draftId, userId);
   }
+
+  async getMatchupQueue(leagueId: number, draftId: number, userId: string): Promise<MatchupDraftQueue> {
+    return this.runtimeService.getMatchupQueue(leagueId, draftId, userId);
+  }
+
+  async setMatchupQueue(
+    leagueId: number,
+    draftId: number,
+    userId: string,
+    matchups: QueuedMatchup[]
+  ): Promise<MatchupDraftQueue> {
+    return this.runtimeService.setMatchupQueue(leagueId, draftId, userId, matchups);
+  }
+
+  async toggleMatchupAutopick(leagueId: number, draftId: number, userId: string): Promise<MatchupDraftQueue> {
+    return this.runtimeService.toggleMatchupAutopick(leagueId, draftId, userId);
+  }
 }
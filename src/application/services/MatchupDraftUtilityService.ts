@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { League } from '../../domain/models/League';
 import { ValidationException } from '../../domain/exceptions/AuthExceptions';
 
 interface MatchupDraft {
@@ -37,6 +38,38 @@ interface MatchupDraftPick {
   createdAt: Date;
 }
 
+/**
+ * Regular season weeks of a league: start_week through the week before the playoffs
+ */
+export function getRegularSeasonWeekRange(leagueSettings: any): { startWeek: number; endWeek: number } {
+  return {
+    startWeek: leagueSettings?.start_week || 1,
+    endWeek: League.getPlayoffWeekStart(leagueSettings) - 1,
+  };
+}
+
+/**
+ * Weeks a matchup draft schedules (inclusive), from the draft's start_week/end_week settings
+ * Defaults to the league's regular season.
+ */
+export function getMatchupDraftWeekRange(
+  draftSettings: any,
+  leagueSettings: any
+): { startWeek: number; endWeek: number } {
+  const regularSeason = getRegularSeasonWeekRange(leagueSettings);
+  return {
+    startWeek: draftSettings?.start_week ?? regularSeason.startWeek,
+    endWeek: draftSettings?.end_week ?? regularSeason.endWeek,
+  };
+}
+
+/**
+ * Most games a roster may be scheduled against the same opponent, or null for no limit
+ */
+export function getMaxGamesPerOpponent(draftSettings: any): number | null {
+  return draftSettings?.max_games_per_opponent ?? null;
+}
+
 /**
  * Shared utility service for matchup draft operations
  */
@@ -172,6 +205,18 @@ export class MatchupDraftUtilityService {
     return parseInt(result.rows[0]?.count || '0', 10);
   }
 
+  /**
+   * Get username by user ID
+   */
+  async getUsernameById(userId: string): Promise<string> {
+    const result = await this.pool.query(
+      'SELECT username FROM users WHERE id = $1',
+      [userId]
+    );
+
+    return result.rows[0]?.username || 'Commissioner';
+  }
+
   /**
    * Send system message to league chat
    */
@@ -0,0 +1,462 @@
+/**
+ * Schedule feasibility for matchup drafts
+ *
+ * A matchup pick (roster R takes opponent O in week W) schedules R against O that week, so it fills
+ * week W for both rosters. Each roster can only play once a week, so a week with F free rosters can
+ * host at most floor(F / 2) more picks, and a roster can only make a pick in a week it is still free.
+ *
+ * Because any two free rosters can be paired, the remaining picks fit exactly when each roster's
+ * remaining picks can be spread over its free weeks without any week taking more pickers than
+ * pairs it can host. That is a bipartite flow (rosters -> free weeks -> capacity), checked below.
+ *
+ * With an opponent limit, rosters free in the same week can no longer always be paired, so the flow
+ * is only a quick first check. Each pick also uses up one of the games a pair of rosters may still
+ * play, so the remaining picks must fit a second flow (rosters -> opponent pairs -> games left); that
+ * rules out drafts like 12 teams and 7 rounds facing each opponent once, where every team plays about
+ * 14 games but only has 11 opponents. Passing both flows isn't enough (a week's free rosters may all
+ * have used up their games against each other), so under a limit the schedule is then completed by a
+ * search that gives every free (roster, week) an opponent or a sit-out.
+ */
+
+/**
+ * A scheduled game; rosterId made the pick. Roster IDs are league roster numbers (rosters.roster_id).
+ */
+export interface ScheduledMatchup {
+  rosterId: number;
+  opponentRosterId: number;
+  weekNumber: number;
+}
+
+export interface MatchupScheduleState {
+  rosterIds: number[];
+  weeks: number[];
+  games: ScheduledMatchup[];
+  /** Picks each roster still has to make, keyed by roster ID */
+  remainingPicks: Map<number, number>;
+  /** Most games any two rosters may play each other; null or undefined for no limit */
+  maxGamesPerOpponent?: number | null;
+}
+
+/**
+ * Where a roster stands: weeks with no game yet, and the weeks it can still be given a game
+ * (as picker or opponent) without leaving the remaining picks impossible to make
+ */
+export interface RosterScheduleFeasibility {
+  rosterId: number;
+  remainingPicks: number;
+  openWeeks: number[];
+  fillableWeeks: number[];
+}
+
+export interface MatchupScheduleReport {
+  feasible: boolean;
+  rosters: RosterScheduleFeasibility[];
+}
+
+/**
+ * Most rounds every roster can make in a full league, leaving room for byes with an odd roster count
+ */
+export function getMaxMatchupDraftRounds(totalRosters: number, weekCount: number): number {
+  if (totalRosters < 2 || weekCount < 1) return 0;
+  return Math.floor((Math.floor(totalRosters / 2) * weekCount) / totalRosters);
+}
+
+/**
+ * Rosters without a game in each week
+ */
+function getFreeRostersByWeek(state: MatchupScheduleState): Map<number, Set<number>> {
+  const free = new Map(state.weeks.map(week => [week, new Set(state.rosterIds)]));
+  for (const game of state.games) {
+    free.get(game.weekNumber)?.delete(game.rosterId);
+    free.get(game.weekNumber)?.delete(game.opponentRosterId);
+  }
+  return free;
+}
+
+/**
+ * Games already scheduled between two rosters, whichever of them picked
+ */
+export function getGamesBetween(state: MatchupScheduleState, rosterId: number, opponentRosterId: number): number {
+  return state.games.filter(game =>
+    (game.rosterId === rosterId && game.opponentRosterId === opponentRosterId) ||
+    (game.rosterId === opponentRosterId && game.opponentRosterId === rosterId)
+  ).length;
+}
+
+/**
+ * Whether two rosters have already played each other as often as the draft allows
+ */
+function isOpponentLimitReached(state: MatchupScheduleState, rosterId: number, opponentRosterId: number): boolean {
+  return state.maxGamesPerOpponent != null &&
+    getGamesBetween(state, rosterId, opponentRosterId) >= state.maxGamesPerOpponent;
+}
+
+/**
+ * Whether every roster's remaining picks can be spread over opponents it may still face
+ * Only the opponent limit is checked here, not the weeks.
+ */
+function canMeetOpponentLimit(state: MatchupScheduleState): boolean {
+  const maxGames = state.maxGamesPerOpponent;
+  if (maxGames == null) return true;
+
+  const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const gamesLeft = new Map<string, number>();
+  const pairPickers = new Map<string, number[]>();
+  for (const rosterId of state.rosterIds) {
+    for (const opponentRosterId of state.rosterIds) {
+      if (rosterId >= opponentRosterId) continue;
+      const key = pairKey(rosterId, opponentRosterId);
+      gamesLeft.set(key, maxGames - getGamesBetween(state, rosterId, opponentRosterId));
+      pairPickers.set(key, []);
+    }
+  }
+
+  // Pickers assigned to each pair; augmenting paths move the other roster's pick to a different pair
+  const augment = (rosterId: number, visited: Set<string>): boolean => {
+    for (const opponentRosterId of state.rosterIds) {
+      if (opponentRosterId === rosterId) continue;
+      const key = pairKey(rosterId, opponentRosterId);
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const assigned = pairPickers.get(key)!;
+      if (assigned.length < gamesLeft.get(key)!) {
+        assigned.push(rosterId);
+        return true;
+      }
+
+      const index = assigned.indexOf(opponentRosterId);
+      if (index === -1) continue;
+      assigned.splice(index, 1);
+      if (augment(opponentRosterId, visited)) {
+        assigned.push(rosterId);
+        return true;
+      }
+      assigned.splice(index, 0, opponentRosterId);
+    }
+    return false;
+  };
+
+  for (const rosterId of state.rosterIds) {
+    for (let pick = 0; pick < (state.remainingPicks.get(rosterId) || 0); pick++) {
+      if (!augment(rosterId, new Set())) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Most search steps spent completing a schedule under an opponent limit
+ * A search that runs out of steps counts as infeasible, so every accepted pick leaves a schedule the
+ * search has actually completed rather than one that only passed the flows.
+ */
+const SCHEDULE_SEARCH_LIMIT = 3000;
+
+class ScheduleSearchLimitReached extends Error {}
+
+/**
+ * Whether the remaining picks can actually be scheduled within the opponent limit
+ *
+ * Every free (roster, week) slot either gets an opponent or sits out, and exactly
+ * (free slots - 2 * remaining picks) of them sit out. Who picks each game doesn't depend on the week,
+ * so games are placed as undirected pairs and only have to stay assignable to a roster with picks
+ * left (a bipartite matching kept up as games are added). The search fills the most constrained
+ * slot first; once every game a pair may still play is needed, it places that pair's games instead.
+ */
+function canCompleteSchedule(state: MatchupScheduleState): boolean {
+  const rosters = state.rosterIds.map((_, index) => index);
+  const freeByWeek = getFreeRostersByWeek(state);
+  const open = state.weeks.map(week => state.rosterIds.map(rosterId => freeByWeek.get(week)!.has(rosterId)));
+  const picks = state.rosterIds.map(rosterId => state.remainingPicks.get(rosterId) || 0);
+  const gamesLeft = state.rosterIds.map(rosterId =>
+    state.rosterIds.map(opponentRosterId =>
+      rosterId === opponentRosterId ? 0 : state.maxGamesPerOpponent! - getGamesBetween(state, rosterId, opponentRosterId)
+    )
+  );
+  const totalPicks = picks.reduce((total, count) => total + count, 0);
+  const countOpen = (roster: number) => open.filter(week => week[roster]).length;
+
+  let sitOuts = open.reduce((total, week) => total + week.filter(Boolean).length, 0) - 2 * totalPicks;
+  const sitOutsLeft = rosters.map(roster => countOpen(roster) - picks[roster]);
+  if (sitOuts < 0 || sitOutsLeft.some(left => left < 0)) return false;
+
+  // Games placed by the search, and the games each roster is currently picking
+  const games: Array<[number, number]> = [];
+  const pickedBy: number[][] = rosters.map(() => []);
+
+  // Gives a game to one of its rosters, moving that roster's other games to their opponents if needed
+  const assignPicker = (game: number, visited: Set<number>): boolean => {
+    for (const roster of games[game]) {
+      if (visited.has(roster)) continue;
+      visited.add(roster);
+      const picked = pickedBy[roster];
+      if (picked.length < picks[roster]) {
+        picked.push(game);
+        return true;
+      }
+      for (const [index, other] of picked.entries()) {
+        if (assignPicker(other, visited)) {
+          picked[index] = game;
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const placeGame = (week: number, a: number, b: number): boolean => {
+    open[week][a] = false;
+    open[week][b] = false;
+    gamesLeft[a][b]--;
+    gamesLeft[b][a]--;
+    games.push([a, b]);
+    if (assignPicker(games.length - 1, new Set()) && search()) return true;
+
+    const game = games.length - 1;
+    const picker = pickedBy.find(picked => picked.includes(game));
+    picker?.splice(picker.indexOf(game), 1);
+    games.pop();
+    open[week][a] = true;
+    open[week][b] = true;
+    gamesLeft[a][b]++;
+    gamesLeft[b][a]++;
+    return false;
+  };
+
+  const canPair = (week: number, a: number, b: number) =>
+    a !== b && open[week][b] && gamesLeft[a][b] > 0 && (picks[a] > 0 || picks[b] > 0);
+  const getPartners = (week: number, roster: number) => rosters.filter(other => canPair(week, roster, other));
+
+  let steps = 0;
+  const search = (): boolean => {
+    if (++steps > SCHEDULE_SEARCH_LIMIT) throw new ScheduleSearchLimitReached();
+
+    // A week with an odd number of free rosters leaves at least one of them sitting out
+    if (open.reduce((total, week) => total + (week.filter(Boolean).length % 2), 0) > sitOuts) return false;
+
+    // Games each pair can still play in weeks both are free, and what that leaves each roster
+    const pairs: Array<{ a: number; b: number; weeks: number[]; reachable: number }> = [];
+    const reachable = rosters.map(() => 0);
+    for (const a of rosters) {
+      for (let b = a + 1; b < rosters.length; b++) {
+        if (!gamesLeft[a][b] || (!picks[a] && !picks[b])) continue;
+        const weeks = open.map((_, week) => week).filter(week => open[week][a] && open[week][b]);
+        const pairReachable = Math.min(gamesLeft[a][b], weeks.length);
+        if (!pairReachable) continue;
+        pairs.push({ a, b, weeks, reachable: pairReachable });
+        reachable[a] += pairReachable;
+        reachable[b] += pairReachable;
+      }
+    }
+    const gamesNeeded = totalPicks - games.length;
+    const pairSlack = pairs.reduce((total, pair) => total + pair.reachable, 0) - gamesNeeded;
+    if (pairSlack < 0) return false;
+    const weekCapacity = open.reduce((total, week) => total + Math.floor(week.filter(Boolean).length / 2), 0);
+    if (gamesNeeded > weekCapacity) return false;
+
+    const placed = rosters.map(() => 0);
+    for (const [a, b] of games) {
+      placed[a]++;
+      placed[b]++;
+    }
+    for (const roster of rosters) {
+      // Enough games left for its own picks, and no more needed with it than it has free weeks
+      if (placed[roster] + reachable[roster] < picks[roster]) return false;
+      if (reachable[roster] - pairSlack > countOpen(roster)) return false;
+    }
+    // Free weeks a roster can't fill have to be sit-outs
+    const forcedSitOuts = rosters.reduce((total, roster) => total + Math.max(0, countOpen(roster) - reachable[roster]), 0);
+    if (forcedSitOuts > sitOuts) return false;
+
+    let slot: { week: number; roster: number; partners: number[]; options: number } | null = null;
+    for (const [week, free] of open.entries()) {
+      for (const roster of rosters) {
+        if (!free[roster]) continue;
+        const partners = getPartners(week, roster);
+        const options = partners.length + (sitOuts > 0 && sitOutsLeft[roster] > 0 ? 1 : 0);
+        if (options === 0) return false;
+        if (!slot || options < slot.options) slot = { week, roster, partners, options };
+      }
+    }
+    if (!slot) return true;
+
+    // A pair whose games are all needed, if it has fewer weeks to play them in than the slot has options
+    const pair = pairs
+      .filter(candidate => candidate.reachable > pairSlack)
+      .reduce<(typeof pairs)[number] | null>((best, candidate) =>
+        !best || candidate.weeks.length < best.weeks.length ? candidate : best, null);
+    if (pair && pair.weeks.length <= slot.options) {
+      // Fill the busiest weeks first, keeping emptier weeks flexible
+      const weeks = [...pair.weeks].sort((x, y) => open[x].filter(Boolean).length - open[y].filter(Boolean).length);
+      return weeks.some(week => placeGame(week, pair.a, pair.b));
+    }
+
+    const { week, roster, partners } = slot;
+    open[week][roster] = false;
+    // Partners with the fewest other options first
+    const ordered = [...partners].sort((x, y) => getPartners(week, x).length - getPartners(week, y).length);
+    for (const partner of ordered) {
+      open[week][roster] = true;
+      if (placeGame(week, roster, partner)) return true;
+      open[week][roster] = false;
+    }
+    if (sitOuts > 0 && sitOutsLeft[roster] > 0) {
+      sitOuts--;
+      sitOutsLeft[roster]--;
+      if (search()) return true;
+      sitOuts++;
+      sitOutsLeft[roster]++;
+    }
+    open[week][roster] = true;
+    return false;
+  };
+
+  try {
+    return search();
+  } catch (error) {
+    if (error instanceof ScheduleSearchLimitReached) return false;
+    throw error;
+  }
+}
+
+/**
+ * Whether every roster's remaining picks can still be made, within the opponent limit if there is one
+ */
+export function isScheduleFeasible(state: MatchupScheduleState): boolean {
+  if (!canMeetOpponentLimit(state)) return false;
+  if (!canFitFreeWeeks(state)) return false;
+  return state.maxGamesPerOpponent == null || canCompleteSchedule(state);
+}
+
+/**
+ * Whether the remaining picks fit the rosters' free weeks, pairing any two free rosters
+ * Exact without an opponent limit.
+ */
+function canFitFreeWeeks(state: MatchupScheduleState): boolean {
+  const freeByWeek = getFreeRostersByWeek(state);
+  const pickers = state.rosterIds.filter(rosterId => (state.remainingPicks.get(rosterId) || 0) > 0);
+  const demand = pickers.reduce((total, rosterId) => total + (state.remainingPicks.get(rosterId) || 0), 0);
+
+  const capacity = new Map(state.weeks.map(week => [week, Math.floor(freeByWeek.get(week)!.size / 2)]));
+  const totalCapacity = [...capacity.values()].reduce((total, value) => total + value, 0);
+  if (demand > totalCapacity) return false;
+
+  // Weeks each picker is assigned to; augmenting paths move pickers between weeks to make room
+  const assignedWeeks = new Map<number, Set<number>>(pickers.map(rosterId => [rosterId, new Set()]));
+  const weekPickers = new Map<number, Set<number>>(state.weeks.map(week => [week, new Set()]));
+
+  const augment = (rosterId: number, visited: Set<number>): boolean => {
+    for (const week of state.weeks) {
+      if (visited.has(week) || assignedWeeks.get(rosterId)!.has(week)) continue;
+      if (!freeByWeek.get(week)!.has(rosterId)) continue;
+      visited.add(week);
+
+      const assigned = weekPickers.get(week)!;
+      if (assigned.size < capacity.get(week)!) {
+        assigned.add(rosterId);
+        assignedWeeks.get(rosterId)!.add(week);
+        return true;
+      }
+
+      // Week is full: try moving one of its pickers to another week
+      for (const other of [...assigned]) {
+        if (other === rosterId) continue;
+        assignedWeeks.get(other)!.delete(week);
+        assigned.delete(other);
+        if (augment(other, visited)) {
+          assigned.add(rosterId);
+          assignedWeeks.get(rosterId)!.add(week);
+          return true;
+        }
+        assigned.add(other);
+        assignedWeeks.get(other)!.add(week);
+      }
+    }
+    return false;
+  };
+
+  for (const rosterId of pickers) {
+    for (let pick = 0; pick < (state.remainingPicks.get(rosterId) || 0); pick++) {
+      if (!augment(rosterId, new Set())) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Schedule after a pick is made
+ */
+export function applyMatchupPick(state: MatchupScheduleState, pick: ScheduledMatchup): MatchupScheduleState {
+  const remainingPicks = new Map(state.remainingPicks);
+  remainingPicks.set(pick.rosterId, Math.max(0, (remainingPicks.get(pick.rosterId) || 0) - 1));
+  return { ...state, games: [...state.games, pick], remainingPicks };
+}
+
+/**
+ * Why a pick can't be made, or null when it keeps the schedule complete and consistent
+ */
+export function getMatchupPickViolation(state: MatchupScheduleState, pick: ScheduledMatchup): string | null {
+  if (pick.rosterId === pick.opponentRosterId) {
+    return 'You cannot select yourself as an opponent';
+  }
+  if (!state.weeks.includes(pick.weekNumber)) {
+    return `Week ${pick.weekNumber} is not part of this matchup draft`;
+  }
+  if ((state.remainingPicks.get(pick.rosterId) || 0) === 0) {
+    return 'You have no picks left in this draft';
+  }
+
+  const freeRosters = getFreeRostersByWeek(state).get(pick.weekNumber)!;
+  if (!freeRosters.has(pick.rosterId)) {
+    return `You already have a matchup in week ${pick.weekNumber}`;
+  }
+  if (!freeRosters.has(pick.opponentRosterId)) {
+    return `That opponent already has a matchup in week ${pick.weekNumber}`;
+  }
+  if (isOpponentLimitReached(state, pick.rosterId, pick.opponentRosterId)) {
+    return `You already play that opponent ${state.maxGamesPerOpponent} time(s), the most this draft allows`;
+  }
+
+  if (!isScheduleFeasible(applyMatchupPick(state, pick))) {
+    return 'This pick would leave another roster unable to complete its schedule';
+  }
+  return null;
+}
+
+/**
+ * Report each roster's open weeks and the weeks it can still fill
+ */
+export function getMatchupScheduleReport(state: MatchupScheduleState): MatchupScheduleReport {
+  const feasible = isScheduleFeasible(state);
+  const freeByWeek = getFreeRostersByWeek(state);
+
+  const rosters = state.rosterIds.map(rosterId => {
+    const openWeeks = state.weeks.filter(week => freeByWeek.get(week)!.has(rosterId));
+
+    const fillableWeeks = !feasible ? [] : openWeeks.filter(week =>
+      [...freeByWeek.get(week)!].some(opponentRosterId => {
+        if (opponentRosterId === rosterId) return false;
+        if (isOpponentLimitReached(state, rosterId, opponentRosterId)) return false;
+
+        // The game can be this roster's pick or the opponent's
+        return [rosterId, opponentRosterId].some(pickerId =>
+          (state.remainingPicks.get(pickerId) || 0) > 0 &&
+          isScheduleFeasible(applyMatchupPick(state, {
+            rosterId: pickerId,
+            opponentRosterId: pickerId === rosterId ? opponentRosterId : rosterId,
+            weekNumber: week,
+          }))
+        );
+      })
+    );
+
+    return {
+      rosterId,
+      remainingPicks: state.remainingPicks.get(rosterId) || 0,
+      openWeeks,
+      fillableWeeks,
+    };
+  });
+
+  return { feasible, rosters };
+}
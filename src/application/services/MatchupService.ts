@@ -0,0 +1,367 @@
+import { Pool } from 'pg';
+import { League } from '../../domain/models/League';
+import { Matchup, MatchupSource } from '../../domain/models/Matchup';
+import {
+  IMatchupRepository,
+  CreateMatchupData,
+  MatchupScoreUpdate,
+} from '../../domain/repositories/IMatchupRepository';
+import { ILeagueRepository } from '../../domain/repositories/ILeagueRepository';
+import { IPlayerStatsRepository } from '../../domain/repositories/IPlayerStatsRepository';
+import { FantasyPointsCalculator, ScoringSettings } from './FantasyPointsCalculator';
+import { normalizeLineupIds } from './LineupService';
+import {
+  ValidationException,
+  NotFoundException,
+} from '../../domain/exceptions/AuthExceptions';
+
+/**
+ * League context needed to materialize a week
+ */
+interface LeagueScheduleContext {
+  season: string;
+  startWeek: number;
+  playoffWeekStart: number;
+}
+
+/**
+ * Generate one round of a round-robin schedule using the circle method.
+ * The first roster stays fixed while the others rotate each round; with an
+ * odd number of rosters a bye slot is added and whoever draws it sits out.
+ *
+ * @param rosterIds - rosters.id values in a stable order
+ * @param roundIndex - zero-based round; wraps around after a full cycle
+ */
+export function generateRoundRobinPairings(
+  rosterIds: number[],
+  roundIndex: number
+): CreateMatchupData[] {
+  if (rosterIds.length < 2) {
+    return [];
+  }
+
+  const slots: Array<number | null> = [...rosterIds];
+  if (slots.length % 2 !== 0) {
+    slots.push(null);
+  }
+
+  const roundsPerCycle = slots.length - 1;
+  const round = ((roundIndex % roundsPerCycle) + roundsPerCycle) % roundsPerCycle;
+
+  // Rotate everything except the fixed first slot
+  const rotating = slots.slice(1);
+  const rotated = [
+    ...rotating.slice(rotating.length - round),
+    ...rotating.slice(0, rotating.length - round),
+  ];
+  const arrangement = [slots[0], ...rotated];
+
+  const pairings: CreateMatchupData[] = [];
+  const half = arrangement.length / 2;
+  for (let i = 0; i < half; i++) {
+    const home = arrangement[i];
+    const away = arrangement[arrangement.length - 1 - i];
+    if (home !== null && away !== null) {
+      pairings.push({ roster1Id: home, roster2Id: away });
+    }
+  }
+
+  return pairings;
+}
+
+/**
+ * Sum a roster's points from its starters only; bench players don't score
+ * Empty or unreadable starter slots count as 0, as do players without stats for the week.
+ *
+ * @param pointsByPlayer - week points keyed by players.id
+ */
+export function getStarterPoints(roster: { starters: unknown }, pointsByPlayer: Map<number, number>): number {
+  const total = normalizeLineupIds(roster.starters).reduce<number>(
+    (sum, playerId) => sum + (playerId !== null ? pointsByPlayer.get(playerId) ?? 0 : 0),
+    0
+  );
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Score updates for a week's matchups; final matchups keep the score they were locked with
+ * @param rosterPoints - starter points keyed by rosters.id
+ */
+export function buildScoreUpdates(matchups: Matchup[], rosterPoints: Map<number, number>): MatchupScoreUpdate[] {
+  return matchups
+    .filter(matchup => !matchup.isFinal)
+    .map(matchup => ({
+      matchupId: matchup.id,
+      roster1Score: rosterPoints.get(matchup.roster1Id) ?? 0,
+      roster2Score: rosterPoints.get(matchup.roster2Id) ?? 0,
+    }));
+}
+
+/**
+ * Service for persisted head-to-head matchups
+ * Materializes each week's pairings from a completed matchup draft or a round-robin schedule
+ */
+export class MatchupService {
+  constructor(
+    private readonly matchupRepository: IMatchupRepository,
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly playerStatsRepository: IPlayerStatsRepository,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Get matchups for a league week, materializing them on first access
+   */
+  async getWeekMatchups(leagueId: number, userId: string, week: number): Promise<Matchup[]> {
+    if (!Number.isInteger(week) || week < 1 || week > 18) {
+      throw new ValidationException('Invalid week number (1-18)');
+    }
+
+    const isMember = await this.leagueRepository.isUserMember(leagueId, userId);
+    if (!isMember) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    return this.ensureWeekMatchups(leagueId, week);
+  }
+
+  /**
+   * Return a week's matchups, creating them if they don't exist yet.
+   * Only regular season weeks are generated; other weeks return whatever is persisted.
+   */
+  async ensureWeekMatchups(leagueId: number, week: number): Promise<Matchup[]> {
+    const context = await this.getScheduleContext(leagueId);
+
+    const existing = await this.matchupRepository.findByLeagueAndWeek(leagueId, context.season, week);
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    if (week < context.startWeek || week >= context.playoffWeekStart) {
+      return [];
+    }
+
+    const generated = await this.buildWeekPairings(leagueId, week, context);
+    if (!generated || generated.pairings.length === 0) {
+      return [];
+    }
+
+    return this.matchupRepository.createForWeek(
+      leagueId,
+      context.season,
+      week,
+      generated.pairings,
+      generated.source
+    );
+  }
+
+  /**
+   * Recalculate each roster's starter points for a week and persist them on the matchups.
+   * Starters are read from rosters.starters (players.id values); empty slots count as 0.
+   */
+  async updateWeekScores(
+    leagueId: number,
+    week: number,
+    seasonType: string = 'regular'
+  ): Promise<Matchup[]> {
+    const matchups = await this.ensureWeekMatchups(leagueId, week);
+    if (matchups.length === 0) {
+      return [];
+    }
+
+    const league = await this.leagueRepository.findById(leagueId);
+    if (!league) {
+      throw new NotFoundException('League not found');
+    }
+
+    const season = matchups[0].season;
+    const rosterPoints = await this.calculateStarterPoints(
+      leagueId,
+      season,
+      week,
+      seasonType,
+      league.scoringSettings as ScoringSettings
+    );
+
+    await this.matchupRepository.updateScores(buildScoreUpdates(matchups, rosterPoints));
+
+    return this.matchupRepository.findByLeagueAndWeek(leagueId, season, week);
+  }
+
+  /**
+   * Recalculate a week's scores one last time and lock the results
+   */
+  async finalizeWeek(
+    leagueId: number,
+    week: number,
+    seasonType: string = 'regular'
+  ): Promise<Matchup[]> {
+    const matchups = await this.updateWeekScores(leagueId, week, seasonType);
+    if (matchups.length === 0) {
+      return [];
+    }
+
+    return this.matchupRepository.finalizeWeek(leagueId, matchups[0].season, week);
+  }
+
+  /**
+   * Sum fantasy points of each roster's starters for a week
+   * @returns Map of rosters.id to points
+   */
+  private async calculateStarterPoints(
+    leagueId: number,
+    season: string,
+    week: number,
+    seasonType: string,
+    scoringSettings: ScoringSettings
+  ): Promise<Map<number, number>> {
+    const rostersResult = await this.pool.query(
+      'SELECT id, starters FROM rosters WHERE league_id = $1',
+      [leagueId]
+    );
+
+    const playerIds = [
+      ...new Set(
+        rostersResult.rows
+          .flatMap(row => normalizeLineupIds(row.starters))
+          .filter((playerId): playerId is number => playerId !== null)
+      ),
+    ];
+    const playerBySleeperId = new Map<string, number>();
+    if (playerIds.length > 0) {
+      const playersResult = await this.pool.query(
+        'SELECT id, sleeper_id FROM players WHERE id = ANY($1)',
+        [playerIds]
+      );
+      for (const row of playersResult.rows) {
+        playerBySleeperId.set(row.sleeper_id, row.id);
+      }
+    }
+
+    const weeklyStats = await this.playerStatsRepository.findByPlayersAndWeek(
+      [...playerBySleeperId.keys()],
+      season,
+      week,
+      seasonType
+    );
+
+    const calculator = new FantasyPointsCalculator(scoringSettings);
+    const pointsByPlayer = new Map<number, number>();
+    for (const stat of weeklyStats) {
+      const playerId = playerBySleeperId.get(stat.playerSleeperId);
+      if (playerId !== undefined) {
+        pointsByPlayer.set(playerId, calculator.calculatePoints(stat));
+      }
+    }
+
+    const rosterPoints = new Map<number, number>();
+    for (const row of rostersResult.rows) {
+      rosterPoints.set(row.id, getStarterPoints(row, pointsByPlayer));
+    }
+
+    return rosterPoints;
+  }
+
+  /**
+   * Decide where a week's pairings come from.
+   * Returns null while a matchup draft is underway so nothing is locked in prematurely.
+   */
+  private async buildWeekPairings(
+    leagueId: number,
+    week: number,
+    context: LeagueScheduleContext
+  ): Promise<{ pairings: CreateMatchupData[]; source: MatchupSource } | null> {
+    const rosterIds = await this.getLeagueRosterIds(leagueId);
+
+    const draftResult = await this.pool.query(
+      'SELECT id, status FROM matchup_drafts WHERE league_id = $1',
+      [leagueId]
+    );
+    const matchupDraft = draftResult.rows[0];
+
+    if (matchupDraft && (matchupDraft.status === 'in_progress' || matchupDraft.status === 'paused')) {
+      return null;
+    }
+
+    if (matchupDraft && matchupDraft.status === 'completed') {
+      const pairings = await this.buildPairingsFromMatchupDraft(matchupDraft.id, week, rosterIds);
+      return { pairings, source: 'matchup_draft' };
+    }
+
+    const pairings = generateRoundRobinPairings(rosterIds, week - context.startWeek);
+    return { pairings, source: 'round_robin' };
+  }
+
+  /**
+   * Build pairings from matchup draft picks for a week.
+   * Picks are applied in pick order; a pick involving a roster that is already
+   * paired that week is ignored. Rosters left unpaired are matched against each other.
+   */
+  private async buildPairingsFromMatchupDraft(
+    draftId: number,
+    week: number,
+    rosterIds: number[]
+  ): Promise<CreateMatchupData[]> {
+    const picksResult = await this.pool.query(
+      `SELECT roster_id, opponent_roster_id
+       FROM matchup_draft_picks
+       WHERE draft_id = $1 AND week_number = $2
+       ORDER BY pick_number ASC`,
+      [draftId, week]
+    );
+
+    const paired = new Set<number>();
+    const pairings: CreateMatchupData[] = [];
+
+    for (const pick of picksResult.rows) {
+      if (pick.roster_id === pick.opponent_roster_id) {
+        continue;
+      }
+      if (paired.has(pick.roster_id) || paired.has(pick.opponent_roster_id)) {
+        continue;
+      }
+      pairings.push({ roster1Id: pick.roster_id, roster2Id: pick.opponent_roster_id });
+      paired.add(pick.roster_id);
+      paired.add(pick.opponent_roster_id);
+    }
+
+    const unpaired = rosterIds.filter(id => !paired.has(id));
+    for (let i = 0; i + 1 < unpaired.length; i += 2) {
+      pairings.push({ roster1Id: unpaired[i], roster2Id: unpaired[i + 1] });
+    }
+
+    return pairings;
+  }
+
+  /**
+   * Get rosters.id values for a league ordered by roster slot
+   */
+  private async getLeagueRosterIds(leagueId: number): Promise<number[]> {
+    const result = await this.pool.query(
+      'SELECT id FROM rosters WHERE league_id = $1 ORDER BY roster_id ASC',
+      [leagueId]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Get season and regular season week range for a league
+   */
+  private async getScheduleContext(leagueId: number): Promise<LeagueScheduleContext> {
+    const result = await this.pool.query(
+      'SELECT season, settings FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    const league = result.rows[0];
+    return {
+      season: league.season,
+      startWeek: league.settings?.start_week || 1,
+      playoffWeekStart: League.getPlayoffWeekStart(league.settings),
+    };
+  }
+}
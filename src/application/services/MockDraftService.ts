@@ -0,0 +1,515 @@
+import { Pool, PoolClient } from 'pg';
+import { PlayerFilters } from '../../domain/repositories/IDraftRepository';
+import { IPlayerProjectionRepository } from '../../domain/repositories/IPlayerProjectionRepository';
+import { MockDraft, MockDraftScoringType } from '../../domain/models/MockDraft';
+import { MockDraftPick } from '../../domain/models/MockDraftPick';
+import { Player } from '../../domain/models/Player';
+import { getDraftPositionForPickNumber } from './DraftRuntimeService';
+import { getAutopickStrategy, getSeasonProjectedPoints } from './AutopickStrategies';
+import { assignStarters } from './RosterPopulationService';
+import { buildStarterSlots } from './LineupService';
+import { ValidationException, NotFoundException } from '../../domain/exceptions/AuthExceptions';
+import { withTransaction } from '../../db/transaction';
+
+/**
+ * Starting lineup used when a mock draft doesn't set roster_positions
+ */
+export const DEFAULT_MOCK_ROSTER_POSITIONS = [
+  { position: 'QB', count: 1 },
+  { position: 'RB', count: 2 },
+  { position: 'WR', count: 2 },
+  { position: 'TE', count: 1 },
+  { position: 'FLEX', count: 1 },
+  { position: 'K', count: 1 },
+  { position: 'DEF', count: 1 },
+  { position: 'BN', count: 6 },
+];
+
+/**
+ * How many of the top projected players CPU opponents choose from
+ */
+const CPU_CANDIDATE_LIMIT = 300;
+
+/**
+ * Mock draft with its picks and whose turn it is
+ */
+export interface MockDraftState {
+  mockDraft: MockDraft;
+  picks: MockDraftPick[];
+  currentSlot: number | null;
+  isUserTurn: boolean;
+}
+
+/**
+ * CPU picks made by one scheduler run for one mock draft
+ */
+export interface MockDraftCpuRun {
+  mockDraft: MockDraft;
+  picks: MockDraftPick[];
+}
+
+export interface CreateMockDraftParams {
+  draftType: string;
+  thirdRoundReversal?: boolean;
+  teamCount: number;
+  rounds: number;
+  userSlot: number;
+  scoringType: MockDraftScoringType;
+  season?: string;
+  playerPool?: string;
+  rosterPositions?: any[];
+  cpuPickSeconds: number;
+}
+
+/**
+ * Scoring settings matching a mock draft's reception scoring, for getSeasonProjectedPoints
+ */
+export function getMockScoringSettings(scoringType: MockDraftScoringType): { receptions: number } {
+  switch (scoringType) {
+    case 'ppr':
+      return { receptions: 1 };
+    case 'half_ppr':
+      return { receptions: 0.5 };
+    default:
+      return { receptions: 0 };
+  }
+}
+
+/**
+ * Round, pick in round and draft slot of an overall pick in a mock draft
+ */
+export function getMockPickInfo(
+  mockDraft: Pick<MockDraft, 'draftType' | 'thirdRoundReversal' | 'teamCount'>,
+  pickNumber: number
+): { round: number; pickInRound: number; slot: number } {
+  return {
+    round: Math.ceil(pickNumber / mockDraft.teamCount),
+    pickInRound: ((pickNumber - 1) % mockDraft.teamCount) + 1,
+    slot: getDraftPositionForPickNumber(mockDraft, mockDraft.teamCount, pickNumber),
+  };
+}
+
+/**
+ * Service for mock drafts against CPU opponents
+ * Mock drafts use their own tables and never post to league chat. CPU slots draft with the
+ * best_available autopick strategy, ranked by season projections for the mock's scoring type.
+ */
+export class MockDraftService {
+  constructor(
+    private readonly pool: Pool,
+    private readonly projectionRepository?: IPlayerProjectionRepository
+  ) {}
+
+  /**
+   * Start a mock draft; CPUs ahead of the user's slot start picking right away
+   */
+  async createMockDraft(userId: string, params: CreateMockDraftParams): Promise<MockDraftState> {
+    if (params.userSlot > params.teamCount) {
+      throw new ValidationException('Draft slot cannot be greater than the number of teams');
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO mock_drafts (
+        user_id, draft_type, third_round_reversal, team_count, rounds, user_slot,
+        scoring_type, season, player_pool, roster_positions, cpu_pick_seconds, current_pick
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 1)
+      RETURNING *`,
+      [
+        userId,
+        params.draftType,
+        params.thirdRoundReversal ?? false,
+        params.teamCount,
+        params.rounds,
+        params.userSlot,
+        params.scoringType,
+        params.season ?? String(new Date().getFullYear()),
+        params.playerPool ?? 'all',
+        JSON.stringify(params.rosterPositions?.length ? params.rosterPositions : DEFAULT_MOCK_ROSTER_POSITIONS),
+        params.cpuPickSeconds,
+      ]
+    );
+
+    const mockDraftId = result.rows[0].id;
+    await withTransaction(async (client) => {
+      const mockDraft = await this.lockMockDraft(client, mockDraftId);
+      await this.runCpuPicks(client, mockDraft, new Date(), true);
+    }, this.pool);
+
+    return this.getMockDraftState(mockDraftId, userId);
+  }
+
+  /**
+   * Get a user's mock drafts, newest first
+   */
+  async getUserMockDrafts(userId: string): Promise<MockDraft[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM mock_drafts WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(row => MockDraft.fromDatabase(row));
+  }
+
+  async getMockDraftState(mockDraftId: number, userId: string): Promise<MockDraftState> {
+    const mockDraft = await this.getOwnedMockDraft(mockDraftId, userId);
+    const picks = await this.getPicks(mockDraftId);
+    const currentSlot = mockDraft.currentPick ? getMockPickInfo(mockDraft, mockDraft.currentPick).slot : null;
+
+    return {
+      mockDraft,
+      picks,
+      currentSlot,
+      isUserTurn: mockDraft.status === 'in_progress' && currentSlot === mockDraft.userSlot,
+    };
+  }
+
+  /**
+   * Get players not yet drafted in a mock draft
+   */
+  async getAvailablePlayers(mockDraftId: number, userId: string, filters?: PlayerFilters): Promise<Player[]> {
+    const mockDraft = await this.getOwnedMockDraft(mockDraftId, userId);
+    return this.findAvailablePlayers(this.pool, mockDraft, filters);
+  }
+
+  /**
+   * Make the user's pick, then let the CPUs pick until it's the user's turn again
+   * With a CPU pick speed of 0 the CPUs pick immediately; otherwise the mock draft job picks for them.
+   */
+  async makePick(mockDraftId: number, userId: string, playerId: number): Promise<MockDraftState> {
+    await this.getOwnedMockDraft(mockDraftId, userId);
+
+    await withTransaction(async (client) => {
+      const mockDraft = await this.lockMockDraft(client, mockDraftId);
+
+      if (mockDraft.status !== 'in_progress' || !mockDraft.currentPick) {
+        throw new ValidationException('Mock draft is not in progress');
+      }
+
+      if (getMockPickInfo(mockDraft, mockDraft.currentPick).slot !== mockDraft.userSlot) {
+        throw new ValidationException('It is not your turn to pick');
+      }
+
+      const available = await this.findAvailablePlayers(client, mockDraft, { playerIds: [playerId] });
+      if (available.length === 0) {
+        throw new ValidationException('Player is not available');
+      }
+
+      const updated = await this.recordPick(client, mockDraft, playerId, false, new Date());
+      await this.runCpuPicks(client, updated, new Date(), true);
+    }, this.pool);
+
+    return this.getMockDraftState(mockDraftId, userId);
+  }
+
+  /**
+   * Change how long each CPU pick takes
+   */
+  async updateCpuPickSpeed(mockDraftId: number, userId: string, cpuPickSeconds: number): Promise<MockDraft> {
+    await this.getOwnedMockDraft(mockDraftId, userId);
+
+    const result = await this.pool.query(
+      `UPDATE mock_drafts SET
+        cpu_pick_seconds = $1,
+        next_pick_at = CASE
+          WHEN next_pick_at IS NULL THEN NULL
+          ELSE CURRENT_TIMESTAMP + make_interval(secs => $1)
+        END
+      WHERE id = $2
+      RETURNING *`,
+      [cpuPickSeconds, mockDraftId]
+    );
+
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+
+  async deleteMockDraft(mockDraftId: number, userId: string): Promise<void> {
+    await this.getOwnedMockDraft(mockDraftId, userId);
+    await this.pool.query('DELETE FROM mock_drafts WHERE id = $1', [mockDraftId]);
+  }
+
+  /**
+   * Make CPU picks that are due
+   * Called by the mock draft job.
+   */
+  async processDueCpuPicks(now: Date = new Date()): Promise<MockDraftCpuRun[]> {
+    const dueResult = await this.pool.query(
+      `SELECT id FROM mock_drafts
+       WHERE status = 'in_progress'
+       AND next_pick_at IS NOT NULL
+       AND next_pick_at <= $1
+       ORDER BY next_pick_at
+       LIMIT 50`,
+      [now]
+    );
+
+    const runs: MockDraftCpuRun[] = [];
+    for (const row of dueResult.rows) {
+      try {
+        const run = await withTransaction(async (client) => {
+          const mockDraft = await this.lockMockDraft(client, row.id);
+          return this.runCpuPicks(client, mockDraft, now, false);
+        }, this.pool);
+
+        if (run.picks.length > 0) {
+          runs.push(run);
+        }
+      } catch (error) {
+        console.error(`[Mock Draft] Error processing mock draft ${row.id}:`, error);
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Make CPU picks while a CPU is on the clock and its pick is due
+   * @param startingTurn - a CPU just came on the clock, so the first pick waits cpu_pick_seconds
+   */
+  private async runCpuPicks(
+    client: PoolClient,
+    mockDraft: MockDraft,
+    now: Date,
+    startingTurn: boolean
+  ): Promise<MockDraftCpuRun> {
+    const pickNumbers: number[] = [];
+    let current = mockDraft;
+    let projections: Map<string, number> | null = null;
+
+    while (current.status === 'in_progress' && current.currentPick) {
+      if (getMockPickInfo(current, current.currentPick).slot === current.userSlot) {
+        break;
+      }
+
+      // Pace CPU picks unless the user asked for instant picks
+      const waiting = startingTurn || (current.nextPickAt !== null && current.nextPickAt > now);
+      if (current.cpuPickSeconds > 0 && (waiting || pickNumbers.length > 0)) {
+        current = await this.scheduleNextPick(client, current, now);
+        break;
+      }
+
+      projections = projections ?? await this.getProjections(current);
+      const player = await this.selectCpuPlayer(client, current, projections);
+      if (!player) {
+        // Player pool exhausted; nothing left for anyone to draft
+        current = await this.completeMockDraft(client, current);
+        break;
+      }
+
+      pickNumbers.push(current.currentPick);
+      current = await this.recordPick(client, current, player.id, true, now);
+    }
+
+    const picks = pickNumbers.length > 0
+      ? (await this.getPicks(current.id, client)).filter(pick => pickNumbers.includes(pick.pickNumber))
+      : [];
+
+    return { mockDraft: current, picks };
+  }
+
+  /**
+   * Choose a player for the CPU slot on the clock, filling its open starting slots first
+   */
+  private async selectCpuPlayer(
+    client: PoolClient,
+    mockDraft: MockDraft,
+    projections: Map<string, number>
+  ): Promise<Player | null> {
+    const slot = getMockPickInfo(mockDraft, mockDraft.currentPick!).slot;
+
+    const topProjected = [...projections.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CPU_CANDIDATE_LIMIT)
+      .map(([sleeperId]) => sleeperId);
+
+    let availablePlayers = topProjected.length > 0
+      ? await this.findAvailablePlayers(client, mockDraft, { sleeperIds: topProjected })
+      : [];
+    if (availablePlayers.length === 0) {
+      availablePlayers = await this.findAvailablePlayers(client, mockDraft);
+    }
+
+    const rosterResult = await client.query(
+      `SELECT p.*
+       FROM mock_draft_picks mdp
+       INNER JOIN players p ON p.id = mdp.player_id
+       WHERE mdp.mock_draft_id = $1 AND mdp.slot = $2
+       ORDER BY mdp.pick_number`,
+      [mockDraft.id, slot]
+    );
+    const slots = buildStarterSlots(mockDraft.rosterPositions);
+    const { starters } = assignStarters(rosterResult.rows.map(row => Player.fromDatabase(row)), slots);
+
+    return getAutopickStrategy('best_available').selectPlayer({
+      queuedPlayer: null,
+      availablePlayers,
+      projections,
+      openSlots: slots.filter((_, index) => starters[index] === null),
+      positionPriority: [],
+    });
+  }
+
+  /**
+   * Insert a pick for the slot on the clock and move to the next pick
+   */
+  private async recordPick(
+    client: PoolClient,
+    mockDraft: MockDraft,
+    playerId: number,
+    isCpu: boolean,
+    now: Date
+  ): Promise<MockDraft> {
+    const pickNumber = mockDraft.currentPick!;
+    const { round, pickInRound, slot } = getMockPickInfo(mockDraft, pickNumber);
+
+    await client.query(
+      `INSERT INTO mock_draft_picks (
+        mock_draft_id, pick_number, round, pick_in_round, slot, player_id, is_cpu, picked_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [mockDraft.id, pickNumber, round, pickInRound, slot, playerId, isCpu, now]
+    );
+
+    if (pickNumber >= mockDraft.teamCount * mockDraft.rounds) {
+      return this.completeMockDraft(client, mockDraft);
+    }
+
+    const result = await client.query(
+      `UPDATE mock_drafts SET current_pick = $1, next_pick_at = NULL WHERE id = $2 RETURNING *`,
+      [pickNumber + 1, mockDraft.id]
+    );
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+
+  private async scheduleNextPick(client: PoolClient, mockDraft: MockDraft, now: Date): Promise<MockDraft> {
+    // Keep an existing due time so re-running before it doesn't push the pick back
+    if (mockDraft.nextPickAt && mockDraft.nextPickAt > now) {
+      return mockDraft;
+    }
+
+    const result = await client.query(
+      'UPDATE mock_drafts SET next_pick_at = $1 WHERE id = $2 RETURNING *',
+      [new Date(now.getTime() + mockDraft.cpuPickSeconds * 1000), mockDraft.id]
+    );
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+
+  private async completeMockDraft(client: PoolClient, mockDraft: MockDraft): Promise<MockDraft> {
+    const result = await client.query(
+      `UPDATE mock_drafts SET
+        status = 'completed',
+        current_pick = NULL,
+        next_pick_at = NULL,
+        completed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *`,
+      [mockDraft.id]
+    );
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+
+  /**
+   * Season projected points keyed by Sleeper ID, in the mock draft's scoring format
+   */
+  private async getProjections(mockDraft: MockDraft): Promise<Map<string, number>> {
+    const projections = new Map<string, number>();
+    if (!this.projectionRepository) return projections;
+
+    const scoringSettings = getMockScoringSettings(mockDraft.scoringType);
+    const totals = await this.projectionRepository.findSeasonTotals(mockDraft.season);
+    for (const total of totals) {
+      projections.set(total.playerSleeperId, getSeasonProjectedPoints(total, scoringSettings));
+    }
+    return projections;
+  }
+
+  private async findAvailablePlayers(
+    db: Pool | PoolClient,
+    mockDraft: MockDraft,
+    filters?: PlayerFilters & { playerIds?: number[] }
+  ): Promise<Player[]> {
+    const conditions: string[] = [
+      'active = true',
+      'id NOT IN (SELECT player_id FROM mock_draft_picks WHERE mock_draft_id = $1)',
+    ];
+    const values: any[] = [mockDraft.id];
+    let paramIndex = 2;
+
+    // Player pool filter
+    if (mockDraft.playerPool === 'rookie') {
+      conditions.push(`years_exp = 0`);
+    } else if (mockDraft.playerPool === 'vet') {
+      conditions.push(`years_exp > 0`);
+    }
+
+    if (filters?.position && filters.position !== 'ALL') {
+      conditions.push(`position = $${paramIndex++}`);
+      values.push(filters.position);
+    }
+
+    if (filters?.team) {
+      conditions.push(`team = $${paramIndex++}`);
+      values.push(filters.team);
+    }
+
+    if (filters?.search) {
+      conditions.push(`full_name ILIKE $${paramIndex++}`);
+      values.push(`%${filters.search}%`);
+    }
+
+    if (filters?.sleeperIds) {
+      conditions.push(`sleeper_id = ANY($${paramIndex++})`);
+      values.push(filters.sleeperIds);
+    }
+
+    if (filters?.playerIds) {
+      conditions.push(`id = ANY($${paramIndex++})`);
+      values.push(filters.playerIds);
+    }
+
+    const result = await db.query(
+      `SELECT * FROM players
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY full_name
+       LIMIT 500`,
+      values
+    );
+    return result.rows.map(row => Player.fromDatabase(row));
+  }
+
+  private async getPicks(mockDraftId: number, db: Pool | PoolClient = this.pool): Promise<MockDraftPick[]> {
+    const result = await db.query(
+      `SELECT
+        mdp.*,
+        p.full_name as player_name,
+        p.position as player_position,
+        p.team as player_team
+      FROM mock_draft_picks mdp
+      LEFT JOIN players p ON p.id = mdp.player_id
+      WHERE mdp.mock_draft_id = $1
+      ORDER BY mdp.pick_number`,
+      [mockDraftId]
+    );
+    return result.rows.map(row => MockDraftPick.fromDatabase(row));
+  }
+
+  private async getOwnedMockDraft(mockDraftId: number, userId: string): Promise<MockDraft> {
+    const result = await this.pool.query(
+      'SELECT * FROM mock_drafts WHERE id = $1 AND user_id = $2',
+      [mockDraftId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('Mock draft not found');
+    }
+
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+
+  private async lockMockDraft(client: PoolClient, mockDraftId: number): Promise<MockDraft> {
+    const result = await client.query('SELECT * FROM mock_drafts WHERE id = $1 FOR UPDATE', [mockDraftId]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('Mock draft not found');
+    }
+
+    return MockDraft.fromDatabase(result.rows[0]);
+  }
+}
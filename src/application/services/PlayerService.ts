@@ -1,6 +1,22 @@
-import { IPlayerRepository, PlayerFilters } from '../../domain/repositories/IPlayerRepository';
+import {
+  IPlayerRepository,
+  PlayerFilters,
+  AdpScoringType,
+  AdpSegment,
+  PlayerSortField,
+} from '../../domain/repositories/IPlayerRepository';
 import { Player } from '../../domain/models/Player';
 
+/**
+ * ADP scoring segment for a league's scoring settings, matching the player_adp view
+ */
+export function getAdpScoringType(scoringSettings: Record<string, any> | null | undefined): AdpScoringType {
+  const receptions = Number(scoringSettings?.receptions ?? 0);
+  if (receptions >= 1) return 'ppr';
+  if (receptions >= 0.5) return 'half_ppr';
+  return 'standard';
+}
+
 export class PlayerService {
   constructor(private readonly playerRepository: IPlayerRepository) {}
 
@@ -16,7 +32,14 @@ export class PlayerService {
     return this.playerRepository.search(filters);
   }
 
-  async getActivePlayers(): Promise<Player[]> {
-    return this.playerRepository.getActivePlayers();
+  async getActivePlayers(sort?: PlayerSortField, adp?: AdpSegment): Promise<Player[]> {
+    return this.playerRepository.getActivePlayers(sort, adp);
+  }
+
+  /**
+   * Recalculate ADP from completed drafts
+   */
+  async refreshAdp(): Promise<void> {
+    return this.playerRepository.refreshAdp();
   }
 }
@@ -0,0 +1,447 @@
+import { Pool } from 'pg';
+import { League } from '../../domain/models/League';
+import { Matchup, PlayoffBracket } from '../../domain/models/Matchup';
+import { Standing } from '../../domain/models/Standing';
+import {
+  IMatchupRepository,
+  CreateMatchupData,
+} from '../../domain/repositories/IMatchupRepository';
+import {
+  IPlayoffRepository,
+  PlayoffSeed,
+  CreatePlayoffSeedData,
+} from '../../domain/repositories/IPlayoffRepository';
+import { IStandingsRepository } from '../../domain/repositories/IStandingsRepository';
+import { ILeagueRepository } from '../../domain/repositories/ILeagueRepository';
+import { ChatService } from './ChatService';
+import {
+  ValidationException,
+  NotFoundException,
+} from '../../domain/exceptions/AuthExceptions';
+
+export type PlayoffTiebreaker = 'head_to_head' | 'points_for' | 'points_against';
+
+const DEFAULT_PLAYOFF_TEAMS = 4;
+const DEFAULT_TIEBREAKERS: PlayoffTiebreaker[] = ['head_to_head', 'points_for'];
+
+/**
+ * League playoff configuration read from settings
+ */
+interface PlayoffContext {
+  season: string;
+  status: string;
+  playoffWeekStart: number;
+  playoffTeams: number;
+  tiebreakers: PlayoffTiebreaker[];
+  consolation: boolean;
+}
+
+/**
+ * Playoff bracket response
+ */
+export interface PlayoffBracketView {
+  season: string;
+  playoffWeekStart: number;
+  seeds: PlayoffSeed[];
+  matchups: Matchup[];
+}
+
+/**
+ * Order standings for seeding: win percentage first, then the configured tiebreakers
+ * among teams with the same win percentage, then roster slot for a stable result.
+ *
+ * @param matchups - final regular season matchups, used for head-to-head
+ * @returns rosters.id values from best to worst
+ */
+export function rankForSeeding(
+  standings: Standing[],
+  matchups: Matchup[],
+  tiebreakers: PlayoffTiebreaker[]
+): number[] {
+  const sorted = [...standings].sort((a, b) => b.winPercentage - a.winPercentage);
+
+  const ranked: number[] = [];
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i + 1;
+    while (j < sorted.length && sorted[j].winPercentage === sorted[i].winPercentage) {
+      j++;
+    }
+
+    const group = sorted.slice(i, j);
+    if (group.length > 1) {
+      const groupIds = new Set(group.map(s => s.rosterId));
+      const headToHead = new Map<number, number>();
+
+      if (tiebreakers.includes('head_to_head')) {
+        for (const standing of group) {
+          const games = matchups.filter(
+            m => m.involvesRoster(standing.rosterId) &&
+              groupIds.has(m.roster1Id) && groupIds.has(m.roster2Id)
+          );
+          const score = games.reduce((sum, m) => {
+            if (m.winnerRosterId === null) return sum + 0.5;
+            return sum + (m.winnerRosterId === standing.rosterId ? 1 : 0);
+          }, 0);
+          headToHead.set(standing.rosterId, games.length > 0 ? score / games.length : 0);
+        }
+      }
+
+      group.sort((a, b) => {
+        for (const tiebreaker of tiebreakers) {
+          let diff = 0;
+          if (tiebreaker === 'head_to_head') {
+            diff = (headToHead.get(b.rosterId) ?? 0) - (headToHead.get(a.rosterId) ?? 0);
+          } else if (tiebreaker === 'points_for') {
+            diff = b.pointsFor - a.pointsFor;
+          } else if (tiebreaker === 'points_against') {
+            // Fewer points allowed ranks higher
+            diff = a.pointsAgainst - b.pointsAgainst;
+          }
+          if (diff !== 0) return diff;
+        }
+        return (a.rosterNumber ?? a.rosterId) - (b.rosterNumber ?? b.rosterId);
+      });
+    }
+
+    ranked.push(...group.map(s => s.rosterId));
+    i = j;
+  }
+
+  return ranked;
+}
+
+/**
+ * Standard bracket order for a power-of-two bracket, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6].
+ * Adjacent entries meet in the first round, and the top seeds can only meet late.
+ */
+export function getBracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap(seed => [seed, next + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * Number of rounds needed for a bracket of the given team count
+ */
+export function getBracketRounds(teamCount: number): number {
+  return teamCount < 2 ? 0 : Math.ceil(Math.log2(teamCount));
+}
+
+/**
+ * First round slots for a bracket. Seeds beyond the team count are byes,
+ * so the top seeds advance without playing when the count isn't a power of two.
+ */
+export function buildFirstRound(teamCount: number): Array<{ slot: number; highSeed: number; lowSeed: number | null }> {
+  const size = Math.pow(2, getBracketRounds(teamCount));
+  const order = getBracketSeedOrder(size);
+
+  const slots: Array<{ slot: number; highSeed: number; lowSeed: number | null }> = [];
+  for (let i = 0; i < order.length; i += 2) {
+    const high = Math.min(order[i], order[i + 1]);
+    const low = Math.max(order[i], order[i + 1]);
+    slots.push({ slot: i / 2 + 1, highSeed: high, lowSeed: low <= teamCount ? low : null });
+  }
+  return slots;
+}
+
+/**
+ * Service for playoff brackets
+ * Seeds from final standings, advances winners each week and completes the league after the final
+ */
+export class PlayoffService {
+  constructor(
+    private readonly playoffRepository: IPlayoffRepository,
+    private readonly matchupRepository: IMatchupRepository,
+    private readonly standingsRepository: IStandingsRepository,
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly chatService: ChatService,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Get the playoff bracket for a league
+   */
+  async getBracket(leagueId: number, userId: string): Promise<PlayoffBracketView> {
+    const isMember = await this.leagueRepository.isUserMember(leagueId, userId);
+    if (!isMember) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    const context = await this.getPlayoffContext(leagueId);
+    const seeds = await this.playoffRepository.findSeeds(leagueId, context.season);
+    const matchups = await this.matchupRepository.findBracketByLeague(leagueId, context.season);
+
+    return {
+      season: context.season,
+      playoffWeekStart: context.playoffWeekStart,
+      seeds,
+      matchups,
+    };
+  }
+
+  /**
+   * Freeze seeds from final standings and create the first playoff round.
+   * Safe to call more than once; existing seeds are left untouched.
+   */
+  async seedPlayoffs(leagueId: number): Promise<PlayoffSeed[]> {
+    const context = await this.getPlayoffContext(leagueId);
+
+    const existing = await this.playoffRepository.findSeeds(leagueId, context.season);
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    const standings = await this.standingsRepository.findByLeague(leagueId, context.season);
+    const playoffTeams = Math.min(context.playoffTeams, standings.length);
+    if (playoffTeams < 2) {
+      return [];
+    }
+
+    const rounds = getBracketRounds(playoffTeams);
+    const finalWeek = context.playoffWeekStart + rounds - 1;
+    if (finalWeek > 18) {
+      throw new ValidationException(
+        `A ${playoffTeams}-team bracket starting week ${context.playoffWeekStart} would end after week 18`
+      );
+    }
+
+    const finalMatchups = await this.matchupRepository.findFinalByLeague(leagueId, context.season);
+    const regularSeason = finalMatchups.filter(m => m.week < context.playoffWeekStart);
+    const ranked = rankForSeeding(standings, regularSeason, context.tiebreakers);
+
+    const seeds: CreatePlayoffSeedData[] = ranked.slice(0, playoffTeams).map((rosterId, index) => ({
+      rosterId,
+      bracket: 'winners',
+      seed: index + 1,
+    }));
+
+    const remaining = ranked.slice(playoffTeams);
+    if (context.consolation && remaining.length >= 2) {
+      seeds.push(
+        ...remaining.map((rosterId, index) => ({
+          rosterId,
+          bracket: 'consolation' as PlayoffBracket,
+          seed: index + 1,
+        }))
+      );
+    }
+
+    const savedSeeds = await this.playoffRepository.createSeeds(leagueId, context.season, seeds);
+
+    const pairings: CreateMatchupData[] = [
+      ...this.buildFirstRoundPairings(savedSeeds, 'winners'),
+      ...this.buildFirstRoundPairings(savedSeeds, 'consolation'),
+    ];
+    await this.matchupRepository.createForWeek(
+      leagueId,
+      context.season,
+      context.playoffWeekStart,
+      pairings,
+      'playoff'
+    );
+
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `🏈 Playoffs are set! ${playoffTeams} teams start in week ${context.playoffWeekStart}`,
+      { event: 'playoffs_seeded', playoff_teams: playoffTeams }
+    );
+
+    return savedSeeds;
+  }
+
+  /**
+   * Advance winners after a playoff week has been finalized.
+   * Creates the next round, or completes the league once the final is decided.
+   */
+  async advanceBracket(leagueId: number, week: number): Promise<void> {
+    const context = await this.getPlayoffContext(leagueId);
+    const seeds = await this.playoffRepository.findSeeds(leagueId, context.season);
+    if (seeds.length === 0) {
+      return;
+    }
+
+    const round = week - context.playoffWeekStart + 1;
+    const winnersSeeds = seeds.filter(s => s.bracket === 'winners');
+    const winnersRounds = getBracketRounds(winnersSeeds.length);
+    if (round < 1 || round > winnersRounds) {
+      return;
+    }
+
+    const bracketMatchups = await this.matchupRepository.findBracketByLeague(leagueId, context.season);
+
+    if (round === winnersRounds) {
+      const champion = this.resolveSlotWinner(winnersSeeds, bracketMatchups, 'winners', round, 1);
+      await this.completeLeague(leagueId, context, champion, seeds);
+      return;
+    }
+
+    const consolationSeeds = seeds.filter(s => s.bracket === 'consolation');
+    const consolationRounds = Math.min(getBracketRounds(consolationSeeds.length), winnersRounds);
+
+    const pairings: CreateMatchupData[] = [
+      ...this.buildNextRoundPairings(winnersSeeds, bracketMatchups, 'winners', round),
+    ];
+    if (round < consolationRounds) {
+      pairings.push(
+        ...this.buildNextRoundPairings(consolationSeeds, bracketMatchups, 'consolation', round)
+      );
+    }
+
+    await this.matchupRepository.createForWeek(
+      leagueId,
+      context.season,
+      week + 1,
+      pairings,
+      'playoff'
+    );
+  }
+
+  /**
+   * Build first round matchups for a bracket; byes get no matchup
+   */
+  private buildFirstRoundPairings(
+    seeds: PlayoffSeed[],
+    bracket: PlayoffBracket
+  ): CreateMatchupData[] {
+    const bracketSeeds = seeds.filter(s => s.bracket === bracket);
+    const rosterBySeed = new Map(bracketSeeds.map(s => [s.seed, s.rosterId]));
+
+    return buildFirstRound(bracketSeeds.length)
+      .filter(slot => slot.lowSeed !== null)
+      .map(slot => ({
+        roster1Id: rosterBySeed.get(slot.highSeed)!,
+        roster2Id: rosterBySeed.get(slot.lowSeed!)!,
+        bracket,
+        bracketRound: 1,
+        bracketSlot: slot.slot,
+      }));
+  }
+
+  /**
+   * Pair the winners of adjacent slots in a finished round
+   */
+  private buildNextRoundPairings(
+    seeds: PlayoffSeed[],
+    bracketMatchups: Matchup[],
+    bracket: PlayoffBracket,
+    finishedRound: number
+  ): CreateMatchupData[] {
+    const slotsInRound = Math.pow(2, getBracketRounds(seeds.length) - finishedRound);
+    const pairings: CreateMatchupData[] = [];
+
+    for (let slot = 1; slot <= slotsInRound / 2; slot++) {
+      const first = this.resolveSlotWinner(seeds, bracketMatchups, bracket, finishedRound, slot * 2 - 1);
+      const second = this.resolveSlotWinner(seeds, bracketMatchups, bracket, finishedRound, slot * 2);
+      if (first === null || second === null) {
+        continue;
+      }
+
+      const seedOf = (rosterId: number) => seeds.find(s => s.rosterId === rosterId)?.seed ?? Infinity;
+      const [higher, lower] = seedOf(first) <= seedOf(second) ? [first, second] : [second, first];
+
+      pairings.push({
+        roster1Id: higher,
+        roster2Id: lower,
+        bracket,
+        bracketRound: finishedRound + 1,
+        bracketSlot: slot,
+      });
+    }
+
+    return pairings;
+  }
+
+  /**
+   * Resolve who advanced from a bracket slot.
+   * First round byes advance the seeded team; ties go to the higher seed.
+   * @returns rosters.id, or null if the slot isn't decided yet
+   */
+  private resolveSlotWinner(
+    seeds: PlayoffSeed[],
+    bracketMatchups: Matchup[],
+    bracket: PlayoffBracket,
+    round: number,
+    slot: number
+  ): number | null {
+    if (round === 1) {
+      const firstRoundSlot = buildFirstRound(seeds.length).find(s => s.slot === slot);
+      if (firstRoundSlot && firstRoundSlot.lowSeed === null) {
+        return seeds.find(s => s.seed === firstRoundSlot.highSeed)?.rosterId ?? null;
+      }
+    }
+
+    const matchup = bracketMatchups.find(
+      m => m.bracket === bracket && m.bracketRound === round && m.bracketSlot === slot
+    );
+    if (!matchup || !matchup.isFinal) {
+      return null;
+    }
+
+    if (matchup.winnerRosterId !== null) {
+      return matchup.winnerRosterId;
+    }
+
+    // roster1 is always the higher seed in bracket matchups
+    return matchup.roster1Id;
+  }
+
+  /**
+   * Mark the league complete and announce the champion
+   */
+  private async completeLeague(
+    leagueId: number,
+    context: PlayoffContext,
+    championRosterId: number | null,
+    seeds: PlayoffSeed[]
+  ): Promise<void> {
+    if (context.status === 'complete') {
+      return;
+    }
+
+    await this.pool.query(
+      `UPDATE leagues SET status = 'complete', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [leagueId]
+    );
+
+    const champion = seeds.find(s => s.rosterId === championRosterId);
+    const name = champion?.username || (champion ? `Team ${champion.rosterNumber}` : 'The champion');
+
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `🏆 ${name} won the championship!`,
+      { event: 'league_complete', champion_roster_id: championRosterId }
+    );
+  }
+
+  /**
+   * Get playoff configuration from league settings
+   */
+  private async getPlayoffContext(leagueId: number): Promise<PlayoffContext> {
+    const result = await this.pool.query(
+      'SELECT season, status, settings FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    const league = result.rows[0];
+    const settings = league.settings || {};
+
+    return {
+      season: league.season,
+      status: league.status,
+      playoffWeekStart: League.getPlayoffWeekStart(settings),
+      playoffTeams: settings.playoff_teams || DEFAULT_PLAYOFF_TEAMS,
+      tiebreakers: Array.isArray(settings.playoff_tiebreakers) && settings.playoff_tiebreakers.length > 0
+        ? settings.playoff_tiebreakers
+        : DEFAULT_TIEBREAKERS,
+      consolation: settings.playoff_consolation === true,
+    };
+  }
+}
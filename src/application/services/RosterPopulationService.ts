@@ -0,0 +1,144 @@
+import { Pool } from 'pg';
+import { Player } from '../../domain/models/Player';
+import { IPlayerRepository } from '../../domain/repositories/IPlayerRepository';
+import { LineupSlot, buildStarterSlots, isEligibleForSlot, normalizeLineupIds } from './LineupService';
+import { NotFoundException } from '../../domain/exceptions/AuthExceptions';
+import { withTransaction } from '../../db/transaction';
+import { logError } from '../../infrastructure/logger/Logger';
+
+/**
+ * Split players into slot-aligned starters and bench.
+ * Slots are filled in order, each taking the earliest listed player who is eligible;
+ * slots nobody can fill stay null and everyone left over goes to the bench.
+ *
+ * @param players - players in draft order
+ */
+export function assignStarters(
+  players: Player[],
+  slots: LineupSlot[]
+): { starters: Array<number | null>; bench: number[] } {
+  const assigned = new Set<number>();
+
+  const starters = slots.map(slot => {
+    const player = players.find(p => !assigned.has(p.id) && isEligibleForSlot(p, slot));
+    if (!player) {
+      return null;
+    }
+    assigned.add(player.id);
+    return player.id;
+  });
+
+  const bench = players.filter(p => !assigned.has(p.id)).map(p => p.id);
+
+  return { starters, bench };
+}
+
+/**
+ * Service that moves drafted players onto league rosters
+ */
+export class RosterPopulationService {
+  constructor(
+    private readonly playerRepository: IPlayerRepository,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Replace every roster in the draft's league with the players it drafted.
+   * Dynasty rosters carry over between seasons, so their drafted players are added
+   * after the players already on the roster instead.
+   * Runs in a single transaction so a failed sync leaves rosters untouched.
+   *
+   * @returns number of rosters updated
+   */
+  async populateFromDraft(draftId: number): Promise<number> {
+    const leagueResult = await this.pool.query(
+      `SELECT l.id, l.roster_positions, l.settings
+       FROM drafts d
+       INNER JOIN leagues l ON l.id = d.league_id
+       WHERE d.id = $1`,
+      [draftId]
+    );
+
+    if (leagueResult.rows.length === 0) {
+      throw new NotFoundException('Draft not found');
+    }
+
+    const league = leagueResult.rows[0];
+    const slots = buildStarterSlots(league.roster_positions);
+    const isDynasty = league.settings?.league_type === 'dynasty';
+
+    const [rostersResult, picksResult] = await Promise.all([
+      this.pool.query('SELECT id, starters, bench FROM rosters WHERE league_id = $1', [league.id]),
+      this.pool.query(
+        `SELECT roster_id, player_id
+         FROM draft_picks
+         WHERE draft_id = $1 AND player_id IS NOT NULL
+         ORDER BY pick_number ASC`,
+        [draftId]
+      ),
+    ]);
+
+    const keptPlayerIds = new Map<number, number[]>(
+      rostersResult.rows.map(roster => [
+        roster.id,
+        isDynasty
+          ? [...normalizeLineupIds(roster.starters), ...normalizeLineupIds(roster.bench)]
+              .filter((id): id is number => id !== null)
+          : [],
+      ])
+    );
+
+    const players = await this.playerRepository.findByIds([
+      ...[...keptPlayerIds.values()].flat(),
+      ...picksResult.rows.map(pick => pick.player_id),
+    ]);
+    const playersById = new Map(players.map(p => [p.id, p]));
+
+    const picksByRoster = new Map<number, Player[]>();
+    for (const [rosterId, playerIds] of keptPlayerIds) {
+      picksByRoster.set(
+        rosterId,
+        playerIds.map(id => playersById.get(id)).filter((p): p is Player => p !== undefined)
+      );
+    }
+
+    for (const pick of picksResult.rows) {
+      const player = playersById.get(pick.player_id);
+      if (!player) {
+        continue;
+      }
+      const rosterPlayers = picksByRoster.get(pick.roster_id) || [];
+      if (rosterPlayers.some(p => p.id === player.id)) {
+        continue;
+      }
+      rosterPlayers.push(player);
+      picksByRoster.set(pick.roster_id, rosterPlayers);
+    }
+
+    await withTransaction(async (client) => {
+      for (const roster of rostersResult.rows) {
+        const { starters, bench } = assignStarters(picksByRoster.get(roster.id) || [], slots);
+        await client.query(
+          `UPDATE rosters
+           SET starters = $1, bench = $2, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3`,
+          [JSON.stringify(starters), JSON.stringify(bench), roster.id]
+        );
+      }
+    }, this.pool);
+
+    return rostersResult.rows.length;
+  }
+
+  /**
+   * Fill rosters from a just-completed draft
+   * Failures are logged rather than thrown so the draft still completes; commissioners can re-sync
+   */
+  async populateCompletedDraft(draftId: number): Promise<void> {
+    try {
+      await this.populateFromDraft(draftId);
+    } catch (error) {
+      logError(error as Error, { context: 'RosterPopulationService.populateCompletedDraft', draftId });
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { Pool } from 'pg';
+import { League } from '../../domain/models/League';
+import { Matchup } from '../../domain/models/Matchup';
+import { Standing } from '../../domain/models/Standing';
+import {
+  IStandingsRepository,
+  StandingData,
+} from '../../domain/repositories/IStandingsRepository';
+import { IMatchupRepository } from '../../domain/repositories/IMatchupRepository';
+import { ILeagueRepository } from '../../domain/repositories/ILeagueRepository';
+import { NotFoundException } from '../../domain/exceptions/AuthExceptions';
+
+/**
+ * Build standings rows from final matchups.
+ * Matchups must be final; they are processed in week order so the streak reflects the latest result.
+ */
+export function calculateStandings(matchups: Matchup[]): StandingData[] {
+  const standings = new Map<number, StandingData>();
+  const results = new Map<number, Array<'W' | 'L' | 'T'>>();
+
+  const getRow = (rosterId: number): StandingData => {
+    let row = standings.get(rosterId);
+    if (!row) {
+      row = { rosterId, wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0, streak: null };
+      standings.set(rosterId, row);
+      results.set(rosterId, []);
+    }
+    return row;
+  };
+
+  const ordered = [...matchups].sort((a, b) => a.week - b.week || a.id - b.id);
+
+  for (const matchup of ordered) {
+    for (const rosterId of [matchup.roster1Id, matchup.roster2Id]) {
+      const row = getRow(rosterId);
+      const { pointsFor, pointsAgainst } = matchup.getScoresFor(rosterId);
+
+      row.pointsFor += pointsFor;
+      row.pointsAgainst += pointsAgainst;
+
+      let result: 'W' | 'L' | 'T';
+      if (matchup.winnerRosterId === null) {
+        result = 'T';
+        row.ties++;
+      } else if (matchup.winnerRosterId === rosterId) {
+        result = 'W';
+        row.wins++;
+      } else {
+        result = 'L';
+        row.losses++;
+      }
+      results.get(rosterId)!.push(result);
+    }
+  }
+
+  for (const row of standings.values()) {
+    row.pointsFor = Math.round(row.pointsFor * 100) / 100;
+    row.pointsAgainst = Math.round(row.pointsAgainst * 100) / 100;
+
+    const history = results.get(row.rosterId)!;
+    const last = history[history.length - 1];
+    let length = 0;
+    for (let i = history.length - 1; i >= 0 && history[i] === last; i--) {
+      length++;
+    }
+    row.streak = last ? `${last}${length}` : null;
+  }
+
+  return [...standings.values()];
+}
+
+/**
+ * Service for league standings
+ * Standings are rebuilt from final regular season matchups
+ */
+export class StandingsService {
+  constructor(
+    private readonly standingsRepository: IStandingsRepository,
+    private readonly matchupRepository: IMatchupRepository,
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Get standings for a league, ranked by win percentage then points for
+   */
+  async getStandings(leagueId: number, userId: string): Promise<Standing[]> {
+    const isMember = await this.leagueRepository.isUserMember(leagueId, userId);
+    if (!isMember) {
+      throw new NotFoundException('League not found or access denied');
+    }
+
+    const { season } = await this.getSeasonContext(leagueId);
+    const standings = await this.standingsRepository.findByLeague(leagueId, season);
+
+    return standings.sort(
+      (a, b) => b.winPercentage - a.winPercentage || b.pointsFor - a.pointsFor
+    );
+  }
+
+  /**
+   * Rebuild standings from every final regular season matchup
+   */
+  async recalculateStandings(leagueId: number): Promise<void> {
+    const { season, playoffWeekStart } = await this.getSeasonContext(leagueId);
+
+    const finalMatchups = await this.matchupRepository.findFinalByLeague(leagueId, season);
+    const regularSeason = finalMatchups.filter(m => m.week < playoffWeekStart);
+
+    await this.standingsRepository.replaceForLeague(
+      leagueId,
+      season,
+      calculateStandings(regularSeason)
+    );
+  }
+
+  /**
+   * Get season and first playoff week for a league
+   */
+  private async getSeasonContext(
+    leagueId: number
+  ): Promise<{ season: string; playoffWeekStart: number }> {
+    const result = await this.pool.query(
+      'SELECT season, settings FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    const league = result.rows[0];
+    return {
+      season: league.season,
+      playoffWeekStart: League.getPlayoffWeekStart(league.settings),
+    };
+  }
+}
@@ -0,0 +1,765 @@
+import { Pool } from 'pg';
+import { Trade, TradeItem, TradeStatus } from '../../domain/models/Trade';
+import {
+  ITradeRepository,
+  CreateTradeItemData,
+  TradePickTransfer,
+  TradeRosterResolution,
+  TradeRosterUpdate,
+} from '../../domain/repositories/ITradeRepository';
+import { IRosterRepository, Roster } from '../../domain/repositories/IRosterRepository';
+import { IDraftRepository } from '../../domain/repositories/IDraftRepository';
+import { ITradeEventsPublisher } from './ITradeEventsPublisher';
+import { CurrentWeekService } from './CurrentWeekService';
+import { ChatService } from './ChatService';
+import { applyRosterMoves, getRosterCapacity, normalizeLineupIds } from './LineupService';
+import { getPickNumberForSlot } from './DraftRuntimeService';
+import {
+  ValidationException,
+  NotFoundException,
+  ForbiddenException,
+} from '../../domain/exceptions/AuthExceptions';
+
+/**
+ * Default veto window when the league sets a veto threshold but no period
+ */
+const DEFAULT_VETO_PERIOD_HOURS = 24;
+
+/**
+ * A draft pick, identified by draft, round and the roster (rosters.id) that originally held it
+ */
+export interface TradePickRef {
+  draftId: number;
+  round: number;
+  originalRosterId: number;
+}
+
+/**
+ * Players and draft picks offered in a proposal or counter
+ */
+export interface TradeOffer {
+  givePlayerIds: number[];
+  receivePlayerIds: number[];
+  givePicks?: TradePickRef[];
+  receivePicks?: TradePickRef[];
+  message?: string | null;
+}
+
+/**
+ * League settings that govern trading
+ */
+interface TradeLeagueContext {
+  season: string | null;
+  seasonType: string;
+  status: string;
+  tradeDeadlineWeek: number | null;
+  vetoThreshold: number | null;
+  vetoPeriodHours: number;
+  rosterPositions: unknown;
+}
+
+/**
+ * Check an offer's players against both rosters
+ * @param capacity - max players per roster; 0 disables the check
+ * @returns a failure reason, or null if the players can be offered
+ */
+export function getTradeOfferFailure(
+  offer: TradeOffer,
+  proposerPlayerIds: number[],
+  receiverPlayerIds: number[],
+  capacity: number
+): string | null {
+  const givePicks = offer.givePicks ?? [];
+  const receivePicks = offer.receivePicks ?? [];
+
+  if (
+    offer.givePlayerIds.length === 0 &&
+    offer.receivePlayerIds.length === 0 &&
+    givePicks.length === 0 &&
+    receivePicks.length === 0
+  ) {
+    return 'A trade must include at least one player or pick';
+  }
+
+  const allIds = [...offer.givePlayerIds, ...offer.receivePlayerIds];
+  if (new Set(allIds).size !== allIds.length) {
+    return 'A player can only appear once in a trade';
+  }
+
+  const pickKeys = [...givePicks, ...receivePicks].map(
+    pick => `${pick.draftId}:${pick.round}:${pick.originalRosterId}`
+  );
+  if (new Set(pickKeys).size !== pickKeys.length) {
+    return 'A pick can only appear once in a trade';
+  }
+
+  if (offer.givePlayerIds.some(id => !proposerPlayerIds.includes(id))) {
+    return 'You can only offer players on your roster';
+  }
+
+  if (offer.receivePlayerIds.some(id => !receiverPlayerIds.includes(id))) {
+    return 'Requested players must be on the other roster';
+  }
+
+  if (capacity > 0) {
+    const net = offer.receivePlayerIds.length - offer.givePlayerIds.length;
+    if (proposerPlayerIds.length + net > capacity || receiverPlayerIds.length - net > capacity) {
+      return `This trade would put a roster over the ${capacity} player limit`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that every player in a trade is still on the roster sending it and that neither
+ * roster would go over the limit, then build the lineups both rosters end up with
+ * @param capacity - max players per roster; 0 disables the check
+ */
+export function resolveTradeRosters(
+  trade: Trade,
+  rosters: Roster[],
+  capacity: number
+): TradeRosterResolution {
+  const updates: TradeRosterUpdate[] = [];
+
+  for (const rosterId of [trade.proposerRosterId, trade.receiverRosterId]) {
+    const roster = rosters.find(r => r.id === rosterId);
+    if (!roster) {
+      return { failure: 'A roster in this trade no longer exists', rosters: [] };
+    }
+
+    const playerIds = getRosterPlayerIds(roster);
+    const missing = trade.items.find(
+      item => item.fromRosterId === rosterId && item.playerId !== null && !playerIds.includes(item.playerId)
+    );
+    if (missing) {
+      return { failure: `${describeTradeItem(missing)} is no longer on the roster`, rosters: [] };
+    }
+
+    const outgoing = trade.getPlayersSentBy(rosterId);
+    const incoming = trade.items
+      .filter(item => item.toRosterId === rosterId && item.playerId !== null)
+      .map(item => item.playerId!);
+    if (capacity > 0 && playerIds.length - outgoing.length + incoming.length > capacity) {
+      return { failure: `A roster would exceed the ${capacity} player limit`, rosters: [] };
+    }
+
+    const { starters, bench } = applyRosterMoves(
+      normalizeLineupIds(roster.starters),
+      normalizeLineupIds(roster.bench).filter((id): id is number => id !== null),
+      incoming,
+      outgoing
+    );
+    updates.push({ rosterId, starters, bench });
+  }
+
+  return { failure: null, rosters: updates };
+}
+
+/**
+ * When an accepted trade's veto window ends
+ * @returns null when the league has no veto threshold and the trade executes immediately
+ */
+export function getTradeReviewEndsAt(
+  acceptedAt: Date,
+  vetoThreshold: number | null,
+  vetoPeriodHours: number
+): Date | null {
+  return vetoThreshold ? new Date(acceptedAt.getTime() + vetoPeriodHours * 60 * 60 * 1000) : null;
+}
+
+/**
+ * Display name for a trade item, e.g. "Bijan Robinson" or "Round 2 pick (alice)"
+ */
+function describeTradeItem(item: TradeItem): string {
+  if (item.playerId === null) {
+    return `Round ${item.pickRound} pick (${item.pickOriginalUsername || 'Team'})`;
+  }
+  return item.playerName || `Player #${item.playerId}`;
+}
+
+function getRosterPlayerIds(roster: Roster): number[] {
+  return [
+    ...normalizeLineupIds(roster.starters),
+    ...normalizeLineupIds(roster.bench),
+  ].filter((id): id is number => id !== null);
+}
+
+/**
+ * Service for trades between rosters
+ * Accepted trades either execute immediately or wait out the league's veto window
+ */
+export class TradeService {
+  constructor(
+    private readonly tradeRepository: ITradeRepository,
+    private readonly rosterRepository: IRosterRepository,
+    private readonly draftRepository: IDraftRepository,
+    private readonly currentWeekService: CurrentWeekService,
+    private readonly chatService: ChatService,
+    private readonly pool: Pool,
+    private readonly eventsPublisher?: ITradeEventsPublisher
+  ) {}
+
+  /**
+   * Get a league's trades, optionally filtered by status
+   */
+  async getTrades(leagueId: number, userId: string, statuses?: TradeStatus[]): Promise<Trade[]> {
+    await this.getUserRoster(leagueId, userId);
+    return this.tradeRepository.findByLeague(leagueId, statuses);
+  }
+
+  /**
+   * Get a single trade
+   */
+  async getTrade(leagueId: number, tradeId: number, userId: string): Promise<Trade> {
+    await this.getUserRoster(leagueId, userId);
+    return this.getLeagueTrade(leagueId, tradeId);
+  }
+
+  /**
+   * Propose a trade to another roster
+   * @param receiverRosterId - the other team's roster slot (rosters.roster_id)
+   */
+  async proposeTrade(
+    leagueId: number,
+    userId: string,
+    receiverRosterId: number,
+    offer: TradeOffer
+  ): Promise<Trade> {
+    const proposer = await this.getUserRoster(leagueId, userId);
+    const receiver = await this.rosterRepository.findByLeagueAndRosterId(leagueId, receiverRosterId);
+
+    if (!receiver) {
+      throw new NotFoundException('Roster not found');
+    }
+
+    if (receiver.id === proposer.id) {
+      throw new ValidationException('You cannot trade with yourself');
+    }
+
+    const league = await this.getLeagueContext(leagueId);
+    await this.assertTradingOpen(league);
+    await this.validateOffer(leagueId, proposer, receiver, offer, league);
+
+    const trade = await this.tradeRepository.create({
+      leagueId,
+      proposerRosterId: proposer.id,
+      receiverRosterId: receiver.id,
+      parentTradeId: null,
+      message: offer.message ?? null,
+      items: this.buildItems(proposer.id, receiver.id, offer),
+    });
+
+    this.eventsPublisher?.emitTradeProposed(leagueId, trade);
+
+    return trade;
+  }
+
+  /**
+   * Accept a trade offered to the user's roster
+   * With a veto threshold configured the trade enters review; otherwise it executes now.
+   */
+  async acceptTrade(leagueId: number, tradeId: number, userId: string): Promise<Trade> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const trade = await this.getLeagueTrade(leagueId, tradeId);
+
+    if (trade.receiverRosterId !== roster.id) {
+      throw new ForbiddenException('Only the receiving team can accept this trade');
+    }
+    this.assertStatus(trade, ['pending']);
+
+    const league = await this.getLeagueContext(leagueId);
+    await this.assertTradingOpen(league);
+
+    const failure = await this.checkExecutable(trade, league);
+    if (failure) {
+      throw new ValidationException(failure);
+    }
+
+    const now = new Date();
+    const reviewEndsAt = getTradeReviewEndsAt(now, league.vetoThreshold, league.vetoPeriodHours);
+
+    const accepted = await this.tradeRepository.transitionStatus(trade.id, ['pending'], 'accepted', {
+      acceptedAt: now,
+      reviewEndsAt,
+    });
+    if (!accepted) {
+      throw new ValidationException('Trade is no longer pending');
+    }
+
+    const updated = (await this.tradeRepository.findById(trade.id))!;
+    this.eventsPublisher?.emitTradeAccepted(leagueId, updated);
+
+    if (!reviewEndsAt) {
+      return this.executeTrade(updated);
+    }
+
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `🤝 ${this.describeTrade(updated)}. League members have ${league.vetoPeriodHours} hours to veto.`,
+      { event: 'trade_accepted', trade_id: updated.id }
+    );
+
+    return updated;
+  }
+
+  /**
+   * Reject a trade offered to the user's roster
+   */
+  async rejectTrade(leagueId: number, tradeId: number, userId: string): Promise<Trade> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const trade = await this.getLeagueTrade(leagueId, tradeId);
+
+    if (trade.receiverRosterId !== roster.id) {
+      throw new ForbiddenException('Only the receiving team can reject this trade');
+    }
+
+    const updated = await this.transition(trade, ['pending'], 'rejected');
+    this.eventsPublisher?.emitTradeRejected(leagueId, updated);
+
+    return updated;
+  }
+
+  /**
+   * Cancel a trade the user proposed
+   */
+  async cancelTrade(leagueId: number, tradeId: number, userId: string): Promise<Trade> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const trade = await this.getLeagueTrade(leagueId, tradeId);
+
+    if (trade.proposerRosterId !== roster.id) {
+      throw new ForbiddenException('Only the proposing team can cancel this trade');
+    }
+
+    const updated = await this.transition(trade, ['pending'], 'cancelled');
+    this.eventsPublisher?.emitTradeCancelled(leagueId, updated);
+
+    return updated;
+  }
+
+  /**
+   * Counter a trade offered to the user's roster
+   * The original trade is closed and a new one is proposed in the other direction.
+   */
+  async counterTrade(
+    leagueId: number,
+    tradeId: number,
+    userId: string,
+    offer: TradeOffer
+  ): Promise<Trade> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const trade = await this.getLeagueTrade(leagueId, tradeId);
+
+    if (trade.receiverRosterId !== roster.id) {
+      throw new ForbiddenException('Only the receiving team can counter this trade');
+    }
+    this.assertStatus(trade, ['pending']);
+
+    const league = await this.getLeagueContext(leagueId);
+    await this.assertTradingOpen(league);
+
+    const rosters = await this.getRostersById([trade.proposerRosterId]);
+    const proposer = rosters.get(trade.proposerRosterId);
+    if (!proposer) {
+      throw new NotFoundException('Roster not found');
+    }
+    await this.validateOffer(leagueId, roster, proposer, offer, league);
+
+    const countered = await this.transition(trade, ['pending'], 'countered');
+
+    const counter = await this.tradeRepository.create({
+      leagueId,
+      proposerRosterId: roster.id,
+      receiverRosterId: proposer.id,
+      parentTradeId: trade.id,
+      message: offer.message ?? null,
+      items: this.buildItems(roster.id, proposer.id, offer),
+    });
+
+    this.eventsPublisher?.emitTradeCountered(leagueId, countered, counter);
+
+    return counter;
+  }
+
+  /**
+   * Vote to veto an accepted trade during its review window
+   * Teams involved in the trade can't vote.
+   */
+  async vetoTrade(leagueId: number, tradeId: number, userId: string): Promise<Trade> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const trade = await this.getLeagueTrade(leagueId, tradeId);
+    const league = await this.getLeagueContext(leagueId);
+
+    if (!league.vetoThreshold) {
+      throw new ValidationException('This league does not allow trade vetoes');
+    }
+
+    if (trade.involvesRoster(roster.id)) {
+      throw new ForbiddenException('Teams involved in a trade cannot veto it');
+    }
+
+    this.assertStatus(trade, ['accepted']);
+    if (!trade.reviewEndsAt || trade.reviewEndsAt.getTime() <= Date.now()) {
+      throw new ValidationException('The veto period for this trade has ended');
+    }
+
+    const vetoCount = await this.tradeRepository.addVetoVote(trade.id, roster.id);
+
+    if (vetoCount >= league.vetoThreshold) {
+      const vetoed = await this.tradeRepository.transitionStatus(trade.id, ['accepted'], 'vetoed');
+      const updated = (await this.tradeRepository.findById(trade.id))!;
+
+      if (vetoed) {
+        this.eventsPublisher?.emitTradeVetoed(leagueId, updated);
+        await this.chatService.sendSystemMessage(
+          leagueId,
+          `🚫 The trade between ${updated.proposerUsername || 'Team'} and ${updated.receiverUsername || 'Team'} was vetoed`,
+          { event: 'trade_vetoed', trade_id: updated.id }
+        );
+      }
+
+      return updated;
+    }
+
+    const updated = (await this.tradeRepository.findById(trade.id))!;
+    this.eventsPublisher?.emitTradeVetoVote(leagueId, updated, vetoCount, league.vetoThreshold);
+
+    return updated;
+  }
+
+  /**
+   * Execute accepted trades whose veto window has ended
+   * Called by the trade review job.
+   *
+   * @returns number of trades processed
+   */
+  async processReviewedTrades(): Promise<number> {
+    const trades = await this.tradeRepository.findReadyToExecute(new Date());
+
+    for (const trade of trades) {
+      await this.executeTrade(trade);
+    }
+
+    return trades.length;
+  }
+
+  /**
+   * Move the players of an accepted trade
+   * Rosters are re-checked while locked; if they changed since acceptance so the trade no longer
+   * works, it is marked failed.
+   */
+  private async executeTrade(trade: Trade): Promise<Trade> {
+    const league = await this.getLeagueContext(trade.leagueId);
+    const capacity = getRosterCapacity(league.rosterPositions);
+
+    const picks: TradePickTransfer[] = trade.getPickItems().map(item => ({
+      draftId: item.draftId!,
+      round: item.pickRound!,
+      originalRosterId: item.pickOriginalRosterId!,
+      toRosterId: item.toRosterId,
+    }));
+
+    let failure = await this.checkPicks(trade);
+    let executed = false;
+
+    if (!failure) {
+      const execution = await this.tradeRepository.execute(
+        trade.id,
+        ['accepted'],
+        [trade.proposerRosterId, trade.receiverRosterId],
+        rosters => resolveTradeRosters(trade, rosters, capacity),
+        picks
+      );
+      failure = execution.failure;
+      executed = execution.executed;
+    }
+
+    if (failure) {
+      await this.tradeRepository.transitionStatus(trade.id, ['accepted'], 'failed', {
+        failureReason: failure,
+      });
+      const failed = (await this.tradeRepository.findById(trade.id))!;
+
+      this.eventsPublisher?.emitTradeFailed(trade.leagueId, failed);
+      await this.chatService.sendSystemMessage(
+        trade.leagueId,
+        `❌ The trade between ${trade.proposerUsername || 'Team'} and ${trade.receiverUsername || 'Team'} could not be processed: ${failure}`,
+        { event: 'trade_failed', trade_id: trade.id }
+      );
+
+      return failed;
+    }
+
+    const updated = (await this.tradeRepository.findById(trade.id))!;
+
+    if (executed) {
+      this.eventsPublisher?.emitTradeCompleted(trade.leagueId, updated);
+      await this.chatService.sendSystemMessage(
+        trade.leagueId,
+        `🤝 Trade completed: ${this.describeTrade(updated)}`,
+        { event: 'trade_completed', trade_id: updated.id }
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Check that every player and pick still belongs to the roster sending it and that
+   * neither roster would go over the league's roster limit
+   * @returns a failure reason, or null if the trade can go through
+   */
+  private async checkExecutable(trade: Trade, league: TradeLeagueContext): Promise<string | null> {
+    const rosters = await this.getRostersById([trade.proposerRosterId, trade.receiverRosterId]);
+    const { failure } = resolveTradeRosters(
+      trade,
+      [...rosters.values()],
+      getRosterCapacity(league.rosterPositions)
+    );
+
+    return failure ?? this.checkPicks(trade);
+  }
+
+  /**
+   * Check that every pick in a trade is still tradeable by the roster sending it
+   * @returns a failure reason, or null if all picks can move
+   */
+  private async checkPicks(trade: Trade): Promise<string | null> {
+    for (const item of trade.getPickItems()) {
+      const failure = await this.checkPick(
+        trade.leagueId,
+        { draftId: item.draftId!, round: item.pickRound!, originalRosterId: item.pickOriginalRosterId! },
+        item.fromRosterId
+      );
+      if (failure) {
+        return failure;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a draft pick can be traded by a roster
+   * Picks can be traded before the draft, or during it when settings.allow_trades_during_draft is on,
+   * as long as they haven't been used and aren't on the clock.
+   * @returns a failure reason, or null if the pick is tradeable
+   */
+  private async checkPick(
+    leagueId: number,
+    pick: TradePickRef,
+    fromRosterId: number
+  ): Promise<string | null> {
+    const draft = await this.draftRepository.findById(pick.draftId);
+    if (!draft || draft.leagueId !== leagueId) {
+      return 'Draft not found';
+    }
+
+    if (draft.status === 'completed') {
+      return 'Picks in a completed draft cannot be traded';
+    }
+
+    if (draft.status !== 'not_started' && !draft.settings?.allow_trades_during_draft) {
+      return 'Pick trades are not allowed while this draft is in progress';
+    }
+
+    if (pick.round < 1 || pick.round > draft.rounds) {
+      return `This draft only has ${draft.rounds} rounds`;
+    }
+
+    const draftOrder = await this.draftRepository.getDraftOrder(draft.id);
+    const slot = draftOrder.find(entry => entry.rosterId === pick.originalRosterId);
+    if (!slot) {
+      return 'That team does not have a pick in this draft';
+    }
+
+    const assets = await this.draftRepository.getPickAssets(draft.id);
+    const asset = assets.find(
+      a => a.round === pick.round && a.originalRosterId === pick.originalRosterId
+    );
+    if ((asset?.currentRosterId ?? pick.originalRosterId) !== fromRosterId) {
+      return `The round ${pick.round} pick is not owned by the team trading it`;
+    }
+
+    const keepers = await this.draftRepository.getKeepers(draft.id);
+    if (keepers.some(k => k.rosterId === pick.originalRosterId && k.roundCost === pick.round)) {
+      return `The round ${pick.round} pick is being used for a keeper`;
+    }
+
+    if (draft.currentPick && slot.draftPosition) {
+      const pickNumber = getPickNumberForSlot(draft, draftOrder.length, pick.round, slot.draftPosition);
+      if (pickNumber < draft.currentPick) {
+        return `The round ${pick.round} pick has already been used`;
+      }
+      if (pickNumber === draft.currentPick) {
+        return `The round ${pick.round} pick is on the clock`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate an offer before it is saved
+   */
+  private async validateOffer(
+    leagueId: number,
+    proposer: Roster,
+    receiver: Roster,
+    offer: TradeOffer,
+    league: TradeLeagueContext
+  ): Promise<void> {
+    const failure = getTradeOfferFailure(
+      offer,
+      getRosterPlayerIds(proposer),
+      getRosterPlayerIds(receiver),
+      getRosterCapacity(league.rosterPositions)
+    );
+    if (failure) {
+      throw new ValidationException(failure);
+    }
+
+    const givePicks = offer.givePicks ?? [];
+    const receivePicks = offer.receivePicks ?? [];
+    for (const [picks, rosterId] of [[givePicks, proposer.id], [receivePicks, receiver.id]] as const) {
+      for (const pick of picks) {
+        const failure = await this.checkPick(leagueId, pick, rosterId);
+        if (failure) {
+          throw new ValidationException(failure);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reject trade actions once the deadline week has passed or the season is over
+   */
+  private async assertTradingOpen(league: TradeLeagueContext): Promise<void> {
+    if (league.status === 'complete') {
+      throw new ValidationException('Trading is closed for this league');
+    }
+
+    if (!league.tradeDeadlineWeek || !league.season) {
+      return;
+    }
+
+    const currentWeek = await this.currentWeekService.getCurrentNFLWeek(league.season, league.seasonType);
+    if (currentWeek > league.tradeDeadlineWeek) {
+      throw new ValidationException(`The trade deadline (week ${league.tradeDeadlineWeek}) has passed`);
+    }
+  }
+
+  /**
+   * Move a trade to a new status and return the updated trade
+   */
+  private async transition(trade: Trade, from: TradeStatus[], to: TradeStatus): Promise<Trade> {
+    this.assertStatus(trade, from);
+
+    const updated = await this.tradeRepository.transitionStatus(trade.id, from, to);
+    if (!updated) {
+      throw new ValidationException(`Trade is no longer ${from.join(' or ')}`);
+    }
+
+    return (await this.tradeRepository.findById(trade.id))!;
+  }
+
+  private assertStatus(trade: Trade, allowed: TradeStatus[]): void {
+    if (!allowed.includes(trade.status)) {
+      throw new ValidationException(`Trade is ${trade.status}`);
+    }
+  }
+
+  private buildItems(
+    proposerRosterId: number,
+    receiverRosterId: number,
+    offer: TradeOffer
+  ): CreateTradeItemData[] {
+    const playerItem = (playerId: number, fromRosterId: number, toRosterId: number) => ({
+      playerId,
+      draftId: null,
+      pickRound: null,
+      pickOriginalRosterId: null,
+      fromRosterId,
+      toRosterId,
+    });
+    const pickItem = (pick: TradePickRef, fromRosterId: number, toRosterId: number) => ({
+      playerId: null,
+      draftId: pick.draftId,
+      pickRound: pick.round,
+      pickOriginalRosterId: pick.originalRosterId,
+      fromRosterId,
+      toRosterId,
+    });
+
+    return [
+      ...offer.givePlayerIds.map(id => playerItem(id, proposerRosterId, receiverRosterId)),
+      ...offer.receivePlayerIds.map(id => playerItem(id, receiverRosterId, proposerRosterId)),
+      ...(offer.givePicks ?? []).map(pick => pickItem(pick, proposerRosterId, receiverRosterId)),
+      ...(offer.receivePicks ?? []).map(pick => pickItem(pick, receiverRosterId, proposerRosterId)),
+    ];
+  }
+
+  /**
+   * Summarize who receives what, e.g. "alice receives X, Y; bob receives Z"
+   */
+  private describeTrade(trade: Trade): string {
+    const side = (rosterId: number, username?: string | null) => {
+      const names = trade.items
+        .filter(item => item.toRosterId === rosterId)
+        .map(item => describeTradeItem(item));
+      return `${username || 'Team'} receives ${names.length > 0 ? names.join(', ') : 'nothing'}`;
+    };
+
+    return `${side(trade.proposerRosterId, trade.proposerUsername)}; ${side(trade.receiverRosterId, trade.receiverUsername)}`;
+  }
+
+  private async getLeagueTrade(leagueId: number, tradeId: number): Promise<Trade> {
+    const trade = await this.tradeRepository.findById(tradeId);
+    if (!trade || trade.leagueId !== leagueId) {
+      throw new NotFoundException('Trade not found');
+    }
+    return trade;
+  }
+
+  private async getUserRoster(leagueId: number, userId: string): Promise<Roster> {
+    const roster = await this.rosterRepository.findByLeagueAndUser(leagueId, userId);
+    if (!roster) {
+      throw new NotFoundException('League not found or access denied');
+    }
+    return roster;
+  }
+
+  /**
+   * Get rosters by rosters.id
+   */
+  private async getRostersById(rosterIds: number[]): Promise<Map<number, Roster>> {
+    const result = await this.pool.query<Roster>(
+      'SELECT * FROM rosters WHERE id = ANY($1)',
+      [rosterIds]
+    );
+    return new Map(result.rows.map(row => [row.id, row]));
+  }
+
+  private async getLeagueContext(leagueId: number): Promise<TradeLeagueContext> {
+    const result = await this.pool.query(
+      'SELECT season, season_type, status, settings, roster_positions FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    const league = result.rows[0];
+    return {
+      season: league.season,
+      seasonType: league.season_type || 'regular',
+      status: league.status,
+      tradeDeadlineWeek: league.settings?.trade_deadline_week ?? null,
+      vetoThreshold: league.settings?.veto_threshold ?? null,
+      vetoPeriodHours: league.settings?.veto_period_hours ?? DEFAULT_VETO_PERIOD_HOURS,
+      rosterPositions: league.roster_positions,
+    };
+  }
+}
@@ -0,0 +1,598 @@
+import { Pool } from 'pg';
+import { WaiverClaim, WaiverClaimStatus } from '../../domain/models/WaiverClaim';
+import {
+  IWaiverRepository,
+  FreeAgentMove,
+  FreeAgentRosterResolution,
+  WaiverPlayer,
+  WaiverRunResult,
+} from '../../domain/repositories/IWaiverRepository';
+import { IRosterRepository, Roster } from '../../domain/repositories/IRosterRepository';
+import { IPlayerRepository } from '../../domain/repositories/IPlayerRepository';
+import { ChatService } from './ChatService';
+import { applyRosterMoves, getRosterCapacity, normalizeLineupIds } from './LineupService';
+import {
+  ValidationException,
+  NotFoundException,
+} from '../../domain/exceptions/AuthExceptions';
+
+export type WaiverType = 'rolling' | 'faab';
+
+/**
+ * Default FAAB budget when the league doesn't set `waiver_budget`
+ */
+export const DEFAULT_WAIVER_BUDGET = 100;
+
+/**
+ * Default waiver day when the league doesn't set `waiver_day` (0 = Sunday, 3 = Wednesday)
+ */
+export const DEFAULT_WAIVER_DAY = 3;
+
+/**
+ * Roster state used while resolving claims
+ */
+export interface WaiverRosterState {
+  rosterId: number;
+  priority: number;
+  budget: number;
+  playerIds: number[];
+}
+
+/**
+ * Result of resolving a single claim
+ */
+export interface WaiverClaimResolution {
+  claim: WaiverClaim;
+  status: Exclude<WaiverClaimStatus, 'pending' | 'cancelled'>;
+  failureReason: string | null;
+}
+
+/**
+ * Resolve pending claims against roster state.
+ * Rolling: rosters take turns in priority order, each using its highest remaining claim.
+ * FAAB: the highest bid is processed first, ties going to the better waiver priority.
+ * In both modes a roster that wins a claim drops to the back of the priority order.
+ *
+ * @param capacity - max players per roster; 0 disables the check
+ * @returns claim outcomes in processing order and the updated roster state
+ */
+export function resolveWaiverClaims(
+  claims: WaiverClaim[],
+  rosters: WaiverRosterState[],
+  waiverType: WaiverType,
+  capacity: number
+): { resolutions: WaiverClaimResolution[]; rosters: WaiverRosterState[] } {
+  const states = rosters
+    .map(r => ({ ...r, playerIds: [...r.playerIds] }))
+    .sort((a, b) => a.priority - b.priority || a.rosterId - b.rosterId);
+  const order = states.map(s => s.rosterId);
+  const stateById = new Map(states.map(s => [s.rosterId, s]));
+
+  const pending = [...claims].sort((a, b) => a.claimOrder - b.claimOrder || a.id - b.id);
+  const awarded = new Set<number>();
+  const resolutions: WaiverClaimResolution[] = [];
+
+  const nextClaim = (): WaiverClaim | undefined => {
+    if (waiverType === 'faab') {
+      return [...pending].sort(
+        (a, b) =>
+          b.bidAmount - a.bidAmount ||
+          order.indexOf(a.rosterId) - order.indexOf(b.rosterId) ||
+          a.claimOrder - b.claimOrder
+      )[0];
+    }
+
+    for (const rosterId of order) {
+      const claim = pending.find(c => c.rosterId === rosterId);
+      if (claim) return claim;
+    }
+    return undefined;
+  };
+
+  let claim = nextClaim();
+  while (claim) {
+    pending.splice(pending.indexOf(claim), 1);
+
+    const roster = stateById.get(claim.rosterId);
+    const bid = waiverType === 'faab' ? claim.bidAmount : 0;
+    let failureReason: string | null = null;
+    let status: WaiverClaimResolution['status'] = 'failed';
+
+    if (!roster) {
+      failureReason = 'Roster no longer exists';
+    } else if (awarded.has(claim.playerId)) {
+      status = 'lost';
+      failureReason = 'Player was claimed by another team';
+    } else if (states.some(s => s.playerIds.includes(claim!.playerId))) {
+      failureReason = 'Player is no longer available';
+    } else if (claim.dropPlayerId !== null && !roster.playerIds.includes(claim.dropPlayerId)) {
+      failureReason = 'Drop player is no longer on your roster';
+    } else if (bid > roster.budget) {
+      failureReason = 'Insufficient FAAB budget';
+    } else if (
+      capacity > 0 &&
+      roster.playerIds.length - (claim.dropPlayerId !== null ? 1 : 0) + 1 > capacity
+    ) {
+      failureReason = 'Roster is full';
+    } else {
+      status = 'won';
+      roster.playerIds = [
+        ...roster.playerIds.filter(id => id !== claim!.dropPlayerId),
+        claim.playerId,
+      ];
+      roster.budget -= bid;
+      awarded.add(claim.playerId);
+
+      order.splice(order.indexOf(roster.rosterId), 1);
+      order.push(roster.rosterId);
+    }
+
+    resolutions.push({ claim, status, failureReason });
+    claim = nextClaim();
+  }
+
+  order.forEach((rosterId, index) => {
+    stateById.get(rosterId)!.priority = index + 1;
+  });
+
+  return { resolutions, rosters: states };
+}
+
+/**
+ * Build resolver state from roster rows
+ * Rosters without a stored priority fall in behind those with one, in slot order.
+ */
+export function toWaiverRosterStates(rosters: Roster[], budget: number): WaiverRosterState[] {
+  return [...rosters]
+    .sort(
+      (a, b) =>
+        (a.waiver_priority ?? Number.MAX_SAFE_INTEGER) - (b.waiver_priority ?? Number.MAX_SAFE_INTEGER) ||
+        a.roster_id - b.roster_id
+    )
+    .map((roster, index) => ({
+      rosterId: roster.id,
+      priority: index + 1,
+      budget: roster.faab_remaining ?? budget,
+      playerIds: [
+        ...normalizeLineupIds(roster.starters),
+        ...normalizeLineupIds(roster.bench),
+      ].filter((id): id is number => id !== null),
+    }));
+}
+
+/**
+ * Resolve a league's pending claims against its rosters and build the writes for the run
+ * Only rosters whose lineup, waiver priority or FAAB budget changed are included, so
+ * rosters without winning claims are left untouched.
+ */
+export function buildWaiverRun(
+  rosters: Roster[],
+  claims: WaiverClaim[],
+  league: { waiverType: WaiverType; budget: number; capacity: number },
+  startedAt: Date
+): { run: WaiverRunResult; resolutions: WaiverClaimResolution[] } {
+  const { resolutions, rosters: states } = resolveWaiverClaims(
+    claims,
+    toWaiverRosterStates(rosters, league.budget),
+    league.waiverType,
+    league.capacity
+  );
+
+  const run: WaiverRunResult = {
+    claims: resolutions.map(r => ({
+      claimId: r.claim.id,
+      status: r.status,
+      failureReason: r.failureReason,
+    })),
+    rosters: [],
+    droppedPlayers: [],
+    startedAt,
+  };
+
+  for (const row of rosters) {
+    const state = states.find(s => s.rosterId === row.id)!;
+    const won = resolutions.filter(r => r.status === 'won' && r.claim.rosterId === row.id);
+
+    const { starters, bench } = applyRosterMoves(
+      normalizeLineupIds(row.starters),
+      normalizeLineupIds(row.bench).filter((id): id is number => id !== null),
+      won.map(r => r.claim.playerId),
+      won.map(r => r.claim.dropPlayerId).filter((id): id is number => id !== null)
+    );
+
+    const unchanged =
+      won.length === 0 &&
+      state.priority === row.waiver_priority &&
+      state.budget === row.faab_remaining;
+
+    if (!unchanged) {
+      run.rosters.push({
+        rosterId: row.id,
+        starters,
+        bench,
+        waiverPriority: state.priority,
+        faabRemaining: state.budget,
+      });
+    }
+
+    for (const resolution of won) {
+      if (resolution.claim.dropPlayerId !== null) {
+        run.droppedPlayers.push({
+          playerId: resolution.claim.dropPlayerId,
+          droppedByRosterId: row.id,
+        });
+      }
+    }
+  }
+
+  return { run, resolutions };
+}
+
+/**
+ * Why a roster can't take on a player, dropping dropPlayerId if given; null when it can
+ * @param capacity - max players per roster; 0 disables the check
+ */
+function getRosterAcquisitionFailure(roster: Roster, dropPlayerId: number | null, capacity: number): string | null {
+  const playerIds = [
+    ...normalizeLineupIds(roster.starters),
+    ...normalizeLineupIds(roster.bench),
+  ].filter((id): id is number => id !== null);
+
+  if (dropPlayerId !== null && !playerIds.includes(dropPlayerId)) {
+    return 'Drop player is not on your roster';
+  }
+  if (capacity > 0 && dropPlayerId === null && playerIds.length >= capacity) {
+    return 'Your roster is full; choose a player to drop';
+  }
+  return null;
+}
+
+/**
+ * Re-check a free-agent add against the locked roster rows and build the lineup it leaves
+ * @param capacity - max players per roster; 0 disables the check
+ */
+export function resolveFreeAgentMove(
+  rosters: Roster[],
+  move: FreeAgentMove,
+  capacity: number
+): FreeAgentRosterResolution {
+  const roster = rosters.find(r => r.id === move.rosterId);
+  if (!roster) {
+    return { failure: 'Roster no longer exists', starters: [], bench: [] };
+  }
+
+  const failure = getRosterAcquisitionFailure(roster, move.dropPlayerId, capacity);
+  if (failure) {
+    return { failure, starters: [], bench: [] };
+  }
+
+  return {
+    failure: null,
+    ...applyRosterMoves(
+      normalizeLineupIds(roster.starters),
+      normalizeLineupIds(roster.bench).filter((id): id is number => id !== null),
+      [move.playerId],
+      move.dropPlayerId !== null ? [move.dropPlayerId] : []
+    ),
+  };
+}
+
+/**
+ * Service for the waiver wire and free-agent pickups
+ */
+export class WaiverService {
+  constructor(
+    private readonly waiverRepository: IWaiverRepository,
+    private readonly rosterRepository: IRosterRepository,
+    private readonly playerRepository: IPlayerRepository,
+    private readonly chatService: ChatService,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Get waiver order, budgets, players on waivers and the user's pending claims
+   */
+  async getWaivers(leagueId: number, userId: string): Promise<{
+    waiver_type: WaiverType;
+    waiver_day: number;
+    rosters: Array<{
+      roster_id: number;
+      username: string | null;
+      waiver_priority: number;
+      faab_remaining: number;
+    }>;
+    players_on_waivers: WaiverPlayer[];
+    claims: WaiverClaim[];
+  }> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const league = await this.getLeagueContext(leagueId);
+    const rosters = await this.getRosterRows(leagueId);
+    const states = toWaiverRosterStates(rosters, league.budget);
+
+    const [playersOnWaivers, claims] = await Promise.all([
+      this.waiverRepository.findWaiverPlayers(leagueId),
+      this.waiverRepository.findByRoster(roster.id, 'pending'),
+    ]);
+
+    return {
+      waiver_type: league.waiverType,
+      waiver_day: league.waiverDay,
+      rosters: states
+        .sort((a, b) => a.priority - b.priority)
+        .map(state => {
+          const row = rosters.find(r => r.id === state.rosterId)!;
+          return {
+            roster_id: row.roster_id,
+            username: row.username,
+            waiver_priority: state.priority,
+            faab_remaining: state.budget,
+          };
+        }),
+      players_on_waivers: playersOnWaivers,
+      claims,
+    };
+  }
+
+  /**
+   * Submit a waiver claim for the user's roster
+   * Bids only apply to FAAB leagues and are checked against the remaining budget;
+   * the final check happens when claims are processed.
+   */
+  async submitClaim(
+    leagueId: number,
+    userId: string,
+    params: { playerId: number; dropPlayerId?: number | null; bidAmount?: number }
+  ): Promise<WaiverClaim> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const league = await this.getLeagueContext(leagueId);
+    const dropPlayerId = params.dropPlayerId ?? null;
+
+    await this.validateAcquisition(leagueId, roster, league.rosterPositions, params.playerId, dropPlayerId);
+
+    let bidAmount = 0;
+    if (league.waiverType === 'faab') {
+      bidAmount = params.bidAmount ?? 0;
+      const budget = roster.faab_remaining ?? league.budget;
+      if (bidAmount > budget) {
+        throw new ValidationException(`Bid exceeds your remaining FAAB budget of $${budget}`);
+      }
+    }
+
+    const existing = await this.waiverRepository.findByRoster(roster.id, 'pending');
+    if (existing.some(c => c.playerId === params.playerId)) {
+      throw new ValidationException('You already have a pending claim for this player');
+    }
+
+    return this.waiverRepository.create({
+      leagueId,
+      rosterId: roster.id,
+      playerId: params.playerId,
+      dropPlayerId,
+      bidAmount,
+    });
+  }
+
+  /**
+   * Cancel one of the user's pending claims
+   */
+  async cancelClaim(leagueId: number, userId: string, claimId: number): Promise<void> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const claim = await this.waiverRepository.findById(claimId);
+
+    if (!claim || claim.rosterId !== roster.id) {
+      throw new NotFoundException('Waiver claim not found');
+    }
+
+    if (!claim.isPending()) {
+      throw new ValidationException('Only pending claims can be cancelled');
+    }
+
+    await this.waiverRepository.cancel(claimId);
+  }
+
+  /**
+   * Set the order the user's pending claims are tried in
+   */
+  async reorderClaims(leagueId: number, userId: string, claimIds: number[]): Promise<WaiverClaim[]> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const pending = await this.waiverRepository.findByRoster(roster.id, 'pending');
+
+    const pendingIds = pending.map(c => c.id).sort((a, b) => a - b);
+    const submitted = [...claimIds].sort((a, b) => a - b);
+    if (
+      pendingIds.length !== submitted.length ||
+      pendingIds.some((id, index) => id !== submitted[index])
+    ) {
+      throw new ValidationException('Claim order must list each of your pending claims exactly once');
+    }
+
+    await this.waiverRepository.reorder(roster.id, claimIds);
+    return this.waiverRepository.findByRoster(roster.id, 'pending');
+  }
+
+  /**
+   * Add a free agent to the user's roster immediately, optionally dropping a player
+   * Players on waivers can only be acquired through a claim. The dropped player goes on waivers.
+   */
+  async addFreeAgent(
+    leagueId: number,
+    userId: string,
+    playerId: number,
+    dropPlayerId: number | null
+  ): Promise<Roster> {
+    const roster = await this.getUserRoster(leagueId, userId);
+    const league = await this.getLeagueContext(leagueId);
+
+    await this.validateAcquisition(leagueId, roster, league.rosterPositions, playerId, dropPlayerId);
+
+    if (await this.waiverRepository.isPlayerOnWaivers(leagueId, playerId)) {
+      throw new ValidationException('Player is on waivers; submit a waiver claim instead');
+    }
+
+    // The roster is re-read under lock, so a lineup change or trade made meanwhile isn't overwritten
+    const move = { leagueId, rosterId: roster.id, playerId, dropPlayerId };
+    const capacity = getRosterCapacity(league.rosterPositions);
+    const { applied, failure } = await this.waiverRepository.applyFreeAgentMove(move, rosters =>
+      resolveFreeAgentMove(rosters, move, capacity)
+    );
+
+    if (!applied) {
+      throw new ValidationException(failure ?? 'Player is no longer available');
+    }
+
+    const [player, dropPlayer, username] = await Promise.all([
+      this.playerRepository.findById(playerId),
+      dropPlayerId !== null ? this.playerRepository.findById(dropPlayerId) : Promise.resolve(null),
+      this.rosterRepository.getUsernameById(userId),
+    ]);
+
+    await this.chatService.sendSystemMessage(
+      leagueId,
+      `➕ ${username || 'Team'} added ${player?.fullName ?? `Player #${playerId}`}` +
+        (dropPlayer ? ` and dropped ${dropPlayer.fullName}` : ''),
+      { event: 'free_agent_add', player_id: playerId, drop_player_id: dropPlayerId }
+    );
+
+    const updated = await this.rosterRepository.findByLeagueAndRosterId(leagueId, roster.roster_id);
+    return updated!;
+  }
+
+  /**
+   * Process every pending claim in a league and announce the results
+   * Called by the waiver job on the league's waiver day.
+   *
+   * @returns number of claims processed
+   */
+  async processLeagueWaivers(leagueId: number): Promise<number> {
+    const startedAt = new Date();
+    const league = await this.getLeagueContext(leagueId);
+    const capacity = getRosterCapacity(league.rosterPositions);
+
+    // Rosters and claims are locked and re-read inside the run, so moves made meanwhile aren't overwritten
+    let resolutions: WaiverClaimResolution[] = [];
+    await this.waiverRepository.applyWaiverRun(leagueId, ({ rosters, claims }) => {
+      const built = buildWaiverRun(
+        rosters,
+        claims,
+        { waiverType: league.waiverType, budget: league.budget, capacity },
+        startedAt
+      );
+      resolutions = built.resolutions;
+      return built.run;
+    });
+
+    for (const resolution of resolutions) {
+      await this.announceResolution(leagueId, resolution, league.waiverType);
+    }
+
+    return resolutions.length;
+  }
+
+  /**
+   * Post a claim result to league chat
+   */
+  private async announceResolution(
+    leagueId: number,
+    resolution: WaiverClaimResolution,
+    waiverType: WaiverType
+  ): Promise<void> {
+    const { claim, status, failureReason } = resolution;
+    const username = claim.username || 'Team';
+    const playerName = claim.playerName || `Player #${claim.playerId}`;
+
+    const message = status === 'won'
+      ? `✅ ${username} claimed ${playerName}` +
+        (waiverType === 'faab' ? ` for $${claim.bidAmount}` : '') +
+        (claim.dropPlayerName ? ` and dropped ${claim.dropPlayerName}` : '')
+      : `❌ ${username}'s claim for ${playerName} was unsuccessful: ${failureReason}`;
+
+    await this.chatService.sendSystemMessage(leagueId, message, {
+      event: 'waiver_claim',
+      claim_id: claim.id,
+      status,
+    });
+  }
+
+  /**
+   * Checks shared by waiver claims and free-agent adds
+   */
+  private async validateAcquisition(
+    leagueId: number,
+    roster: Roster,
+    rosterPositions: unknown,
+    playerId: number,
+    dropPlayerId: number | null
+  ): Promise<void> {
+    const player = await this.playerRepository.findById(playerId);
+    if (!player) {
+      throw new NotFoundException('Player not found');
+    }
+
+    const rostered = await this.pool.query(
+      `SELECT 1 FROM rosters
+       WHERE league_id = $1 AND (starters @> $2::jsonb OR bench @> $2::jsonb)`,
+      [leagueId, JSON.stringify([playerId])]
+    );
+    if (rostered.rows.length > 0) {
+      throw new ValidationException('Player is already on a roster in this league');
+    }
+
+    const failure = getRosterAcquisitionFailure(roster, dropPlayerId, getRosterCapacity(rosterPositions));
+    if (failure) {
+      throw new ValidationException(failure);
+    }
+  }
+
+  /**
+   * Get the user's roster in a league
+   */
+  private async getUserRoster(leagueId: number, userId: string): Promise<Roster> {
+    const roster = await this.rosterRepository.findByLeagueAndUser(leagueId, userId);
+    if (!roster) {
+      throw new NotFoundException('League not found or access denied');
+    }
+    return roster;
+  }
+
+  /**
+   * Get league rosters with usernames
+   */
+  private async getRosterRows(leagueId: number): Promise<Array<Roster & { username: string | null }>> {
+    const result = await this.pool.query(
+      `SELECT r.*, u.username
+       FROM rosters r
+       LEFT JOIN users u ON u.id = r.user_id
+       WHERE r.league_id = $1
+       ORDER BY r.roster_id ASC`,
+      [leagueId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get waiver settings for a league
+   */
+  private async getLeagueContext(leagueId: number): Promise<{
+    waiverType: WaiverType;
+    waiverDay: number;
+    budget: number;
+    rosterPositions: unknown;
+  }> {
+    const result = await this.pool.query(
+      'SELECT settings, roster_positions FROM leagues WHERE id = $1',
+      [leagueId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundException('League not found');
+    }
+
+    const { settings, roster_positions } = result.rows[0];
+    return {
+      waiverType: settings?.waiver_type === 'faab' ? 'faab' : 'rolling',
+      waiverDay: settings?.waiver_day ?? DEFAULT_WAIVER_DAY,
+      budget: settings?.waiver_budget ?? DEFAULT_WAIVER_BUDGET,
+      rosterPositions: roster_positions,
+    };
+  }
+}
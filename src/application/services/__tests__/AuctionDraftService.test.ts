@@ -0,0 +1,42 @@
+import { getMaxBid, getNextNominator } from '../AuctionDraftService';
+import { DraftOrderEntry } from '../../../domain/models/DraftOrderEntry';
+
+describe('getMaxBid', () => {
+  it('should keep $1 for every other open roster spot', () => {
+    expect(getMaxBid(200, 15)).toBe(186);
+    expect(getMaxBid(50, 3)).toBe(48);
+  });
+
+  it('should allow the whole budget on the last open spot', () => {
+    expect(getMaxBid(12, 1)).toBe(12);
+  });
+
+  it('should not allow bids once the roster is full', () => {
+    expect(getMaxBid(20, 0)).toBe(0);
+  });
+});
+
+describe('getNextNominator', () => {
+  const order = [1, 2, 3].map(
+    position => new DraftOrderEntry(position, 1, position * 10, position, `user-${position}`, null, null)
+  );
+
+  it('should pass the nomination to the next roster in draft order', () => {
+    const openSlots = new Map([[10, 2], [20, 2], [30, 2]]);
+
+    expect(getNextNominator(order, 10, openSlots)?.rosterId).toBe(20);
+    expect(getNextNominator(order, 30, openSlots)?.rosterId).toBe(10);
+  });
+
+  it('should skip rosters with no open spots', () => {
+    const openSlots = new Map([[10, 1], [20, 0], [30, 1]]);
+
+    expect(getNextNominator(order, 10, openSlots)?.rosterId).toBe(30);
+  });
+
+  it('should return null when every roster is full', () => {
+    const openSlots = new Map([[10, 0], [20, 0], [30, 0]]);
+
+    expect(getNextNominator(order, 10, openSlots)).toBeNull();
+  });
+});
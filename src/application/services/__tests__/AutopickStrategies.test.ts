@@ -0,0 +1,72 @@
+import { AutopickContext, getAutopickStrategy } from '../AutopickStrategies';
+import { Player } from '../../../domain/models/Player';
+
+const player = (id: number, position: string): Player =>
+  Player.fromDatabase({
+    id,
+    sleeper_id: String(id),
+    full_name: `Player ${id}`,
+    fantasy_positions: [position],
+    position,
+    active: true,
+  });
+
+const qb = player(1, 'QB');
+const rb = player(2, 'RB');
+const wr = player(3, 'WR');
+
+const context = (overrides: Partial<AutopickContext> = {}): AutopickContext => ({
+  queuedPlayer: null,
+  availablePlayers: [qb, rb, wr],
+  projections: new Map([['1', 300], ['2', 250], ['3', 200]]),
+  openSlots: [
+    { position: 'RB', eligiblePositions: ['RB'] },
+    { position: 'WR', eligiblePositions: ['WR'] },
+  ],
+  positionPriority: [],
+  ...overrides,
+});
+
+describe('best_available', () => {
+  const strategy = getAutopickStrategy('best_available');
+
+  it('should take the queued player first', () => {
+    expect(strategy.selectPlayer(context({ queuedPlayer: wr }))).toBe(wr);
+  });
+
+  it('should take the best projected player for an open starting slot', () => {
+    expect(strategy.selectPlayer(context())).toBe(rb);
+  });
+
+  it('should take the best projected player once starters are filled', () => {
+    expect(strategy.selectPlayer(context({ openSlots: [] }))).toBe(qb);
+  });
+});
+
+describe('by_position', () => {
+  const strategy = getAutopickStrategy('by_position');
+
+  it('should follow the position priority for open slots', () => {
+    expect(strategy.selectPlayer(context({ positionPriority: ['wr', 'rb'] }))).toBe(wr);
+  });
+
+  it('should skip priority positions that are already filled', () => {
+    expect(strategy.selectPlayer(context({ positionPriority: ['QB', 'RB'] }))).toBe(rb);
+  });
+});
+
+describe('queue_only', () => {
+  const strategy = getAutopickStrategy('queue_only');
+
+  it('should never pick outside the queue', () => {
+    expect(strategy.selectPlayer(context({ queuedPlayer: wr }))).toBe(wr);
+    expect(strategy.selectPlayer(context())).toBeNull();
+  });
+});
+
+describe('getAutopickStrategy', () => {
+  it('should fall back to best_available for unknown strategies', () => {
+    expect(getAutopickStrategy('unknown').name).toBe('best_available');
+    expect(getAutopickStrategy(null).name).toBe('best_available');
+  });
+});
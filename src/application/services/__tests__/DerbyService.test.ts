@@ -0,0 +1,103 @@
+import {
+  assignAutoDerbySlots,
+  getDerbyTimeoutPolicy,
+  getOpenDerbySlots,
+  getPreferredOpenSlot,
+} from '../DerbyService';
+
+describe('getDerbyTimeoutPolicy', () => {
+  it('should read derby_on_timeout from settings', () => {
+    expect(getDerbyTimeoutPolicy({ derby_on_timeout: 'skip' })).toBe('skip');
+    expect(getDerbyTimeoutPolicy({ derby_on_timeout: 'auto_assign' })).toBe('auto_assign');
+  });
+
+  it('should default to randomize', () => {
+    expect(getDerbyTimeoutPolicy({})).toBe('randomize');
+    expect(getDerbyTimeoutPolicy(null)).toBe('randomize');
+    expect(getDerbyTimeoutPolicy({ derby_on_timeout: 'bogus' })).toBe('randomize');
+  });
+});
+
+describe('getOpenDerbySlots', () => {
+  it('should list slots nobody has taken', () => {
+    expect(getOpenDerbySlots(6, [2, 5])).toEqual([1, 3, 4, 6]);
+  });
+
+  it('should return nothing once every slot is taken', () => {
+    expect(getOpenDerbySlots(3, [3, 1, 2])).toEqual([]);
+  });
+});
+
+describe('getPreferredOpenSlot', () => {
+  it('should take the highest ranked preference that is still open', () => {
+    expect(getPreferredOpenSlot([1, 12, 2], [2, 3, 12])).toBe(12);
+  });
+
+  it('should return null when no preference is open', () => {
+    expect(getPreferredOpenSlot([1, 2], [3, 4])).toBeNull();
+    expect(getPreferredOpenSlot([], [3, 4])).toBeNull();
+  });
+});
+
+describe('assignAutoDerbySlots', () => {
+  // Rosters 1-4 in derby order, nobody holding a slot yet
+  const order = (slots: Array<number | null> = [null, null, null, null]) =>
+    slots.map((slotNumber, index) => ({ rosterId: index + 1, slotNumber }));
+
+  it('should put the first manager without a slot on the clock', () => {
+    expect(assignAutoDerbySlots(order([3, null, null, null]), new Map(), true)).toEqual({
+      assignments: [],
+      currentPickerIndex: 1,
+    });
+  });
+
+  it('should chain through consecutive auto-pick managers', () => {
+    const autoPickSlots = new Map([
+      [1, [4, 1]],
+      [2, [4, 2]],
+    ]);
+
+    expect(assignAutoDerbySlots(order(), autoPickSlots, true)).toEqual({
+      assignments: [
+        { rosterId: 1, slotNumber: 4, reason: 'auto_pick' },
+        { rosterId: 2, slotNumber: 2, reason: 'auto_pick' },
+      ],
+      currentPickerIndex: 2,
+    });
+  });
+
+  it('should leave an auto-pick manager on the clock when none of their slots are open', () => {
+    const result = assignAutoDerbySlots(order([1, null, null, null]), new Map([[2, [1]]]), true);
+
+    expect(result).toEqual({ assignments: [], currentPickerIndex: 1 });
+  });
+
+  it('should take the preferred slot of a manager who opts in while on the clock', () => {
+    // Roster 2 is on the clock and sets auto_pick preferences; roster 3 picks for themselves next
+    const result = assignAutoDerbySlots(order([2, null, null, null]), new Map([[2, [2, 3]]]), true);
+
+    expect(result).toEqual({
+      assignments: [{ rosterId: 2, slotNumber: 3, reason: 'auto_pick' }],
+      currentPickerIndex: 2,
+    });
+  });
+
+  it('should give the last manager the last slot and complete the derby', () => {
+    const autoPickSlots = new Map([[3, [1]]]);
+
+    expect(assignAutoDerbySlots(order([2, 4, null, null]), autoPickSlots, true)).toEqual({
+      assignments: [
+        { rosterId: 3, slotNumber: 1, reason: 'auto_pick' },
+        { rosterId: 4, slotNumber: 3, reason: 'last_slot' },
+      ],
+      currentPickerIndex: null,
+    });
+  });
+
+  it('should leave the last manager to pick without auto_assign_remaining', () => {
+    expect(assignAutoDerbySlots(order([2, 4, 1, null]), new Map(), false)).toEqual({
+      assignments: [],
+      currentPickerIndex: 3,
+    });
+  });
+});
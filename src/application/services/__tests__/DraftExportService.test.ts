@@ -0,0 +1,126 @@
+import { buildDraftBoard, escapeCsvValue, toCsv, toSleeperPicks } from '../DraftExportService';
+import { DraftPick } from '../../../domain/models/DraftPick';
+import { DraftOrderEntry } from '../../../domain/models/DraftOrderEntry';
+
+const startedAt = new Date('2026-09-01T18:00:00.000Z');
+
+// Picks are made 30 seconds apart unless pickedAt says otherwise; roster N (rosters.id) is roster number N - 10
+const pick = (
+  pickNumber: number,
+  rosterId: number,
+  playerName: string,
+  overrides: { originalRosterId?: number; isAutoPick?: boolean; isKeeper?: boolean; pickedAt?: Date } = {}
+) => {
+  const pickedAt = overrides.pickedAt ?? new Date(startedAt.getTime() + pickNumber * 30 * 1000);
+  return new DraftPick(
+    pickNumber,
+    7,
+    pickNumber,
+    Math.ceil(pickNumber / 2),
+    ((pickNumber - 1) % 2) + 1,
+    rosterId,
+    100 + pickNumber,
+    overrides.isAutoPick ?? false,
+    pickedAt,
+    0,
+    pickedAt,
+    overrides.originalRosterId ?? null,
+    null,
+    overrides.isKeeper ?? false,
+    playerName,
+    'WR',
+    'KC',
+    `${1000 + pickNumber}`,
+    rosterId - 10
+  );
+};
+
+const draftOrder = [
+  new DraftOrderEntry(1, 7, 11, 1, 'user-a', 'alice', null),
+  new DraftOrderEntry(2, 7, 12, 2, 'user-b', 'bob', null),
+];
+
+describe('buildDraftBoard', () => {
+  it('should list picks in order with the manager who made them', () => {
+    const board = buildDraftBoard(
+      [pick(2, 12, 'Tyreek Hill'), pick(1, 11, 'Travis Kelce', { isAutoPick: true })],
+      draftOrder,
+      startedAt
+    );
+
+    expect(board.map(row => row.pick)).toEqual([1, 2]);
+    expect(board[0]).toMatchObject({
+      round: 1,
+      roster_id: 1,
+      manager: 'alice',
+      player_name: 'Travis Kelce',
+      position: 'WR',
+      is_auto_pick: true,
+      time_taken_seconds: 30,
+    });
+    expect(board[1].manager).toBe('bob');
+  });
+
+  it('should time each pick from the one before it, not from the clock left', () => {
+    const board = buildDraftBoard(
+      [
+        pick(1, 11, 'Travis Kelce', { pickedAt: new Date('2026-09-01T18:00:45.000Z') }),
+        pick(2, 12, 'Tyreek Hill', { pickedAt: new Date('2026-09-01T18:02:45.000Z') }),
+      ],
+      draftOrder,
+      startedAt
+    );
+
+    expect(board.map(row => row.time_taken_seconds)).toEqual([45, 120]);
+  });
+
+  it('should leave keepers and picks without a draft start untimed', () => {
+    const keeper = pick(1, 11, 'Travis Kelce', { isKeeper: true, pickedAt: startedAt });
+
+    expect(buildDraftBoard([keeper, pick(2, 12, 'Tyreek Hill')], draftOrder, startedAt).map(row => row.time_taken_seconds))
+      .toEqual([null, 60]);
+    expect(buildDraftBoard([pick(1, 11, 'Travis Kelce')], draftOrder, null)[0].time_taken_seconds).toBeNull();
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('should quote values containing delimiters or quotes', () => {
+    expect(escapeCsvValue('Kelce, Travis')).toBe('"Kelce, Travis"');
+    expect(escapeCsvValue('The "Cheetah"')).toBe('"The ""Cheetah"""');
+  });
+
+  it('should leave plain values alone and blank out nulls', () => {
+    expect(escapeCsvValue('KC')).toBe('KC');
+    expect(escapeCsvValue(12)).toBe('12');
+    expect(escapeCsvValue(false)).toBe('false');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+});
+
+describe('toCsv', () => {
+  it('should write a header row and one line per pick', () => {
+    const lines = toCsv(buildDraftBoard([pick(1, 11, 'Travis Kelce')], draftOrder, startedAt)).trim().split('\r\n');
+
+    expect(lines[0]).toBe(
+      'round,pick,pick_in_round,roster_id,manager,player_id,player_name,position,team,is_auto_pick,is_keeper,time_taken_seconds'
+    );
+    expect(lines[1]).toBe('1,1,1,1,alice,101,Travis Kelce,WR,KC,false,false,30');
+  });
+});
+
+describe('toSleeperPicks', () => {
+  it('should identify players by Sleeper ID and traded picks by their original slot', () => {
+    const [sleeperPick] = toSleeperPicks(7, [pick(2, 11, 'Patrick Mahomes II', { originalRosterId: 12 })], draftOrder);
+
+    expect(sleeperPick).toMatchObject({
+      pick_no: 2,
+      draft_slot: 2,
+      roster_id: 1,
+      player_id: '1002',
+      picked_by: 'user-a',
+      is_keeper: null,
+      draft_id: '7',
+      metadata: { first_name: 'Patrick', last_name: 'Mahomes II', position: 'WR', team: 'KC' },
+    });
+  });
+});
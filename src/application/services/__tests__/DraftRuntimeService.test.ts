@@ -0,0 +1,179 @@
+import {
+  getDraftPositionForPickNumber,
+  getNextOpenPickNumber,
+  getPickDeadline,
+  getPickerForPickNumber,
+  getPickNumberForSlot,
+  getPickOwnerKey,
+  getSecondsRemaining,
+  getStartingTimeBank,
+  getTradedFromRosterId,
+  getUndoRewind,
+  isSnakeRoundReversed,
+} from '../DraftRuntimeService';
+import { DraftOrderEntry } from '../../../domain/models/DraftOrderEntry';
+
+// 4-team snake draft; rosters 101-104 hold slots 1-4
+const snakeDraft = { draftType: 'snake', thirdRoundReversal: false };
+const draftOrder = [101, 102, 103, 104].map(
+  (rosterId, index) => new DraftOrderEntry(index + 1, 1, rosterId, index + 1, null, null, null)
+);
+
+describe('getPickNumberForSlot', () => {
+  const snake = { draftType: 'snake', thirdRoundReversal: false };
+  const linear = { draftType: 'linear', thirdRoundReversal: false };
+
+  it('should count slots forward every round in a linear draft', () => {
+    expect(getPickNumberForSlot(linear, 10, 1, 3)).toBe(3);
+    expect(getPickNumberForSlot(linear, 10, 2, 3)).toBe(13);
+  });
+
+  it('should reverse even rounds in a snake draft', () => {
+    expect(getPickNumberForSlot(snake, 10, 1, 1)).toBe(1);
+    expect(getPickNumberForSlot(snake, 10, 2, 1)).toBe(20);
+    expect(getPickNumberForSlot(snake, 10, 3, 1)).toBe(21);
+  });
+
+  it('should reverse round 3 with third round reversal', () => {
+    const trr = { draftType: 'snake', thirdRoundReversal: true };
+
+    expect(isSnakeRoundReversed(trr, 3)).toBe(true);
+    expect(getPickNumberForSlot(trr, 12, 3, 1)).toBe(36);
+  });
+});
+
+describe('getDraftPositionForPickNumber', () => {
+  const snake = { draftType: 'snake', thirdRoundReversal: false };
+
+  it('should be the inverse of getPickNumberForSlot', () => {
+    for (let round = 1; round <= 4; round++) {
+      for (let position = 1; position <= 10; position++) {
+        const pickNumber = getPickNumberForSlot(snake, 10, round, position);
+        expect(getDraftPositionForPickNumber(snake, 10, pickNumber)).toBe(position);
+      }
+    }
+  });
+
+  it('should give the turn back to the last slot at the start of a snake round', () => {
+    expect(getDraftPositionForPickNumber(snake, 10, 10)).toBe(10);
+    expect(getDraftPositionForPickNumber(snake, 10, 11)).toBe(10);
+  });
+});
+
+describe('getNextOpenPickNumber', () => {
+  it('should return the next pick when nothing is filled', () => {
+    expect(getNextOpenPickNumber(0, 20, new Set())).toBe(1);
+    expect(getNextOpenPickNumber(7, 20, new Set())).toBe(8);
+  });
+
+  it('should skip picks already filled by keepers', () => {
+    expect(getNextOpenPickNumber(0, 20, new Set([1, 2, 4]))).toBe(3);
+    expect(getNextOpenPickNumber(3, 20, new Set([1, 2, 4]))).toBe(5);
+  });
+
+  it('should return null when every remaining pick is filled', () => {
+    expect(getNextOpenPickNumber(18, 20, new Set([19, 20]))).toBeNull();
+    expect(getNextOpenPickNumber(20, 20, new Set())).toBeNull();
+  });
+});
+
+describe('getPickDeadline', () => {
+  const now = 1_000_000;
+
+  it('should give every pick the pick time in per_pick drafts', () => {
+    const draft = { settings: { timer_mode: 'per_pick' }, pickTimeSeconds: 90 };
+
+    expect(getPickDeadline(draft, 500, now)?.getTime()).toBe(now + 90_000);
+  });
+
+  it('should use the roster time bank in per_manager drafts', () => {
+    const draft = { settings: { timer_mode: 'per_manager' }, pickTimeSeconds: 90 };
+
+    expect(getPickDeadline(draft, 500, now)?.getTime()).toBe(now + 500_000);
+    expect(getPickDeadline(draft, 0, now)?.getTime()).toBe(now);
+  });
+
+  it('should never set a deadline in untimed drafts', () => {
+    const draft = { settings: { timer_mode: 'none' }, pickTimeSeconds: 90 };
+
+    expect(getPickDeadline(draft, 500, now)).toBeNull();
+  });
+});
+
+describe('time banks', () => {
+  it('should default the starting bank to the pick time for every round', () => {
+    expect(getStartingTimeBank({ settings: {}, pickTimeSeconds: 60, rounds: 15 })).toBe(900);
+    expect(getStartingTimeBank({ settings: { time_bank_seconds: 1200 }, pickTimeSeconds: 60, rounds: 15 })).toBe(1200);
+  });
+
+  it('should keep the seconds left before the deadline', () => {
+    expect(getSecondsRemaining(new Date(10_500), 1_000)).toBe(9);
+    expect(getSecondsRemaining(new Date(1_000), 5_000)).toBe(0);
+  });
+});
+
+describe('getPickerForPickNumber', () => {
+  it('should give each pick to its slot when nothing is traded', () => {
+    expect(getPickerForPickNumber(snakeDraft, draftOrder, 3, new Map())?.rosterId).toBe(103);
+    expect(getPickerForPickNumber(snakeDraft, draftOrder, 6, new Map())?.rosterId).toBe(103);
+  });
+
+  it('should give a traded pick to its current owner', () => {
+    // Roster 101's round 2 pick (pick 8 in a snake) now belongs to roster 104
+    const owners = new Map([[getPickOwnerKey(2, 101), 104]]);
+
+    expect(getPickerForPickNumber(snakeDraft, draftOrder, 8, owners)?.rosterId).toBe(104);
+    expect(getPickerForPickNumber(snakeDraft, draftOrder, 1, owners)?.rosterId).toBe(101);
+  });
+});
+
+describe('getUndoRewind', () => {
+  it('should put the earliest undone pick back on the clock', () => {
+    expect(getUndoRewind(snakeDraft, draftOrder, [7, 6, 5], new Map())).toEqual({
+      pickNumber: 5,
+      round: 2,
+      picker: draftOrder[3],
+    });
+  });
+
+  it('should rewind across a round boundary to the previous round', () => {
+    const rewind = getUndoRewind(snakeDraft, draftOrder, [4, 5], new Map());
+
+    expect(rewind.pickNumber).toBe(4);
+    expect(rewind.round).toBe(1);
+    expect(rewind.picker?.rosterId).toBe(104);
+  });
+
+  it('should hand a rewound traded pick to its current owner', () => {
+    const owners = new Map([[getPickOwnerKey(2, 102), 103]]);
+
+    // Pick 7 is roster 102's round 2 pick
+    expect(getUndoRewind(snakeDraft, draftOrder, [7, 8], owners).picker?.rosterId).toBe(103);
+  });
+
+  it('should leave keepers after the rewound pick to be skipped again', () => {
+    // Roster 103 keeps a player with its round 2 pick (6); picks 5 and 7 are undone around it
+    const rewind = getUndoRewind(snakeDraft, draftOrder, [5, 7], new Map());
+    const keeperPicks = new Set([6]);
+
+    expect(rewind.pickNumber).toBe(5);
+    expect(getNextOpenPickNumber(rewind.pickNumber, 16, keeperPicks)).toBe(7);
+  });
+});
+
+describe('getTradedFromRosterId', () => {
+  it('should record the original owner when the picker acquired the pick', () => {
+    const draft = { ...snakeDraft, currentPick: 8 };
+    const owners = new Map([[getPickOwnerKey(2, 101), 104]]);
+    const picker = getPickerForPickNumber(draft, draftOrder, 8, owners)!;
+
+    expect(getTradedFromRosterId(draft, draftOrder, picker)).toBe(101);
+  });
+
+  it('should be null for a roster making its own pick', () => {
+    const draft = { ...snakeDraft, currentPick: 8 };
+
+    expect(getTradedFromRosterId(draft, draftOrder, draftOrder[0])).toBeNull();
+    expect(getTradedFromRosterId({ ...snakeDraft, currentPick: null }, draftOrder, draftOrder[0])).toBeNull();
+  });
+});
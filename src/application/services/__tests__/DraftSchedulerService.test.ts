@@ -0,0 +1,44 @@
+import {
+  formatCountdown,
+  getDueReminderMinutes,
+  getScheduleEventKey,
+} from '../DraftSchedulerService';
+
+const start = new Date('2026-09-01T18:00:00.000Z');
+const minutesBefore = (minutes: number) => new Date(start.getTime() - minutes * 60000);
+
+describe('getDueReminderMinutes', () => {
+  const reminders = [1440, 60, 15];
+
+  it('should return nothing before the earliest reminder', () => {
+    expect(getDueReminderMinutes(start, reminders, minutesBefore(2000))).toBeNull();
+  });
+
+  it('should return the closest threshold that has been reached', () => {
+    expect(getDueReminderMinutes(start, reminders, minutesBefore(1440))).toBe(1440);
+    expect(getDueReminderMinutes(start, reminders, minutesBefore(59))).toBe(60);
+    expect(getDueReminderMinutes(start, reminders, minutesBefore(10))).toBe(15);
+  });
+
+  it('should return nothing once the start time has passed', () => {
+    expect(getDueReminderMinutes(start, reminders, start)).toBeNull();
+    expect(getDueReminderMinutes(start, reminders, minutesBefore(-5))).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('should use the largest whole unit', () => {
+    expect(formatCountdown(1440)).toBe('1 day');
+    expect(formatCountdown(2880)).toBe('2 days');
+    expect(formatCountdown(60)).toBe('1 hour');
+    expect(formatCountdown(90)).toBe('90 minutes');
+    expect(formatCountdown(1)).toBe('1 minute');
+  });
+});
+
+describe('getScheduleEventKey', () => {
+  it('should include the scheduled time so rescheduling re-arms events', () => {
+    expect(getScheduleEventKey('draft', start)).toBe('draft_start:2026-09-01T18:00:00.000Z');
+    expect(getScheduleEventKey('derby', start, 15)).toBe('derby_reminder:2026-09-01T18:00:00.000Z:15');
+  });
+});
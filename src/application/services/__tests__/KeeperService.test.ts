@@ -0,0 +1,124 @@
+import { KeeperService } from '../KeeperService';
+import { ChatService } from '../ChatService';
+import { IDraftRepository, DraftData } from '../../../domain/repositories/IDraftRepository';
+import { IRosterRepository, Roster } from '../../../domain/repositories/IRosterRepository';
+import { ILeagueRepository } from '../../../domain/repositories/ILeagueRepository';
+import { League } from '../../../domain/models/League';
+import { Keeper } from '../../../domain/models/Keeper';
+import { DraftPickAsset } from '../../../domain/models/DraftPickAsset';
+import { ValidationException } from '../../../domain/exceptions/AuthExceptions';
+
+const draft = (overrides: Partial<DraftData> = {}): DraftData => ({
+  id: 5,
+  leagueId: 1,
+  draftType: 'snake',
+  rounds: 10,
+  totalRosters: 2,
+  pickTimeSeconds: 60,
+  status: 'not_started',
+  currentPick: null,
+  currentRound: null,
+  thirdRoundReversal: false,
+  currentRosterId: null,
+  pickDeadline: null,
+  startedAt: null,
+  completedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  settings: { max_keepers: 2 },
+  ...overrides,
+});
+
+const roster: Roster = {
+  id: 10,
+  league_id: 1,
+  user_id: 'user',
+  roster_id: 1,
+  settings: {},
+  starters: [1],
+  bench: [2],
+  waiver_priority: null,
+  faab_remaining: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const pickAsset = (round: number, originalRosterId: number, currentRosterId: number): DraftPickAsset =>
+  new DraftPickAsset(1, 5, round, originalRosterId, currentRosterId, new Date());
+
+describe('KeeperService', () => {
+  let keeperService: KeeperService;
+  let mockDraftRepository: jest.Mocked<Pick<IDraftRepository, 'findById' | 'getKeepers' | 'getPickAssets' | 'createKeeper'>>;
+  let mockRosterRepository: jest.Mocked<Pick<IRosterRepository, 'findByLeagueAndUser' | 'getUsernameById'>>;
+  let mockLeagueRepository: jest.Mocked<Pick<ILeagueRepository, 'findById'>>;
+
+  beforeEach(() => {
+    mockDraftRepository = {
+      findById: jest.fn().mockResolvedValue(draft()),
+      getKeepers: jest.fn().mockResolvedValue([]),
+      getPickAssets: jest.fn().mockResolvedValue([]),
+      createKeeper: jest.fn(),
+    };
+    mockRosterRepository = {
+      findByLeagueAndUser: jest.fn().mockResolvedValue(roster),
+      getUsernameById: jest.fn().mockResolvedValue('manager'),
+    };
+    mockLeagueRepository = {
+      findById: jest.fn().mockResolvedValue({ settings: { league_type: 'keeper' } } as unknown as League),
+    };
+
+    keeperService = new KeeperService(
+      mockDraftRepository as unknown as IDraftRepository,
+      mockRosterRepository as unknown as IRosterRepository,
+      mockLeagueRepository as unknown as ILeagueRepository,
+      { sendSystemMessage: jest.fn() } as unknown as ChatService
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('declareKeeper', () => {
+    it('should keep a rostered player for their own pick', async () => {
+      const keeper = new Keeper(1, 5, 10, 2, 3, new Date(), 'Player 2');
+      mockDraftRepository.getPickAssets.mockResolvedValue([pickAsset(3, 10, 10)]);
+      mockDraftRepository.createKeeper.mockResolvedValue(keeper);
+
+      await expect(keeperService.declareKeeper(1, 5, 'user', 2, 3)).resolves.toBe(keeper);
+      expect(mockDraftRepository.createKeeper).toHaveBeenCalledWith({
+        draftId: 5,
+        rosterId: 10,
+        playerId: 2,
+        roundCost: 3,
+      });
+    });
+
+    it('should reject a round whose pick was traded away', async () => {
+      mockDraftRepository.getPickAssets.mockResolvedValue([pickAsset(3, 10, 20)]);
+
+      await expect(keeperService.declareKeeper(1, 5, 'user', 2, 3)).rejects.toThrow(
+        new ValidationException('You no longer own your round 3 pick')
+      );
+      expect(mockDraftRepository.createKeeper).not.toHaveBeenCalled();
+    });
+
+    it('should not accept a pick traded to the roster as the keeper cost', async () => {
+      // Round 3 picks: the roster's own went to roster 20, and it holds roster 20's instead
+      mockDraftRepository.getPickAssets.mockResolvedValue([pickAsset(3, 10, 20), pickAsset(3, 20, 10)]);
+
+      await expect(keeperService.declareKeeper(1, 5, 'user', 2, 3)).rejects.toThrow(
+        new ValidationException('You no longer own your round 3 pick')
+      );
+    });
+
+    it('should reject keepers in auction drafts', async () => {
+      mockDraftRepository.findById.mockResolvedValue(draft({ draftType: 'auction' }));
+
+      await expect(keeperService.declareKeeper(1, 5, 'user', 2, 3)).rejects.toThrow(
+        new ValidationException('Keepers cost a draft round, so they are not available in auction drafts')
+      );
+      expect(mockDraftRepository.createKeeper).not.toHaveBeenCalled();
+    });
+  });
+});
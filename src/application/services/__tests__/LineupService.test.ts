@@ -0,0 +1,153 @@
+import {
+  applyRosterMoves,
+  buildStarterSlots,
+  getLineupFailure,
+  getRosterCapacity,
+  isEligibleForSlot,
+} from '../LineupService';
+import { Player } from '../../../domain/models/Player';
+import { Roster } from '../../../domain/repositories/IRosterRepository';
+
+const player = (id: number, position: string, team: string | null = null, fantasyPositions = [position]): Player =>
+  Player.fromDatabase({
+    id,
+    sleeper_id: String(id),
+    full_name: `Player ${id}`,
+    fantasy_positions: fantasyPositions,
+    position,
+    team,
+    active: true,
+  });
+
+const roster = (starters: Array<number | null>, bench: number[]): Roster => ({
+  id: 10,
+  league_id: 1,
+  user_id: 'user',
+  roster_id: 1,
+  settings: {},
+  starters,
+  bench,
+  waiver_priority: null,
+  faab_remaining: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('buildStarterSlots', () => {
+  it('should expand counts and skip bench, IR and taxi spots', () => {
+    const slots = buildStarterSlots([
+      { position: 'QB', count: 1 },
+      { position: 'RB', count: 2 },
+      { position: 'BN', count: 6 },
+      { position: 'IR', count: 1 },
+      { position: 'TAXI', count: 2 },
+    ]);
+
+    expect(slots).toEqual([
+      { position: 'QB', eligiblePositions: ['QB'] },
+      { position: 'RB', eligiblePositions: ['RB'] },
+      { position: 'RB', eligiblePositions: ['RB'] },
+    ]);
+  });
+
+  it('should use default flex eligibility unless the league lists it', () => {
+    const slots = buildStarterSlots([
+      { position: 'flex', count: 1 },
+      { position: 'SUPER_FLEX', count: 1, flex_eligible: ['qb', 'wr'] },
+    ]);
+
+    expect(slots).toEqual([
+      { position: 'FLEX', eligiblePositions: ['RB', 'WR', 'TE'] },
+      { position: 'SUPER_FLEX', eligiblePositions: ['QB', 'WR'] },
+    ]);
+  });
+
+  it('should accept a position count map', () => {
+    expect(buildStarterSlots({ QB: 1, BN: 3 })).toEqual([{ position: 'QB', eligiblePositions: ['QB'] }]);
+    expect(buildStarterSlots(null)).toEqual([]);
+  });
+});
+
+describe('isEligibleForSlot', () => {
+  const [flex] = buildStarterSlots([{ position: 'FLEX', count: 1 }]);
+
+  it('should check fantasy positions against the slot', () => {
+    expect(isEligibleForSlot(player(1, 'RB'), flex)).toBe(true);
+    expect(isEligibleForSlot(player(2, 'QB'), flex)).toBe(false);
+    expect(isEligibleForSlot(player(3, 'QB', null, ['QB', 'TE']), flex)).toBe(true);
+  });
+
+  it('should fall back to the player position without fantasy positions', () => {
+    expect(isEligibleForSlot(player(1, 'WR', null, []), flex)).toBe(true);
+  });
+});
+
+describe('applyRosterMoves', () => {
+  it('should empty dropped starter slots and add players to the bench', () => {
+    expect(applyRosterMoves([1, 2], [3, 4], [9], [2, 3])).toEqual({ starters: [1, null], bench: [4, 9] });
+  });
+});
+
+describe('getRosterCapacity', () => {
+  it('should count starters and bench but not IR or taxi spots', () => {
+    expect(
+      getRosterCapacity([
+        { position: 'QB', count: 1 },
+        { position: 'BN', count: 5 },
+        { position: 'IR', count: 2 },
+        { position: 'TAXI', count: 3 },
+      ])
+    ).toBe(6);
+  });
+
+  it('should return 0 without roster positions', () => {
+    expect(getRosterCapacity(undefined)).toBe(0);
+  });
+});
+
+describe('getLineupFailure', () => {
+  const slots = buildStarterSlots([
+    { position: 'QB', count: 1 },
+    { position: 'FLEX', count: 1 },
+  ]);
+  const players = [player(1, 'QB', 'KC'), player(2, 'RB', 'BUF'), player(3, 'WR', 'DAL')];
+  const noLocks = new Map<string, string>();
+
+  it('should accept a lineup with every rostered player in an eligible slot', () => {
+    expect(getLineupFailure(roster([1, 2], [3]), { starters: [1, 3], bench: [2] }, slots, players, noLocks)).toBeNull();
+  });
+
+  it('should compare against the roster as it is now', () => {
+    // Player 3 was dropped after the lineup was loaded
+    expect(getLineupFailure(roster([1, 2], []), { starters: [1, 3], bench: [2] }, slots, players, noLocks)).toBe(
+      'Players not on this roster: 3'
+    );
+    // Player 4 was added after the lineup was loaded
+    expect(getLineupFailure(roster([1, 2], [3, 4]), { starters: [1, 3], bench: [2] }, slots, players, noLocks)).toBe(
+      'Lineup is missing rostered players: 4'
+    );
+  });
+
+  it('should reject wrong slot counts, duplicates and ineligible starters', () => {
+    const current = roster([1, 2], [3]);
+
+    expect(getLineupFailure(current, { starters: [1], bench: [2, 3] }, slots, players, noLocks)).toBe(
+      'Lineup must have exactly 2 starter slots'
+    );
+    expect(getLineupFailure(current, { starters: [1, 2], bench: [2, 3] }, slots, players, noLocks)).toBe(
+      'A player can only appear once in a lineup'
+    );
+    expect(getLineupFailure(current, { starters: [2, 1], bench: [3] }, slots, players, noLocks)).toBe(
+      'Player 2 is not eligible for the QB slot'
+    );
+  });
+
+  it('should keep players whose game has started in place', () => {
+    const locks = new Map([['BUF', 'in_progress']]);
+
+    expect(getLineupFailure(roster([1, 2], [3]), { starters: [1, 3], bench: [2] }, slots, players, locks)).toBe(
+      'Player 2 is locked because their game has already started'
+    );
+    expect(getLineupFailure(roster([1, 3], [2]), { starters: [1, null], bench: [2, 3] }, slots, players, locks)).toBeNull();
+  });
+});
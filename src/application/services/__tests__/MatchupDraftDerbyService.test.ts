@@ -0,0 +1,96 @@
+import {
+  getMatchupDerbyAdvance,
+  getMatchupDerbyState,
+  getMatchupDerbyTimeoutAction,
+} from '../MatchupDraftDerbyService';
+
+// Rosters 1-4 in derby order with the slot each holds
+const order = (slots: Array<number | null>) =>
+  slots.map((slotNumber, index) => ({ rosterId: index + 1, slotNumber }));
+
+describe('getMatchupDerbyAdvance', () => {
+  it('should put the first manager without a slot on the clock', () => {
+    expect(getMatchupDerbyAdvance(order([2, null, null, 1]), {})).toEqual({
+      assignments: [],
+      currentPickerIndex: 1,
+    });
+  });
+
+  it('should follow the derby order after a skipped manager moves to the end', () => {
+    // Roster 1 was skipped, so the derby order is now 2, 3, 4, 1; roster 2 has since picked
+    const reordered = [
+      { rosterId: 2, slotNumber: 1 },
+      { rosterId: 3, slotNumber: null },
+      { rosterId: 4, slotNumber: null },
+      { rosterId: 1, slotNumber: null },
+    ];
+
+    expect(getMatchupDerbyAdvance(reordered, {}).currentPickerIndex).toBe(1);
+  });
+
+  it('should give the last manager the last slot and complete the derby by default', () => {
+    expect(getMatchupDerbyAdvance(order([2, null, 1, 4]), {})).toEqual({
+      assignments: [{ rosterId: 2, slotNumber: 3, reason: 'last_slot' }],
+      currentPickerIndex: null,
+    });
+  });
+
+  it('should leave the last manager to pick without auto_assign_remaining', () => {
+    expect(getMatchupDerbyAdvance(order([2, null, 1, 4]), { auto_assign_remaining: false })).toEqual({
+      assignments: [],
+      currentPickerIndex: 1,
+    });
+  });
+
+  it('should complete once every manager has a slot', () => {
+    expect(getMatchupDerbyAdvance(order([2, 3, 1, 4]), { auto_assign_remaining: false })).toEqual({
+      assignments: [],
+      currentPickerIndex: null,
+    });
+  });
+});
+
+describe('getMatchupDerbyTimeoutAction', () => {
+  const skip = { derby_on_timeout: 'skip' };
+
+  it('should skip a manager the first time they time out', () => {
+    expect(getMatchupDerbyTimeoutAction(skip, 0, 3)).toBe('skip');
+  });
+
+  it('should randomize a second timeout', () => {
+    expect(getMatchupDerbyTimeoutAction(skip, 1, 3)).toBe('randomize');
+  });
+
+  it('should randomize when nobody else is left to pick', () => {
+    expect(getMatchupDerbyTimeoutAction(skip, 0, 1)).toBe('randomize');
+  });
+
+  it('should randomize under the default policy', () => {
+    expect(getMatchupDerbyTimeoutAction({}, 0, 3)).toBe('randomize');
+  });
+});
+
+describe('getMatchupDerbyState', () => {
+  const pickers = [
+    { rosterId: 3, userId: 'u3', username: 'carol' },
+    { rosterId: 1, userId: 'u1', username: 'alice' },
+  ];
+
+  it('should report the manager on the clock and their deadline', () => {
+    const settings = { derby_status: 'in_progress', current_picker_index: 1, pick_deadline: '2026-09-01T00:05:00.000Z' };
+
+    expect(getMatchupDerbyState(settings, pickers)).toEqual({
+      status: 'in_progress',
+      currentPicker: pickers[1],
+      pickDeadline: '2026-09-01T00:05:00.000Z',
+    });
+  });
+
+  it('should report nobody on the clock once complete', () => {
+    expect(getMatchupDerbyState({ derby_status: 'completed' }, pickers)).toEqual({
+      status: 'completed',
+      currentPicker: null,
+      pickDeadline: null,
+    });
+  });
+});
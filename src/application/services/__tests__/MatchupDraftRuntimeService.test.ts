@@ -0,0 +1,126 @@
+import {
+  AvailableMatchup,
+  filterAndSortMatchups,
+  getMatchupDifficulty,
+  getQueuedAvailableMatchup,
+  getWeakestOpponentMatchup,
+  getWinPercentage,
+} from '../MatchupDraftRuntimeService';
+
+function matchup(
+  opponentRosterId: number,
+  weekNumber: number,
+  projectedPoints: number | null = null,
+  overrides: Partial<AvailableMatchup> = {}
+): AvailableMatchup {
+  return {
+    opponentRosterId,
+    weekNumber,
+    opponentUsername: `manager${opponentRosterId}`,
+    opponentRosterNumber: String(opponentRosterId),
+    projectedPoints,
+    opponentRecord: { wins: 0, losses: 0, ties: 0 },
+    difficulty: null,
+    ...overrides,
+  };
+}
+
+describe('getQueuedAvailableMatchup', () => {
+  const available = [matchup(2, 1), matchup(3, 1), matchup(3, 2)];
+
+  it('should take the highest queued matchup that is still available', () => {
+    const queue = [
+      { opponentRosterId: 2, weekNumber: 2 },
+      { opponentRosterId: 3, weekNumber: 2 },
+      { opponentRosterId: 2, weekNumber: 1 },
+    ];
+
+    expect(getQueuedAvailableMatchup(queue, available)).toEqual(matchup(3, 2));
+  });
+
+  it('should return null when nothing queued is available', () => {
+    expect(getQueuedAvailableMatchup([{ opponentRosterId: 4, weekNumber: 1 }], available)).toBeNull();
+    expect(getQueuedAvailableMatchup([], available)).toBeNull();
+  });
+});
+
+describe('getWeakestOpponentMatchup', () => {
+  it('should pick the opponent with the lowest projection that week', () => {
+    const available = [matchup(2, 1, 110.5), matchup(3, 1, 98.2), matchup(2, 2, 101)];
+
+    expect(getWeakestOpponentMatchup(available)).toBe(available[1]);
+  });
+
+  it('should skip matchups without a projection', () => {
+    const available = [matchup(2, 1), matchup(3, 1), matchup(2, 2, 120)];
+
+    expect(getWeakestOpponentMatchup(available)).toBe(available[2]);
+  });
+
+  it('should keep the first matchup on a tie', () => {
+    const available = [matchup(2, 1), matchup(3, 1, 95), matchup(2, 2, 95)];
+
+    expect(getWeakestOpponentMatchup(available)).toBe(available[1]);
+  });
+
+  it('should return null without projections', () => {
+    expect(getWeakestOpponentMatchup([matchup(2, 1), matchup(3, 1)])).toBeNull();
+  });
+});
+
+describe('getMatchupDifficulty', () => {
+  const weekPoints = [80, 90, 100, 110, 120, 130];
+
+  it('should split the week into thirds by projection', () => {
+    expect(getMatchupDifficulty(80, weekPoints)).toBe('easy');
+    expect(getMatchupDifficulty(90, weekPoints)).toBe('easy');
+    expect(getMatchupDifficulty(100, weekPoints)).toBe('medium');
+    expect(getMatchupDifficulty(110, weekPoints)).toBe('medium');
+    expect(getMatchupDifficulty(120, weekPoints)).toBe('hard');
+    expect(getMatchupDifficulty(130, weekPoints)).toBe('hard');
+  });
+
+  it('should return null without a projection', () => {
+    expect(getMatchupDifficulty(null, weekPoints)).toBeNull();
+    expect(getMatchupDifficulty(100, [])).toBeNull();
+  });
+});
+
+describe('getWinPercentage', () => {
+  it('should count ties as half a win', () => {
+    expect(getWinPercentage({ wins: 2, losses: 1, ties: 1 })).toBe(0.625);
+  });
+
+  it('should return null before any games', () => {
+    expect(getWinPercentage({ wins: 0, losses: 0, ties: 0 })).toBeNull();
+  });
+});
+
+describe('filterAndSortMatchups', () => {
+  const easy = matchup(2, 1, 85, { difficulty: 'easy', opponentRecord: { wins: 1, losses: 3, ties: 0 } });
+  const hard = matchup(3, 1, 130, { difficulty: 'hard', opponentRecord: { wins: 4, losses: 0, ties: 0 } });
+  const medium = matchup(4, 2, 105, { difficulty: 'medium', opponentRecord: { wins: 2, losses: 2, ties: 0 } });
+  const unprojected = matchup(5, 2);
+  const matchups = [easy, hard, medium, unprojected];
+
+  it('should keep the original order without filters', () => {
+    expect(filterAndSortMatchups(matchups, {})).toEqual(matchups);
+  });
+
+  it('should filter by week, difficulty and projected points', () => {
+    expect(filterAndSortMatchups(matchups, { weekNumber: 2 })).toEqual([medium, unprojected]);
+    expect(filterAndSortMatchups(matchups, { difficulty: ['easy', 'medium'] })).toEqual([easy, medium]);
+    expect(filterAndSortMatchups(matchups, { minProjectedPoints: 100, maxProjectedPoints: 120 })).toEqual([medium]);
+  });
+
+  it('should sort by projected points with unprojected matchups last', () => {
+    expect(filterAndSortMatchups(matchups, { sort: 'projected_points' })).toEqual([easy, medium, hard, unprojected]);
+    expect(filterAndSortMatchups(matchups, { sort: 'projected_points', order: 'desc' }))
+      .toEqual([hard, medium, easy, unprojected]);
+  });
+
+  it('should sort by record and difficulty', () => {
+    expect(filterAndSortMatchups(matchups, { sort: 'record', order: 'desc' })).toEqual([hard, medium, easy, unprojected]);
+    expect(filterAndSortMatchups(matchups, { sort: 'difficulty' })).toEqual([easy, medium, hard, unprojected]);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  MatchupScheduleState,
+  getMatchupPickViolation,
+  getMatchupScheduleReport,
+  getMaxMatchupDraftRounds,
+  isScheduleFeasible,
+} from '../MatchupScheduleFeasibility';
+
+function schedule(
+  rosterCount: number,
+  weekCount: number,
+  remaining: number | number[],
+  games: MatchupScheduleState['games'] = []
+): MatchupScheduleState {
+  const rosterIds = Array.from({ length: rosterCount }, (_, index) => index + 1);
+  return {
+    rosterIds,
+    weeks: Array.from({ length: weekCount }, (_, index) => index + 1),
+    games,
+    remainingPicks: new Map(
+      rosterIds.map((rosterId, index) => [rosterId, Array.isArray(remaining) ? remaining[index] : remaining])
+    ),
+  };
+}
+
+describe('getMaxMatchupDraftRounds', () => {
+  it('should give each roster half the weeks in an even league', () => {
+    expect(getMaxMatchupDraftRounds(12, 14)).toBe(7);
+    expect(getMaxMatchupDraftRounds(10, 13)).toBe(6);
+  });
+
+  it('should leave room for byes in an odd league', () => {
+    expect(getMaxMatchupDraftRounds(5, 10)).toBe(4);
+  });
+
+  it('should return 0 without enough rosters or weeks', () => {
+    expect(getMaxMatchupDraftRounds(1, 14)).toBe(0);
+    expect(getMaxMatchupDraftRounds(12, 0)).toBe(0);
+  });
+});
+
+describe('isScheduleFeasible', () => {
+  it('should accept a full draft that fits the season', () => {
+    expect(isScheduleFeasible(schedule(4, 6, 3))).toBe(true);
+  });
+
+  it('should reject more picks than the weeks can host', () => {
+    expect(isScheduleFeasible(schedule(4, 6, 4))).toBe(false);
+  });
+
+  it('should reject a roster with more picks left than open weeks', () => {
+    const state = schedule(4, 2, [2, 0, 0, 0], [{ rosterId: 2, opponentRosterId: 1, weekNumber: 1 }]);
+
+    expect(isScheduleFeasible(state)).toBe(false);
+  });
+
+  it('should reject more games than the opponent limit allows', () => {
+    // Every team plays 14 games but only has 11 opponents to face once each
+    expect(isScheduleFeasible({ ...schedule(12, 14, 7), maxGamesPerOpponent: 1 })).toBe(false);
+    expect(isScheduleFeasible({ ...schedule(12, 14, 7), maxGamesPerOpponent: 2 })).toBe(true);
+    expect(isScheduleFeasible({ ...schedule(12, 14, 5), maxGamesPerOpponent: 1 })).toBe(true);
+  });
+
+  it('should count games already played against the opponent limit', () => {
+    const games = [
+      { rosterId: 1, opponentRosterId: 2, weekNumber: 1 },
+      { rosterId: 3, opponentRosterId: 1, weekNumber: 2 },
+    ];
+
+    // Roster 1 has played both of the opponents it was allowed to face
+    expect(isScheduleFeasible({ ...schedule(3, 6, [1, 0, 0], games), maxGamesPerOpponent: 1 })).toBe(false);
+    expect(isScheduleFeasible({ ...schedule(3, 6, [0, 1, 0], games), maxGamesPerOpponent: 1 })).toBe(true);
+  });
+
+  it('should reject a week whose free rosters have used up their games against each other', () => {
+    // Week 2 only has rosters 1 and 2 free, and they already met in week 1
+    const state = {
+      ...schedule(4, 2, [1, 0, 0, 1], [
+        { rosterId: 2, opponentRosterId: 1, weekNumber: 1 },
+        { rosterId: 3, opponentRosterId: 4, weekNumber: 2 },
+      ]),
+      maxGamesPerOpponent: 1,
+    };
+
+    expect(isScheduleFeasible(state)).toBe(false);
+  });
+
+  it('should move pickers between weeks to fit everyone', () => {
+    // Each week can host one more pick; roster 2 is only free in week 1, so roster 1 has to pick in week 2
+    const state = schedule(4, 2, [1, 1, 0, 0], [
+      { rosterId: 3, opponentRosterId: 4, weekNumber: 1 },
+      { rosterId: 3, opponentRosterId: 2, weekNumber: 2 },
+    ]);
+
+    expect(isScheduleFeasible(state)).toBe(true);
+  });
+});
+
+describe('getMatchupPickViolation', () => {
+  it('should allow a pick that keeps the schedule complete', () => {
+    expect(getMatchupPickViolation(schedule(4, 6, 3), { rosterId: 1, opponentRosterId: 2, weekNumber: 1 })).toBeNull();
+  });
+
+  it('should reject reciprocal collisions', () => {
+    const state = schedule(4, 6, 3, [{ rosterId: 1, opponentRosterId: 2, weekNumber: 1 }]);
+
+    expect(getMatchupPickViolation(state, { rosterId: 2, opponentRosterId: 3, weekNumber: 1 }))
+      .toBe('You already have a matchup in week 1');
+    expect(getMatchupPickViolation(state, { rosterId: 3, opponentRosterId: 1, weekNumber: 1 }))
+      .toBe('That opponent already has a matchup in week 1');
+  });
+
+  it('should reject self-selection and weeks outside the draft', () => {
+    const state = schedule(4, 6, 3);
+
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 1, weekNumber: 1 }))
+      .toBe('You cannot select yourself as an opponent');
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 2, weekNumber: 7 }))
+      .toBe('Week 7 is not part of this matchup draft');
+  });
+
+  it('should reject a pick that strands another roster', () => {
+    // Roster 3 still has to pick and is only free in week 2; taking roster 3 as opponent in week 2 strands it
+    const state = schedule(
+      4,
+      2,
+      [1, 0, 1, 0],
+      [{ rosterId: 4, opponentRosterId: 3, weekNumber: 1 }]
+    );
+
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 3, weekNumber: 2 }))
+      .toBe('This pick would leave another roster unable to complete its schedule');
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 2, weekNumber: 1 })).toBeNull();
+  });
+
+  it('should reject facing an opponent more often than the draft allows', () => {
+    const state = {
+      ...schedule(4, 6, 1, [{ rosterId: 2, opponentRosterId: 1, weekNumber: 1 }]),
+      maxGamesPerOpponent: 1,
+    };
+
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 2, weekNumber: 2 }))
+      .toBe('You already play that opponent 1 time(s), the most this draft allows');
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 3, weekNumber: 2 })).toBeNull();
+    expect(getMatchupPickViolation({ ...state, maxGamesPerOpponent: 2 }, { rosterId: 1, opponentRosterId: 2, weekNumber: 2 }))
+      .toBeNull();
+  });
+
+  it('should reject a pick that leaves a roster only opponents it has used up', () => {
+    // After 3 takes 4 in week 2, roster 1 is left with week 2 and roster 2, which it already played
+    const state = {
+      ...schedule(4, 2, [1, 0, 1, 1], [{ rosterId: 2, opponentRosterId: 1, weekNumber: 1 }]),
+      maxGamesPerOpponent: 1,
+    };
+
+    expect(getMatchupPickViolation(state, { rosterId: 3, opponentRosterId: 4, weekNumber: 2 }))
+      .toBe('This pick would leave another roster unable to complete its schedule');
+    expect(getMatchupPickViolation(state, { rosterId: 1, opponentRosterId: 3, weekNumber: 2 })).toBeNull();
+  });
+});
+
+describe('getMatchupScheduleReport', () => {
+  it('should list open and fillable weeks per roster', () => {
+    const state = schedule(
+      4,
+      2,
+      [1, 0, 1, 0],
+      [{ rosterId: 4, opponentRosterId: 3, weekNumber: 1 }]
+    );
+
+    const report = getMatchupScheduleReport(state);
+
+    expect(report.feasible).toBe(true);
+    expect(report.rosters.find(r => r.rosterId === 1)).toEqual({
+      rosterId: 1,
+      remainingPicks: 1,
+      openWeeks: [1, 2],
+      fillableWeeks: [1, 2],
+    });
+    expect(report.rosters.find(r => r.rosterId === 3)).toEqual({
+      rosterId: 3,
+      remainingPicks: 1,
+      openWeeks: [2],
+      fillableWeeks: [2],
+    });
+  });
+
+  it('should report no fillable weeks once the schedule is infeasible', () => {
+    const report = getMatchupScheduleReport(schedule(4, 6, 4));
+
+    expect(report.feasible).toBe(false);
+    expect(report.rosters.every(r => r.fillableWeeks.length === 0)).toBe(true);
+  });
+
+  it('should not count weeks only fillable against an opponent at the limit', () => {
+    // Roster 1 has already played roster 2, the only other roster free in week 2
+    const state = {
+      ...schedule(
+        4,
+        2,
+        [1, 0, 0, 0],
+        [
+          { rosterId: 2, opponentRosterId: 1, weekNumber: 1 },
+          { rosterId: 3, opponentRosterId: 4, weekNumber: 2 },
+        ]
+      ),
+      maxGamesPerOpponent: 1,
+    };
+
+    expect(getMatchupScheduleReport(state).rosters.find(r => r.rosterId === 1)).toEqual({
+      rosterId: 1,
+      remainingPicks: 1,
+      openWeeks: [2],
+      fillableWeeks: [],
+    });
+  });
+});
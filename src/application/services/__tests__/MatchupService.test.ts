@@ -0,0 +1,110 @@
+import { buildScoreUpdates, generateRoundRobinPairings, getStarterPoints } from '../MatchupService';
+import { Matchup } from '../../../domain/models/Matchup';
+
+const pairKey = (a: number, b: number) => [a, b].sort((x, y) => x - y).join('-');
+
+describe('generateRoundRobinPairings', () => {
+  it('should pair every roster exactly once per round', () => {
+    const rosterIds = [11, 12, 13, 14, 15, 16];
+
+    for (let round = 0; round < 5; round++) {
+      const pairings = generateRoundRobinPairings(rosterIds, round);
+      const seen = pairings.flatMap(p => [p.roster1Id, p.roster2Id]);
+
+      expect(pairings).toHaveLength(3);
+      expect(new Set(seen).size).toBe(6);
+    }
+  });
+
+  it('should play every opponent once over a full cycle', () => {
+    const rosterIds = [1, 2, 3, 4, 5, 6, 7, 8];
+    const pairs = new Set<string>();
+
+    for (let round = 0; round < 7; round++) {
+      for (const p of generateRoundRobinPairings(rosterIds, round)) {
+        pairs.add(pairKey(p.roster1Id, p.roster2Id));
+      }
+    }
+
+    expect(pairs.size).toBe(28);
+  });
+
+  it('should give one roster a bye when the count is odd', () => {
+    const pairings = generateRoundRobinPairings([1, 2, 3, 4, 5], 2);
+
+    expect(pairings).toHaveLength(2);
+  });
+
+  it('should repeat the schedule after a full cycle', () => {
+    const rosterIds = [1, 2, 3, 4];
+
+    expect(generateRoundRobinPairings(rosterIds, 3)).toEqual(
+      generateRoundRobinPairings(rosterIds, 0)
+    );
+  });
+
+  it('should return no pairings for fewer than two rosters', () => {
+    expect(generateRoundRobinPairings([1], 0)).toEqual([]);
+  });
+});
+
+describe('getStarterPoints', () => {
+  const points = new Map([
+    [1, 12.5],
+    [2, 8.25],
+    [3, 30],
+  ]);
+
+  it('should only count starters', () => {
+    const roster = { starters: [1, 2], bench: [3] };
+
+    expect(getStarterPoints(roster, points)).toBe(20.75);
+  });
+
+  it('should score empty and unreadable starter slots as 0', () => {
+    expect(getStarterPoints({ starters: [1, null, 'x'] }, points)).toBe(12.5);
+    expect(getStarterPoints({ starters: [] }, points)).toBe(0);
+    expect(getStarterPoints({ starters: null }, points)).toBe(0);
+  });
+
+  it('should score starters without stats as 0 and round to two decimals', () => {
+    expect(getStarterPoints({ starters: ['2', 4] }, new Map([[2, 7], [9, 5]]))).toBe(7);
+    expect(getStarterPoints({ starters: [1, 2] }, new Map([[1, 0.1], [2, 0.2]]))).toBe(0.3);
+  });
+});
+
+describe('buildScoreUpdates', () => {
+  const matchup = (id: number, roster1Id: number, roster2Id: number, isFinal = false): Matchup =>
+    Matchup.fromDatabase({
+      id,
+      league_id: 1,
+      season: '2026',
+      week: 3,
+      roster1_id: roster1Id,
+      roster2_id: roster2Id,
+      roster1_score: 50,
+      roster2_score: 40,
+      source: 'schedule',
+      is_final: isFinal,
+    });
+
+  it('should score both rosters in each matchup', () => {
+    expect(buildScoreUpdates([matchup(1, 10, 20)], new Map([[10, 101.5], [20, 88]]))).toEqual([
+      { matchupId: 1, roster1Score: 101.5, roster2Score: 88 },
+    ]);
+  });
+
+  it('should score rosters without starter points as 0', () => {
+    expect(buildScoreUpdates([matchup(1, 10, 20)], new Map([[10, 42]]))).toEqual([
+      { matchupId: 1, roster1Score: 42, roster2Score: 0 },
+    ]);
+  });
+
+  it('should not rescore final matchups', () => {
+    const rosterPoints = new Map([[10, 1], [20, 2], [30, 3], [40, 4]]);
+
+    expect(buildScoreUpdates([matchup(1, 10, 20, true), matchup(2, 30, 40)], rosterPoints)).toEqual([
+      { matchupId: 2, roster1Score: 3, roster2Score: 4 },
+    ]);
+  });
+});
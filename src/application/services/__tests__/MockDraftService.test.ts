@@ -0,0 +1,31 @@
+import { getMockPickInfo, getMockScoringSettings } from '../MockDraftService';
+
+describe('getMockPickInfo', () => {
+  const snake = { draftType: 'snake', thirdRoundReversal: false, teamCount: 12 };
+
+  it('should give the user slot the first pick of odd rounds and the last of even rounds', () => {
+    expect(getMockPickInfo(snake, 1)).toEqual({ round: 1, pickInRound: 1, slot: 1 });
+    expect(getMockPickInfo(snake, 24)).toEqual({ round: 2, pickInRound: 12, slot: 1 });
+    expect(getMockPickInfo(snake, 25)).toEqual({ round: 3, pickInRound: 1, slot: 1 });
+  });
+
+  it('should keep the same order every round in a linear draft', () => {
+    const linear = { ...snake, draftType: 'linear' };
+
+    expect(getMockPickInfo(linear, 17).slot).toBe(5);
+  });
+
+  it('should reverse round 3 with third round reversal', () => {
+    const trr = { ...snake, thirdRoundReversal: true };
+
+    expect(getMockPickInfo(trr, 25).slot).toBe(12);
+  });
+});
+
+describe('getMockScoringSettings', () => {
+  it('should map scoring types to points per reception', () => {
+    expect(getMockScoringSettings('ppr').receptions).toBe(1);
+    expect(getMockScoringSettings('half_ppr').receptions).toBe(0.5);
+    expect(getMockScoringSettings('standard').receptions).toBe(0);
+  });
+});
@@ -0,0 +1,14 @@
+import { getAdpScoringType } from '../PlayerService';
+
+describe('getAdpScoringType', () => {
+  it('should segment leagues by points per reception', () => {
+    expect(getAdpScoringType({ receptions: 1 })).toBe('ppr');
+    expect(getAdpScoringType({ receptions: 0.5 })).toBe('half_ppr');
+    expect(getAdpScoringType({ receptions: 0 })).toBe('standard');
+  });
+
+  it('should treat leagues without reception scoring as standard', () => {
+    expect(getAdpScoringType({})).toBe('standard');
+    expect(getAdpScoringType(null)).toBe('standard');
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  buildFirstRound,
+  getBracketRounds,
+  getBracketSeedOrder,
+  rankForSeeding,
+} from '../PlayoffService';
+import { Matchup } from '../../../domain/models/Matchup';
+import { Standing } from '../../../domain/models/Standing';
+
+const standing = (rosterId: number, wins: number, losses: number, pointsFor: number): Standing =>
+  Standing.fromDatabase({
+    league_id: 1,
+    season: '2025',
+    roster_id: rosterId,
+    roster_number: rosterId,
+    wins,
+    losses,
+    ties: 0,
+    points_for: pointsFor,
+    points_against: 0,
+  });
+
+const finalMatchup = (week: number, roster1Id: number, roster2Id: number, winner: number | null): Matchup =>
+  Matchup.fromDatabase({
+    id: week,
+    league_id: 1,
+    season: '2025',
+    week,
+    roster1_id: roster1Id,
+    roster2_id: roster2Id,
+    source: 'round_robin',
+    is_final: true,
+    winner_roster_id: winner,
+  });
+
+describe('PlayoffService bracket helpers', () => {
+  it('should order seeds so top seeds meet last', () => {
+    expect(getBracketSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(getBracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('should compute rounds for non power of two brackets', () => {
+    expect(getBracketRounds(4)).toBe(2);
+    expect(getBracketRounds(6)).toBe(3);
+    expect(getBracketRounds(1)).toBe(0);
+  });
+
+  it('should give byes to the top seeds', () => {
+    const firstRound = buildFirstRound(6);
+    const byes = firstRound.filter(s => s.lowSeed === null).map(s => s.highSeed);
+    const games = firstRound.filter(s => s.lowSeed !== null);
+
+    expect(byes.sort()).toEqual([1, 2]);
+    expect(games).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ highSeed: 4, lowSeed: 5 }),
+        expect.objectContaining({ highSeed: 3, lowSeed: 6 }),
+      ])
+    );
+  });
+});
+
+describe('rankForSeeding', () => {
+  it('should rank by record before tiebreakers', () => {
+    const ranked = rankForSeeding(
+      [standing(1, 5, 5, 1500), standing(2, 7, 3, 1200), standing(3, 6, 4, 1300)],
+      [],
+      ['points_for']
+    );
+
+    expect(ranked).toEqual([2, 3, 1]);
+  });
+
+  it('should break ties with head-to-head before points for', () => {
+    const ranked = rankForSeeding(
+      [standing(1, 6, 4, 1500), standing(2, 6, 4, 1200)],
+      [finalMatchup(1, 1, 2, 2)],
+      ['head_to_head', 'points_for']
+    );
+
+    expect(ranked).toEqual([2, 1]);
+  });
+
+  it('should fall back to points for when head-to-head is not configured', () => {
+    const ranked = rankForSeeding(
+      [standing(1, 6, 4, 1500), standing(2, 6, 4, 1200)],
+      [finalMatchup(1, 1, 2, 2)],
+      ['points_for']
+    );
+
+    expect(ranked).toEqual([1, 2]);
+  });
+});
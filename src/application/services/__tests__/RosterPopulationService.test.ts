@@ -0,0 +1,46 @@
+import { assignStarters } from '../RosterPopulationService';
+import { buildStarterSlots } from '../LineupService';
+import { Player } from '../../../domain/models/Player';
+
+const player = (id: number, position: string): Player =>
+  Player.fromDatabase({
+    id,
+    sleeper_id: String(id),
+    full_name: `Player ${id}`,
+    fantasy_positions: [position],
+    position,
+    active: true,
+  });
+
+describe('assignStarters', () => {
+  const slots = buildStarterSlots([
+    { position: 'QB', count: 1 },
+    { position: 'RB', count: 2 },
+    { position: 'FLEX', count: 1 },
+    { position: 'BN', count: 5 },
+  ]);
+
+  it('should fill slots in order with the earliest eligible pick', () => {
+    const players = [player(1, 'RB'), player(2, 'WR'), player(3, 'QB'), player(4, 'RB'), player(5, 'QB')];
+
+    const { starters, bench } = assignStarters(players, slots);
+
+    expect(starters).toEqual([3, 1, 4, 2]);
+    expect(bench).toEqual([5]);
+  });
+
+  it('should leave unfillable slots empty', () => {
+    const { starters, bench } = assignStarters([player(1, 'QB'), player(2, 'K')], slots);
+
+    expect(starters).toEqual([1, null, null, null]);
+    expect(bench).toEqual([2]);
+  });
+
+  it('should respect explicit flex eligibility', () => {
+    const recFlex = buildStarterSlots([{ position: 'FLEX', count: 1, flex_eligible: ['WR', 'TE'] }]);
+
+    const { starters } = assignStarters([player(1, 'RB'), player(2, 'TE')], recFlex);
+
+    expect(starters).toEqual([2]);
+  });
+});
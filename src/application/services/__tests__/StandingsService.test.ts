@@ -0,0 +1,59 @@
+import { calculateStandings } from '../StandingsService';
+import { Matchup } from '../../../domain/models/Matchup';
+
+const finalMatchup = (
+  id: number,
+  week: number,
+  roster1Id: number,
+  roster2Id: number,
+  roster1Score: number,
+  roster2Score: number
+): Matchup => {
+  const winner =
+    roster1Score > roster2Score ? roster1Id : roster2Score > roster1Score ? roster2Id : null;
+
+  return Matchup.fromDatabase({
+    id,
+    league_id: 1,
+    season: '2025',
+    week,
+    roster1_id: roster1Id,
+    roster2_id: roster2Id,
+    roster1_score: roster1Score,
+    roster2_score: roster2Score,
+    source: 'round_robin',
+    is_final: true,
+    winner_roster_id: winner,
+  });
+};
+
+describe('calculateStandings', () => {
+  it('should record wins, losses, ties and points', () => {
+    const standings = calculateStandings([
+      finalMatchup(1, 1, 10, 20, 110.5, 98.25),
+      finalMatchup(2, 2, 10, 20, 90, 90),
+    ]);
+
+    const roster10 = standings.find(s => s.rosterId === 10)!;
+    const roster20 = standings.find(s => s.rosterId === 20)!;
+
+    expect(roster10).toMatchObject({ wins: 1, losses: 0, ties: 1, pointsFor: 200.5, pointsAgainst: 188.25 });
+    expect(roster20).toMatchObject({ wins: 0, losses: 1, ties: 1, pointsFor: 188.25, pointsAgainst: 200.5 });
+  });
+
+  it('should compute the current streak from the latest weeks', () => {
+    const standings = calculateStandings([
+      // Deliberately out of order to ensure week ordering is applied
+      finalMatchup(3, 3, 10, 20, 120, 100),
+      finalMatchup(1, 1, 10, 20, 80, 100),
+      finalMatchup(2, 2, 10, 20, 130, 100),
+    ]);
+
+    expect(standings.find(s => s.rosterId === 10)!.streak).toBe('W2');
+    expect(standings.find(s => s.rosterId === 20)!.streak).toBe('L2');
+  });
+
+  it('should return no rows without final matchups', () => {
+    expect(calculateStandings([])).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { getTradeOfferFailure, getTradeReviewEndsAt, resolveTradeRosters } from '../TradeService';
+import { Trade, TradeItem } from '../../../domain/models/Trade';
+import { Roster } from '../../../domain/repositories/IRosterRepository';
+
+const roster = (id: number, starters: Array<number | null>, bench: number[]): Roster => ({
+  id,
+  league_id: 1,
+  user_id: null,
+  roster_id: id / 10,
+  settings: {},
+  starters,
+  bench,
+  waiver_priority: null,
+  faab_remaining: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const playerItem = (playerId: number, fromRosterId: number, toRosterId: number): TradeItem => ({
+  playerId,
+  draftId: null,
+  pickRound: null,
+  pickOriginalRosterId: null,
+  fromRosterId,
+  toRosterId,
+});
+
+const trade = (items: TradeItem[]): Trade =>
+  Trade.fromDatabase(
+    {
+      id: 1,
+      league_id: 1,
+      proposer_roster_id: 10,
+      receiver_roster_id: 20,
+      status: 'accepted',
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+    items
+  );
+
+describe('getTradeOfferFailure', () => {
+  const offer = (give: number[], receive: number[]) => ({ givePlayerIds: give, receivePlayerIds: receive });
+
+  it('should accept players owned by each side', () => {
+    expect(getTradeOfferFailure(offer([1], [3]), [1, 2], [3, 4], 0)).toBeNull();
+  });
+
+  it('should reject an empty offer', () => {
+    expect(getTradeOfferFailure(offer([], []), [1], [3], 0)).toBe(
+      'A trade must include at least one player or pick'
+    );
+  });
+
+  it('should reject players that appear twice', () => {
+    expect(getTradeOfferFailure(offer([1], [1]), [1], [1], 0)).toBe(
+      'A player can only appear once in a trade'
+    );
+  });
+
+  it('should reject picks that appear twice', () => {
+    const pick = { draftId: 5, round: 2, originalRosterId: 10 };
+    expect(
+      getTradeOfferFailure({ ...offer([], []), givePicks: [pick], receivePicks: [pick] }, [], [], 0)
+    ).toBe('A pick can only appear once in a trade');
+  });
+
+  it('should reject players not on the sending roster', () => {
+    expect(getTradeOfferFailure(offer([3], []), [1], [3], 0)).toBe(
+      'You can only offer players on your roster'
+    );
+    expect(getTradeOfferFailure(offer([], [1]), [1], [3], 0)).toBe(
+      'Requested players must be on the other roster'
+    );
+  });
+
+  it('should reject an uneven trade that puts a full roster over the limit', () => {
+    expect(getTradeOfferFailure(offer([1], [3, 4]), [1, 2], [3, 4], 2)).toBe(
+      'This trade would put a roster over the 2 player limit'
+    );
+    expect(getTradeOfferFailure(offer([1], [3]), [1, 2], [3, 4], 2)).toBeNull();
+  });
+});
+
+describe('resolveTradeRosters', () => {
+  it('should swap players using the given roster rows', () => {
+    const { failure, rosters } = resolveTradeRosters(
+      trade([playerItem(1, 10, 20), playerItem(3, 20, 10)]),
+      [roster(10, [1, null], [2]), roster(20, [4], [3])],
+      0
+    );
+
+    expect(failure).toBeNull();
+    expect(rosters).toEqual([
+      { rosterId: 10, starters: [null, null], bench: [2, 3] },
+      { rosterId: 20, starters: [4], bench: [1] },
+    ]);
+  });
+
+  it('should keep lineup changes made since the trade was accepted', () => {
+    const { rosters } = resolveTradeRosters(
+      trade([playerItem(1, 10, 20)]),
+      [roster(10, [5], [1, 2]), roster(20, [3], [])],
+      0
+    );
+
+    expect(rosters[0]).toEqual({ rosterId: 10, starters: [5], bench: [2] });
+  });
+
+  it('should fail when a player has left the sending roster', () => {
+    const { failure, rosters } = resolveTradeRosters(
+      trade([playerItem(1, 10, 20)]),
+      [roster(10, [], [2]), roster(20, [], [3])],
+      0
+    );
+
+    expect(failure).toBe('Player #1 is no longer on the roster');
+    expect(rosters).toEqual([]);
+  });
+
+  it('should fail when a roster would go over the limit', () => {
+    const { failure } = resolveTradeRosters(
+      trade([playerItem(1, 10, 20)]),
+      [roster(10, [1], []), roster(20, [3], [4])],
+      2
+    );
+
+    expect(failure).toBe('A roster would exceed the 2 player limit');
+  });
+
+  it('should fail when a roster no longer exists', () => {
+    const { failure } = resolveTradeRosters(trade([playerItem(1, 10, 20)]), [roster(10, [1], [])], 0);
+
+    expect(failure).toBe('A roster in this trade no longer exists');
+  });
+});
+
+describe('getTradeReviewEndsAt', () => {
+  const acceptedAt = new Date('2026-10-01T12:00:00Z');
+
+  it('should open a veto window when the league has a veto threshold', () => {
+    expect(getTradeReviewEndsAt(acceptedAt, 3, 24)).toEqual(new Date('2026-10-02T12:00:00Z'));
+  });
+
+  it('should execute immediately without a veto threshold', () => {
+    expect(getTradeReviewEndsAt(acceptedAt, null, 24)).toBeNull();
+    expect(getTradeReviewEndsAt(acceptedAt, 0, 24)).toBeNull();
+  });
+});
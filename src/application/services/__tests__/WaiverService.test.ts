@@ -0,0 +1,153 @@
+import { buildWaiverRun, resolveFreeAgentMove, resolveWaiverClaims, WaiverRosterState } from '../WaiverService';
+import { WaiverClaim } from '../../../domain/models/WaiverClaim';
+import { Roster } from '../../../domain/repositories/IRosterRepository';
+
+const claim = (
+  id: number,
+  rosterId: number,
+  playerId: number,
+  options: { bid?: number; drop?: number; order?: number } = {}
+): WaiverClaim =>
+  WaiverClaim.fromDatabase({
+    id,
+    league_id: 1,
+    roster_id: rosterId,
+    player_id: playerId,
+    drop_player_id: options.drop ?? null,
+    bid_amount: options.bid ?? 0,
+    claim_order: options.order ?? 1,
+    status: 'pending',
+  });
+
+const rosters = (): WaiverRosterState[] => [
+  { rosterId: 10, priority: 1, budget: 100, playerIds: [1] },
+  { rosterId: 20, priority: 2, budget: 100, playerIds: [2] },
+  { rosterId: 30, priority: 3, budget: 5, playerIds: [3] },
+];
+
+describe('resolveWaiverClaims', () => {
+  it('should award rolling claims by priority and move the winner to the back', () => {
+    const { resolutions, rosters: result } = resolveWaiverClaims(
+      [claim(1, 20, 99), claim(2, 10, 99), claim(3, 10, 98, { order: 2 })],
+      rosters(),
+      'rolling',
+      0
+    );
+
+    const status = Object.fromEntries(resolutions.map(r => [r.claim.id, r.status]));
+    expect(status).toEqual({ 1: 'lost', 2: 'won', 3: 'won' });
+
+    const priorities = Object.fromEntries(result.map(r => [r.rosterId, r.priority]));
+    expect(priorities).toEqual({ 20: 1, 30: 2, 10: 3 });
+  });
+
+  it('should award FAAB claims to the highest bid and charge the budget', () => {
+    const { resolutions, rosters: result } = resolveWaiverClaims(
+      [claim(1, 10, 99, { bid: 10 }), claim(2, 20, 99, { bid: 25 })],
+      rosters(),
+      'faab',
+      0
+    );
+
+    expect(resolutions.find(r => r.claim.id === 2)?.status).toBe('won');
+    expect(resolutions.find(r => r.claim.id === 1)?.status).toBe('lost');
+    expect(result.find(r => r.rosterId === 20)?.budget).toBe(75);
+    expect(result.find(r => r.rosterId === 20)?.playerIds).toEqual([2, 99]);
+  });
+
+  it('should fail claims that exceed budget or roster capacity', () => {
+    const { resolutions } = resolveWaiverClaims(
+      [claim(1, 30, 99, { bid: 6 }), claim(2, 10, 98), claim(3, 20, 97, { drop: 2 })],
+      rosters(),
+      'faab',
+      1
+    );
+
+    const reasons = Object.fromEntries(resolutions.map(r => [r.claim.id, r.failureReason]));
+    expect(reasons[1]).toBe('Insufficient FAAB budget');
+    expect(reasons[2]).toBe('Roster is full');
+    expect(reasons[3]).toBeNull();
+  });
+});
+
+describe('buildWaiverRun', () => {
+  const row = (id: number, rosterId: number, priority: number, starters: number[], bench: number[]): Roster => ({
+    id,
+    league_id: 1,
+    user_id: null,
+    roster_id: rosterId,
+    settings: {},
+    starters,
+    bench,
+    waiver_priority: priority,
+    faab_remaining: 100,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  const league = { waiverType: 'rolling' as const, budget: 100, capacity: 0 };
+
+  it('should only write rosters whose lineup, priority or budget changed', () => {
+    const rows = [row(10, 1, 1, [1], []), row(20, 2, 2, [2], []), row(30, 3, 3, [3], [])];
+
+    const { run } = buildWaiverRun(rows, [claim(1, 20, 99, { drop: 2 })], league, new Date());
+
+    // Roster 20 gets the player and drops to last; roster 30 moves up; roster 10 is untouched
+    expect(run.rosters.map(r => r.rosterId)).toEqual([20, 30]);
+    expect(run.rosters.find(r => r.rosterId === 20)).toMatchObject({ bench: [99], waiverPriority: 3 });
+    expect(run.rosters.find(r => r.rosterId === 30)?.waiverPriority).toBe(2);
+    expect(run.droppedPlayers).toEqual([{ playerId: 2, droppedByRosterId: 20 }]);
+  });
+
+  it('should write nothing for rosters when no claim wins', () => {
+    const rows = [row(10, 1, 1, [1], []), row(20, 2, 2, [2], [])];
+
+    const { run, resolutions } = buildWaiverRun(rows, [claim(1, 20, 1)], league, new Date());
+
+    expect(resolutions[0].failureReason).toBe('Player is no longer available');
+    expect(run.rosters).toEqual([]);
+    expect(run.claims).toEqual([{ claimId: 1, status: 'failed', failureReason: 'Player is no longer available' }]);
+  });
+});
+
+describe('resolveFreeAgentMove', () => {
+  const row = (starters: Array<number | null>, bench: number[]): Roster => ({
+    id: 10,
+    league_id: 1,
+    user_id: null,
+    roster_id: 1,
+    settings: {},
+    starters,
+    bench,
+    waiver_priority: 1,
+    faab_remaining: 100,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  const move = (dropPlayerId: number | null) => ({ leagueId: 1, rosterId: 10, playerId: 99, dropPlayerId });
+
+  it('should build the lineup from the locked roster row', () => {
+    // Player 2 was moved into the lineup after the add was requested
+    expect(resolveFreeAgentMove([row([1, 2], [3])], move(1), 0)).toEqual({
+      failure: null,
+      starters: [null, 2],
+      bench: [3, 99],
+    });
+  });
+
+  it('should fail when the drop player has left the roster', () => {
+    expect(resolveFreeAgentMove([row([1], [])], move(2), 0).failure).toBe('Drop player is not on your roster');
+  });
+
+  it('should fail when the roster filled up without a drop', () => {
+    expect(resolveFreeAgentMove([row([1], [2])], move(null), 2).failure).toBe(
+      'Your roster is full; choose a player to drop'
+    );
+    expect(resolveFreeAgentMove([row([1], [])], move(null), 2).failure).toBeNull();
+  });
+
+  it('should fail when the roster no longer exists', () => {
+    expect(resolveFreeAgentMove([], move(null), 0).failure).toBe('Roster no longer exists');
+  });
+});
@@ -4,6 +4,7 @@ import { IRosterRepository } from '../../../domain/repositories/IRosterRepositor
 import {
   ValidationException,
   NotFoundException,
+  ForbiddenException,
 } from '../../../domain/exceptions/AuthExceptions';
 import { ChatService } from '../ChatService';
 
@@ -50,55 +51,13 @@ export class LeagueResetService {
     try {
       await client.query('BEGIN');
 
-      // Delete draft picks and order (child records)
-      await client.query(
-        'DELETE FROM draft_picks WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
-        [leagueId]
-      );
-      await client.query(
-        'DELETE FROM draft_order WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
-        [leagueId]
-      );
-      await client.query(
-        'DELETE FROM matchup_draft_picks WHERE draft_id IN (SELECT id FROM matchup_drafts WHERE league_id = $1)',
-        [leagueId]
-      );
-      await client.query(
-        'DELETE FROM matchup_draft_order WHERE draft_id IN (SELECT id FROM matchup_drafts WHERE league_id = $1)',
-        [leagueId]
-      );
-
-      // Reset drafts to not_started state
-      await client.query(
-        `UPDATE drafts
-         SET status = 'not_started',
-             current_pick = NULL,
-             current_round = NULL,
-             pick_deadline = NULL,
-             started_at = NULL,
-             completed_at = NULL
-         WHERE league_id = $1`,
-        [leagueId]
-      );
-
-      // Reset matchup drafts to not_started state
-      await client.query(
-        `UPDATE matchup_drafts
-         SET status = 'not_started',
-             current_pick = NULL,
-             current_round = NULL,
-             current_roster_id = NULL,
-             pick_deadline = NULL,
-             started_at = NULL,
-             completed_at = NULL
-         WHERE league_id = $1`,
-        [leagueId]
-      );
+      await this.clearSeasonData(client, leagueId, { keepRosters: false });
 
       // Reset league status
       await client.query(
         `UPDATE leagues
          SET status = 'pre_draft',
+             last_waiver_run_at = NULL,
              updated_at = CURRENT_TIMESTAMP
          WHERE id = $1`,
         [leagueId]
@@ -124,6 +83,192 @@ export class LeagueResetService {
     }
   }
 
+  /**
+   * Season rollover (commissioner only)
+   * Moves a completed league into the next season. Dynasty and keeper leagues carry their
+   * rosters forward (keeper leagues trim them to declared keepers at the next draft);
+   * redraft leagues start over with empty rosters.
+   */
+  async rolloverSeason(
+    leagueId: number,
+    userId: string
+  ): Promise<{ message: string; season: string }> {
+    const league = await this.leagueRepository.findByIdWithCommissioner(
+      leagueId,
+      userId
+    );
+    if (!league) {
+      throw new NotFoundException('League not found');
+    }
+
+    if (
+      !league.commissioner_roster_id ||
+      league.commissioner_roster_id !== league.user_roster_id
+    ) {
+      throw new ForbiddenException('Only the commissioner can roll over the league');
+    }
+
+    if (league.status !== 'complete') {
+      throw new ValidationException(
+        'The season must be complete before rolling over to the next one'
+      );
+    }
+
+    const leagueType = league.settings?.league_type || 'redraft';
+    const username = await this.rosterRepository.getUsernameById(userId);
+
+    const client = await this.db.connect();
+    let season: string;
+    try {
+      await client.query('BEGIN');
+
+      await this.clearSeasonData(client, leagueId, {
+        keepRosters: leagueType === 'dynasty' || leagueType === 'keeper',
+      });
+
+      const result = await client.query(
+        `UPDATE leagues
+         SET season = (season::int + 1)::text,
+             status = 'pre_draft',
+             last_waiver_run_at = NULL,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING season`,
+        [leagueId]
+      );
+      season = result.rows[0].season;
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (username) {
+      await this.chatService.sendSystemMessage(
+        leagueId,
+        `${username} rolled the league over to the ${season} season`,
+        { event: 'season_rollover', username, season }
+      );
+    }
+
+    return { message: 'League rolled over successfully', season };
+  }
+
+  /**
+   * Delete a season's drafts, results, waivers and trades, and reset drafts to not_started
+   * Draft and league settings are kept. Should be called within a transaction.
+   */
+  private async clearSeasonData(
+    client: PoolClient,
+    leagueId: number,
+    options: { keepRosters: boolean }
+  ): Promise<void> {
+    // Delete draft picks and order (child records)
+    await client.query(
+      'DELETE FROM draft_picks WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM draft_order WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM draft_pick_assets WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM keepers WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM auction_lots WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM draft_pick_audit WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    // Reminders and auto-starts fire again for the reset draft
+    await client.query(
+      'DELETE FROM draft_schedule_events WHERE draft_id IN (SELECT id FROM drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM matchup_draft_picks WHERE draft_id IN (SELECT id FROM matchup_drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM matchup_draft_order WHERE draft_id IN (SELECT id FROM matchup_drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query(
+      'DELETE FROM matchup_draft_queues WHERE draft_id IN (SELECT id FROM matchup_drafts WHERE league_id = $1)',
+      [leagueId]
+    );
+    await client.query('DELETE FROM matchups WHERE league_id = $1', [leagueId]);
+    await client.query('DELETE FROM standings WHERE league_id = $1', [leagueId]);
+    await client.query('DELETE FROM playoff_seeds WHERE league_id = $1', [leagueId]);
+    await client.query('DELETE FROM waiver_claims WHERE league_id = $1', [leagueId]);
+    await client.query('DELETE FROM waiver_players WHERE league_id = $1', [leagueId]);
+    await client.query('DELETE FROM trades WHERE league_id = $1', [leagueId]);
+
+    // Clear waiver state filled in after the draft, and the players themselves unless they carry over
+    if (options.keepRosters) {
+      await client.query(
+        `UPDATE rosters
+         SET waiver_priority = NULL,
+             faab_remaining = NULL
+         WHERE league_id = $1`,
+        [leagueId]
+      );
+    } else {
+      await client.query(
+        `UPDATE rosters
+         SET starters = '[]',
+             bench = '[]',
+             waiver_priority = NULL,
+             faab_remaining = NULL
+         WHERE league_id = $1`,
+        [leagueId]
+      );
+    }
+
+    // Reset drafts to not_started state; derby progress lives in settings and goes with the deleted order
+    await client.query(
+      `UPDATE drafts
+       SET status = 'not_started',
+           current_pick = NULL,
+           current_round = NULL,
+           current_roster_id = NULL,
+           pick_deadline = NULL,
+           started_at = NULL,
+           completed_at = NULL,
+           settings = COALESCE(settings, '{}'::jsonb)
+             - 'derby_status' - 'derby_start_time' - 'current_picker_index' - 'pick_deadline'
+       WHERE league_id = $1`,
+      [leagueId]
+    );
+
+    // Reset matchup drafts (and their derbies) to not_started state
+    await client.query(
+      `UPDATE matchup_drafts
+       SET status = 'not_started',
+           current_pick = NULL,
+           current_round = NULL,
+           current_roster_id = NULL,
+           pick_deadline = NULL,
+           started_at = NULL,
+           completed_at = NULL,
+           settings = COALESCE(settings, '{}'::jsonb)
+             - 'derby_status' - 'derby_start_time' - 'current_picker_index' - 'pick_deadline'
+       WHERE league_id = $1`,
+      [leagueId]
+    );
+  }
+
   /**
    * Delete league
    * Can only delete leagues that haven't started (pre_draft status)
@@ -94,8 +94,15 @@ const envSchema = z.object({
   // Job toggles (enable/disable cron jobs)
   ENABLE_DERBY_AUTOPICK: z.string().default('true').transform((val) => val === 'true'),
   ENABLE_DRAFT_AUTOPICK: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_MATCHUP_DRAFT_AUTOPICK: z.string().default('true').transform((val) => val === 'true'),
   ENABLE_PLAYER_SYNC: z.string().default('true').transform((val) => val === 'true'),
   ENABLE_STATS_SYNC: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_WEEK_FINALIZATION: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_WAIVER_PROCESSING: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_TRADE_PROCESSING: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_DRAFT_SCHEDULER: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_MOCK_DRAFTS: z.string().default('true').transform((val) => val === 'true'),
+  ENABLE_ADP_REFRESH: z.string().default('true').transform((val) => val === 'true'),
 
   // API Keys for internal/admin endpoints
   SYNC_API_KEY: z.string().min(32, 'SYNC_API_KEY must be at least 32 characters').optional(),
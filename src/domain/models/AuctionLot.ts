@@ -0,0 +1,62 @@
+export type AuctionLotStatus = 'open' | 'sold';
+
+/**
+ * A player up for auction in an auction draft
+ * Roster IDs are rosters.id
+ */
+export class AuctionLot {
+  constructor(
+    public readonly id: number,
+    public readonly draftId: number,
+    public readonly playerId: number,
+    public readonly nominatorRosterId: number,
+    public readonly currentBid: number,
+    public readonly currentBidderRosterId: number,
+    public readonly bidDeadline: Date,
+    public readonly status: AuctionLotStatus,
+    public readonly isAutoNomination: boolean,
+    public readonly createdAt: Date,
+    public readonly playerName?: string | null,
+    public readonly playerPosition?: string | null,
+    public readonly playerTeam?: string | null,
+    public readonly currentBidderUsername?: string | null
+  ) {}
+
+  static fromDatabase(row: any): AuctionLot {
+    return new AuctionLot(
+      row.id,
+      row.draft_id,
+      row.player_id,
+      row.nominator_roster_id,
+      row.current_bid,
+      row.current_bidder_roster_id,
+      row.bid_deadline,
+      row.status,
+      row.is_auto_nomination,
+      row.created_at,
+      row.player_name,
+      row.player_position,
+      row.player_team,
+      row.current_bidder_username
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      draft_id: this.draftId,
+      player_id: this.playerId,
+      player_name: this.playerName,
+      player_position: this.playerPosition,
+      player_team: this.playerTeam,
+      nominator_roster_id: this.nominatorRosterId,
+      current_bid: this.currentBid,
+      current_bidder_roster_id: this.currentBidderRosterId,
+      current_bidder_username: this.currentBidderUsername,
+      bid_deadline: this.bidDeadline,
+      status: this.status,
+      is_auto_nomination: this.isAutoNomination,
+      created_at: this.createdAt
+    };
+  }
+}
@@ -6,7 +6,8 @@ export class DraftOrderEntry {
     public readonly draftPosition: number,
     public readonly userId: string | null,
     public readonly username: string | null,
-    public readonly teamName: string | null
+    public readonly teamName: string | null,
+    public readonly timeBankSeconds: number | null = null
   ) {}
 
   static fromDatabase(row: any): DraftOrderEntry {
@@ -17,7 +18,8 @@ export class DraftOrderEntry {
       row.draft_position,
       row.user_id,
       row.username,
-      row.team_name
+      row.team_name,
+      row.time_bank_seconds ?? null
     );
   }
 }
@@ -11,9 +11,14 @@ export class DraftPick {
     public readonly pickedAt: Date,
     public readonly pickTimeSeconds: number | null,
     public readonly createdAt: Date,
+    public readonly originalRosterId: number | null,
+    public readonly auctionPrice: number | null,
+    public readonly isKeeper: boolean,
     public readonly playerName?: string,
     public readonly playerPosition?: string,
-    public readonly playerTeam?: string
+    public readonly playerTeam?: string,
+    public readonly playerSleeperId?: string,
+    public readonly rosterNumber?: number
   ) {}
 
   static fromDatabase(row: any): DraftPick {
@@ -29,9 +34,14 @@ export class DraftPick {
       row.picked_at,
       row.pick_time_seconds,
       row.created_at,
+      row.original_roster_id ?? null,
+      row.auction_price ?? null,
+      row.is_keeper ?? false,
       row.player_name,
       row.player_position,
-      row.player_team
+      row.player_team,
+      row.player_sleeper_id,
+      row.roster_number
     );
   }
 
@@ -48,9 +58,14 @@ export class DraftPick {
       picked_at: this.pickedAt,
       pick_time_seconds: this.pickTimeSeconds,
       created_at: this.createdAt,
+      original_roster_id: this.originalRosterId,
+      auction_price: this.auctionPrice,
+      is_keeper: this.isKeeper,
       player_name: this.playerName,
       player_position: this.playerPosition,
-      player_team: this.playerTeam
+      player_team: this.playerTeam,
+      player_sleeper_id: this.playerSleeperId,
+      roster_number: this.rosterNumber
     };
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * Ownership of a traded draft pick
+ * A pick is identified by draft, round and original roster; roster IDs are rosters.id
+ */
+export class DraftPickAsset {
+  constructor(
+    public readonly id: number,
+    public readonly draftId: number,
+    public readonly round: number,
+    public readonly originalRosterId: number,
+    public readonly currentRosterId: number,
+    public readonly updatedAt: Date,
+    public readonly originalUsername?: string | null,
+    public readonly currentUsername?: string | null
+  ) {}
+
+  static fromDatabase(row: any): DraftPickAsset {
+    return new DraftPickAsset(
+      row.id,
+      row.draft_id,
+      row.round,
+      row.original_roster_id,
+      row.current_roster_id,
+      row.updated_at,
+      row.original_username,
+      row.current_username
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      draft_id: this.draftId,
+      round: this.round,
+      original_roster_id: this.originalRosterId,
+      original_username: this.originalUsername,
+      current_roster_id: this.currentRosterId,
+      current_username: this.currentUsername,
+      updated_at: this.updatedAt
+    };
+  }
+}
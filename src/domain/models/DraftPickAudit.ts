@@ -0,0 +1,56 @@
+export type DraftPickAuditAction = 'undo' | 'edit' | 'force_pick';
+
+/**
+ * A commissioner correction to a draft pick
+ * Roster IDs are rosters.id
+ */
+export class DraftPickAudit {
+  constructor(
+    public readonly id: number,
+    public readonly draftId: number,
+    public readonly action: DraftPickAuditAction,
+    public readonly pickNumber: number,
+    public readonly rosterId: number | null,
+    public readonly previousPlayerId: number | null,
+    public readonly playerId: number | null,
+    public readonly performedBy: string | null,
+    public readonly createdAt: Date,
+    public readonly performedByUsername?: string | null,
+    public readonly previousPlayerName?: string | null,
+    public readonly playerName?: string | null
+  ) {}
+
+  static fromDatabase(row: any): DraftPickAudit {
+    return new DraftPickAudit(
+      row.id,
+      row.draft_id,
+      row.action,
+      row.pick_number,
+      row.roster_id,
+      row.previous_player_id,
+      row.player_id,
+      row.performed_by,
+      row.created_at,
+      row.performed_by_username,
+      row.previous_player_name,
+      row.player_name
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      draft_id: this.draftId,
+      action: this.action,
+      pick_number: this.pickNumber,
+      roster_id: this.rosterId,
+      previous_player_id: this.previousPlayerId,
+      previous_player_name: this.previousPlayerName,
+      player_id: this.playerId,
+      player_name: this.playerName,
+      performed_by: this.performedBy,
+      performed_by_username: this.performedByUsername,
+      created_at: this.createdAt
+    };
+  }
+}
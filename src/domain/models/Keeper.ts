@@ -0,0 +1,48 @@
+/**
+ * A player kept by a roster for the next draft, costing that roster's own pick in roundCost
+ * Roster IDs are rosters.id
+ */
+export class Keeper {
+  constructor(
+    public readonly id: number,
+    public readonly draftId: number,
+    public readonly rosterId: number,
+    public readonly playerId: number,
+    public readonly roundCost: number,
+    public readonly createdAt: Date,
+    public readonly playerName?: string | null,
+    public readonly playerPosition?: string | null,
+    public readonly playerTeam?: string | null,
+    public readonly username?: string | null
+  ) {}
+
+  static fromDatabase(row: any): Keeper {
+    return new Keeper(
+      row.id,
+      row.draft_id,
+      row.roster_id,
+      row.player_id,
+      row.round_cost,
+      row.created_at,
+      row.player_name,
+      row.player_position,
+      row.player_team,
+      row.username
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      draft_id: this.draftId,
+      roster_id: this.rosterId,
+      username: this.username,
+      player_id: this.playerId,
+      player_name: this.playerName,
+      player_position: this.playerPosition,
+      player_team: this.playerTeam,
+      round_cost: this.roundCost,
+      created_at: this.createdAt
+    };
+  }
+}
@@ -72,6 +72,14 @@ export class League {
     return count >= this.MIN_ROSTERS && count <= this.MAX_ROSTERS;
   }
 
+  /**
+   * First playoff week from league settings
+   * `playoff_start_week` (validated by the league schema) is accepted as an alias of `playoff_week_start`
+   */
+  static getPlayoffWeekStart(settings: Record<string, any> | null | undefined): number {
+    return settings?.playoff_week_start || settings?.playoff_start_week || 15;
+  }
+
   /**
    * Check if league is in draft state
    */
@@ -0,0 +1,96 @@
+export type MatchupSource = 'matchup_draft' | 'round_robin' | 'playoff';
+export type PlayoffBracket = 'winners' | 'consolation';
+
+export class Matchup {
+  constructor(
+    public readonly id: number,
+    public readonly leagueId: number,
+    public readonly season: string,
+    public readonly week: number,
+    public readonly roster1Id: number,
+    public readonly roster2Id: number,
+    public readonly roster1Score: number,
+    public readonly roster2Score: number,
+    public readonly source: MatchupSource,
+    public readonly isFinal: boolean,
+    public readonly winnerRosterId: number | null,
+    public readonly finalizedAt: Date | null,
+    public readonly bracket: PlayoffBracket | null,
+    public readonly bracketRound: number | null,
+    public readonly bracketSlot: number | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly roster1Number?: number,
+    public readonly roster2Number?: number,
+    public readonly roster1Username?: string | null,
+    public readonly roster2Username?: string | null
+  ) {}
+
+  static fromDatabase(row: any): Matchup {
+    return new Matchup(
+      row.id,
+      row.league_id,
+      row.season,
+      row.week,
+      row.roster1_id,
+      row.roster2_id,
+      parseFloat(row.roster1_score ?? 0),
+      parseFloat(row.roster2_score ?? 0),
+      row.source,
+      row.is_final ?? false,
+      row.winner_roster_id ?? null,
+      row.finalized_at ?? null,
+      row.bracket ?? null,
+      row.bracket_round ?? null,
+      row.bracket_slot ?? null,
+      row.created_at,
+      row.updated_at,
+      row.roster1_number,
+      row.roster2_number,
+      row.roster1_username,
+      row.roster2_username
+    );
+  }
+
+  /**
+   * Check if a roster (rosters.id) plays in this matchup
+   */
+  involvesRoster(rosterId: number): boolean {
+    return this.roster1Id === rosterId || this.roster2Id === rosterId;
+  }
+
+  /**
+   * Get the points scored by and against a roster in this matchup
+   */
+  getScoresFor(rosterId: number): { pointsFor: number; pointsAgainst: number } {
+    return rosterId === this.roster1Id
+      ? { pointsFor: this.roster1Score, pointsAgainst: this.roster2Score }
+      : { pointsFor: this.roster2Score, pointsAgainst: this.roster1Score };
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      league_id: this.leagueId,
+      season: this.season,
+      week: this.week,
+      roster1_id: this.roster1Id,
+      roster2_id: this.roster2Id,
+      roster1_score: this.roster1Score,
+      roster2_score: this.roster2Score,
+      source: this.source,
+      is_final: this.isFinal,
+      winner_roster_id: this.winnerRosterId,
+      finalized_at: this.finalizedAt,
+      bracket: this.bracket,
+      bracket_round: this.bracketRound,
+      bracket_slot: this.bracketSlot,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt,
+      roster1_number: this.roster1Number,
+      roster2_number: this.roster2Number,
+      roster1_username: this.roster1Username,
+      roster2_username: this.roster2Username
+    };
+  }
+}
@@ -0,0 +1,73 @@
+export type MockDraftScoringType = 'ppr' | 'half_ppr' | 'standard';
+
+/**
+ * A practice draft where one user drafts from userSlot against CPU opponents
+ */
+export class MockDraft {
+  constructor(
+    public readonly id: number,
+    public readonly userId: string,
+    public readonly draftType: string,
+    public readonly thirdRoundReversal: boolean,
+    public readonly teamCount: number,
+    public readonly rounds: number,
+    public readonly userSlot: number,
+    public readonly scoringType: MockDraftScoringType,
+    public readonly season: string,
+    public readonly playerPool: string,
+    public readonly rosterPositions: any,
+    public readonly cpuPickSeconds: number,
+    public readonly status: string,
+    public readonly currentPick: number | null,
+    public readonly nextPickAt: Date | null,
+    public readonly completedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  static fromDatabase(row: any): MockDraft {
+    return new MockDraft(
+      row.id,
+      row.user_id,
+      row.draft_type,
+      row.third_round_reversal,
+      row.team_count,
+      row.rounds,
+      row.user_slot,
+      row.scoring_type,
+      row.season,
+      row.player_pool,
+      row.roster_positions,
+      row.cpu_pick_seconds,
+      row.status,
+      row.current_pick,
+      row.next_pick_at,
+      row.completed_at,
+      row.created_at,
+      row.updated_at
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      user_id: this.userId,
+      draft_type: this.draftType,
+      third_round_reversal: this.thirdRoundReversal,
+      team_count: this.teamCount,
+      rounds: this.rounds,
+      user_slot: this.userSlot,
+      scoring_type: this.scoringType,
+      season: this.season,
+      player_pool: this.playerPool,
+      roster_positions: this.rosterPositions,
+      cpu_pick_seconds: this.cpuPickSeconds,
+      status: this.status,
+      current_pick: this.currentPick,
+      next_pick_at: this.nextPickAt,
+      completed_at: this.completedAt,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * A pick in a mock draft, made by the user or a CPU
+ */
+export class MockDraftPick {
+  constructor(
+    public readonly id: number,
+    public readonly mockDraftId: number,
+    public readonly pickNumber: number,
+    public readonly round: number,
+    public readonly pickInRound: number,
+    public readonly slot: number,
+    public readonly playerId: number,
+    public readonly isCpu: boolean,
+    public readonly pickedAt: Date,
+    public readonly playerName?: string,
+    public readonly playerPosition?: string,
+    public readonly playerTeam?: string
+  ) {}
+
+  static fromDatabase(row: any): MockDraftPick {
+    return new MockDraftPick(
+      row.id,
+      row.mock_draft_id,
+      row.pick_number,
+      row.round,
+      row.pick_in_round,
+      row.slot,
+      row.player_id,
+      row.is_cpu,
+      row.picked_at,
+      row.player_name,
+      row.player_position,
+      row.player_team
+    );
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      mock_draft_id: this.mockDraftId,
+      pick_number: this.pickNumber,
+      round: this.round,
+      pick_in_round: this.pickInRound,
+      slot: this.slot,
+      player_id: this.playerId,
+      is_cpu: this.isCpu,
+      picked_at: this.pickedAt,
+      player_name: this.playerName,
+      player_position: this.playerPosition,
+      player_team: this.playerTeam
+    };
+  }
+}
@@ -20,7 +20,8 @@ export class Player {
     public readonly weight: string | null,
     public readonly college: string | null,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly adp: number | null = null
   ) {}
 
   static fromDatabase(row: any): Player {
@@ -45,7 +46,8 @@ export class Player {
       row.weight,
       row.college,
       row.created_at,
-      row.updated_at
+      row.updated_at,
+      row.adp != null ? Number(row.adp) : null
     );
   }
 }
@@ -0,0 +1,60 @@
+export class Standing {
+  constructor(
+    public readonly leagueId: number,
+    public readonly season: string,
+    public readonly rosterId: number,
+    public readonly wins: number,
+    public readonly losses: number,
+    public readonly ties: number,
+    public readonly pointsFor: number,
+    public readonly pointsAgainst: number,
+    public readonly streak: string | null,
+    public readonly updatedAt: Date | null,
+    public readonly rosterNumber?: number,
+    public readonly username?: string | null
+  ) {}
+
+  static fromDatabase(row: any): Standing {
+    return new Standing(
+      row.league_id,
+      row.season,
+      row.roster_id,
+      row.wins ?? 0,
+      row.losses ?? 0,
+      row.ties ?? 0,
+      parseFloat(row.points_for ?? 0),
+      parseFloat(row.points_against ?? 0),
+      row.streak ?? null,
+      row.updated_at ?? null,
+      row.roster_number,
+      row.username
+    );
+  }
+
+  /**
+   * Winning percentage with ties counted as half a win
+   */
+  get winPercentage(): number {
+    const games = this.wins + this.losses + this.ties;
+    if (games === 0) return 0;
+    return Math.round(((this.wins + this.ties / 2) / games) * 1000) / 1000;
+  }
+
+  toJSON() {
+    return {
+      league_id: this.leagueId,
+      season: this.season,
+      roster_id: this.rosterId,
+      roster_number: this.rosterNumber,
+      username: this.username,
+      wins: this.wins,
+      losses: this.losses,
+      ties: this.ties,
+      win_percentage: this.winPercentage,
+      points_for: this.pointsFor,
+      points_against: this.pointsAgainst,
+      streak: this.streak,
+      updated_at: this.updatedAt
+    };
+  }
+}
@@ -0,0 +1,132 @@
+export type TradeStatus =
+  | 'pending'
+  | 'accepted'
+  | 'completed'
+  | 'rejected'
+  | 'countered'
+  | 'cancelled'
+  | 'vetoed'
+  | 'failed';
+
+/**
+ * A player or draft pick moving between rosters as part of a trade
+ * Pick items have playerId null and identify the pick by draft, round and original roster.
+ */
+export interface TradeItem {
+  playerId: number | null;
+  draftId: number | null;
+  pickRound: number | null;
+  pickOriginalRosterId: number | null;
+  fromRosterId: number;
+  toRosterId: number;
+  playerName?: string | null;
+  playerPosition?: string | null;
+  playerTeam?: string | null;
+  pickOriginalUsername?: string | null;
+}
+
+export class Trade {
+  constructor(
+    public readonly id: number,
+    public readonly leagueId: number,
+    public readonly proposerRosterId: number,
+    public readonly receiverRosterId: number,
+    public readonly status: TradeStatus,
+    public readonly parentTradeId: number | null,
+    public readonly message: string | null,
+    public readonly failureReason: string | null,
+    public readonly acceptedAt: Date | null,
+    public readonly reviewEndsAt: Date | null,
+    public readonly completedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly items: TradeItem[],
+    public readonly vetoCount: number,
+    public readonly proposerRosterNumber?: number,
+    public readonly receiverRosterNumber?: number,
+    public readonly proposerUsername?: string | null,
+    public readonly receiverUsername?: string | null
+  ) {}
+
+  static fromDatabase(row: any, items: TradeItem[] = []): Trade {
+    return new Trade(
+      row.id,
+      row.league_id,
+      row.proposer_roster_id,
+      row.receiver_roster_id,
+      row.status,
+      row.parent_trade_id ?? null,
+      row.message ?? null,
+      row.failure_reason ?? null,
+      row.accepted_at ?? null,
+      row.review_ends_at ?? null,
+      row.completed_at ?? null,
+      row.created_at,
+      row.updated_at,
+      items,
+      parseInt(row.veto_count ?? 0, 10),
+      row.proposer_roster_number,
+      row.receiver_roster_number,
+      row.proposer_username,
+      row.receiver_username
+    );
+  }
+
+  /**
+   * Check if a roster (rosters.id) is one of the two sides of this trade
+   */
+  involvesRoster(rosterId: number): boolean {
+    return this.proposerRosterId === rosterId || this.receiverRosterId === rosterId;
+  }
+
+  /**
+   * Players a roster sends away in this trade
+   */
+  getPlayersSentBy(rosterId: number): number[] {
+    return this.items
+      .filter(item => item.fromRosterId === rosterId && item.playerId !== null)
+      .map(item => item.playerId!);
+  }
+
+  /**
+   * Draft pick items in this trade
+   */
+  getPickItems(): TradeItem[] {
+    return this.items.filter(item => item.playerId === null);
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      league_id: this.leagueId,
+      proposer_roster_id: this.proposerRosterId,
+      proposer_roster_number: this.proposerRosterNumber,
+      proposer_username: this.proposerUsername,
+      receiver_roster_id: this.receiverRosterId,
+      receiver_roster_number: this.receiverRosterNumber,
+      receiver_username: this.receiverUsername,
+      status: this.status,
+      parent_trade_id: this.parentTradeId,
+      message: this.message,
+      failure_reason: this.failureReason,
+      items: this.items.map(item => ({
+        player_id: item.playerId,
+        player_name: item.playerName,
+        player_position: item.playerPosition,
+        player_team: item.playerTeam,
+        draft_id: item.draftId,
+        pick_round: item.pickRound,
+        pick_original_roster_id: item.pickOriginalRosterId,
+        pick_original_username: item.pickOriginalUsername,
+        from_roster_id: item.fromRosterId,
+        to_roster_id: item.toRosterId,
+      })),
+      veto_count: this.vetoCount,
+      accepted_at: this.acceptedAt,
+      review_ends_at: this.reviewEndsAt,
+      completed_at: this.completedAt,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt
+    };
+  }
+}
@@ -0,0 +1,68 @@
+export type WaiverClaimStatus = 'pending' | 'won' | 'lost' | 'failed' | 'cancelled';
+
+export class WaiverClaim {
+  constructor(
+    public readonly id: number,
+    public readonly leagueId: number,
+    public readonly rosterId: number,
+    public readonly playerId: number,
+    public readonly dropPlayerId: number | null,
+    public readonly bidAmount: number,
+    public readonly claimOrder: number,
+    public readonly status: WaiverClaimStatus,
+    public readonly failureReason: string | null,
+    public readonly processedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly playerName?: string | null,
+    public readonly dropPlayerName?: string | null,
+    public readonly rosterNumber?: number,
+    public readonly username?: string | null
+  ) {}
+
+  static fromDatabase(row: any): WaiverClaim {
+    return new WaiverClaim(
+      row.id,
+      row.league_id,
+      row.roster_id,
+      row.player_id,
+      row.drop_player_id ?? null,
+      row.bid_amount ?? 0,
+      row.claim_order ?? 1,
+      row.status,
+      row.failure_reason ?? null,
+      row.processed_at ?? null,
+      row.created_at,
+      row.updated_at,
+      row.player_name,
+      row.drop_player_name,
+      row.roster_number,
+      row.username
+    );
+  }
+
+  isPending(): boolean {
+    return this.status === 'pending';
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      league_id: this.leagueId,
+      roster_id: this.rosterId,
+      roster_number: this.rosterNumber,
+      username: this.username,
+      player_id: this.playerId,
+      player_name: this.playerName,
+      drop_player_id: this.dropPlayerId,
+      drop_player_name: this.dropPlayerName,
+      bid_amount: this.bidAmount,
+      claim_order: this.claimOrder,
+      status: this.status,
+      failure_reason: this.failureReason,
+      processed_at: this.processedAt,
+      created_at: this.createdAt,
+      updated_at: this.updatedAt
+    };
+  }
+}
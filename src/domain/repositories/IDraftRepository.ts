@@ -1,6 +1,10 @@
 import { DraftPick } from '../models/DraftPick';
 import { DraftOrderEntry } from '../models/DraftOrderEntry';
+import { DraftPickAsset } from '../models/DraftPickAsset';
+import { Keeper } from '../models/Keeper';
+import { DraftPickAudit } from '../models/DraftPickAudit';
 import { Player } from '../models/Player';
+import { AdpSegment, PlayerSortField } from './IPlayerRepository';
 
 export interface DraftData {
   id: number;
@@ -33,12 +37,28 @@ export interface CreatePickData {
   playerId: number;
   isAutoPick: boolean;
   pickTimeSeconds: number | null;
+  originalRosterId?: number | null;
+}
+
+export interface CreateKeeperData {
+  draftId: number;
+  rosterId: number;
+  playerId: number;
+  roundCost: number;
 }
 
 export interface PlayerFilters {
   position?: string;
   team?: string;
   search?: string;
+  sleeperIds?: string[];
+  sort?: PlayerSortField;
+  adp?: AdpSegment;
+}
+
+export interface AutopickSettings {
+  strategy: string;
+  positionPriority: string[];
 }
 
 export interface IDraftRepository {
@@ -54,6 +74,17 @@ export interface IDraftRepository {
   createPick(pickData: CreatePickData): Promise<DraftPick>;
   getDraftedPlayerIds(draftId: number): Promise<number[]>;
 
+  // Traded Picks
+  getPickAssets(draftId: number): Promise<DraftPickAsset[]>;
+
+  // Keepers
+  getKeepers(draftId: number): Promise<Keeper[]>;
+  createKeeper(keeperData: CreateKeeperData): Promise<Keeper>;
+  deleteKeeper(draftId: number, keeperId: number): Promise<boolean>;
+
+  // Commissioner audit trail
+  getPickAudit(draftId: number): Promise<DraftPickAudit[]>;
+
   // Available Players
   getAvailablePlayers(draftId: number, playerPool: string, filters?: PlayerFilters): Promise<Player[]>;
   isPlayerAvailable(draftId: number, playerId: number): Promise<boolean>;
@@ -61,5 +92,7 @@ export interface IDraftRepository {
   // Autopick Status
   getUserAutopickStatus(leagueId: number, rosterId: number): Promise<boolean>;
   setUserAutopickStatus(leagueId: number, rosterId: number, enabled: boolean): Promise<void>;
+  getAutopickSettings(leagueId: number, rosterId: number): Promise<AutopickSettings>;
+  setAutopickSettings(leagueId: number, rosterId: number, settings: AutopickSettings): Promise<void>;
   getAllAutopickStatuses(leagueId: number): Promise<Map<number, boolean>>;
 }
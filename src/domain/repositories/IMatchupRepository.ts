@@ -0,0 +1,85 @@
+import { Matchup, MatchupSource, PlayoffBracket } from '../models/Matchup';
+
+/**
+ * Data for creating a matchup
+ */
+export interface CreateMatchupData {
+  roster1Id: number;
+  roster2Id: number;
+  bracket?: PlayoffBracket;
+  bracketRound?: number;
+  bracketSlot?: number;
+}
+
+/**
+ * Score update for a single matchup
+ */
+export interface MatchupScoreUpdate {
+  matchupId: number;
+  roster1Score: number;
+  roster2Score: number;
+}
+
+/**
+ * Repository interface for persisted head-to-head matchups
+ * Roster IDs are rosters.id (database PK)
+ */
+export interface IMatchupRepository {
+  /**
+   * Get all matchups for a league week (with roster numbers and usernames)
+   */
+  findByLeagueAndWeek(leagueId: number, season: string, week: number): Promise<Matchup[]>;
+
+  /**
+   * Get the matchup a roster plays in for a given week
+   */
+  findByRosterAndWeek(
+    leagueId: number,
+    season: string,
+    week: number,
+    rosterId: number
+  ): Promise<Matchup | null>;
+
+  /**
+   * Insert the pairings for a week atomically
+   * Existing rows for the week are left untouched (ON CONFLICT DO NOTHING)
+   */
+  createForWeek(
+    leagueId: number,
+    season: string,
+    week: number,
+    pairings: CreateMatchupData[],
+    source: MatchupSource
+  ): Promise<Matchup[]>;
+
+  /**
+   * Get all final matchups for a league season
+   */
+  findFinalByLeague(leagueId: number, season: string): Promise<Matchup[]>;
+
+  /**
+   * Get all playoff bracket matchups for a league season
+   */
+  findBracketByLeague(leagueId: number, season: string): Promise<Matchup[]>;
+
+  /**
+   * Persist scores for several matchups atomically
+   * Final matchups are never changed
+   */
+  updateScores(updates: MatchupScoreUpdate[]): Promise<void>;
+
+  /**
+   * Lock a week's matchups: mark them final and record the winner (NULL on a tie)
+   */
+  finalizeWeek(leagueId: number, season: string, week: number): Promise<Matchup[]>;
+
+  /**
+   * Delete all matchups for a league week
+   */
+  deleteByLeagueAndWeek(leagueId: number, season: string, week: number): Promise<void>;
+
+  /**
+   * Delete all matchups for a league
+   */
+  deleteByLeagueId(leagueId: number): Promise<void>;
+}
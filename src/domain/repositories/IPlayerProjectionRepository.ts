@@ -42,4 +42,19 @@ export interface IPlayerProjectionRepository {
    * Find all projections for a specific week
    */
   findByWeek(season: string, week: number, seasonType?: string): Promise<PlayerProjection[]>;
+
+  /**
+   * Sum each player's weekly projections for a season
+   */
+  findSeasonTotals(season: string, seasonType?: string): Promise<PlayerSeasonProjection[]>;
+}
+
+/**
+ * A player's projected points summed over a season
+ */
+export interface PlayerSeasonProjection {
+  playerSleeperId: string;
+  projPtsPpr: number;
+  projPtsHalfPpr: number;
+  projPtsStd: number;
 }
@@ -21,6 +21,21 @@ export interface UpsertPlayerData {
   college: string | null;
 }
 
+export type AdpScoringType = 'ppr' | 'half_ppr' | 'standard';
+
+/**
+ * Which completed drafts ADP is averaged over
+ * Omitted fields average across every value, e.g. no leagueSize means all league sizes.
+ */
+export interface AdpSegment {
+  season?: string;
+  scoringType?: AdpScoringType;
+  leagueSize?: number;
+  draftType?: string;
+}
+
+export type PlayerSortField = 'name' | 'adp';
+
 export interface PlayerFilters {
   position?: string;
   team?: string;
@@ -28,14 +43,18 @@ export interface PlayerFilters {
   active?: boolean;
   limit?: number;
   offset?: number;
+  sort?: PlayerSortField;
+  adp?: AdpSegment;
 }
 
 export interface IPlayerRepository {
   upsert(data: UpsertPlayerData): Promise<Player>;
   upsertBatch(players: UpsertPlayerData[]): Promise<number>;
   findById(id: number): Promise<Player | null>;
+  findByIds(ids: number[]): Promise<Player[]>;
   findBySleeperId(sleeperId: string): Promise<Player | null>;
   search(filters: PlayerFilters): Promise<Player[]>;
   markInactive(sleeperIds: string[]): Promise<number>;
-  getActivePlayers(): Promise<Player[]>;
+  getActivePlayers(sort?: PlayerSortField, adp?: AdpSegment): Promise<Player[]>;
+  refreshAdp(): Promise<void>;
 }
@@ -76,6 +76,16 @@ export interface IPlayerStatsRepository {
    */
   findByWeek(season: string, week: number, seasonType?: string): Promise<PlayerWeeklyStat[]>;
 
+  /**
+   * Find stats for a set of players in a specific week
+   */
+  findByPlayersAndWeek(
+    playerSleeperIds: string[],
+    season: string,
+    week: number,
+    seasonType?: string
+  ): Promise<PlayerWeeklyStat[]>;
+
   /**
    * Get season totals from materialized view
    */
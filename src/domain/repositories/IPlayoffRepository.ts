@@ -0,0 +1,42 @@
+import { PlayoffBracket } from '../models/Matchup';
+
+/**
+ * Repository interface for playoff seeding
+ * Roster IDs are rosters.id (database PK)
+ */
+export interface IPlayoffRepository {
+  /**
+   * Get frozen seeds for a league season, ordered by bracket then seed
+   */
+  findSeeds(leagueId: number, season: string): Promise<PlayoffSeed[]>;
+
+  /**
+   * Persist seeds for a league season atomically
+   */
+  createSeeds(leagueId: number, season: string, seeds: CreatePlayoffSeedData[]): Promise<PlayoffSeed[]>;
+
+  /**
+   * Delete all seeds for a league
+   */
+  deleteByLeagueId(leagueId: number): Promise<void>;
+}
+
+/**
+ * Playoff seed data structure
+ */
+export interface PlayoffSeed {
+  rosterId: number;
+  bracket: PlayoffBracket;
+  seed: number;
+  rosterNumber?: number;
+  username?: string | null;
+}
+
+/**
+ * Data for creating a playoff seed
+ */
+export interface CreatePlayoffSeedData {
+  rosterId: number;
+  bracket: PlayoffBracket;
+  seed: number;
+}
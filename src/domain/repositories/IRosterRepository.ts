@@ -38,6 +38,18 @@ export interface IRosterRepository {
    */
   updateSettings(leagueId: number, rosterId: number, settings: Record<string, any>): Promise<Roster>;
 
+  /**
+   * Replace a roster's starters and bench
+   * The roster row is locked and handed to `validate` first, so the lineup is checked against
+   * the players the roster has at write time; nothing is written when it returns a failure.
+   */
+  updateLineup(
+    leagueId: number,
+    rosterId: number,
+    lineup: { starters: Array<number | null>; bench: number[] },
+    validate: (roster: Roster) => string | null
+  ): Promise<LineupUpdateResult>;
+
   /**
    * Delete all rosters for a league
    */
@@ -68,10 +80,22 @@ export interface Roster {
   user_id: string | null;
   roster_id: number;
   settings: Record<string, any>;
+  starters: Array<number | null>;
+  bench: number[];
+  waiver_priority: number | null;
+  faab_remaining: number | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Outcome of a lineup update: the updated roster, or the locked roster and why it was rejected
+ */
+export interface LineupUpdateResult {
+  roster: Roster;
+  failure: string | null;
+}
+
 /**
  * Parameters for creating a roster
  */
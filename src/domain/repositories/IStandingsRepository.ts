@@ -0,0 +1,36 @@
+import { Standing } from '../models/Standing';
+
+/**
+ * Data for writing a roster's standings row
+ */
+export interface StandingData {
+  rosterId: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  streak: string | null;
+}
+
+/**
+ * Repository interface for league standings
+ * Roster IDs are rosters.id (database PK)
+ */
+export interface IStandingsRepository {
+  /**
+   * Get standings for every roster in a league season
+   * Rosters without results are returned with a 0-0-0 record
+   */
+  findByLeague(leagueId: number, season: string): Promise<Standing[]>;
+
+  /**
+   * Replace all standings rows for a league season atomically
+   */
+  replaceForLeague(leagueId: number, season: string, standings: StandingData[]): Promise<void>;
+
+  /**
+   * Delete all standings for a league
+   */
+  deleteByLeagueId(leagueId: number): Promise<void>;
+}
@@ -0,0 +1,129 @@
+import { Trade, TradeItem, TradeStatus } from '../models/Trade';
+import { Roster } from './IRosterRepository';
+
+/**
+ * Repository interface for trades
+ * Roster IDs are rosters.id (database PK); player IDs are players.id
+ */
+export interface ITradeRepository {
+  /**
+   * Get a trade with its items and veto count
+   */
+  findById(tradeId: number): Promise<Trade | null>;
+
+  /**
+   * Get a league's trades, newest first, optionally filtered by status
+   */
+  findByLeague(leagueId: number, statuses?: TradeStatus[]): Promise<Trade[]>;
+
+  /**
+   * Get accepted trades whose veto window has ended
+   * Trades accepted without a veto window are included in case immediate execution was interrupted
+   */
+  findReadyToExecute(now: Date): Promise<Trade[]>;
+
+  /**
+   * Create a pending trade and its items atomically
+   */
+  create(data: CreateTradeData): Promise<Trade>;
+
+  /**
+   * Move a trade to a new status if it is still in one of the expected statuses
+   * @returns false if the trade had already moved on
+   */
+  transitionStatus(
+    tradeId: number,
+    from: TradeStatus[],
+    to: TradeStatus,
+    fields?: TradeStatusFields
+  ): Promise<boolean>;
+
+  /**
+   * Record a veto vote
+   * @returns the trade's veto count after the vote
+   */
+  addVetoVote(tradeId: number, rosterId: number): Promise<number>;
+
+  /**
+   * Lock the trade's rosters, apply the lineups resolved from the locked rows, move traded
+   * draft picks and mark the trade completed atomically
+   * Nothing is written when the trade is no longer in an executable status or resolve reports a failure.
+   */
+  execute(
+    tradeId: number,
+    from: TradeStatus[],
+    rosterIds: number[],
+    resolve: (rosters: Roster[]) => TradeRosterResolution,
+    picks: TradePickTransfer[]
+  ): Promise<TradeExecution>;
+
+  /**
+   * Delete all trades for a league
+   */
+  deleteByLeagueId(leagueId: number): Promise<void>;
+}
+
+/**
+ * Data for creating a trade
+ */
+export interface CreateTradeData {
+  leagueId: number;
+  proposerRosterId: number;
+  receiverRosterId: number;
+  parentTradeId: number | null;
+  message: string | null;
+  items: CreateTradeItemData[];
+}
+
+/**
+ * A player or draft pick to include in a new trade
+ */
+export type CreateTradeItemData = Pick<
+  TradeItem,
+  'playerId' | 'draftId' | 'pickRound' | 'pickOriginalRosterId' | 'fromRosterId' | 'toRosterId'
+>;
+
+/**
+ * Optional timestamps and reason set alongside a status change
+ */
+export interface TradeStatusFields {
+  acceptedAt?: Date;
+  reviewEndsAt?: Date | null;
+  failureReason?: string | null;
+}
+
+/**
+ * Lineup a roster ends up with after a trade
+ */
+export interface TradeRosterUpdate {
+  rosterId: number;
+  starters: Array<number | null>;
+  bench: number[];
+}
+
+/**
+ * Lineups resolved from the locked rosters, or the reason the trade can no longer go through
+ */
+export interface TradeRosterResolution {
+  failure: string | null;
+  rosters: TradeRosterUpdate[];
+}
+
+/**
+ * Outcome of executing a trade
+ * executed is false with a null failure when the trade had already moved on.
+ */
+export interface TradeExecution {
+  executed: boolean;
+  failure: string | null;
+}
+
+/**
+ * New owner of a draft pick after a trade
+ */
+export interface TradePickTransfer {
+  draftId: number;
+  round: number;
+  originalRosterId: number;
+  toRosterId: number;
+}
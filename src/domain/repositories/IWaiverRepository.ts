@@ -0,0 +1,149 @@
+import { WaiverClaim, WaiverClaimStatus } from '../models/WaiverClaim';
+import { Roster } from './IRosterRepository';
+
+/**
+ * Repository interface for waiver claims and players on waivers
+ * Roster IDs are rosters.id (database PK); player IDs are players.id
+ */
+export interface IWaiverRepository {
+  /**
+   * Get a claim by ID
+   */
+  findById(claimId: number): Promise<WaiverClaim | null>;
+
+  /**
+   * Get a roster's claims in claim order, optionally filtered by status
+   */
+  findByRoster(rosterId: number, status?: WaiverClaimStatus): Promise<WaiverClaim[]>;
+
+  /**
+   * Get every pending claim in a league
+   */
+  findPendingByLeague(leagueId: number): Promise<WaiverClaim[]>;
+
+  /**
+   * Create a pending claim at the end of the roster's claim order
+   */
+  create(data: CreateWaiverClaimData): Promise<WaiverClaim>;
+
+  /**
+   * Cancel a pending claim
+   */
+  cancel(claimId: number): Promise<void>;
+
+  /**
+   * Set a roster's claim order; claimIds are listed first to last
+   */
+  reorder(rosterId: number, claimIds: number[]): Promise<void>;
+
+  /**
+   * Get players currently on waivers in a league
+   */
+  findWaiverPlayers(leagueId: number): Promise<WaiverPlayer[]>;
+
+  /**
+   * Check if a player is on waivers in a league
+   */
+  isPlayerOnWaivers(leagueId: number, playerId: number): Promise<boolean>;
+
+  /**
+   * Apply a free-agent add/drop atomically.
+   * Rosters in the league are locked while the add is re-checked, so two managers
+   * can't pick up the same player. The locked roster rows are handed to `resolve`,
+   * which checks the drop and builds the new lineup from them.
+   */
+  applyFreeAgentMove(
+    move: FreeAgentMove,
+    resolve: (rosters: Roster[]) => FreeAgentRosterResolution
+  ): Promise<FreeAgentMoveResult>;
+
+  /**
+   * Resolve and persist a waiver run atomically. The league's rosters and pending claims are
+   * locked and read inside the transaction and handed to `resolve`; its claim results, roster
+   * lineups, waiver priority and FAAB budgets are then written. Players who were on waivers
+   * before the run clear, and players dropped by winning claims go on waivers.
+   */
+  applyWaiverRun(leagueId: number, resolve: (state: WaiverRunState) => WaiverRunResult): Promise<WaiverRunResult>;
+
+  /**
+   * Delete all claims and waiver players for a league
+   */
+  deleteByLeagueId(leagueId: number): Promise<void>;
+}
+
+/**
+ * Data for creating a waiver claim
+ */
+export interface CreateWaiverClaimData {
+  leagueId: number;
+  rosterId: number;
+  playerId: number;
+  dropPlayerId: number | null;
+  bidAmount: number;
+}
+
+/**
+ * Player sitting on waivers
+ */
+export interface WaiverPlayer {
+  playerId: number;
+  droppedByRosterId: number | null;
+  createdAt: Date;
+  playerName?: string | null;
+}
+
+/**
+ * A free-agent add with an optional drop
+ */
+export interface FreeAgentMove {
+  leagueId: number;
+  rosterId: number;
+  playerId: number;
+  dropPlayerId: number | null;
+}
+
+/**
+ * Lineup a free-agent move leaves the roster with, or why it can't be made
+ */
+export interface FreeAgentRosterResolution {
+  failure: string | null;
+  starters: Array<number | null>;
+  bench: number[];
+}
+
+/**
+ * Outcome of applying a free-agent move
+ * applied is false with a null failure when the player was taken meanwhile.
+ */
+export interface FreeAgentMoveResult {
+  applied: boolean;
+  failure: string | null;
+}
+
+/**
+ * Locked league state a waiver run is resolved against
+ */
+export interface WaiverRunState {
+  rosters: Roster[];
+  claims: WaiverClaim[];
+}
+
+/**
+ * Outcome of processing a league's pending claims
+ */
+export interface WaiverRunResult {
+  claims: Array<{
+    claimId: number;
+    status: Exclude<WaiverClaimStatus, 'pending' | 'cancelled'>;
+    failureReason: string | null;
+  }>;
+  rosters: Array<{
+    rosterId: number;
+    starters: Array<number | null>;
+    bench: number[];
+    waiverPriority: number;
+    faabRemaining: number;
+  }>;
+  droppedPlayers: Array<{ playerId: number; droppedByRosterId: number }>;
+  startedAt: Date;
+}
@@ -9,6 +9,11 @@ import { IDraftRepository } from '../../domain/repositories/IDraftRepository';
 import { IDraftQueueRepository } from '../../domain/repositories/IDraftQueueRepository';
 import { IPlayerStatsRepository } from '../../domain/repositories/IPlayerStatsRepository';
 import { IPlayerProjectionRepository } from '../../domain/repositories/IPlayerProjectionRepository';
+import { IMatchupRepository } from '../../domain/repositories/IMatchupRepository';
+import { IStandingsRepository } from '../../domain/repositories/IStandingsRepository';
+import { IPlayoffRepository } from '../../domain/repositories/IPlayoffRepository';
+import { IWaiverRepository } from '../../domain/repositories/IWaiverRepository';
+import { ITradeRepository } from '../../domain/repositories/ITradeRepository';
 import { UserRepository } from '../repositories/UserRepository';
 import { LeagueRepository } from '../repositories/LeagueRepository';
 import { RosterRepository } from '../repositories/RosterRepository';
@@ -19,6 +24,11 @@ import { DraftRepository } from '../repositories/DraftRepository';
 import { DraftQueueRepository } from '../repositories/DraftQueueRepository';
 import { PlayerStatsRepository } from '../repositories/PlayerStatsRepository';
 import { PlayerProjectionRepository } from '../repositories/PlayerProjectionRepository';
+import { MatchupRepository } from '../repositories/MatchupRepository';
+import { StandingsRepository } from '../repositories/StandingsRepository';
+import { PlayoffRepository } from '../repositories/PlayoffRepository';
+import { WaiverRepository } from '../repositories/WaiverRepository';
+import { TradeRepository } from '../repositories/TradeRepository';
 import { AuthService } from '../../application/services/AuthService';
 import { LeagueService } from '../../application/services/LeagueService';
 import { LeaguePaymentService } from '../../application/services/league/LeaguePaymentService';
@@ -35,13 +45,25 @@ import { StatsService } from '../../application/services/StatsService';
 import { StatsSyncService } from '../../application/services/StatsSyncService';
 import { CurrentWeekService } from '../../application/services/CurrentWeekService';
 import { LiveScoreService } from '../../application/services/LiveScoreService';
+import { MatchupService } from '../../application/services/MatchupService';
+import { StandingsService } from '../../application/services/StandingsService';
+import { PlayoffService } from '../../application/services/PlayoffService';
+import { LineupService } from '../../application/services/LineupService';
+import { RosterPopulationService } from '../../application/services/RosterPopulationService';
+import { WaiverService } from '../../application/services/WaiverService';
+import { TradeService } from '../../application/services/TradeService';
+import { KeeperService } from '../../application/services/KeeperService';
+import { DraftSchedulerService } from '../../application/services/DraftSchedulerService';
+import { MockDraftService } from '../../application/services/MockDraftService';
 import { SleeperScheduleService } from '../external/SleeperScheduleService';
 import { SocketChatEventsPublisher } from '../../app/runtime/socket/SocketChatEventsPublisher';
 import { SocketDraftEventsPublisher } from '../../app/runtime/socket/SocketDraftEventsPublisher';
 import { SocketMatchupDraftEventsPublisher } from '../../app/runtime/socket/SocketMatchupDraftEventsPublisher';
+import { SocketTradeEventsPublisher } from '../../app/runtime/socket/SocketTradeEventsPublisher';
 import { IChatEventsPublisher } from '../../application/services/IChatEventsPublisher';
 import { IDraftEventsPublisher } from '../../application/services/IDraftEventsPublisher';
 import { IMatchupDraftEventsPublisher } from '../../application/services/IMatchupDraftEventsPublisher';
+import { ITradeEventsPublisher } from '../../application/services/ITradeEventsPublisher';
 import { SleeperApiClient } from '../external/SleeperApiClient';
 
 /**
@@ -63,6 +85,11 @@ export class Container {
   private _draftQueueRepository?: IDraftQueueRepository;
   private _playerStatsRepository?: IPlayerStatsRepository;
   private _playerProjectionRepository?: IPlayerProjectionRepository;
+  private _matchupRepository?: IMatchupRepository;
+  private _standingsRepository?: IStandingsRepository;
+  private _playoffRepository?: IPlayoffRepository;
+  private _waiverRepository?: IWaiverRepository;
+  private _tradeRepository?: ITradeRepository;
 
   // Services
   private _authService?: AuthService;
@@ -86,6 +113,17 @@ export class Container {
   private _sleeperScheduleService?: SleeperScheduleService;
   private _currentWeekService?: CurrentWeekService;
   private _liveScoreService?: LiveScoreService;
+  private _matchupService?: MatchupService;
+  private _standingsService?: StandingsService;
+  private _playoffService?: PlayoffService;
+  private _lineupService?: LineupService;
+  private _rosterPopulationService?: RosterPopulationService;
+  private _waiverService?: WaiverService;
+  private _tradeService?: TradeService;
+  private _keeperService?: KeeperService;
+  private _draftSchedulerService?: DraftSchedulerService;
+  private _mockDraftService?: MockDraftService;
+  private _tradeEventsPublisher?: ITradeEventsPublisher;
 
   private constructor(pool: Pool) {
     this.pool = pool;
@@ -359,7 +397,9 @@ export class Container {
         this.getDraftRepository(),
         this.pool,
         this.getDraftEventsPublisher(),
-        this.getDraftQueueService()
+        this.getDraftQueueService(),
+        this.getRosterPopulationService(),
+        this.getPlayerProjectionRepository()
       );
     }
     return this._draftService;
@@ -467,12 +507,226 @@ export class Container {
         this.pool,
         this.getSleeperScheduleService(),
         this.getCurrentWeekService(),
-        this.getStatsSyncService()
+        this.getStatsSyncService(),
+        this.getMatchupService()
       );
     }
     return this._liveScoreService;
   }
 
+  /**
+   * Get Matchup Repository
+   */
+  getMatchupRepository(): IMatchupRepository {
+    if (!this._matchupRepository) {
+      this._matchupRepository = new MatchupRepository(this.pool);
+    }
+    return this._matchupRepository;
+  }
+
+  /**
+   * Get Matchup Service
+   */
+  getMatchupService(): MatchupService {
+    if (!this._matchupService) {
+      this._matchupService = new MatchupService(
+        this.getMatchupRepository(),
+        this.getLeagueRepository(),
+        this.getPlayerStatsRepository(),
+        this.pool
+      );
+    }
+    return this._matchupService;
+  }
+
+  /**
+   * Get Standings Repository
+   */
+  getStandingsRepository(): IStandingsRepository {
+    if (!this._standingsRepository) {
+      this._standingsRepository = new StandingsRepository(this.pool);
+    }
+    return this._standingsRepository;
+  }
+
+  /**
+   * Get Standings Service
+   */
+  getStandingsService(): StandingsService {
+    if (!this._standingsService) {
+      this._standingsService = new StandingsService(
+        this.getStandingsRepository(),
+        this.getMatchupRepository(),
+        this.getLeagueRepository(),
+        this.pool
+      );
+    }
+    return this._standingsService;
+  }
+
+  /**
+   * Get Playoff Repository
+   */
+  getPlayoffRepository(): IPlayoffRepository {
+    if (!this._playoffRepository) {
+      this._playoffRepository = new PlayoffRepository(this.pool);
+    }
+    return this._playoffRepository;
+  }
+
+  /**
+   * Get Playoff Service
+   */
+  getPlayoffService(): PlayoffService {
+    if (!this._playoffService) {
+      this._playoffService = new PlayoffService(
+        this.getPlayoffRepository(),
+        this.getMatchupRepository(),
+        this.getStandingsRepository(),
+        this.getLeagueRepository(),
+        this.getChatService(),
+        this.pool
+      );
+    }
+    return this._playoffService;
+  }
+
+  /**
+   * Get Lineup Service
+   */
+  getLineupService(): LineupService {
+    if (!this._lineupService) {
+      this._lineupService = new LineupService(
+        this.getRosterRepository(),
+        this.getLeagueRepository(),
+        this.getPlayerRepository(),
+        this.getSleeperScheduleService(),
+        this.getCurrentWeekService(),
+        this.pool
+      );
+    }
+    return this._lineupService;
+  }
+
+  /**
+   * Get Roster Population Service
+   */
+  getRosterPopulationService(): RosterPopulationService {
+    if (!this._rosterPopulationService) {
+      this._rosterPopulationService = new RosterPopulationService(
+        this.getPlayerRepository(),
+        this.pool
+      );
+    }
+    return this._rosterPopulationService;
+  }
+
+  /**
+   * Get Waiver Repository
+   */
+  getWaiverRepository(): IWaiverRepository {
+    if (!this._waiverRepository) {
+      this._waiverRepository = new WaiverRepository(this.pool);
+    }
+    return this._waiverRepository;
+  }
+
+  /**
+   * Get Waiver Service
+   */
+  getWaiverService(): WaiverService {
+    if (!this._waiverService) {
+      this._waiverService = new WaiverService(
+        this.getWaiverRepository(),
+        this.getRosterRepository(),
+        this.getPlayerRepository(),
+        this.getChatService(),
+        this.pool
+      );
+    }
+    return this._waiverService;
+  }
+
+  /**
+   * Get Trade Repository
+   */
+  getTradeRepository(): ITradeRepository {
+    if (!this._tradeRepository) {
+      this._tradeRepository = new TradeRepository(this.pool);
+    }
+    return this._tradeRepository;
+  }
+
+  /**
+   * Get Trade Events Publisher
+   */
+  getTradeEventsPublisher(): ITradeEventsPublisher {
+    if (!this._tradeEventsPublisher) {
+      this._tradeEventsPublisher = new SocketTradeEventsPublisher();
+    }
+    return this._tradeEventsPublisher;
+  }
+
+  /**
+   * Get Trade Service
+   */
+  getTradeService(): TradeService {
+    if (!this._tradeService) {
+      this._tradeService = new TradeService(
+        this.getTradeRepository(),
+        this.getRosterRepository(),
+        this.getDraftRepository(),
+        this.getCurrentWeekService(),
+        this.getChatService(),
+        this.pool,
+        this.getTradeEventsPublisher()
+      );
+    }
+    return this._tradeService;
+  }
+
+  /**
+   * Get Keeper Service
+   */
+  getKeeperService(): KeeperService {
+    if (!this._keeperService) {
+      this._keeperService = new KeeperService(
+        this.getDraftRepository(),
+        this.getRosterRepository(),
+        this.getLeagueRepository(),
+        this.getChatService()
+      );
+    }
+    return this._keeperService;
+  }
+
+  /**
+   * Get Draft Scheduler Service
+   */
+  getDraftSchedulerService(): DraftSchedulerService {
+    if (!this._draftSchedulerService) {
+      this._draftSchedulerService = new DraftSchedulerService(
+        this.pool,
+        this.getDraftService(),
+        this.getChatService()
+      );
+    }
+    return this._draftSchedulerService;
+  }
+
+  /**
+   * Get Mock Draft Service
+   */
+  getMockDraftService(): MockDraftService {
+    if (!this._mockDraftService) {
+      this._mockDraftService = new MockDraftService(
+        this.pool,
+        this.getPlayerProjectionRepository()
+      );
+    }
+    return this._mockDraftService;
+  }
+
   /**
    * Reset container (useful for testing)
    */
@@ -508,5 +762,21 @@ export class Container {
     this._sleeperScheduleService = undefined;
     this._currentWeekService = undefined;
     this._liveScoreService = undefined;
+    this._matchupRepository = undefined;
+    this._matchupService = undefined;
+    this._standingsRepository = undefined;
+    this._standingsService = undefined;
+    this._playoffRepository = undefined;
+    this._playoffService = undefined;
+    this._lineupService = undefined;
+    this._rosterPopulationService = undefined;
+    this._waiverRepository = undefined;
+    this._waiverService = undefined;
+    this._tradeRepository = undefined;
+    this._tradeService = undefined;
+    this._keeperService = undefined;
+    this._draftSchedulerService = undefined;
+    this._mockDraftService = undefined;
+    this._tradeEventsPublisher = undefined;
   }
 }
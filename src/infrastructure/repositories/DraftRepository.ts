@@ -1,13 +1,19 @@
 import { Pool } from 'pg';
 import { DraftPick } from '../../domain/models/DraftPick';
 import { DraftOrderEntry } from '../../domain/models/DraftOrderEntry';
+import { DraftPickAsset } from '../../domain/models/DraftPickAsset';
+import { Keeper } from '../../domain/models/Keeper';
+import { DraftPickAudit } from '../../domain/models/DraftPickAudit';
 import { Player } from '../../domain/models/Player';
 import {
   IDraftRepository,
   DraftData,
   CreatePickData,
-  PlayerFilters
+  CreateKeeperData,
+  PlayerFilters,
+  AutopickSettings
 } from '../../domain/repositories/IDraftRepository';
+import { buildAdpJoin, getPlayerOrderBy } from './PlayerRepository';
 
 export class DraftRepository implements IDraftRepository {
   constructor(private readonly db: Pool) {}
@@ -122,7 +128,7 @@ export class DraftRepository implements IDraftRepository {
     const result = await this.db.query(
       `SELECT
         d_order.id, d_order.draft_id, d_order.roster_id, d_order.draft_position,
-        r.user_id, u.username, NULL as team_name
+        d_order.time_bank_seconds, r.user_id, u.username, NULL as team_name
       FROM draft_order d_order
       LEFT JOIN rosters r ON d_order.roster_id = r.id
       LEFT JOIN users u ON r.user_id = u.id
@@ -146,9 +152,12 @@ export class DraftRepository implements IDraftRepository {
         dp.*,
         p.full_name as player_name,
         p.position as player_position,
-        p.team as player_team
+        p.team as player_team,
+        p.sleeper_id as player_sleeper_id,
+        r.roster_id as roster_number
       FROM draft_picks dp
       LEFT JOIN players p ON p.id = dp.player_id
+      LEFT JOIN rosters r ON r.id = dp.roster_id
       WHERE dp.draft_id = $1
       ORDER BY dp.pick_number`,
       [draftId]
@@ -162,8 +171,8 @@ export class DraftRepository implements IDraftRepository {
     const insertResult = await this.db.query(
       `INSERT INTO draft_picks (
         draft_id, pick_number, round, pick_in_round, roster_id,
-        player_id, is_auto_pick, pick_time_seconds
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        player_id, is_auto_pick, pick_time_seconds, original_roster_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING id`,
       [
         pickData.draftId,
@@ -173,7 +182,8 @@ export class DraftRepository implements IDraftRepository {
         pickData.rosterId,
         pickData.playerId,
         pickData.isAutoPick,
-        pickData.pickTimeSeconds
+        pickData.pickTimeSeconds,
+        pickData.originalRosterId ?? null
       ]
     );
 
@@ -204,6 +214,85 @@ export class DraftRepository implements IDraftRepository {
     return result.rows.map(row => row.player_id);
   }
 
+  async getPickAssets(draftId: number): Promise<DraftPickAsset[]> {
+    const result = await this.db.query(
+      `SELECT
+        dpa.*,
+        ou.username as original_username,
+        cu.username as current_username
+      FROM draft_pick_assets dpa
+      INNER JOIN rosters o ON o.id = dpa.original_roster_id
+      INNER JOIN rosters c ON c.id = dpa.current_roster_id
+      LEFT JOIN users ou ON ou.id = o.user_id
+      LEFT JOIN users cu ON cu.id = c.user_id
+      WHERE dpa.draft_id = $1
+      ORDER BY dpa.round, dpa.original_roster_id`,
+      [draftId]
+    );
+
+    return result.rows.map(row => DraftPickAsset.fromDatabase(row));
+  }
+
+  async getKeepers(draftId: number): Promise<Keeper[]> {
+    const result = await this.db.query(
+      `SELECT
+        k.*,
+        p.full_name as player_name,
+        p.position as player_position,
+        p.team as player_team,
+        u.username
+      FROM keepers k
+      INNER JOIN players p ON p.id = k.player_id
+      INNER JOIN rosters r ON r.id = k.roster_id
+      LEFT JOIN users u ON u.id = r.user_id
+      WHERE k.draft_id = $1
+      ORDER BY k.round_cost, k.roster_id`,
+      [draftId]
+    );
+
+    return result.rows.map(row => Keeper.fromDatabase(row));
+  }
+
+  async createKeeper(keeperData: CreateKeeperData): Promise<Keeper> {
+    const insertResult = await this.db.query(
+      `INSERT INTO keepers (draft_id, roster_id, player_id, round_cost)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [keeperData.draftId, keeperData.rosterId, keeperData.playerId, keeperData.roundCost]
+    );
+
+    const keepers = await this.getKeepers(keeperData.draftId);
+    return keepers.find(keeper => keeper.id === insertResult.rows[0].id)!;
+  }
+
+  async deleteKeeper(draftId: number, keeperId: number): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM keepers WHERE id = $1 AND draft_id = $2',
+      [keeperId, draftId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getPickAudit(draftId: number): Promise<DraftPickAudit[]> {
+    const result = await this.db.query(
+      `SELECT
+        a.*,
+        u.username as performed_by_username,
+        prev.full_name as previous_player_name,
+        p.full_name as player_name
+      FROM draft_pick_audit a
+      LEFT JOIN users u ON u.id = a.performed_by
+      LEFT JOIN players prev ON prev.id = a.previous_player_id
+      LEFT JOIN players p ON p.id = a.player_id
+      WHERE a.draft_id = $1
+      ORDER BY a.created_at DESC, a.id DESC`,
+      [draftId]
+    );
+
+    return result.rows.map(row => DraftPickAudit.fromDatabase(row));
+  }
+
   async getAvailablePlayers(
     draftId: number,
     playerPool: string,
@@ -248,10 +337,20 @@ export class DraftRepository implements IDraftRepository {
       values.push(`%${filters.search}%`);
     }
 
+    // Restrict to specific players
+    if (filters?.sleeperIds) {
+      conditions.push(`sleeper_id = ANY($${paramIndex++})`);
+      values.push(filters.sleeperIds);
+    }
+
+    const adpJoin = buildAdpJoin(filters?.adp, paramIndex);
+    values.push(...adpJoin.values);
+
     const query = `
-      SELECT * FROM players
+      SELECT players.*, adp.adp FROM players
+      ${adpJoin.join}
       WHERE ${conditions.join(' AND ')}
-      ORDER BY full_name
+      ORDER BY ${getPlayerOrderBy(filters?.sort)}
       LIMIT 500
     `;
 
@@ -299,6 +398,40 @@ export class DraftRepository implements IDraftRepository {
     }
   }
 
+  async getAutopickSettings(leagueId: number, rosterId: number): Promise<AutopickSettings> {
+    const result = await this.db.query(
+      'SELECT autopick_strategy, autopick_position_priority FROM rosters WHERE league_id = $1 AND id = $2',
+      [leagueId, rosterId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Roster ${rosterId} not found in league ${leagueId}`);
+    }
+
+    return {
+      strategy: result.rows[0].autopick_strategy,
+      positionPriority: result.rows[0].autopick_position_priority || [],
+    };
+  }
+
+  async setAutopickSettings(
+    leagueId: number,
+    rosterId: number,
+    settings: AutopickSettings
+  ): Promise<void> {
+    const result = await this.db.query(
+      `UPDATE rosters
+       SET autopick_strategy = $1, autopick_position_priority = $2
+       WHERE league_id = $3 AND id = $4
+       RETURNING id`,
+      [settings.strategy, JSON.stringify(settings.positionPriority), leagueId, rosterId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Roster ${rosterId} not found in league ${leagueId}`);
+    }
+  }
+
   async getAllAutopickStatuses(leagueId: number): Promise<Map<number, boolean>> {
     const result = await this.db.query(
       'SELECT id, autopick_enabled FROM rosters WHERE league_id = $1',
@@ -0,0 +1,184 @@
+import { Pool } from 'pg';
+import {
+  IMatchupRepository,
+  CreateMatchupData,
+  MatchupScoreUpdate,
+} from '../../domain/repositories/IMatchupRepository';
+import { Matchup, MatchupSource } from '../../domain/models/Matchup';
+
+const MATCHUP_SELECT = `
+  SELECT
+    m.*,
+    r1.roster_id as roster1_number,
+    r2.roster_id as roster2_number,
+    u1.username as roster1_username,
+    u2.username as roster2_username
+  FROM matchups m
+  INNER JOIN rosters r1 ON r1.id = m.roster1_id
+  INNER JOIN rosters r2 ON r2.id = m.roster2_id
+  LEFT JOIN users u1 ON u1.id = r1.user_id
+  LEFT JOIN users u2 ON u2.id = r2.user_id
+`;
+
+/**
+ * PostgreSQL implementation of Matchup Repository
+ */
+export class MatchupRepository implements IMatchupRepository {
+  constructor(private readonly db: Pool) {}
+
+  async findByLeagueAndWeek(
+    leagueId: number,
+    season: string,
+    week: number
+  ): Promise<Matchup[]> {
+    const result = await this.db.query(
+      `${MATCHUP_SELECT}
+       WHERE m.league_id = $1 AND m.season = $2 AND m.week = $3
+       ORDER BY m.id`,
+      [leagueId, season, week]
+    );
+
+    return result.rows.map(row => Matchup.fromDatabase(row));
+  }
+
+  async findByRosterAndWeek(
+    leagueId: number,
+    season: string,
+    week: number,
+    rosterId: number
+  ): Promise<Matchup | null> {
+    const result = await this.db.query(
+      `${MATCHUP_SELECT}
+       WHERE m.league_id = $1 AND m.season = $2 AND m.week = $3
+         AND (m.roster1_id = $4 OR m.roster2_id = $4)`,
+      [leagueId, season, week, rosterId]
+    );
+
+    return result.rows.length > 0 ? Matchup.fromDatabase(result.rows[0]) : null;
+  }
+
+  async createForWeek(
+    leagueId: number,
+    season: string,
+    week: number,
+    pairings: CreateMatchupData[],
+    source: MatchupSource
+  ): Promise<Matchup[]> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const pairing of pairings) {
+        await client.query(
+          `INSERT INTO matchups
+           (league_id, season, week, roster1_id, roster2_id, source, bracket, bracket_round, bracket_slot)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           ON CONFLICT DO NOTHING`,
+          [
+            leagueId,
+            season,
+            week,
+            pairing.roster1Id,
+            pairing.roster2Id,
+            source,
+            pairing.bracket ?? null,
+            pairing.bracketRound ?? null,
+            pairing.bracketSlot ?? null,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.findByLeagueAndWeek(leagueId, season, week);
+  }
+
+  async findFinalByLeague(leagueId: number, season: string): Promise<Matchup[]> {
+    const result = await this.db.query(
+      `${MATCHUP_SELECT}
+       WHERE m.league_id = $1 AND m.season = $2 AND m.is_final = TRUE
+       ORDER BY m.week, m.id`,
+      [leagueId, season]
+    );
+
+    return result.rows.map(row => Matchup.fromDatabase(row));
+  }
+
+  async findBracketByLeague(leagueId: number, season: string): Promise<Matchup[]> {
+    const result = await this.db.query(
+      `${MATCHUP_SELECT}
+       WHERE m.league_id = $1 AND m.season = $2 AND m.bracket IS NOT NULL
+       ORDER BY m.bracket, m.bracket_round, m.bracket_slot`,
+      [leagueId, season]
+    );
+
+    return result.rows.map(row => Matchup.fromDatabase(row));
+  }
+
+  async updateScores(updates: MatchupScoreUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const update of updates) {
+        await client.query(
+          `UPDATE matchups
+           SET roster1_score = $1, roster2_score = $2
+           WHERE id = $3 AND is_final = FALSE`,
+          [update.roster1Score, update.roster2Score, update.matchupId]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async finalizeWeek(
+    leagueId: number,
+    season: string,
+    week: number
+  ): Promise<Matchup[]> {
+    await this.db.query(
+      `UPDATE matchups
+       SET is_final = TRUE,
+           finalized_at = NOW(),
+           winner_roster_id = CASE
+             WHEN COALESCE(roster1_score, 0) > COALESCE(roster2_score, 0) THEN roster1_id
+             WHEN COALESCE(roster2_score, 0) > COALESCE(roster1_score, 0) THEN roster2_id
+             ELSE NULL
+           END
+       WHERE league_id = $1 AND season = $2 AND week = $3 AND is_final = FALSE`,
+      [leagueId, season, week]
+    );
+
+    return this.findByLeagueAndWeek(leagueId, season, week);
+  }
+
+  async deleteByLeagueAndWeek(
+    leagueId: number,
+    season: string,
+    week: number
+  ): Promise<void> {
+    await this.db.query(
+      'DELETE FROM matchups WHERE league_id = $1 AND season = $2 AND week = $3',
+      [leagueId, season, week]
+    );
+  }
+
+  async deleteByLeagueId(leagueId: number): Promise<void> {
+    await this.db.query('DELETE FROM matchups WHERE league_id = $1', [leagueId]);
+  }
+}
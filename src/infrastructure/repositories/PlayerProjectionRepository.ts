@@ -1,6 +1,10 @@
 import { Pool } from 'pg';
 import { PlayerProjection } from '../../domain/models/PlayerProjection';
-import { IPlayerProjectionRepository, UpsertProjectionData } from '../../domain/repositories/IPlayerProjectionRepository';
+import {
+  IPlayerProjectionRepository,
+  UpsertProjectionData,
+  PlayerSeasonProjection,
+} from '../../domain/repositories/IPlayerProjectionRepository';
 
 export class PlayerProjectionRepository implements IPlayerProjectionRepository {
   constructor(private readonly db: Pool) {}
@@ -115,4 +119,28 @@ export class PlayerProjectionRepository implements IPlayerProjectionRepository {
 
     return result.rows.map(row => PlayerProjection.fromDatabase(row));
   }
+
+  async findSeasonTotals(
+    season: string,
+    seasonType: string = 'regular'
+  ): Promise<PlayerSeasonProjection[]> {
+    const result = await this.db.query(
+      `SELECT
+         player_sleeper_id,
+         COALESCE(SUM(proj_pts_ppr), 0) as proj_pts_ppr,
+         COALESCE(SUM(proj_pts_half_ppr), 0) as proj_pts_half_ppr,
+         COALESCE(SUM(proj_pts_std), 0) as proj_pts_std
+       FROM player_projections
+       WHERE season = $1 AND season_type = $2
+       GROUP BY player_sleeper_id`,
+      [season, seasonType]
+    );
+
+    return result.rows.map(row => ({
+      playerSleeperId: row.player_sleeper_id,
+      projPtsPpr: parseFloat(row.proj_pts_ppr),
+      projPtsHalfPpr: parseFloat(row.proj_pts_half_ppr),
+      projPtsStd: parseFloat(row.proj_pts_std),
+    }));
+  }
 }
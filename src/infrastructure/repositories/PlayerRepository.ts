@@ -1,6 +1,57 @@
 import { Pool } from 'pg';
 import { Player } from '../../domain/models/Player';
-import { IPlayerRepository, UpsertPlayerData, PlayerFilters } from '../../domain/repositories/IPlayerRepository';
+import {
+  IPlayerRepository,
+  UpsertPlayerData,
+  PlayerFilters,
+  AdpSegment,
+  PlayerSortField,
+} from '../../domain/repositories/IPlayerRepository';
+
+/**
+ * LEFT JOIN exposing each player's ADP over the matching player_adp segments as `adp.adp`
+ * Placeholders are numbered from startIndex; append the returned values after the query's other values.
+ */
+export function buildAdpJoin(segment: AdpSegment | undefined, startIndex: number): { join: string; values: any[] } {
+  const conditions: string[] = [];
+  const values: any[] = [];
+  let paramIndex = startIndex;
+
+  if (segment?.season) {
+    conditions.push(`season = $${paramIndex++}`);
+    values.push(segment.season);
+  }
+  if (segment?.scoringType) {
+    conditions.push(`scoring_type = $${paramIndex++}`);
+    values.push(segment.scoringType);
+  }
+  if (segment?.leagueSize) {
+    conditions.push(`league_size = $${paramIndex++}`);
+    values.push(segment.leagueSize);
+  }
+  if (segment?.draftType) {
+    conditions.push(`draft_type = $${paramIndex++}`);
+    values.push(segment.draftType);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const join = `
+      LEFT JOIN (
+        SELECT player_id, ROUND(SUM(total_pick_number)::numeric / SUM(times_drafted), 2) AS adp
+        FROM player_adp
+        ${whereClause}
+        GROUP BY player_id
+      ) adp ON adp.player_id = players.id`;
+
+  return { join, values };
+}
+
+/**
+ * ORDER BY for player lists; players nobody has drafted sort after everyone with an ADP
+ */
+export function getPlayerOrderBy(sort?: PlayerSortField): string {
+  return sort === 'adp' ? 'adp.adp ASC NULLS LAST, full_name' : 'full_name';
+}
 
 export class PlayerRepository implements IPlayerRepository {
   constructor(private readonly db: Pool) {}
@@ -114,6 +165,17 @@ export class PlayerRepository implements IPlayerRepository {
     return Player.fromDatabase(result.rows[0]);
   }
 
+  async findByIds(ids: number[]): Promise<Player[]> {
+    if (ids.length === 0) return [];
+
+    const result = await this.db.query(
+      'SELECT * FROM players WHERE id = ANY($1)',
+      [ids]
+    );
+
+    return result.rows.map(row => Player.fromDatabase(row));
+  }
+
   async findBySleeperId(sleeperId: string): Promise<Player | null> {
     const result = await this.db.query(
       'SELECT * FROM players WHERE sleeper_id = $1',
@@ -161,6 +223,11 @@ export class PlayerRepository implements IPlayerRepository {
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const adpJoin = buildAdpJoin(filters.adp, paramIndex);
+    params.push(...adpJoin.values);
+    paramIndex += adpJoin.values.length;
+
     const limitClause = filters.limit ? `LIMIT $${paramIndex++}` : '';
     const offsetClause = filters.offset ? `OFFSET $${paramIndex++}` : '';
 
@@ -168,9 +235,10 @@ export class PlayerRepository implements IPlayerRepository {
     if (filters.offset) params.push(filters.offset);
 
     const query = `
-      SELECT * FROM players
+      SELECT players.*, adp.adp FROM players
+      ${adpJoin.join}
       ${whereClause}
-      ORDER BY full_name
+      ORDER BY ${getPlayerOrderBy(filters.sort)}
       ${limitClause} ${offsetClause}
     `;
 
@@ -190,11 +258,21 @@ export class PlayerRepository implements IPlayerRepository {
     return result.rowCount || 0;
   }
 
-  async getActivePlayers(): Promise<Player[]> {
+  async getActivePlayers(sort?: PlayerSortField, adp?: AdpSegment): Promise<Player[]> {
+    const adpJoin = buildAdpJoin(adp, 1);
     const result = await this.db.query(
-      'SELECT * FROM players WHERE active = true ORDER BY full_name'
+      `SELECT players.*, adp.adp FROM players
+      ${adpJoin.join}
+      WHERE active = true
+      ORDER BY ${getPlayerOrderBy(sort)}`,
+      adpJoin.values
     );
 
     return result.rows.map(row => Player.fromDatabase(row));
   }
+
+  async refreshAdp(): Promise<void> {
+    // CONCURRENTLY allows reads during refresh (requires unique index)
+    await this.db.query('REFRESH MATERIALIZED VIEW CONCURRENTLY player_adp');
+  }
 }
@@ -170,6 +170,23 @@ export class PlayerStatsRepository implements IPlayerStatsRepository {
     return result.rows.map(row => PlayerWeeklyStat.fromDatabase(row));
   }
 
+  async findByPlayersAndWeek(
+    playerSleeperIds: string[],
+    season: string,
+    week: number,
+    seasonType: string = 'regular'
+  ): Promise<PlayerWeeklyStat[]> {
+    if (playerSleeperIds.length === 0) return [];
+
+    const result = await this.db.query(
+      `SELECT * FROM player_weekly_stats
+       WHERE player_sleeper_id = ANY($1) AND season = $2 AND week = $3 AND season_type = $4`,
+      [playerSleeperIds, season, week, seasonType]
+    );
+
+    return result.rows.map(row => PlayerWeeklyStat.fromDatabase(row));
+  }
+
   async getSeasonTotals(playerSleeperId: string, season: string): Promise<PlayerSeasonTotal | null> {
     const result = await this.db.query(
       `SELECT * FROM player_season_totals
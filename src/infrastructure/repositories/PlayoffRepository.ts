@@ -0,0 +1,66 @@
+import { Pool } from 'pg';
+import {
+  IPlayoffRepository,
+  PlayoffSeed,
+  CreatePlayoffSeedData,
+} from '../../domain/repositories/IPlayoffRepository';
+
+/**
+ * PostgreSQL implementation of Playoff Repository
+ */
+export class PlayoffRepository implements IPlayoffRepository {
+  constructor(private readonly db: Pool) {}
+
+  async findSeeds(leagueId: number, season: string): Promise<PlayoffSeed[]> {
+    const result = await this.db.query(
+      `SELECT ps.roster_id, ps.bracket, ps.seed, r.roster_id as roster_number, u.username
+       FROM playoff_seeds ps
+       INNER JOIN rosters r ON r.id = ps.roster_id
+       LEFT JOIN users u ON u.id = r.user_id
+       WHERE ps.league_id = $1 AND ps.season = $2
+       ORDER BY ps.bracket DESC, ps.seed ASC`,
+      [leagueId, season]
+    );
+
+    return result.rows.map(row => ({
+      rosterId: row.roster_id,
+      bracket: row.bracket,
+      seed: row.seed,
+      rosterNumber: row.roster_number,
+      username: row.username,
+    }));
+  }
+
+  async createSeeds(
+    leagueId: number,
+    season: string,
+    seeds: CreatePlayoffSeedData[]
+  ): Promise<PlayoffSeed[]> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const seed of seeds) {
+        await client.query(
+          `INSERT INTO playoff_seeds (league_id, season, roster_id, bracket, seed)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT DO NOTHING`,
+          [leagueId, season, seed.rosterId, seed.bracket, seed.seed]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return this.findSeeds(leagueId, season);
+  }
+
+  async deleteByLeagueId(leagueId: number): Promise<void> {
+    await this.db.query('DELETE FROM playoff_seeds WHERE league_id = $1', [leagueId]);
+  }
+}
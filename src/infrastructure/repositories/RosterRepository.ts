@@ -4,6 +4,7 @@ import {
   Roster,
   CreateRosterParams,
   LeagueMember,
+  LineupUpdateResult,
   User,
 } from '../../domain/repositories/IRosterRepository';
 
@@ -101,6 +102,52 @@ export class RosterRepository implements IRosterRepository {
     return result.rows[0];
   }
 
+  async updateLineup(
+    leagueId: number,
+    rosterId: number,
+    lineup: { starters: Array<number | null>; bench: number[] },
+    validate: (roster: Roster) => string | null
+  ): Promise<LineupUpdateResult> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the roster so a waiver run, free agent add or trade can't change it mid-update
+      const locked = await client.query<Roster>(
+        'SELECT * FROM rosters WHERE league_id = $1 AND roster_id = $2 FOR UPDATE',
+        [leagueId, rosterId]
+      );
+
+      if (locked.rows.length === 0) {
+        throw new Error(
+          `Roster not found: league_id=${leagueId}, roster_id=${rosterId}`
+        );
+      }
+
+      const failure = validate(locked.rows[0]);
+      if (failure) {
+        await client.query('ROLLBACK');
+        return { roster: locked.rows[0], failure };
+      }
+
+      const result = await client.query<Roster>(
+        `UPDATE rosters
+         SET starters = $1, bench = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3
+         RETURNING *`,
+        [JSON.stringify(lineup.starters), JSON.stringify(lineup.bench), locked.rows[0].id]
+      );
+
+      await client.query('COMMIT');
+      return { roster: result.rows[0], failure: null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async deleteByLeagueId(leagueId: number): Promise<void> {
     await this.db.query('DELETE FROM rosters WHERE league_id = $1', [leagueId]);
   }
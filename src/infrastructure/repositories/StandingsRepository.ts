@@ -0,0 +1,86 @@
+import { Pool } from 'pg';
+import {
+  IStandingsRepository,
+  StandingData,
+} from '../../domain/repositories/IStandingsRepository';
+import { Standing } from '../../domain/models/Standing';
+
+/**
+ * PostgreSQL implementation of Standings Repository
+ */
+export class StandingsRepository implements IStandingsRepository {
+  constructor(private readonly db: Pool) {}
+
+  async findByLeague(leagueId: number, season: string): Promise<Standing[]> {
+    const result = await this.db.query(
+      `SELECT
+        r.league_id,
+        $2::varchar as season,
+        r.id as roster_id,
+        r.roster_id as roster_number,
+        u.username,
+        s.wins,
+        s.losses,
+        s.ties,
+        s.points_for,
+        s.points_against,
+        s.streak,
+        s.updated_at
+      FROM rosters r
+      LEFT JOIN users u ON u.id = r.user_id
+      LEFT JOIN standings s
+        ON s.roster_id = r.id AND s.league_id = r.league_id AND s.season = $2
+      WHERE r.league_id = $1
+      ORDER BY r.roster_id`,
+      [leagueId, season]
+    );
+
+    return result.rows.map(row => Standing.fromDatabase(row));
+  }
+
+  async replaceForLeague(
+    leagueId: number,
+    season: string,
+    standings: StandingData[]
+  ): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        'DELETE FROM standings WHERE league_id = $1 AND season = $2',
+        [leagueId, season]
+      );
+
+      for (const standing of standings) {
+        await client.query(
+          `INSERT INTO standings
+           (league_id, season, roster_id, wins, losses, ties, points_for, points_against, streak)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            leagueId,
+            season,
+            standing.rosterId,
+            standing.wins,
+            standing.losses,
+            standing.ties,
+            standing.pointsFor,
+            standing.pointsAgainst,
+            standing.streak,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteByLeagueId(leagueId: number): Promise<void> {
+    await this.db.query('DELETE FROM standings WHERE league_id = $1', [leagueId]);
+  }
+}
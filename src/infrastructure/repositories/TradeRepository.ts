@@ -0,0 +1,257 @@
+import { Pool } from 'pg';
+import { Trade, TradeItem, TradeStatus } from '../../domain/models/Trade';
+import {
+  ITradeRepository,
+  CreateTradeData,
+  TradeStatusFields,
+  TradeExecution,
+  TradeRosterResolution,
+  TradePickTransfer,
+} from '../../domain/repositories/ITradeRepository';
+import { Roster } from '../../domain/repositories/IRosterRepository';
+
+const TRADE_SELECT = `
+  SELECT
+    t.*,
+    pr.roster_id as proposer_roster_number,
+    rr.roster_id as receiver_roster_number,
+    pu.username as proposer_username,
+    ru.username as receiver_username,
+    (SELECT COUNT(*) FROM trade_veto_votes v WHERE v.trade_id = t.id) as veto_count
+  FROM trades t
+  INNER JOIN rosters pr ON pr.id = t.proposer_roster_id
+  INNER JOIN rosters rr ON rr.id = t.receiver_roster_id
+  LEFT JOIN users pu ON pu.id = pr.user_id
+  LEFT JOIN users ru ON ru.id = rr.user_id
+`;
+
+/**
+ * PostgreSQL implementation of Trade Repository
+ */
+export class TradeRepository implements ITradeRepository {
+  constructor(private readonly db: Pool) {}
+
+  async findById(tradeId: number): Promise<Trade | null> {
+    const result = await this.db.query(`${TRADE_SELECT} WHERE t.id = $1`, [tradeId]);
+    if (result.rows.length === 0) return null;
+
+    const trades = await this.withItems(result.rows);
+    return trades[0];
+  }
+
+  async findByLeague(leagueId: number, statuses?: TradeStatus[]): Promise<Trade[]> {
+    const result = statuses && statuses.length > 0
+      ? await this.db.query(
+          `${TRADE_SELECT} WHERE t.league_id = $1 AND t.status = ANY($2) ORDER BY t.created_at DESC`,
+          [leagueId, statuses]
+        )
+      : await this.db.query(
+          `${TRADE_SELECT} WHERE t.league_id = $1 ORDER BY t.created_at DESC`,
+          [leagueId]
+        );
+
+    return this.withItems(result.rows);
+  }
+
+  async findReadyToExecute(now: Date): Promise<Trade[]> {
+    const result = await this.db.query(
+      `${TRADE_SELECT}
+       WHERE t.status = 'accepted' AND COALESCE(t.review_ends_at, t.accepted_at) <= $1
+       ORDER BY COALESCE(t.review_ends_at, t.accepted_at) ASC`,
+      [now]
+    );
+
+    return this.withItems(result.rows);
+  }
+
+  async create(data: CreateTradeData): Promise<Trade> {
+    const client = await this.db.connect();
+    let tradeId: number;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO trades (league_id, proposer_roster_id, receiver_roster_id, parent_trade_id, message)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [data.leagueId, data.proposerRosterId, data.receiverRosterId, data.parentTradeId, data.message]
+      );
+      tradeId = result.rows[0].id;
+
+      for (const item of data.items) {
+        await client.query(
+          `INSERT INTO trade_items (
+             trade_id, player_id, draft_id, pick_round, pick_original_roster_id, from_roster_id, to_roster_id
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [
+            tradeId,
+            item.playerId,
+            item.draftId,
+            item.pickRound,
+            item.pickOriginalRosterId,
+            item.fromRosterId,
+            item.toRosterId,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.findById(tradeId))!;
+  }
+
+  async transitionStatus(
+    tradeId: number,
+    from: TradeStatus[],
+    to: TradeStatus,
+    fields: TradeStatusFields = {}
+  ): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE trades
+       SET status = $1,
+           accepted_at = COALESCE($2, accepted_at),
+           review_ends_at = CASE WHEN $3::boolean THEN $4 ELSE review_ends_at END,
+           failure_reason = COALESCE($5, failure_reason)
+       WHERE id = $6 AND status = ANY($7)`,
+      [
+        to,
+        fields.acceptedAt ?? null,
+        fields.reviewEndsAt !== undefined,
+        fields.reviewEndsAt ?? null,
+        fields.failureReason ?? null,
+        tradeId,
+        from,
+      ]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async addVetoVote(tradeId: number, rosterId: number): Promise<number> {
+    await this.db.query(
+      `INSERT INTO trade_veto_votes (trade_id, roster_id)
+       VALUES ($1, $2)
+       ON CONFLICT (trade_id, roster_id) DO NOTHING`,
+      [tradeId, rosterId]
+    );
+
+    const result = await this.db.query(
+      'SELECT COUNT(*) FROM trade_veto_votes WHERE trade_id = $1',
+      [tradeId]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async execute(
+    tradeId: number,
+    from: TradeStatus[],
+    rosterIds: number[],
+    resolve: (rosters: Roster[]) => TradeRosterResolution,
+    picks: TradePickTransfer[]
+  ): Promise<TradeExecution> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE trades
+         SET status = 'completed', completed_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = ANY($2)`,
+        [tradeId, from]
+      );
+
+      if ((result.rowCount ?? 0) === 0) {
+        await client.query('ROLLBACK');
+        return { executed: false, failure: null };
+      }
+
+      // Lock both rosters so a waiver run or free agent move can't change them mid-trade
+      const rosterResult = await client.query(
+        'SELECT * FROM rosters WHERE id = ANY($1) ORDER BY roster_id FOR UPDATE',
+        [rosterIds]
+      );
+
+      const { failure, rosters } = resolve(rosterResult.rows);
+      if (failure) {
+        await client.query('ROLLBACK');
+        return { executed: false, failure };
+      }
+
+      for (const roster of rosters) {
+        await client.query(
+          `UPDATE rosters
+           SET starters = $1, bench = $2, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $3`,
+          [JSON.stringify(roster.starters), JSON.stringify(roster.bench), roster.rosterId]
+        );
+      }
+
+      for (const pick of picks) {
+        await client.query(
+          `INSERT INTO draft_pick_assets (draft_id, round, original_roster_id, current_roster_id)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (draft_id, round, original_roster_id)
+           DO UPDATE SET current_roster_id = EXCLUDED.current_roster_id, updated_at = CURRENT_TIMESTAMP`,
+          [pick.draftId, pick.round, pick.originalRosterId, pick.toRosterId]
+        );
+      }
+
+      await client.query('COMMIT');
+      return { executed: true, failure: null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteByLeagueId(leagueId: number): Promise<void> {
+    await this.db.query('DELETE FROM trades WHERE league_id = $1', [leagueId]);
+  }
+
+  /**
+   * Load items for trade rows and build Trade models
+   */
+  private async withItems(rows: any[]): Promise<Trade[]> {
+    if (rows.length === 0) return [];
+
+    const itemsResult = await this.db.query(
+      `SELECT ti.*, p.full_name as player_name, p.position as player_position, p.team as player_team,
+              ou.username as pick_original_username
+       FROM trade_items ti
+       LEFT JOIN players p ON p.id = ti.player_id
+       LEFT JOIN rosters o ON o.id = ti.pick_original_roster_id
+       LEFT JOIN users ou ON ou.id = o.user_id
+       WHERE ti.trade_id = ANY($1)
+       ORDER BY ti.id ASC`,
+      [rows.map(row => row.id)]
+    );
+
+    const itemsByTrade = new Map<number, TradeItem[]>();
+    for (const item of itemsResult.rows) {
+      const items = itemsByTrade.get(item.trade_id) || [];
+      items.push({
+        playerId: item.player_id,
+        draftId: item.draft_id,
+        pickRound: item.pick_round,
+        pickOriginalRosterId: item.pick_original_roster_id,
+        fromRosterId: item.from_roster_id,
+        toRosterId: item.to_roster_id,
+        playerName: item.player_name,
+        playerPosition: item.player_position,
+        playerTeam: item.player_team,
+        pickOriginalUsername: item.pick_original_username,
+      });
+      itemsByTrade.set(item.trade_id, items);
+    }
+
+    return rows.map(row => Trade.fromDatabase(row, itemsByTrade.get(row.id) || []));
+  }
+}
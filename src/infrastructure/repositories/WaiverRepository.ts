@@ -0,0 +1,278 @@
+import { Pool } from 'pg';
+import { WaiverClaim, WaiverClaimStatus } from '../../domain/models/WaiverClaim';
+import {
+  IWaiverRepository,
+  CreateWaiverClaimData,
+  WaiverPlayer,
+  FreeAgentMove,
+  FreeAgentMoveResult,
+  FreeAgentRosterResolution,
+  WaiverRunResult,
+  WaiverRunState,
+} from '../../domain/repositories/IWaiverRepository';
+import { Roster } from '../../domain/repositories/IRosterRepository';
+
+const CLAIM_SELECT = `
+  SELECT
+    wc.*,
+    p.full_name as player_name,
+    dp.full_name as drop_player_name,
+    r.roster_id as roster_number,
+    u.username
+  FROM waiver_claims wc
+  INNER JOIN rosters r ON r.id = wc.roster_id
+  LEFT JOIN users u ON u.id = r.user_id
+  LEFT JOIN players p ON p.id = wc.player_id
+  LEFT JOIN players dp ON dp.id = wc.drop_player_id
+`;
+
+/**
+ * PostgreSQL implementation of Waiver Repository
+ */
+export class WaiverRepository implements IWaiverRepository {
+  constructor(private readonly db: Pool) {}
+
+  async findById(claimId: number): Promise<WaiverClaim | null> {
+    const result = await this.db.query(`${CLAIM_SELECT} WHERE wc.id = $1`, [claimId]);
+    return result.rows.length > 0 ? WaiverClaim.fromDatabase(result.rows[0]) : null;
+  }
+
+  async findByRoster(rosterId: number, status?: WaiverClaimStatus): Promise<WaiverClaim[]> {
+    const result = status
+      ? await this.db.query(
+          `${CLAIM_SELECT} WHERE wc.roster_id = $1 AND wc.status = $2 ORDER BY wc.claim_order ASC, wc.id ASC`,
+          [rosterId, status]
+        )
+      : await this.db.query(
+          `${CLAIM_SELECT} WHERE wc.roster_id = $1 ORDER BY wc.created_at DESC`,
+          [rosterId]
+        );
+
+    return result.rows.map(row => WaiverClaim.fromDatabase(row));
+  }
+
+  async findPendingByLeague(leagueId: number): Promise<WaiverClaim[]> {
+    const result = await this.db.query(
+      `${CLAIM_SELECT}
+       WHERE wc.league_id = $1 AND wc.status = 'pending'
+       ORDER BY wc.roster_id ASC, wc.claim_order ASC, wc.id ASC`,
+      [leagueId]
+    );
+
+    return result.rows.map(row => WaiverClaim.fromDatabase(row));
+  }
+
+  async create(data: CreateWaiverClaimData): Promise<WaiverClaim> {
+    const result = await this.db.query(
+      `INSERT INTO waiver_claims (league_id, roster_id, player_id, drop_player_id, bid_amount, claim_order)
+       VALUES (
+         $1, $2, $3, $4, $5,
+         (SELECT COALESCE(MAX(claim_order), 0) + 1 FROM waiver_claims WHERE roster_id = $2 AND status = 'pending')
+       )
+       RETURNING id`,
+      [data.leagueId, data.rosterId, data.playerId, data.dropPlayerId, data.bidAmount]
+    );
+
+    return (await this.findById(result.rows[0].id))!;
+  }
+
+  async cancel(claimId: number): Promise<void> {
+    await this.db.query(
+      `UPDATE waiver_claims SET status = 'cancelled' WHERE id = $1 AND status = 'pending'`,
+      [claimId]
+    );
+  }
+
+  async reorder(rosterId: number, claimIds: number[]): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < claimIds.length; i++) {
+        await client.query(
+          `UPDATE waiver_claims SET claim_order = $1
+           WHERE id = $2 AND roster_id = $3 AND status = 'pending'`,
+          [i + 1, claimIds[i], rosterId]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findWaiverPlayers(leagueId: number): Promise<WaiverPlayer[]> {
+    const result = await this.db.query(
+      `SELECT wp.player_id, wp.dropped_by_roster_id, wp.created_at, p.full_name as player_name
+       FROM waiver_players wp
+       LEFT JOIN players p ON p.id = wp.player_id
+       WHERE wp.league_id = $1
+       ORDER BY wp.created_at DESC`,
+      [leagueId]
+    );
+
+    return result.rows.map(row => ({
+      playerId: row.player_id,
+      droppedByRosterId: row.dropped_by_roster_id,
+      createdAt: row.created_at,
+      playerName: row.player_name,
+    }));
+  }
+
+  async isPlayerOnWaivers(leagueId: number, playerId: number): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM waiver_players WHERE league_id = $1 AND player_id = $2',
+      [leagueId, playerId]
+    );
+    return result.rows.length > 0;
+  }
+
+  async applyFreeAgentMove(
+    move: FreeAgentMove,
+    resolve: (rosters: Roster[]) => FreeAgentRosterResolution
+  ): Promise<FreeAgentMoveResult> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      const rostersResult = await client.query(
+        'SELECT * FROM rosters WHERE league_id = $1 ORDER BY roster_id ASC FOR UPDATE',
+        [move.leagueId]
+      );
+
+      const taken = await client.query(
+        `SELECT 1 FROM rosters
+         WHERE league_id = $1 AND (starters @> $2::jsonb OR bench @> $2::jsonb)
+         UNION ALL
+         SELECT 1 FROM waiver_players WHERE league_id = $1 AND player_id = $3`,
+        [move.leagueId, JSON.stringify([move.playerId]), move.playerId]
+      );
+
+      if (taken.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return { applied: false, failure: null };
+      }
+
+      const { failure, starters, bench } = resolve(rostersResult.rows);
+      if (failure) {
+        await client.query('ROLLBACK');
+        return { applied: false, failure };
+      }
+
+      await client.query(
+        `UPDATE rosters
+         SET starters = $1, bench = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [JSON.stringify(starters), JSON.stringify(bench), move.rosterId]
+      );
+
+      if (move.dropPlayerId !== null) {
+        await client.query(
+          `INSERT INTO waiver_players (league_id, player_id, dropped_by_roster_id)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (league_id, player_id) DO NOTHING`,
+          [move.leagueId, move.dropPlayerId, move.rosterId]
+        );
+      }
+
+      await client.query('COMMIT');
+      return { applied: true, failure: null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async applyWaiverRun(
+    leagueId: number,
+    resolve: (state: WaiverRunState) => WaiverRunResult
+  ): Promise<WaiverRunResult> {
+    const client = await this.db.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the league's rosters so lineup changes, adds and trades wait for the run
+      const rostersResult = await client.query(
+        'SELECT * FROM rosters WHERE league_id = $1 ORDER BY roster_id ASC FOR UPDATE',
+        [leagueId]
+      );
+
+      const claimsResult = await client.query(
+        `${CLAIM_SELECT}
+         WHERE wc.league_id = $1 AND wc.status = 'pending'
+         ORDER BY wc.roster_id ASC, wc.claim_order ASC, wc.id ASC
+         FOR UPDATE OF wc`,
+        [leagueId]
+      );
+
+      const run = resolve({
+        rosters: rostersResult.rows,
+        claims: claimsResult.rows.map(row => WaiverClaim.fromDatabase(row)),
+      });
+
+      for (const claim of run.claims) {
+        await client.query(
+          `UPDATE waiver_claims
+           SET status = $1, failure_reason = $2, processed_at = CURRENT_TIMESTAMP
+           WHERE id = $3 AND status = 'pending'`,
+          [claim.status, claim.failureReason, claim.claimId]
+        );
+      }
+
+      for (const roster of run.rosters) {
+        await client.query(
+          `UPDATE rosters
+           SET starters = $1, bench = $2, waiver_priority = $3, faab_remaining = $4,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $5`,
+          [
+            JSON.stringify(roster.starters),
+            JSON.stringify(roster.bench),
+            roster.waiverPriority,
+            roster.faabRemaining,
+            roster.rosterId,
+          ]
+        );
+      }
+
+      await client.query(
+        'DELETE FROM waiver_players WHERE league_id = $1 AND created_at < $2',
+        [leagueId, run.startedAt]
+      );
+
+      for (const dropped of run.droppedPlayers) {
+        await client.query(
+          `INSERT INTO waiver_players (league_id, player_id, dropped_by_roster_id)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (league_id, player_id)
+           DO UPDATE SET dropped_by_roster_id = EXCLUDED.dropped_by_roster_id, created_at = CURRENT_TIMESTAMP`,
+          [leagueId, dropped.playerId, dropped.droppedByRosterId]
+        );
+      }
+
+      await client.query(
+        'UPDATE leagues SET last_waiver_run_at = $1 WHERE id = $2',
+        [run.startedAt, leagueId]
+      );
+
+      await client.query('COMMIT');
+      return run;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteByLeagueId(leagueId: number): Promise<void> {
+    await this.db.query('DELETE FROM waiver_claims WHERE league_id = $1', [leagueId]);
+    await this.db.query('DELETE FROM waiver_players WHERE league_id = $1', [leagueId]);
+  }
+}
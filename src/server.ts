@@ -10,10 +10,17 @@ import { pool } from "./db/pool";
 import { Container } from "./infrastructure/di/Container";
 import { errorHandler } from "./app/common/middleware/error.middleware";
 import { initializeSocketService } from "./app/runtime/socket/socket.service";
-import { processExpiredDerbyPicks } from "./app/runtime/jobs/derby-autopick.service";
+import { processExpiredDerbyPicks, processExpiredMatchupDerbyPicks } from "./app/runtime/jobs/derby-autopick.service";
 import { processExpiredDraftPicks } from "./app/runtime/jobs/draft-autopick.service";
+import { processExpiredMatchupDraftPicks } from "./app/runtime/jobs/matchup-draft-autopick.service";
 import { syncPlayersFromSleeper } from "./app/runtime/jobs/player-sync.service";
 import { syncStatsFromSleeper, syncProjectionsOnly } from "./app/runtime/jobs/stats-sync.service";
+import { processCompletedWeeks } from "./app/runtime/jobs/week-finalization.service";
+import { processWaivers } from "./app/runtime/jobs/waiver-processing.service";
+import { processTradeReviews } from "./app/runtime/jobs/trade-review.service";
+import { processScheduledDrafts } from "./app/runtime/jobs/draft-scheduler.service";
+import { processMockDraftPicks } from "./app/runtime/jobs/mock-draft.service";
+import { refreshAdp } from "./app/runtime/jobs/adp-refresh.service";
 import { swaggerSpec } from "./config/swagger.config";
 import logger, { logInfo, logError, logWarn } from "./infrastructure/logger/Logger";
 
@@ -129,8 +136,9 @@ server.listen(PORT, () => {
   if (env.ENABLE_DERBY_AUTOPICK) {
     cron.schedule('*/1 * * * * *', async () => {
       await processExpiredDerbyPicks();
+      await processExpiredMatchupDerbyPicks();
     });
-    logInfo(`Derby auto-pick service initialized (checks every 1 second)`);
+    logInfo(`Derby auto-pick service initialized for drafts and matchup drafts (checks every 1 second)`);
   } else {
     logInfo(`Derby auto-pick service disabled via ENABLE_DERBY_AUTOPICK=false`);
   }
@@ -145,6 +153,16 @@ server.listen(PORT, () => {
     logInfo(`Draft auto-pick service disabled via ENABLE_DRAFT_AUTOPICK=false`);
   }
 
+  // Initialize matchup draft auto-pick cron job (runs every 5 seconds, like the player draft)
+  if (env.ENABLE_MATCHUP_DRAFT_AUTOPICK) {
+    cron.schedule('*/5 * * * * *', async () => {
+      await processExpiredMatchupDraftPicks();
+    });
+    logInfo(`Matchup draft auto-pick service initialized (checks every 5 seconds)`);
+  } else {
+    logInfo(`Matchup draft auto-pick service disabled via ENABLE_MATCHUP_DRAFT_AUTOPICK=false`);
+  }
+
   // Initialize player sync cron job (runs every 12 hours)
   if (env.ENABLE_PLAYER_SYNC) {
     cron.schedule('0 */12 * * *', async () => {
@@ -165,6 +183,66 @@ server.listen(PORT, () => {
     logInfo(`Projections sync service initialized (runs every 15 minutes)`);
   }
 
+  // Initialize week finalization cron job (runs every 10 minutes)
+  if (env.ENABLE_WEEK_FINALIZATION) {
+    cron.schedule('*/10 * * * *', async () => {
+      await processCompletedWeeks();
+    });
+    logInfo(`Week finalization service initialized (runs every 10 minutes)`);
+  } else {
+    logInfo(`Week finalization service disabled via ENABLE_WEEK_FINALIZATION=false`);
+  }
+
+  // Initialize waiver processing cron job (runs hourly, each league on its waiver day)
+  if (env.ENABLE_WAIVER_PROCESSING) {
+    cron.schedule('0 * * * *', async () => {
+      await processWaivers();
+    });
+    logInfo(`Waiver processing service initialized (runs hourly)`);
+  } else {
+    logInfo(`Waiver processing service disabled via ENABLE_WAIVER_PROCESSING=false`);
+  }
+
+  // Initialize trade review cron job (runs every minute, executes trades after the veto window)
+  if (env.ENABLE_TRADE_PROCESSING) {
+    cron.schedule('* * * * *', async () => {
+      await processTradeReviews();
+    });
+    logInfo(`Trade review service initialized (runs every minute)`);
+  } else {
+    logInfo(`Trade review service disabled via ENABLE_TRADE_PROCESSING=false`);
+  }
+
+  // Initialize draft scheduler cron job (runs every minute, posts reminders and auto-starts drafts)
+  if (env.ENABLE_DRAFT_SCHEDULER) {
+    cron.schedule('* * * * *', async () => {
+      await processScheduledDrafts();
+    });
+    logInfo(`Draft scheduler service initialized (runs every minute)`);
+  } else {
+    logInfo(`Draft scheduler service disabled via ENABLE_DRAFT_SCHEDULER=false`);
+  }
+
+  // Initialize mock draft cron job (runs every 1 second, makes CPU picks at each mock draft's pick speed)
+  if (env.ENABLE_MOCK_DRAFTS) {
+    cron.schedule('*/1 * * * * *', async () => {
+      await processMockDraftPicks();
+    });
+    logInfo(`Mock draft CPU pick service initialized (checks every 1 second)`);
+  } else {
+    logInfo(`Mock draft CPU pick service disabled via ENABLE_MOCK_DRAFTS=false`);
+  }
+
+  // Initialize ADP refresh cron job (runs hourly, recalculates ADP from completed drafts)
+  if (env.ENABLE_ADP_REFRESH) {
+    cron.schedule('30 * * * *', async () => {
+      await refreshAdp();
+    });
+    logInfo(`ADP refresh service initialized (runs hourly)`);
+  } else {
+    logInfo(`ADP refresh service disabled via ENABLE_ADP_REFRESH=false`);
+  }
+
   // Initialize live score updates service (syncs stats every 10 seconds during games)
   if (env.ENABLE_STATS_SYNC) {
     const liveScoreService = Container.getInstance().getLiveScoreService();